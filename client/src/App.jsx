@@ -3,18 +3,32 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { useAuth } from "./hooks/useAuth";
+import { useAuth, homePathFor } from "./hooks/useAuth";
 import { AppLayout } from "./components/layout/AppLayout";
 import NotFound from "@/pages/not-found";
 import Login from "./pages/auth/Login";
+import AcceptInvite from "./pages/auth/AcceptInvite";
+import ResetPassword from "./pages/auth/ResetPassword";
+import VerifyEmail from "./pages/auth/VerifyEmail";
+import AppointmentResponse from "./pages/appointments/AppointmentResponse";
+import Book from "./pages/booking/Book";
+import ConfirmBooking from "./pages/booking/ConfirmBooking";
+import Portal from "./pages/portal/Portal";
+import PortalSignIn from "./pages/portal/PortalSignIn";
 import Dashboard from "./pages/dashboard/Dashboard";
 import Appointments from "./pages/appointments/Appointments";
 import Staff from "./pages/staff/Staff";
 import Patients from "./pages/patients/Patients";
 import Services from "./pages/services/Services";
 import Reports from "./pages/reports/Reports";
+import Billing from "./pages/billing/Billing";
 import Subscribe from "./pages/subscription/Subscribe";
 import DoctorManagement from "./pages/admin/DoctorManagement";
+import FrontDesk from "./pages/receptionists/FrontDesk";
+import MySchedule from "./pages/schedule/MySchedule";
+import Security from "./pages/security/Security";
+import AuditLog from "./pages/audit/AuditLog";
+import Reminders from "./pages/reminders/Reminders";
 
 function ProtectedRoute({ component: Component, ...props }) {
   const { isAuthenticated, loading } = useAuth();
@@ -39,7 +53,8 @@ function ProtectedRoute({ component: Component, ...props }) {
 }
 
 function Router() {
-  const { isAuthenticated, loading } = useAuth();
+  const { isAuthenticated, loading, user } = useAuth();
+  const homePath = homePathFor(user);
   
   if (loading) {
     return (
@@ -55,18 +70,32 @@ function Router() {
   return (
     <Switch>
       <Route path="/login">
-        {isAuthenticated ? <Redirect to="/dashboard" /> : <Login />}
+        {isAuthenticated ? <Redirect to={homePath} /> : <Login />}
       </Route>
       <Route path="/">
-        {isAuthenticated ? <Redirect to="/dashboard" /> : <Subscribe />}
+        {isAuthenticated ? <Redirect to={homePath} /> : <Subscribe />}
       </Route>
-      <Route path="/dashboard" component={() => <ProtectedRoute component={Dashboard} />} />
+      <Route path="/accept-invite/:token" component={AcceptInvite} />
+      <Route path="/reset-password/:token" component={ResetPassword} />
+      <Route path="/verify-email/:token" component={VerifyEmail} />
+      <Route path="/appointment-response/:token" component={AppointmentResponse} />
+      <Route path="/book/confirm/:token" component={ConfirmBooking} />
+      <Route path="/book/:slug" component={Book} />
+      <Route path="/portal/sign-in/:token" component={PortalSignIn} />
+      <Route path="/portal" component={Portal} />
+      <Route path="/dashboard" component={() => homePath === '/dashboard' ? <ProtectedRoute component={Dashboard} /> : <Redirect to={homePath} />} />
+      <Route path="/my-schedule" component={() => <ProtectedRoute component={MySchedule} />} />
       <Route path="/appointments" component={() => <ProtectedRoute component={Appointments} />} />
       <Route path="/staff" component={() => <ProtectedRoute component={Staff} />} />
       <Route path="/patients" component={() => <ProtectedRoute component={Patients} />} />
       <Route path="/services" component={() => <ProtectedRoute component={Services} />} />
       <Route path="/reports" component={() => <ProtectedRoute component={Reports} />} />
+      <Route path="/billing" component={() => <ProtectedRoute component={Billing} />} />
+      <Route path="/front-desk" component={() => <ProtectedRoute component={FrontDesk} />} />
       <Route path="/admin/doctors" component={() => <ProtectedRoute component={DoctorManagement} />} />
+      <Route path="/security" component={() => <ProtectedRoute component={Security} />} />
+      <Route path="/audit-log" component={() => <ProtectedRoute component={AuditLog} />} />
+      <Route path="/reminders" component={() => <ProtectedRoute component={Reminders} />} />
       <Route component={NotFound} />
     </Switch>
   );
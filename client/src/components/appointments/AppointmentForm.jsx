@@ -1,5 +1,4 @@
 import { useState, useEffect, useMemo } from 'react';
-import { store } from "../../store/index";
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,9 +8,12 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
 
 const appointmentSchema = z.object({
   patientId: z.number().min(1, 'Patient is required'),
@@ -20,11 +22,35 @@ const appointmentSchema = z.object({
   startTime: z.string().min(1, 'Start time is required'),
   endTime: z.string().min(1, 'End time is required'),
   notes: z.string().optional(),
-  status: z.enum(['scheduled', 'completed', 'cancelled', 'no_show']).default('scheduled'),
+  status: z.enum(['scheduled', 'confirmed', 'checked_in', 'completed', 'cancelled', 'no_show']).default('scheduled'),
 });
 
+const WEEKDAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
 export function AppointmentForm({ appointment, onSuccess, onCancel }) {
   const [selectedServiceId, setSelectedServiceId] = useState(null);
+  const [repeat, setRepeat] = useState({
+    enabled: false,
+    frequency: 'weekly',
+    interval: 1,
+    daysOfWeek: [],
+    dayOfMonth: '',
+    endDate: '',
+  });
+  const [seriesScope, setSeriesScope] = useState('this');
+  const [waiveLateCancelFee, setWaiveLateCancelFee] = useState(false);
+  const isSeriesOccurrence = !!appointment?.recurringRuleId;
+  const { isAdmin, isDoctor } = useAuth();
+  // Going past the cancellation policy is left to the practice, not the front desk
+  const canOverridePolicy = isAdmin || isDoctor;
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -71,21 +97,7 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
       debugger;
       try {
         setStaffLoading(true);
-        // Get token from the Redux store instead of localStorage
-        const token = store.getState().auth.token;
-        console.log('Using auth token:', token ? 'Token exists' : 'No token');
-        
-        const response = await fetch('/api/staff', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          },
-          credentials: 'include' // Include credentials for cookies
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Error ${response.status}: ${response.statusText}`);
-        }
-        
+        const response = await apiRequest('GET', '/api/staff');
         const data = await response.json();
         console.log('Staff data fetched directly:', data);
         
@@ -117,7 +129,9 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
   // Create/Update appointment mutation
   const saveAppointmentMutation = useMutation({
     mutationFn: async (data) => {
-      const url = appointment ? `/api/appointments/${appointment.id}` : '/api/appointments';
+      const url = appointment
+        ? `/api/appointments/${appointment.id}${isSeriesOccurrence ? `?scope=${seriesScope}` : ''}`
+        : '/api/appointments';
       const method = appointment ? 'PUT' : 'POST';
       
       const response = await apiRequest(method, url, data);
@@ -131,7 +145,21 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
       onSuccess?.();
     },
-    onError: (error) => {
+    onError: (error, data) => {
+      // The patient has used up their sessions for this service; booking past the limit is a deliberate choice
+      if (error.message?.includes('ALLOWANCE_EXHAUSTED') && !data.overrideAllowance) {
+        if (window.confirm('This patient has no sessions left for this service in the current allowance period. Book anyway?')) {
+          saveAppointmentMutation.mutate({ ...data, overrideAllowance: true });
+        }
+        return;
+      }
+      // Moved as often as the cancellation policy allows; the practice can still move it on purpose
+      if (error.message?.includes('RESCHEDULE_LIMIT') && canOverridePolicy && !data.overridePolicy) {
+        if (window.confirm('This appointment has been rescheduled as many times as the cancellation policy allows. Move it anyway?')) {
+          saveAppointmentMutation.mutate({ ...data, overridePolicy: true });
+        }
+        return;
+      }
       toast({
         title: 'Error',
         description: error.message || 'Failed to save appointment',
@@ -140,10 +168,70 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
     },
   });
 
+  // Create recurring series mutation
+  const createSeriesMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('POST', '/api/appointments/recurring', data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      const skipped = (reason) => result.conflicts
+        .filter(c => c.reason === reason)
+        .map(c => format(new Date(c.startTime), 'MMM d'));
+      const clashed = skipped('conflict');
+      const overAllowance = skipped('allowance');
+      toast({
+        title: 'Success',
+        description: [
+          `Booked ${result.booked.length} appointments.`,
+          clashed.length > 0 ? `Skipped ${clashed.length} that clashed: ${clashed.join(', ')}.` : '',
+          overAllowance.length > 0 ? `Skipped ${overAllowance.length} beyond the patient's allowance: ${overAllowance.join(', ')}.` : '',
+        ].filter(Boolean).join(' '),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create recurring appointments',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Cancelling inside the notice period charges the late-cancel fee unless it is waived here
+  const cancelling = !!appointment && appointment.status !== 'cancelled' && watch('status') === 'cancelled';
+
   const onSubmit = (data) => {
-    saveAppointmentMutation.mutate(data);
+    if (!appointment && repeat.enabled) {
+      createSeriesMutation.mutate({
+        appointment: data,
+        rule: {
+          frequency: repeat.frequency,
+          interval: parseInt(repeat.interval) || 1,
+          daysOfWeek: repeat.frequency === 'weekly' && repeat.daysOfWeek.length > 0 ? repeat.daysOfWeek : null,
+          dayOfMonth: repeat.frequency === 'monthly' && repeat.dayOfMonth ? parseInt(repeat.dayOfMonth) : null,
+          endDate: repeat.endDate ? new Date(`${repeat.endDate}T23:59:59`).toISOString() : null,
+        },
+      });
+      return;
+    }
+
+    saveAppointmentMutation.mutate(cancelling && canOverridePolicy && waiveLateCancelFee ? { ...data, waiveLateCancelFee: true } : data);
   };
 
+  const toggleRepeatDay = (day, checked) => {
+    setRepeat(prev => ({
+      ...prev,
+      daysOfWeek: checked
+        ? [...prev.daysOfWeek, day].sort()
+        : prev.daysOfWeek.filter(d => d !== day),
+    }));
+  };
+
+  const isSaving = saveAppointmentMutation.isPending || createSeriesMutation.isPending;
+
   return (
     <Card className="w-full max-w-2xl">
       <CardHeader>
@@ -278,6 +366,8 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="scheduled">Scheduled</SelectItem>
+                <SelectItem value="confirmed">Confirmed</SelectItem>
+                <SelectItem value="checked_in">Checked In</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
                 <SelectItem value="no_show">No Show</SelectItem>
@@ -286,6 +376,16 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
             {errors.status && (
               <p className="text-sm text-red-500">{errors.status.message}</p>
             )}
+            {cancelling && canOverridePolicy && (
+              <div className="flex items-center space-x-2 mt-2">
+                <Checkbox
+                  id="waiveLateCancelFee"
+                  checked={waiveLateCancelFee}
+                  onCheckedChange={(checked) => setWaiveLateCancelFee(!!checked)}
+                />
+                <Label htmlFor="waiveLateCancelFee">Waive any late-cancellation fee</Label>
+              </div>
+            )}
           </div>
 
           <div>
@@ -297,6 +397,110 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
             />
           </div>
 
+          {isSeriesOccurrence && (
+            <div>
+              <Label htmlFor="seriesScope">Apply changes to</Label>
+              <Select value={seriesScope} onValueChange={setSeriesScope}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select occurrences" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="this">This appointment only</SelectItem>
+                  <SelectItem value="following">This and following appointments</SelectItem>
+                  <SelectItem value="all">All appointments in the series</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {!appointment && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="repeat"
+                  checked={repeat.enabled}
+                  onCheckedChange={(checked) => setRepeat(prev => ({ ...prev, enabled: !!checked }))}
+                />
+                <Label htmlFor="repeat">Repeat</Label>
+              </div>
+
+              {repeat.enabled && (
+                <div className="space-y-4 p-4 border rounded-lg">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="repeatFrequency">Frequency</Label>
+                      <Select
+                        value={repeat.frequency}
+                        onValueChange={(value) => setRepeat(prev => ({ ...prev, frequency: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select frequency" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="repeatInterval">
+                        Every ({repeat.frequency === 'weekly' ? 'weeks' : 'months'})
+                      </Label>
+                      <Input
+                        id="repeatInterval"
+                        type="number"
+                        min={1}
+                        value={repeat.interval}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, interval: e.target.value }))}
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="repeatEndDate">Ends on</Label>
+                      <Input
+                        id="repeatEndDate"
+                        type="date"
+                        value={repeat.endDate}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, endDate: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+
+                  {repeat.frequency === 'weekly' ? (
+                    <div>
+                      <Label>On days (defaults to the start day)</Label>
+                      <div className="flex flex-wrap gap-4 mt-2">
+                        {WEEKDAYS.map((day) => (
+                          <div key={day.value} className="flex items-center space-x-1">
+                            <Checkbox
+                              id={`repeatDay${day.value}`}
+                              checked={repeat.daysOfWeek.includes(day.value)}
+                              onCheckedChange={(checked) => toggleRepeatDay(day.value, !!checked)}
+                            />
+                            <Label htmlFor={`repeatDay${day.value}`}>{day.label}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label htmlFor="repeatDayOfMonth">Day of month (defaults to the start day)</Label>
+                      <Input
+                        id="repeatDayOfMonth"
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={repeat.dayOfMonth}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, dayOfMonth: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2">
             {onCancel && (
               <Button type="button" variant="outline" onClick={onCancel}>
@@ -305,9 +509,9 @@ export function AppointmentForm({ appointment, onSuccess, onCancel }) {
             )}
             <Button
               type="submit"
-              disabled={saveAppointmentMutation.isPending}
+              disabled={isSaving}
             >
-              {saveAppointmentMutation.isPending
+              {isSaving
                 ? 'Saving...'
                 : appointment
                 ? 'Update Appointment'
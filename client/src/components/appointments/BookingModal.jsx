@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -41,6 +41,10 @@ export function BookingModal({ open, onOpenChange }) {
   });
 
   const selectedServiceId = watch('serviceId');
+  const selectedStaffId = watch('staffId');
+  const selectedPatientId = watch('patientId');
+  const selectedDate = watch('date');
+  const selectedTime = watch('time');
 
   // Fetch data
   const { data: patients } = useQuery({
@@ -58,6 +62,25 @@ export function BookingModal({ open, onOpenChange }) {
     enabled: open && !!selectedServiceId,
   });
 
+  // Open start times come from the server so they match its conflict checks
+  const slotsParams = new URLSearchParams({
+    date: selectedDate || '',
+    serviceId: selectedServiceId || '',
+    ...(selectedPatientId ? { patientId: selectedPatientId } : {}),
+  });
+  const { data: availability, isLoading: slotsLoading } = useQuery({
+    queryKey: ['/api/staff', selectedStaffId, `availability?${slotsParams}`],
+    enabled: open && !!selectedStaffId && !!selectedServiceId && !!selectedDate,
+  });
+  const timeSlots = availability?.slots || [];
+
+  // Drop a previously picked time once it is no longer offered
+  useEffect(() => {
+    if (selectedTime && availability && !timeSlots.some(slot => slot.time === selectedTime)) {
+      setValue('time', '');
+    }
+  }, [availability, selectedTime]);
+
   // Create appointment mutation
   const createAppointmentMutation = useMutation({
     mutationFn: async (appointmentData) => {
@@ -70,10 +93,18 @@ export function BookingModal({ open, onOpenChange }) {
         description: 'Appointment scheduled successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff', selectedStaffId] });
       onOpenChange(false);
       reset();
     },
-    onError: (error) => {
+    onError: (error, appointmentData) => {
+      // The patient has used up their sessions for this service; booking past the limit is a deliberate choice
+      if (error.message?.includes('ALLOWANCE_EXHAUSTED') && !appointmentData.overrideAllowance) {
+        if (window.confirm('This patient has no sessions left for this service in the current allowance period. Book anyway?')) {
+          createAppointmentMutation.mutate({ ...appointmentData, overrideAllowance: true });
+        }
+        return;
+      }
       toast({
         title: 'Error',
         description: error.message || 'Failed to schedule appointment',
@@ -83,16 +114,22 @@ export function BookingModal({ open, onOpenChange }) {
   });
 
   const onSubmit = (data) => {
-    const startTime = new Date(`${data.date}T${data.time}`);
-    const service = services?.find(s => s.id === parseInt(data.serviceId));
-    const endTime = new Date(startTime.getTime() + (service?.duration || 60) * 60000);
+    const slot = timeSlots.find(s => s.time === data.time);
+    if (!slot) {
+      toast({
+        title: 'Error',
+        description: 'That time is no longer available, please pick another',
+        variant: 'destructive',
+      });
+      return;
+    }
 
     const appointmentData = {
       patientId: parseInt(data.patientId),
       serviceId: parseInt(data.serviceId),
       staffId: parseInt(data.staffId),
-      startTime: startTime.toISOString(),
-      endTime: endTime.toISOString(),
+      startTime: slot.startTime,
+      endTime: slot.endTime,
       notes: data.notes,
       status: 'scheduled',
     };
@@ -100,15 +137,6 @@ export function BookingModal({ open, onOpenChange }) {
     createAppointmentMutation.mutate(appointmentData);
   };
 
-  // Generate time slots
-  const timeSlots = [];
-  for (let hour = 9; hour < 17; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      const time = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      timeSlots.push(time);
-    }
-  }
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -190,16 +218,26 @@ export function BookingModal({ open, onOpenChange }) {
 
             <div>
               <Label htmlFor="time">Time</Label>
-              <Select onValueChange={(value) => setValue('time', value)}>
+              <Select
+                value={selectedTime || ''}
+                onValueChange={(value) => setValue('time', value)}
+                disabled={!selectedStaffId || !selectedServiceId || !selectedDate}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select time" />
+                  <SelectValue placeholder={slotsLoading ? 'Loading times...' : 'Select time'} />
                 </SelectTrigger>
                 <SelectContent>
-                  {timeSlots.map((time) => (
-                    <SelectItem key={time} value={time}>
-                      {time}
+                  {timeSlots.length > 0 ? (
+                    timeSlots.map((slot) => (
+                      <SelectItem key={slot.time} value={slot.time}>
+                        {slot.time}
+                      </SelectItem>
+                    ))
+                  ) : (
+                    <SelectItem value="no-slots" disabled>
+                      No open times on this day
                     </SelectItem>
-                  ))}
+                  )}
                 </SelectContent>
               </Select>
               {errors.time && (
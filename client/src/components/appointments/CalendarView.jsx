@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { format, startOfWeek, addDays, isSameDay } from 'date-fns';
-import { authService } from '@/lib/authService';
+import { apiRequest } from '@/lib/queryClient';
 
 export function CalendarView({ selectedDate, onDateSelect }) {
   const [currentWeek, setCurrentWeek] = useState(startOfWeek(selectedDate));
@@ -14,11 +14,7 @@ export function CalendarView({ selectedDate, onDateSelect }) {
     queryFn: async () => {
       const startDate = currentWeek.toISOString();
       const endDate = addDays(currentWeek, 6).toISOString();
-      const response = await fetch(`/api/appointments?startDate=${startDate}&endDate=${endDate}`, {
-        headers: {
-          'Authorization': `Bearer ${authService.getToken()}`,
-        },
-      });
+      const response = await apiRequest('GET', `/api/appointments?startDate=${startDate}&endDate=${endDate}`);
       return response.json();
     },
   });
@@ -40,6 +36,10 @@ export function CalendarView({ selectedDate, onDateSelect }) {
     switch (status) {
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
@@ -0,0 +1,44 @@
+import { Button } from '@/components/ui/button';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// Marks a scheduled or confirmed patient as arrived; only offered until the visit is checked in or closed
+export function CheckInButton({ appointment }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/appointments/${appointment.id}`, { status: 'checked_in' });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Patient checked in',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to check in patient',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!['scheduled', 'confirmed'].includes(appointment.status)) return null;
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={checkInMutation.isPending}
+      onClick={() => checkInMutation.mutate()}
+    >
+      Check In
+    </Button>
+  );
+}
@@ -0,0 +1,82 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+const RESPONSE_LABELS = {
+  confirm: { label: 'Confirmed', color: 'bg-teal-100 text-teal-800' },
+  cancel: { label: 'Cancelled', color: 'bg-red-100 text-red-800' },
+  reschedule: { label: 'Wants to reschedule', color: 'bg-orange-100 text-orange-800' },
+};
+
+// Answers patients gave through the links in their reminders, until someone marks them seen
+export function PatientResponses() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: responses } = useQuery({
+    queryKey: ['/api/appointment-responses'],
+    refetchInterval: 60000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await apiRequest('POST', `/api/appointment-responses/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointment-responses'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update response',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!responses?.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Patient Responses ({responses.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {responses.map((response) => (
+            <div key={response.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    {response.patientFirstName} {response.patientLastName}
+                  </p>
+                  <Badge className={RESPONSE_LABELS[response.response]?.color}>
+                    {RESPONSE_LABELS[response.response]?.label || response.response}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Appointment {format(new Date(response.appointmentStart), 'EEE, MMM d h:mm a')}
+                  {' · '}answered {format(new Date(response.createdAt), 'MMM d h:mm a')}
+                </p>
+                {response.note && <p className="text-sm text-gray-700 mt-1">"{response.note}"</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={acknowledgeMutation.isPending}
+                onClick={() => acknowledgeMutation.mutate(response.id)}
+              >
+                Mark Seen
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+export const getAuditActionColor = (action) => {
+  switch (action) {
+    case 'create':
+      return 'bg-green-100 text-green-800';
+    case 'update':
+      return 'bg-blue-100 text-blue-800';
+    case 'delete':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// 'insuranceProvider' -> 'Insurance provider'
+const fieldLabel = (field) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const displayValue = (value) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const actorName = (entry) =>
+  entry.actorName?.trim() || entry.actorEmail || (entry.actorId ? `User #${entry.actorId}` : entry.actorRole === 'patient' ? 'Patient portal' : 'System');
+
+// The before and after of each field an audit entry touched
+export function AuditChanges({ entry }) {
+  const fields = Object.keys(entry.changes || {});
+  if (fields.length === 0) {
+    return <p className="text-xs text-gray-500">No visible field changes</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {fields.map((field) => {
+        const { from, to } = entry.changes[field];
+        return (
+          <div key={field} className="grid grid-cols-3 gap-2">
+            <span className="font-medium text-gray-700">{fieldLabel(field)}</span>
+            {entry.action === 'create' ? (
+              <span className="col-span-2 text-gray-900 break-all">{displayValue(to)}</span>
+            ) : entry.action === 'delete' ? (
+              <span className="col-span-2 text-gray-500 line-through break-all">{displayValue(from)}</span>
+            ) : (
+              <span className="col-span-2 break-all">
+                <span className="text-gray-500 line-through">{displayValue(from)}</span>
+                {' → '}
+                <span className="text-gray-900">{displayValue(to)}</span>
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function HistoryList({ path, id }) {
+  const { data: entries, isLoading } = useQuery({
+    queryKey: [`/api/${path}`, id, 'history'],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-16 bg-gray-200 rounded animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!entries?.length) {
+    return <p className="text-sm text-gray-500">No changes recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.map((entry) => (
+        <div key={entry.id} className="border-b border-gray-100 pb-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2">
+              <Badge className={getAuditActionColor(entry.action)}>{entry.action}</Badge>
+              <span className="text-sm font-medium text-gray-900">{actorName(entry)}</span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+            </span>
+          </div>
+          <AuditChanges entry={entry} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Opens the change history of one record, e.g. <HistoryButton path="patients" id={patient.id} />
+export function HistoryButton({ path, id, title = 'History', ...buttonProps }) {
+  const [open, setOpen] = useState(false);
+
+  // Lists often select a row on click; clicks in the button or the sheet shouldn't reach it
+  return (
+    <span onClick={(e) => e.stopPropagation()}>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetTrigger asChild>
+          <Button variant="ghost" size="sm" {...buttonProps}>
+            History
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader className="mb-6">
+            <SheetTitle>{title}</SheetTitle>
+            <SheetDescription>Who changed what, newest first</SheetDescription>
+          </SheetHeader>
+          {open && <HistoryList path={path} id={id} />}
+        </SheetContent>
+      </Sheet>
+    </span>
+  );
+}
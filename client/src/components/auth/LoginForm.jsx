@@ -13,19 +13,28 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "../../hooks/useAuth";
+import { useAuth, homePathFor } from "../../hooks/useAuth";
 import { useLocation } from 'wouter';
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { selectIsAuthenticated } from "@/store/authSlice";
+import { authService } from "../../lib/authService";
+import { TwoFactorStep } from "./TwoFactorStep";
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+const forgotSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
 export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [showForgot, setShowForgot] = useState(false);
+  const [resetRequested, setResetRequested] = useState(false);
+  const [challengeToken, setChallengeToken] = useState(null);
+  const { login, user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
@@ -33,9 +42,9 @@ export function LoginForm() {
   // Effect to handle navigation after authentication state changes
   useEffect(() => {
     if (isAuthenticated) {
-      setLocation('/dashboard');
+      setLocation(homePathFor(user));
     }
-  }, [isAuthenticated, setLocation]);
+  }, [isAuthenticated, user, setLocation]);
 
   const {
     register,
@@ -45,26 +54,61 @@ export function LoginForm() {
     resolver: zodResolver(loginSchema),
   });
 
-  const onSubmit = async (data) => {
+  const {
+    register: registerForgot,
+    handleSubmit: handleForgotSubmit,
+    formState: { errors: forgotErrors },
+  } = useForm({
+    resolver: zodResolver(forgotSchema),
+  });
+
+  const onForgotSubmit = async (data) => {
     setIsLoading(true);
     try {
-      // Login will now update the Redux store automatically
-      await login(data.email, data.password);
+      await authService.forgotPassword(data.email);
+      setResetRequested(true);
+    } catch (error) {
       toast({
-        title: "Success",
-        description: "Logged in successfully",
+        title: "Error",
+        description: error.message || "Failed to request password reset",
+        variant: "destructive",
       });
-      
-      // Use direct window location navigation instead of router
-      console.log('Login successful, redirecting to dashboard');
-      setTimeout(() => {
-        window.location.href = '/dashboard';
-      }, 500); // Short delay to ensure state is updated
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onLoggedIn = (response) => {
+    toast({
+      title: "Success",
+      description: "Logged in successfully",
+    });
+    
+    // Use direct window location navigation instead of router
+    console.log('Login successful, redirecting to home page');
+    setTimeout(() => {
+      window.location.href = homePathFor(response.user);
+    }, 500); // Short delay to ensure state is updated
+  };
+
+  const onSubmit = async (data) => {
+    setIsLoading(true);
+    try {
+      // Login will now update the Redux store automatically
+      const response = await login(data.email, data.password);
+      if (response.twoFactorRequired) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      onLoggedIn(response);
     } catch (error) {
       console.error('Login error:', error);
       toast({
         title: "Error",
-        description: "Invalid credentials. Please try again.",
+        // Locked accounts and rate limits explain themselves; anything else is a bad email or password
+        description: error.message && error.message !== 'Invalid credentials'
+          ? error.message
+          : "Invalid credentials. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -95,42 +139,94 @@ export function LoginForm() {
         <CardTitle className="text-2xl font-bold text-gray-900">
           SBBookings
         </CardTitle>
-        <CardDescription>Sign in to your account</CardDescription>
+        <CardDescription>
+          {challengeToken
+            ? "Two-factor authentication"
+            : showForgot ? "Reset your password" : "Sign in to your account"}
+        </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder="your@email.com"
-              {...register("email")}
-              className={errors.email ? "border-red-500" : ""}
-            />
-            {errors.email && (
-              <p className="text-sm text-red-500">{errors.email.message}</p>
-            )}
-          </div>
+        {challengeToken ? (
+          <TwoFactorStep
+            challengeToken={challengeToken}
+            onSuccess={onLoggedIn}
+            onCancel={() => setChallengeToken(null)}
+          />
+        ) : showForgot ? (
+          resetRequested ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-gray-600">
+                If an account exists for that email, we've sent a link to reset the password. It expires in an hour.
+              </p>
+              <Button variant="outline" className="w-full" onClick={() => { setShowForgot(false); setResetRequested(false); }}>
+                Back to sign in
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleForgotSubmit(onForgotSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forgotEmail">Email</Label>
+                <Input
+                  id="forgotEmail"
+                  type="email"
+                  placeholder="your@email.com"
+                  {...registerForgot("email")}
+                  className={forgotErrors.email ? "border-red-500" : ""}
+                />
+                {forgotErrors.email && (
+                  <p className="text-sm text-red-500">{forgotErrors.email.message}</p>
+                )}
+              </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
-            <Input
-              id="password"
-              type="password"
-              placeholder="Enter your password"
-              {...register("password")}
-              className={errors.password ? "border-red-500" : ""}
-            />
-            {errors.password && (
-              <p className="text-sm text-red-500">{errors.password.message}</p>
-            )}
-          </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send Reset Link"}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => setShowForgot(false)}>
+                Back to sign in
+              </Button>
+            </form>
+          )
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="your@email.com"
+                {...register("email")}
+                className={errors.email ? "border-red-500" : ""}
+              />
+              {errors.email && (
+                <p className="text-sm text-red-500">{errors.email.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter your password"
+                {...register("password")}
+                className={errors.password ? "border-red-500" : ""}
+              />
+              {errors.password && (
+                <p className="text-sm text-red-500">{errors.password.message}</p>
+              )}
+            </div>
 
-          <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Signing in..." : "Sign In"}
-          </Button>
-        </form>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Signing in..." : "Sign In"}
+            </Button>
+            <Button type="button" variant="link" className="w-full" onClick={() => setShowForgot(true)}>
+              Forgot password?
+            </Button>
+            <p className="text-center text-sm text-gray-500">
+              Patient? <a href="/portal" className="text-primary hover:underline">Sign in to the patient portal</a>
+            </p>
+          </form>
+        )}
       </CardContent>
     </Card>
   );
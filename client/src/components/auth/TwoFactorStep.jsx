@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "../../hooks/useAuth";
+
+// Second login step for accounts with two-factor on: a code from the authenticator app, or a backup code
+export function TwoFactorStep({ challengeToken, onSuccess, onCancel }) {
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { loginWithTwoFactor } = useAuth();
+  const { toast } = useToast();
+
+  const submit = async (value) => {
+    setIsLoading(true);
+    try {
+      const response = await loginWithTwoFactor(challengeToken, value);
+      onSuccess(response);
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = (e) => {
+    e.preventDefault();
+    submit(code);
+  };
+
+  const toggleBackupCode = () => {
+    setUseBackupCode(!useBackupCode);
+    setCode("");
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      {useBackupCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="backupCode">Backup code</Label>
+          <Input
+            id="backupCode"
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Code from your authenticator app</Label>
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={setCode}
+              onComplete={submit}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {[...Array(6)].map((_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isLoading || !code}>
+        {isLoading ? "Verifying..." : "Verify"}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={toggleBackupCode}>
+          {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+        </Button>
+        <Button type="button" variant="link" className="px-0" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+// Mirrors the server's claim lifecycle so only valid next steps are offered
+const NEXT_STATUSES = {
+  draft: [{ status: 'submitted', label: 'Submit' }],
+  submitted: [{ status: 'accepted', label: 'Accepted' }, { status: 'denied', label: 'Denied' }],
+  accepted: [{ status: 'paid', label: 'Paid' }, { status: 'denied', label: 'Denied' }],
+  denied: [{ status: 'submitted', label: 'Resubmit' }],
+  paid: [],
+};
+
+export const getClaimStatusColor = (status) => {
+  switch (status) {
+    case 'submitted':
+      return 'bg-blue-100 text-blue-800';
+    case 'accepted':
+      return 'bg-indigo-100 text-indigo-800';
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'denied':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Drafts and denied claims can still have their coding corrected before (re)submission
+const EDITABLE_STATUSES = ['draft', 'denied'];
+
+export function ClaimDialog({ claim, open, onOpenChange }) {
+  const [denialReason, setDenialReason] = useState('');
+  const [paidAmount, setPaidAmount] = useState('');
+  const [diagnosisCodes, setDiagnosisCodes] = useState((claim?.diagnosisCodes || []).join(', '));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateClaimMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('PUT', `/api/claims/${claim.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Claim updated successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/claims'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/balances'] });
+      setDenialReason('');
+      setPaidAmount('');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update claim',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!claim) return null;
+
+  const handleTransition = (status) => {
+    if (status === 'denied' && !denialReason.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Enter a denial reason first',
+        variant: 'destructive',
+      });
+      return;
+    }
+    updateClaimMutation.mutate({
+      status,
+      ...(status === 'denied' ? { denialReason: denialReason.trim() } : {}),
+      ...(status === 'paid' && paidAmount ? { paidAmount } : {}),
+    });
+  };
+
+  const handleSaveCodes = () => {
+    const codes = diagnosisCodes.split(/[\s,]+/).filter(Boolean);
+    if (codes.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Enter at least one diagnosis code',
+        variant: 'destructive',
+      });
+      return;
+    }
+    updateClaimMutation.mutate({ diagnosisCodes: codes });
+  };
+
+  const nextStatuses = NEXT_STATUSES[claim.status] || [];
+  const canEditCodes = EDITABLE_STATUSES.includes(claim.status);
+  const canDeny = nextStatuses.some(next => next.status === 'denied');
+  const canPay = nextStatuses.some(next => next.status === 'paid');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Claim {claim.claimNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <label className="font-medium text-gray-700">Status:</label>
+              <div>
+                <Badge className={getClaimStatusColor(claim.status)}>{claim.status}</Badge>
+              </div>
+            </div>
+            <div>
+              <label className="font-medium text-gray-700">Billed:</label>
+              <p className="text-gray-900">${claim.billedAmount}</p>
+            </div>
+            <div>
+              <label className="font-medium text-gray-700">Payer:</label>
+              <p className="text-gray-900">{claim.payerName}</p>
+            </div>
+            <div>
+              <label className="font-medium text-gray-700">Member ID:</label>
+              <p className="text-gray-900">{claim.memberId}</p>
+            </div>
+            {claim.submittedAt && (
+              <div>
+                <label className="font-medium text-gray-700">Submitted:</label>
+                <p className="text-gray-900">{format(new Date(claim.submittedAt), 'MMM d, yyyy')}</p>
+              </div>
+            )}
+            {claim.paidAmount && (
+              <div>
+                <label className="font-medium text-gray-700">Paid:</label>
+                <p className="text-gray-900">${claim.paidAmount}</p>
+              </div>
+            )}
+            {claim.denialReason && (
+              <div className="col-span-2">
+                <label className="font-medium text-gray-700">Denial Reason:</label>
+                <p className="text-gray-900">{claim.denialReason}</p>
+              </div>
+            )}
+          </div>
+
+          {canEditCodes ? (
+            <div>
+              <Label htmlFor="diagnosisCodes">Diagnosis Codes (ICD-10, primary first)</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="diagnosisCodes"
+                  value={diagnosisCodes}
+                  onChange={(e) => setDiagnosisCodes(e.target.value)}
+                  placeholder="e.g. M54.50, M62.830"
+                />
+                <Button variant="outline" disabled={updateClaimMutation.isPending} onClick={handleSaveCodes}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : claim.diagnosisCodes?.length > 0 && (
+            <div className="text-sm">
+              <label className="font-medium text-gray-700">Diagnosis Codes:</label>
+              <p className="text-gray-900">{claim.diagnosisCodes.join(', ')}</p>
+            </div>
+          )}
+
+          {canDeny && (
+            <div>
+              <Label htmlFor="denialReason">Denial Reason</Label>
+              <Input id="denialReason" value={denialReason} onChange={(e) => setDenialReason(e.target.value)} />
+            </div>
+          )}
+          {canPay && (
+            <div>
+              <Label htmlFor="paidAmount">Amount Paid</Label>
+              <Input
+                id="paidAmount"
+                value={paidAmount}
+                onChange={(e) => setPaidAmount(e.target.value)}
+                placeholder={claim.billedAmount}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            {nextStatuses.map(next => (
+              <Button
+                key={next.status}
+                variant={next.status === 'denied' ? 'outline' : 'default'}
+                disabled={updateClaimMutation.isPending}
+                onClick={() => handleTransition(next.status)}
+              >
+                {next.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const practiceSchema = z.object({
+  practiceName: z.string().optional(),
+  npi: z.string().regex(/^\d{10}$/, 'NPI must be 10 digits').optional().or(z.literal('')),
+  taxId: z.string().regex(/^\d{2}-?\d{7}$/, 'Tax ID must be 9 digits').optional().or(z.literal('')),
+  practiceAddress: z.string().optional(),
+});
+
+// Billing provider details used on invoices and insurance claims
+export function PracticeDetails() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm({
+    resolver: zodResolver(practiceSchema),
+  });
+
+  const { data: practice } = useQuery({
+    queryKey: ['/api/practice'],
+  });
+
+  useEffect(() => {
+    if (practice) {
+      reset({
+        practiceName: practice.practiceName || '',
+        npi: practice.npi || '',
+        taxId: practice.taxId || '',
+        practiceAddress: practice.practiceAddress || '',
+      });
+    }
+  }, [practice, reset]);
+
+  const savePracticeMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('PUT', '/api/practice', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Practice details saved successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/practice'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save practice details',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data) => {
+    savePracticeMutation.mutate({
+      practiceName: data.practiceName || null,
+      npi: data.npi || null,
+      taxId: data.taxId || null,
+      practiceAddress: data.practiceAddress || null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Practice Details</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="practiceName">Practice Name</Label>
+              <Input id="practiceName" {...register('practiceName')} />
+            </div>
+            <div>
+              <Label htmlFor="npi">NPI</Label>
+              <Input id="npi" {...register('npi')} className={errors.npi ? 'border-red-500' : ''} />
+              {errors.npi && (
+                <p className="text-sm text-red-500">{errors.npi.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="taxId">Tax ID (EIN)</Label>
+              <Input id="taxId" {...register('taxId')} className={errors.taxId ? 'border-red-500' : ''} />
+              {errors.taxId && (
+                <p className="text-sm text-red-500">{errors.taxId.message}</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="practiceAddress">Address</Label>
+            <Input id="practiceAddress" {...register('practiceAddress')} placeholder="123 Main St, Springfield, IL 62704" />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={savePracticeMutation.isPending}>
+              {savePracticeMutation.isPending ? 'Saving...' : 'Save Details'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
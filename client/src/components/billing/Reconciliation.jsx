@@ -0,0 +1,179 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, uploadFile } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+// Imports 835 remittance files and lists the payments that could not be matched to a claim
+export function Reconciliation({ patientName, serviceName }) {
+  const [importResult, setImportResult] = useState(null);
+  const [selectedRecords, setSelectedRecords] = useState({});
+  const fileInputRef = useRef(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue, isLoading } = useQuery({
+    queryKey: ['/api/remittances/queue'],
+  });
+
+  // Unfiltered charges to match queued payments against
+  const { data: records } = useQuery({
+    queryKey: ['/api/billing'],
+  });
+
+  const invalidateBilling = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/remittances/queue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/claims'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/billing'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/billing/balances'] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file) => {
+      const response = await uploadFile(`/api/remittances/import?fileName=${encodeURIComponent(file.name)}`, file);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      toast({
+        title: 'Success',
+        description: `Applied ${result.matched} payment(s), ${result.unmatched.length} need review`,
+      });
+      invalidateBilling();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import remittance',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, ...data }) => {
+      const response = await apiRequest('PUT', `/api/remittances/claims/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Remittance reconciled successfully',
+      });
+      invalidateBilling();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reconcile remittance',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleFileChange = (e) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  const openRecords = records?.filter(record => record.paymentStatus !== 'paid') || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Remittance Reconciliation</CardTitle>
+          <input ref={fileInputRef} type="file" accept=".835,.txt,.edi" className="hidden" onChange={handleFileChange} />
+          <Button disabled={importMutation.isPending} onClick={() => fileInputRef.current?.click()}>
+            {importMutation.isPending ? 'Importing...' : 'Import 835'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {importResult && (
+          <div className="mb-4 p-3 rounded-lg bg-gray-50 text-sm text-gray-700">
+            Imported {importResult.remittances} remittance(s): {importResult.matched} payment(s) applied,
+            {' '}{importResult.unmatched.length} sent to the queue below.
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : queue && queue.length > 0 ? (
+          <div className="space-y-3">
+            {queue.map((item) => (
+              <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {item.claimNumber} · paid ${item.paidAmount} of ${item.chargedAmount}
+                    {item.statusCode === '4' && ' (denied)'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {item.unmatchedReason}
+                    {item.createdAt && ` · Imported ${format(new Date(item.createdAt), 'MMM d, yyyy')}`}
+                  </p>
+                  {item.adjustments?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.adjustments.map((adjustment, index) => (
+                        <Badge key={index} className="bg-gray-100 text-gray-800">
+                          {adjustment.group}-{adjustment.reason} ${adjustment.amount}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Select
+                    value={selectedRecords[item.id] || ''}
+                    onValueChange={(value) => setSelectedRecords(current => ({ ...current, [item.id]: value }))}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Match to charge" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {openRecords.map((record) => (
+                        <SelectItem key={record.id} value={record.id.toString()}>
+                          {patientName(record.patientId)} · {serviceName(record.serviceId)} · ${record.amount}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    disabled={!selectedRecords[item.id] || resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: item.id, billingRecordId: parseInt(selectedRecords[item.id]) })}
+                  >
+                    Apply
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: item.id, dismiss: true })}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No unmatched payments</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
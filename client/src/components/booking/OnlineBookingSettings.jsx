@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// The address of the practice's public booking page; leaving it empty turns online booking off
+export function OnlineBookingSettings() {
+  const [slug, setSlug] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['/api/practice/booking'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setSlug(settings.bookingSlug || '');
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (bookingSlug) => {
+      const response = await apiRequest('PUT', '/api/practice/booking', { bookingSlug });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Success',
+        description: data.bookingSlug ? 'Online booking address saved' : 'Online booking turned off',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/practice/booking'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save online booking settings',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!settings) {
+    return <div className="h-40 bg-gray-200 rounded animate-pulse" />;
+  }
+
+  const open = !!settings.bookingSlug && settings.subscriptionActive;
+
+  const save = (e) => {
+    e.preventDefault();
+    saveMutation.mutate(slug.trim().toLowerCase() || null);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(settings.bookingUrl);
+    toast({
+      title: 'Copied',
+      description: 'Booking link copied to clipboard',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Online Booking</CardTitle>
+            <CardDescription>
+              Patients pick a service, staff member and time on your booking page. Each booking is confirmed by email before it reaches your calendar.
+            </CardDescription>
+          </div>
+          <Badge className={open ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+            {open ? 'Open' : 'Off'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={save} className="space-y-2">
+          <Label htmlFor="bookingSlug">Booking page address</Label>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-500 whitespace-nowrap">{window.location.origin}/book/</span>
+            <Input
+              id="bookingSlug"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value)}
+              placeholder="your-practice"
+              maxLength={50}
+            />
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Lowercase letters, numbers and dashes. Clear it and save to turn online booking off.
+          </p>
+        </form>
+
+        {settings.bookingUrl && (
+          <div className="flex items-center space-x-2">
+            <Input value={settings.bookingUrl} readOnly onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyLink}>
+              Copy
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={settings.bookingUrl} target="_blank" rel="noreferrer">Open</a>
+            </Button>
+          </div>
+        )}
+
+        {settings.bookingSlug && !settings.subscriptionActive && (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3">
+            Your booking page is closed until your subscription is active.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
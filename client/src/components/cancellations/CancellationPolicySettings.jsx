@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const EMPTY_POLICY = { noticeHours: '', maxReschedules: '', lateCancelFeePercent: '' };
+
+// Form values are strings; an empty reschedule limit means no limit
+const toValues = (policy) => ({
+  noticeHours: String(policy.noticeHours),
+  maxReschedules: policy.maxReschedules === null ? '' : String(policy.maxReschedules),
+  lateCancelFeePercent: String(policy.lateCancelFeePercent),
+});
+
+// The policy to save, or null while any field is out of range
+const toPolicy = (values) => {
+  const noticeHours = parseInt(values.noticeHours);
+  const maxReschedules = values.maxReschedules === '' ? null : parseInt(values.maxReschedules);
+  const lateCancelFeePercent = parseInt(values.lateCancelFeePercent);
+  const inRange = (value, max) => Number.isInteger(value) && value >= 0 && value <= max;
+
+  if (!inRange(noticeHours, 720) || !inRange(lateCancelFeePercent, 100)) return null;
+  if (maxReschedules !== null && !inRange(maxReschedules, 50)) return null;
+  return { noticeHours, maxReschedules, lateCancelFeePercent };
+};
+
+function CancellationPolicyFields({ idPrefix, values, onChange }) {
+  const update = (field) => (e) => onChange({ ...values, [field]: e.target.value });
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}NoticeHours`}>Notice required (hours)</Label>
+        <Input
+          id={`${idPrefix}NoticeHours`}
+          type="number"
+          min="0"
+          max="720"
+          value={values.noticeHours}
+          onChange={update('noticeHours')}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}MaxReschedules`}>Max reschedules</Label>
+        <Input
+          id={`${idPrefix}MaxReschedules`}
+          type="number"
+          min="0"
+          max="50"
+          value={values.maxReschedules}
+          onChange={update('maxReschedules')}
+          placeholder="No limit"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}LateCancelFee`}>Late-cancel fee (% of price)</Label>
+        <Input
+          id={`${idPrefix}LateCancelFee`}
+          type="number"
+          min="0"
+          max="100"
+          value={values.lateCancelFeePercent}
+          onChange={update('lateCancelFeePercent')}
+        />
+      </div>
+    </div>
+  );
+}
+
+// How close to the start patients can still cancel or move an appointment themselves, and what a late cancellation costs
+export function CancellationPolicySettings() {
+  const [values, setValues] = useState(EMPTY_POLICY);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: policy } = useQuery({
+    queryKey: ['/api/cancellation-policy'],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setValues(toValues(policy));
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('PUT', '/api/cancellation-policy', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Cancellation policy saved successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/cancellation-policy'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save cancellation policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!policy) {
+    return <div className="h-32 bg-gray-200 rounded animate-pulse" />;
+  }
+
+  const input = toPolicy(values);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cancellation Policy</CardTitle>
+        <CardDescription>
+          Patients can cancel or move appointments online until this close to the start. After that they need to contact the practice,
+          and cancelling is charged the late-cancel fee unless you waive it. Services can have their own policy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => { e.preventDefault(); saveMutation.mutate(input); }}
+          className="space-y-4"
+        >
+          <CancellationPolicyFields idPrefix="practice" values={values} onChange={setValues} />
+          <Button type="submit" disabled={!input || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// A service's own cancellation rules, replacing the practice's policy for its appointments
+export function ServiceCancellationPolicy({ serviceId }) {
+  const [custom, setCustom] = useState(false);
+  const [values, setValues] = useState(EMPTY_POLICY);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/services/${serviceId}/cancellation-policy`];
+
+  const { data: servicePolicy, isPending } = useQuery({ queryKey });
+  const { data: practicePolicy } = useQuery({
+    queryKey: ['/api/cancellation-policy'],
+  });
+
+  useEffect(() => {
+    setCustom(!!servicePolicy);
+    if (servicePolicy) {
+      setValues(toValues(servicePolicy));
+    } else if (practicePolicy) {
+      setValues(toValues(practicePolicy));
+    }
+  }, [servicePolicy, practicePolicy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data) => {
+      if (!data) {
+        await apiRequest('DELETE', `/api/services/${serviceId}/cancellation-policy`);
+        return null;
+      }
+      const response = await apiRequest('PUT', `/api/services/${serviceId}/cancellation-policy`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Cancellation policy saved successfully',
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save cancellation policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isPending) {
+    return <div className="h-16 bg-gray-200 rounded animate-pulse" />;
+  }
+
+  const input = toPolicy(values);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="customCancellationPolicy"
+          checked={custom}
+          onCheckedChange={(checked) => setCustom(!!checked)}
+        />
+        <Label htmlFor="customCancellationPolicy">Use its own cancellation policy</Label>
+      </div>
+      {custom && <CancellationPolicyFields idPrefix="service" values={values} onChange={setValues} />}
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={(custom && !input) || saveMutation.isPending}
+          onClick={() => saveMutation.mutate(custom ? input : null)}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
+import { VerifyEmailBanner } from './VerifyEmailBanner';
 
 export function AppLayout({ children }) {
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <VerifyEmailBanner />
       <div className="flex min-h-screen">
         <Sidebar />
         <main className="flex-1 p-8">
@@ -11,6 +11,7 @@ const sidebarItems = [
       </svg>
     ),
     label: 'Dashboard',
+    roles: ['admin', 'doctor', 'receptionist'],
   },
   {
     href: '/appointments',
@@ -20,6 +21,17 @@ const sidebarItems = [
       </svg>
     ),
     label: 'Appointments',
+    roles: ['admin', 'doctor', 'receptionist'],
+  },
+  {
+    href: '/my-schedule',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+    ),
+    label: 'My Schedule',
+    roles: ['staff'],
   },
   {
     href: '/patients',
@@ -29,6 +41,7 @@ const sidebarItems = [
       </svg>
     ),
     label: 'Patients',
+    roles: ['admin', 'doctor', 'receptionist'],
   },
   {
     href: '/staff',
@@ -50,6 +63,16 @@ const sidebarItems = [
     label: 'Services',
     roles: ['admin', 'doctor'],
   },
+  {
+    href: '/reminders',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+      </svg>
+    ),
+    label: 'Reminders',
+    roles: ['doctor', 'receptionist'],
+  },
   {
     href: '/reports',
     icon: (
@@ -58,6 +81,37 @@ const sidebarItems = [
       </svg>
     ),
     label: 'Reports',
+    roles: ['admin', 'doctor'],
+  },
+  {
+    href: '/billing',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+    ),
+    label: 'Billing',
+    roles: ['admin', 'doctor'],
+  },
+  {
+    href: '/audit-log',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+      </svg>
+    ),
+    label: 'Audit Log',
+    roles: ['admin', 'doctor'],
+  },
+  {
+    href: '/front-desk',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+    ),
+    label: 'Front Desk',
+    roles: ['doctor'],
   },
   {
     href: '/admin/doctors',
@@ -0,0 +1,50 @@
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '../../hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+
+// Reminds users who haven't confirmed their email address yet; password reset emails go to that address
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/resend-verification');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: `Verification email sent to ${user.email}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send verification email',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 px-8 py-2 flex items-center justify-between">
+      <p className="text-sm text-yellow-800">
+        Please confirm your email address using the link we sent to {user.email}.
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={resendMutation.isPending}
+        onClick={() => resendMutation.mutate()}
+      >
+        {resendMutation.isPending ? 'Sending...' : 'Resend email'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const RELATIONSHIPS = [
+  { value: 'self', label: 'Self' },
+  { value: 'spouse', label: 'Spouse' },
+  { value: 'child', label: 'Child' },
+  { value: 'other', label: 'Other' },
+];
+
+// Flat form shape for patients.insuranceInfo; only validated when the patient has insurance
+export const insuranceFormSchema = z.object({
+  enabled: z.boolean().optional(),
+  legacy: z.boolean().optional(),
+  payerName: z.string().optional(),
+  payerId: z.string().optional(),
+  memberId: z.string().optional(),
+  groupNumber: z.string().optional(),
+  relationship: z.string().optional(),
+  holderFirstName: z.string().optional(),
+  holderLastName: z.string().optional(),
+  holderDateOfBirth: z.string().optional(),
+  coverageStart: z.string().optional(),
+  coverageEnd: z.string().optional(),
+}).superRefine((value, ctx) => {
+  // Old free-form coverage is kept as it was unless it is edited (see isLegacyUnchanged)
+  if (!value.enabled || value.legacy) return;
+  const required = [
+    ['payerName', 'Payer is required'],
+    ['memberId', 'Member ID is required'],
+    ['coverageStart', 'Coverage start is required'],
+  ];
+  // The patient's own name is used when they are the policy holder
+  if (value.relationship && value.relationship !== 'self') {
+    required.push(['holderFirstName', 'Policy holder first name is required']);
+    required.push(['holderLastName', 'Policy holder last name is required']);
+  }
+  for (const [field, message] of required) {
+    if (!value[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
+  if (value.coverageStart && value.coverageEnd && value.coverageEnd < value.coverageStart) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coverageEnd'], message: 'Must be on or after coverage start' });
+  }
+});
+
+export function toInsuranceInfo(insurance, patient) {
+  if (!insurance?.enabled) return null;
+  const relationship = insurance.relationship || 'self';
+  const isSelf = relationship === 'self';
+  return {
+    payerName: insurance.payerName,
+    payerId: insurance.payerId || undefined,
+    memberId: insurance.memberId,
+    groupNumber: insurance.groupNumber || undefined,
+    policyHolder: {
+      firstName: isSelf ? patient.firstName : insurance.holderFirstName,
+      lastName: isSelf ? patient.lastName : insurance.holderLastName,
+      relationship,
+      dateOfBirth: insurance.holderDateOfBirth || undefined,
+    },
+    coverageStart: insurance.coverageStart,
+    coverageEnd: insurance.coverageEnd || undefined,
+  };
+}
+
+// Coverage saved before insurance was structured has no policy holder or coverage dates
+const isStructured = (info) => !!info.policyHolder && !!info.coverageStart;
+
+export function fromInsuranceInfo(info) {
+  if (!info) return { enabled: false, relationship: 'self' };
+  if (!isStructured(info)) {
+    // Best guess at the old free-form keys, so the payer and member ID carry over once it is completed
+    return {
+      enabled: true,
+      legacy: true,
+      payerName: info.payerName || info.provider || info.insuranceProvider || info.company || '',
+      payerId: '',
+      memberId: info.memberId || info.policyNumber || info.memberNumber || '',
+      groupNumber: info.groupNumber || info.group || '',
+      relationship: 'self',
+      holderFirstName: '',
+      holderLastName: '',
+      holderDateOfBirth: '',
+      coverageStart: '',
+      coverageEnd: '',
+    };
+  }
+  return {
+    enabled: true,
+    payerName: info.payerName || '',
+    payerId: info.payerId || '',
+    memberId: info.memberId || '',
+    groupNumber: info.groupNumber || '',
+    relationship: info.policyHolder?.relationship || 'self',
+    holderFirstName: info.policyHolder?.firstName || '',
+    holderLastName: info.policyHolder?.lastName || '',
+    holderDateOfBirth: info.policyHolder?.dateOfBirth || '',
+    coverageStart: info.coverageStart || '',
+    coverageEnd: info.coverageEnd || '',
+  };
+}
+
+// True while old free-form coverage loaded into the form hasn't been touched, so it can be sent back as it was
+export function isLegacyUnchanged(insurance, info) {
+  if (!insurance?.legacy || !info) return false;
+  const loaded = fromInsuranceInfo(info);
+  return Object.keys(loaded).every((field) => (insurance[field] ?? '') === loaded[field]);
+}
+
+export function InsuranceFields({ register, watch, setValue, errors }) {
+  const enabled = watch('insurance.enabled');
+  const legacy = watch('insurance.legacy');
+  const relationship = watch('insurance.relationship') || 'self';
+  const fieldErrors = errors.insurance || {};
+
+  const errorText = (field) => fieldErrors[field] && (
+    <p className="text-sm text-red-500">{fieldErrors[field].message}</p>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="insuranceEnabled"
+          checked={!!enabled}
+          onCheckedChange={(checked) => setValue('insurance.enabled', !!checked)}
+        />
+        <Label htmlFor="insuranceEnabled">Patient has insurance</Label>
+      </div>
+      {enabled && (
+        <>
+          {legacy && (
+            <p className="text-sm text-gray-500">
+              This coverage was saved in an older format and is kept as it is. To change it, fill in the payer, member ID and coverage start.
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payerName">Payer</Label>
+              <Input id="payerName" {...register('insurance.payerName')} />
+              {errorText('payerName')}
+            </div>
+            <div>
+              <Label htmlFor="payerId">Payer ID</Label>
+              <Input id="payerId" {...register('insurance.payerId')} />
+            </div>
+            <div>
+              <Label htmlFor="memberId">Member ID</Label>
+              <Input id="memberId" {...register('insurance.memberId')} />
+              {errorText('memberId')}
+            </div>
+            <div>
+              <Label htmlFor="groupNumber">Group Number</Label>
+              <Input id="groupNumber" {...register('insurance.groupNumber')} />
+            </div>
+          </div>
+          <div>
+            <Label>Policy Holder</Label>
+            <Select value={relationship} onValueChange={(value) => setValue('insurance.relationship', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RELATIONSHIPS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {relationship !== 'self' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="holderFirstName">Holder First Name</Label>
+                <Input id="holderFirstName" {...register('insurance.holderFirstName')} />
+                {errorText('holderFirstName')}
+              </div>
+              <div>
+                <Label htmlFor="holderLastName">Holder Last Name</Label>
+                <Input id="holderLastName" {...register('insurance.holderLastName')} />
+                {errorText('holderLastName')}
+              </div>
+              <div>
+                <Label htmlFor="holderDateOfBirth">Holder Date of Birth</Label>
+                <Input id="holderDateOfBirth" type="date" {...register('insurance.holderDateOfBirth')} />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="coverageStart">Coverage Start</Label>
+              <Input id="coverageStart" type="date" {...register('insurance.coverageStart')} />
+              {errorText('coverageStart')}
+            </div>
+            <div>
+              <Label htmlFor="coverageEnd">Coverage End</Label>
+              <Input id="coverageEnd" type="date" {...register('insurance.coverageEnd')} />
+              {errorText('coverageEnd')}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+const allowanceSchema = z.object({
+  serviceId: z.string().min(1, 'Service is required'),
+  allowedSessions: z.coerce.number().int().min(0, 'Must be 0 or more'),
+  periodStart: z.string().min(1, 'Start date is required'),
+  periodEnd: z.string().min(1, 'End date is required'),
+});
+
+export function PatientAllowances({ patient }) {
+  const [showForm, setShowForm] = useState(false);
+  const [editingAllowance, setEditingAllowance] = useState(null);
+  const [expandedId, setExpandedId] = useState(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const allowancesKey = ['/api/patients', patient.id, 'allowances'];
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm({
+    resolver: zodResolver(allowanceSchema),
+  });
+
+  const { data: allowances, isLoading } = useQuery({
+    queryKey: allowancesKey,
+  });
+
+  const { data: services } = useQuery({
+    queryKey: ['/api/services'],
+  });
+
+  const serviceName = (serviceId) =>
+    services?.find(service => service.id === serviceId)?.name || `Service #${serviceId}`;
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingAllowance(null);
+    reset();
+  };
+
+  const saveAllowanceMutation = useMutation({
+    mutationFn: async (data) => {
+      const url = editingAllowance
+        ? `/api/patients/${patient.id}/allowances/${editingAllowance.id}`
+        : `/api/patients/${patient.id}/allowances`;
+      const response = await apiRequest(editingAllowance ? 'PUT' : 'POST', url, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: editingAllowance ? 'Allowance updated successfully' : 'Allowance added successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: allowancesKey });
+      closeForm();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save allowance',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteAllowanceMutation = useMutation({
+    mutationFn: async (id) => {
+      await apiRequest('DELETE', `/api/patients/${patient.id}/allowances/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Allowance removed successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: allowancesKey });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to remove allowance',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data) => {
+    saveAllowanceMutation.mutate({
+      serviceId: parseInt(data.serviceId),
+      allowedSessions: data.allowedSessions,
+      periodStart: new Date(`${data.periodStart}T00:00:00`).toISOString(),
+      periodEnd: new Date(`${data.periodEnd}T23:59:59`).toISOString(),
+    });
+  };
+
+  const handleEdit = (allowance) => {
+    setEditingAllowance(allowance);
+    setValue('serviceId', allowance.serviceId.toString());
+    setValue('allowedSessions', allowance.allowedSessions);
+    setValue('periodStart', format(new Date(allowance.periodStart), 'yyyy-MM-dd'));
+    setValue('periodEnd', format(new Date(allowance.periodEnd), 'yyyy-MM-dd'));
+    setShowForm(true);
+  };
+
+  const handleDelete = (id) => {
+    if (window.confirm('Remove this allowance? Past usage stays on record.')) {
+      deleteAllowanceMutation.mutate(id);
+    }
+  };
+
+  const expiringSoon = allowances?.filter(allowance => allowance.expiresSoon) || [];
+
+  if (isLoading) {
+    return <p className="text-gray-500 text-sm">Loading allowances...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-md font-semibold text-gray-900">Session Allowances</h4>
+        <Button size="sm" onClick={() => setShowForm(true)}>
+          Add Allowance
+        </Button>
+      </div>
+
+      {expiringSoon.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          {expiringSoon.map(allowance => (
+            <p key={allowance.id}>
+              {serviceName(allowance.serviceId)} allowance expires on {format(new Date(allowance.periodEnd), 'MMM d, yyyy')}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {allowances && allowances.length > 0 ? (
+        <div className="space-y-3">
+          {allowances.map((allowance) => (
+            <div key={allowance.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{serviceName(allowance.serviceId)}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(allowance.periodStart), 'MMM d, yyyy')} – {format(new Date(allowance.periodEnd), 'MMM d, yyyy')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {allowance.usedSessions || 0} used, {allowance.pendingSessions} booked of {allowance.allowedSessions}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge className={allowance.remaining > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                    {allowance.remaining} left
+                  </Badge>
+                  {allowance.expiresSoon && (
+                    <Badge className="bg-yellow-100 text-yellow-800">Expiring</Badge>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setExpandedId(expandedId === allowance.id ? null : allowance.id)}>
+                    {expandedId === allowance.id ? 'Hide' : 'History'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(allowance)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(allowance.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+
+              {expandedId === allowance.id && (
+                <div className="mt-3 space-y-1 border-t pt-3">
+                  {allowance.usage.length > 0 ? (
+                    allowance.usage.map((visit) => (
+                      <div key={visit.id} className="flex items-center justify-between text-xs">
+                        <span className="text-gray-700">{format(new Date(visit.startTime), 'MMM d, yyyy h:mm a')}</span>
+                        <span className="text-gray-500">{visit.status}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-xs text-gray-500">No visits in this period yet</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">No allowances for this patient</p>
+      )}
+
+      <Dialog open={showForm} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAllowance ? 'Edit Allowance' : 'Add Allowance'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <Label htmlFor="serviceId">Service</Label>
+              <Select
+                value={watch('serviceId') || ''}
+                onValueChange={(value) => setValue('serviceId', value)}
+                disabled={!!editingAllowance}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services?.map((service) => (
+                    <SelectItem key={service.id} value={service.id.toString()}>
+                      {service.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.serviceId && (
+                <p className="text-sm text-red-500">{errors.serviceId.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="allowedSessions">Allowed Sessions</Label>
+              <Input id="allowedSessions" type="number" min={0} {...register('allowedSessions')} />
+              {errors.allowedSessions && (
+                <p className="text-sm text-red-500">{errors.allowedSessions.message}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="periodStart">Period Start</Label>
+                <Input id="periodStart" type="date" {...register('periodStart')} />
+                {errors.periodStart && (
+                  <p className="text-sm text-red-500">{errors.periodStart.message}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="periodEnd">Period End</Label>
+                <Input id="periodEnd" type="date" {...register('periodEnd')} />
+                {errors.periodEnd && (
+                  <p className="text-sm text-red-500">{errors.periodEnd.message}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveAllowanceMutation.isPending}>
+                {saveAllowanceMutation.isPending ? 'Saving...' : 'Save Allowance'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/queryClient';
+
+export function PatientStatement({ patient }) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const handleDownload = async () => {
+    const params = new URLSearchParams();
+    if (startDate) params.set('startDate', new Date(`${startDate}T00:00:00`).toISOString());
+    if (endDate) params.set('endDate', new Date(`${endDate}T23:59:59.999`).toISOString());
+    const query = params.toString();
+
+    setIsDownloading(true);
+    try {
+      await downloadFile(
+        `/api/patients/${patient.id}/statement${query ? `?${query}` : ''}`,
+        `statement-${patient.lastName.toLowerCase()}-${patient.id}.pdf`
+      );
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download statement',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-md font-semibold text-gray-900 mb-4">Statement</h4>
+      <div className="grid grid-cols-3 gap-4 items-end">
+        <div>
+          <Label htmlFor="statementStart">From</Label>
+          <Input id="statementStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="statementEnd">To</Label>
+          <Input id="statementEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={handleDownload} disabled={isDownloading}>
+          {isDownloading ? 'Preparing...' : 'Download PDF'}
+        </Button>
+      </div>
+    </div>
+  );
+}
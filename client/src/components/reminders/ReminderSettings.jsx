@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const MAX_REMINDERS = 5;
+const UNIT_MINUTES = { minutes: 1, hours: 60, days: 1440 };
+
+// 2880 -> { amount: '2', unit: 'days' }
+const toOffsetRow = (minutes) => {
+  if (minutes % UNIT_MINUTES.days === 0) return { amount: String(minutes / UNIT_MINUTES.days), unit: 'days' };
+  if (minutes % UNIT_MINUTES.hours === 0) return { amount: String(minutes / UNIT_MINUTES.hours), unit: 'hours' };
+  return { amount: String(minutes), unit: 'minutes' };
+};
+
+const toMinutes = (row) => Math.round(parseFloat(row.amount) * UNIT_MINUTES[row.unit]);
+
+// When appointment reminders go out, over which channels, and what they say
+export function ReminderSettings() {
+  const [form, setForm] = useState(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['/api/reminders/settings'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        enabled: settings.enabled,
+        offsets: settings.offsetsMinutes.map(toOffsetRow),
+        emailEnabled: settings.emailEnabled,
+        smsEnabled: settings.smsEnabled,
+        emailSubject: settings.emailSubject,
+        emailBody: settings.emailBody,
+        smsBody: settings.smsBody,
+      });
+    }
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('PUT', '/api/reminders/settings', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Reminder settings saved successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders/settings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save reminder settings',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!form) {
+    return <div className="h-64 bg-gray-200 rounded animate-pulse" />;
+  }
+
+  const update = (changes) => setForm({ ...form, ...changes });
+
+  const updateOffset = (index, changes) => {
+    update({ offsets: form.offsets.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+  };
+
+  const offsetsValid = form.offsets.length > 0 && form.offsets.every(row => toMinutes(row) >= 5);
+
+  const onSubmit = (e) => {
+    e.preventDefault();
+    saveSettingsMutation.mutate({
+      enabled: form.enabled,
+      offsetsMinutes: form.offsets.map(toMinutes),
+      emailEnabled: form.emailEnabled,
+      smsEnabled: form.smsEnabled,
+      emailSubject: form.emailSubject,
+      emailBody: form.emailBody,
+      smsBody: form.smsBody,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Reminder Settings</CardTitle>
+            <CardDescription>
+              Patients are reminded by email and text message before each appointment, using the contact details on file.
+            </CardDescription>
+          </div>
+          <Switch checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label>Send Reminders</Label>
+            {form.offsets.map((row, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-24"
+                  value={row.amount}
+                  onChange={(e) => updateOffset(index, { amount: e.target.value })}
+                />
+                <Select value={row.unit} onValueChange={(unit) => updateOffset(index, { unit })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minutes">minutes</SelectItem>
+                    <SelectItem value="hours">hours</SelectItem>
+                    <SelectItem value="days">days</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-gray-600">before the appointment</span>
+                {form.offsets.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ offsets: form.offsets.filter((_, i) => i !== index) })}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+            {form.offsets.length < MAX_REMINDERS && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update({ offsets: [...form.offsets, { amount: '1', unit: 'hours' }] })}
+              >
+                Add Reminder
+              </Button>
+            )}
+            {!offsetsValid && (
+              <p className="text-sm text-red-500">Reminders go out at least 5 minutes before the appointment</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="emailEnabled">Email</Label>
+              <Switch id="emailEnabled" checked={form.emailEnabled} onCheckedChange={(emailEnabled) => update({ emailEnabled })} />
+            </div>
+            {form.emailEnabled && (
+              <>
+                <div>
+                  <Label htmlFor="emailSubject">Subject</Label>
+                  <Input id="emailSubject" value={form.emailSubject} onChange={(e) => update({ emailSubject: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="emailBody">Message</Label>
+                  <Textarea id="emailBody" rows={7} value={form.emailBody} onChange={(e) => update({ emailBody: e.target.value })} />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="smsEnabled">Text Message</Label>
+              <Switch id="smsEnabled" checked={form.smsEnabled} onCheckedChange={(smsEnabled) => update({ smsEnabled })} />
+            </div>
+            {form.smsEnabled && (
+              <div>
+                <Textarea rows={3} maxLength={480} value={form.smsBody} onChange={(e) => update({ smsBody: e.target.value })} />
+                <p className="text-xs text-gray-500 mt-1">
+                  {form.smsBody.length} characters; longer messages may be split and billed as several texts.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {settings?.placeholders && (
+            <div className="p-3 rounded-lg bg-gray-50 text-xs text-gray-600">
+              <p className="font-medium text-gray-700 mb-1">Placeholders</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                {Object.entries(settings.placeholders).map(([name, description]) => (
+                  <span key={name}>
+                    <code className="font-mono">{`{{${name}}}`}</code> {description}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!offsetsValid || saveSettingsMutation.isPending}>
+              {saveSettingsMutation.isPending ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+// Time off staff have asked for; only approved time off is taken out of their bookable hours
+export function TimeOffRequests({ staff }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['/api/time-off', 'pending'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/time-off?status=pending');
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }) => {
+      const response = await apiRequest('PUT', `/api/time-off/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: (request) => {
+      toast({
+        title: 'Success',
+        description: `Time off ${request.status}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/time-off'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to review time off',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const staffName = (staffId) => {
+    const member = staff?.find(s => s.id === staffId);
+    return member ? `${member.firstName} ${member.lastName}` : 'Unknown';
+  };
+
+  if (isLoading || !requests || requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Off Requests</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{staffName(request.staffId)}</p>
+                <p className="text-xs text-gray-500">
+                  {format(new Date(request.startTime), 'MMM d, h:mm a')} – {format(new Date(request.endTime), 'MMM d, h:mm a')}
+                  {request.reason && ` · ${request.reason}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  size="sm"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ id: request.id, status: 'approved' })}
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ id: request.id, status: 'rejected' })}
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
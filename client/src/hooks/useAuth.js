@@ -3,6 +3,12 @@ import { authService } from '../lib/authService';
 import { useAppSelector } from '../store/hooks';
 import { selectCurrentUser, selectIsAuthenticated } from '../store/authSlice';
 
+// Where a user lands after signing in; staff accounts only have their own schedule
+export function homePathFor(user) {
+  if (user?.twoFactorSetupRequired) return '/security';
+  return user?.role === 'staff' ? '/my-schedule' : '/dashboard';
+}
+
 export function useAuth() {
   const [loading, setLoading] = useState(true);
   const user = useAppSelector(selectCurrentUser);
@@ -44,6 +50,10 @@ export function useAuth() {
     }
   };
 
+  const loginWithTwoFactor = async (challengeToken, code) => {
+    return authService.loginWithTwoFactor(challengeToken, code);
+  };
+
   const register = async (userData) => {
     try {
       const response = await authService.register(userData);
@@ -59,12 +69,20 @@ export function useAuth() {
     window.location.href = '/';
   };
 
+  // Signs out this browser and every other device the user is signed in on
+  const logoutEverywhere = async () => {
+    await authService.logoutEverywhere();
+    window.location.href = '/';
+  };
+
   return {
     user,
     loading,
     login,
+    loginWithTwoFactor,
     register,
     logout,
+    logoutEverywhere,
     isAuthenticated,
     isAdmin: user?.role === 'admin',
     isDoctor: user?.role === 'doctor',
@@ -3,6 +3,9 @@ import { setCredentials, logout as logoutAction } from '../store/authSlice';
 
 const API_BASE = '/api';
 
+// Shared by every request that hits a 401 at the same time, so the refresh token is only rotated once
+let refreshInFlight = null;
+
 export const authService = {
   async login(email, password) {
     const response = await fetch(`${API_BASE}/auth/login`, {
@@ -14,15 +17,47 @@ export const authService = {
     });
 
     if (!response.ok) {
-      throw new Error('Login failed');
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Login failed');
     }
 
     const data = await response.json();
+    // Two-factor accounts get a challenge instead of a session; see loginWithTwoFactor
+    if (data.twoFactorRequired) {
+      return data;
+    }
     
     // Dispatch to Redux store only
     store.dispatch(setCredentials({
       user: data.user,
-      token: data.token
+      token: data.token,
+      refreshToken: data.refreshToken
+    }));
+    
+    return data;
+  },
+
+  // Second login step: the challenge from login() plus a code from the authenticator app or a backup code
+  async loginWithTwoFactor(challengeToken, code) {
+    const response = await fetch(`${API_BASE}/auth/login/two-factor`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Invalid code');
+    }
+
+    const data = await response.json();
+    
+    store.dispatch(setCredentials({
+      user: data.user,
+      token: data.token,
+      refreshToken: data.refreshToken
     }));
     
     return data;
@@ -38,7 +73,8 @@ export const authService = {
     });
 
     if (!response.ok) {
-      throw new Error('Registration failed');
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Registration failed');
     }
 
     const data = await response.json();
@@ -46,24 +82,107 @@ export const authService = {
     // Dispatch to Redux store
     store.dispatch(setCredentials({
       user: data.user,
-      token: data.token
+      token: data.token,
+      refreshToken: data.refreshToken
     }));
     
     return data;
   },
 
+  // Creates the login for an invited staff member and signs them in
+  async acceptInvite(token, password) {
+    const response = await fetch(`${API_BASE}/staff-invites/${token}/accept`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to accept invite');
+    }
+
+    const data = await response.json();
+    
+    store.dispatch(setCredentials({
+      user: data.user,
+      token: data.token,
+      refreshToken: data.refreshToken
+    }));
+    
+    return data;
+  },
+
+  async forgotPassword(email) {
+    const response = await fetch(`${API_BASE}/auth/forgot-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to request password reset');
+    }
+  },
+
+  // Every session ends with the new password, so the user signs in again afterwards
+  async resetPassword(token, password) {
+    const response = await fetch(`${API_BASE}/auth/reset-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, password }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to reset password');
+    }
+
+    store.dispatch(logoutAction());
+  },
+
+  async verifyEmail(token) {
+    const response = await fetch(`${API_BASE}/auth/verify-email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to verify email');
+    }
+  },
+
   async getCurrentUser() {
     // Get token from Redux store
-    const token = store.getState().auth.token;
+    let token = store.getState().auth.token;
     if (!token) return null;
 
     try {
-      const response = await fetch(`${API_BASE}/auth/me`, {
+      const fetchMe = () => fetch(`${API_BASE}/auth/me`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
       });
 
+      let response = await fetchMe();
+      // The access token may simply have expired since the last visit
+      if (response.status === 401) {
+        token = await this.refresh();
+        if (!token) return null;
+        response = await fetchMe();
+      }
+
       if (!response.ok) {
         this.logout();
         return null;
@@ -84,8 +203,82 @@ export const authService = {
     }
   },
 
+  // Trades the refresh token for a new pair; resolves to the new access token, or null once the session is gone
+  refresh() {
+    if (!refreshInFlight) {
+      refreshInFlight = (async () => {
+        const refreshToken = store.getState().auth.refreshToken;
+        if (!refreshToken) {
+          this.logout();
+          return null;
+        }
+
+        try {
+          const response = await fetch(`${API_BASE}/auth/refresh`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ refreshToken }),
+          });
+
+          if (!response.ok) {
+            this.logout();
+            return null;
+          }
+
+          const data = await response.json();
+          store.dispatch(setCredentials({
+            user: data.user,
+            token: data.token,
+            refreshToken: data.refreshToken
+          }));
+          return data.token;
+        } catch (error) {
+          // A network failure says nothing about the session; keep it for the next attempt
+          return null;
+        } finally {
+          refreshInFlight = null;
+        }
+      })();
+    }
+    return refreshInFlight;
+  },
+
   logout() {
-    // Dispatch to Redux store only
+    // Revoke the refresh token server-side; the local session is cleared whether or not that succeeds
+    const refreshToken = store.getState().auth.refreshToken;
+    if (refreshToken) {
+      fetch(`${API_BASE}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => {});
+    }
+    store.dispatch(logoutAction());
+  },
+
+  // Ends every session of the user, on this and any other device
+  async logoutEverywhere() {
+    const request = (token) => fetch(`${API_BASE}/auth/logout-all`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    let response = await request(store.getState().auth.token);
+    if (response.status === 401) {
+      const token = await this.refresh();
+      if (token) {
+        response = await request(token);
+      }
+    }
+    if (!response.ok && response.status !== 401) {
+      throw new Error('Failed to sign out all devices');
+    }
     store.dispatch(logoutAction());
   },
 
@@ -0,0 +1,54 @@
+// Patient portal session; kept apart from the staff sign-in and dropped when the tab closes
+const TOKEN_KEY = 'portal_token';
+
+export const getPortalToken = () => sessionStorage.getItem(TOKEN_KEY);
+
+export const setPortalToken = (token) => sessionStorage.setItem(TOKEN_KEY, token);
+
+export const clearPortalToken = () => sessionStorage.removeItem(TOKEN_KEY);
+
+// Cached portal data belongs to whoever was signed in; it is dropped whenever the session changes
+export const isPortalQuery = (query) => String(query.queryKey[0]).startsWith('/api/portal');
+
+// Sends a portal request with the patient's session; a 401 means it has expired, so it is dropped
+async function portalFetch(method, url, data) {
+  const token = getPortalToken();
+  const headers = token ? { Authorization: `Bearer ${token}` } : {};
+  if (data) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  if (res.status === 401) {
+    clearPortalToken();
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    const error = new Error(body.message || res.statusText);
+    error.status = res.status;
+    throw error;
+  }
+  return res;
+}
+
+export async function portalRequest(method, url, data) {
+  const res = await portalFetch(method, url, data);
+  return res.json();
+}
+
+export async function downloadPortalFile(url, filename) {
+  const res = await portalFetch('GET', url);
+  const blob = await res.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
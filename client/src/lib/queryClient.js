@@ -1,5 +1,6 @@
 import { QueryClient } from "@tanstack/react-query";
 import { store } from '../store';
+import { authService } from './authService';
 
 async function throwIfResNotOk(res) {
   if (!res.ok) {
@@ -8,14 +9,35 @@ async function throwIfResNotOk(res) {
   }
 }
 
+// Sends the request with the current access token; on a 401 the session is refreshed once and the request retried
+async function fetchWithAuth(url, options = {}) {
+  const send = (token) => fetch(url, {
+    ...options,
+    headers: token ? { ...options.headers, "Authorization": `Bearer ${token}` } : options.headers,
+    credentials: "include",
+  });
+
+  const res = await send(store.getState().auth.token);
+  if (res.status === 403 && window.location.pathname !== '/security') {
+    // Two-factor became required for this account; nothing else answers until it is set up
+    const body = await res.clone().json().catch(() => ({}));
+    if (body.code === 'TWO_FACTOR_SETUP_REQUIRED') {
+      window.location.href = '/security';
+    }
+  }
+  if (res.status !== 401 || !store.getState().auth.refreshToken) {
+    return res;
+  }
+
+  const token = await authService.refresh();
+  return token ? send(token) : res;
+}
+
 export async function apiRequest(
   method,
   url,
   data,
 ) {
-  // Get the auth token from Redux store
-  const token = store.getState().auth.token;
-  
   // Prepare headers
   const headers = {};
   
@@ -24,16 +46,36 @@ export async function apiRequest(
     headers["Content-Type"] = "application/json";
   }
   
-  // Add Authorization header if token exists
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-  
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Fetches an authenticated file (e.g. a PDF) and hands it to the browser as a download
+export async function downloadFile(url, filename) {
+  const res = await apiRequest('GET', url);
+  const blob = await res.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+// Posts a file's raw contents (e.g. an X12 remittance) rather than JSON
+export async function uploadFile(url, file) {
+  const res = await fetchWithAuth(url, {
+    method: "POST",
+    headers: { "Content-Type": "text/plain" },
+    body: await file.text(),
   });
 
   await throwIfResNotOk(res);
@@ -44,21 +86,7 @@ export const getQueryFn = (options) => {
   const { on401: unauthorizedBehavior } = options;
   
   return async ({ queryKey }) => {
-    // Get the auth token from Redux store
-    const token = store.getState().auth.token;
-    
-    // Prepare headers
-    const headers = {};
-    
-    // Add Authorization header if token exists
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-    
-    const res = await fetch(queryKey.join("/"), {
-      credentials: "include",
-      headers,
-    });
+    const res = await fetchWithAuth(queryKey.join("/"));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
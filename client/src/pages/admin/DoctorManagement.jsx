@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { UserPlus, Edit, Trash2, Crown, User, Mail, Phone, Calendar, TrendingUp } from 'lucide-react';
@@ -54,6 +55,60 @@ export default function DoctorManagement() {
     enabled: user?.role === 'admin'
   });
 
+  const { data: failedLogins } = useQuery({
+    queryKey: ['/api/admin/failed-logins'],
+    enabled: user?.role === 'admin'
+  });
+
+  const { data: securitySettings } = useQuery({
+    queryKey: ['/api/admin/settings/security'],
+    enabled: user?.role === 'admin'
+  });
+
+  const updateSecurityMutation = useMutation({
+    mutationFn: async (settings) => {
+      const response = await apiRequest('PUT', '/api/admin/settings/security', settings);
+      return response.json();
+    },
+    onSuccess: (settings) => {
+      toast({
+        title: "Security Updated",
+        description: settings.requireDoctorTwoFactor
+          ? "Doctors must set up two-factor authentication"
+          : "Two-factor authentication is optional for doctors",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/settings/security'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update security settings",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // For a doctor locked out without their phone or backup codes
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (doctorId) => {
+      await apiRequest('DELETE', `/api/admin/doctors/${doctorId}/two-factor`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-Factor Reset",
+        description: "The doctor can set up two-factor authentication again",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/doctors'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    }
+  });
+
   const addDoctorMutation = useMutation({
     mutationFn: async (data) => {
       const response = await apiRequest('POST', '/api/admin/doctors', data);
@@ -294,6 +349,64 @@ export default function DoctorManagement() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Security</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="requireDoctorTwoFactor">Require two-factor authentication for doctors</Label>
+              <p className="text-sm text-muted-foreground">
+                Doctors without it are asked to set it up before they can use the app.
+              </p>
+            </div>
+            <Switch
+              id="requireDoctorTwoFactor"
+              checked={!!securitySettings?.requireDoctorTwoFactor}
+              disabled={!securitySettings || updateSecurityMutation.isPending}
+              onCheckedChange={(checked) => updateSecurityMutation.mutate({ requireDoctorTwoFactor: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Failed Sign-ins</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {failedLogins && failedLogins.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {failedLogins.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>{new Date(attempt.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{attempt.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={attempt.reason === 'locked' ? 'destructive' : 'outline'}>
+                        {attempt.reason.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{attempt.ipAddress || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No failed sign-ins</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Doctors Table */}
       <Card>
         <CardHeader>
@@ -311,6 +424,7 @@ export default function DoctorManagement() {
                   <TableHead>Doctor</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Subscription</TableHead>
+                  <TableHead>Two-Factor</TableHead>
                   <TableHead>Staff Count</TableHead>
                   <TableHead>Appointments</TableHead>
                   <TableHead>Joined</TableHead>
@@ -345,6 +459,11 @@ export default function DoctorManagement() {
                         {doctor.subscriptionStatus}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <Badge variant={doctor.twoFactorEnabled ? 'default' : 'outline'}>
+                        {doctor.twoFactorEnabled ? 'On' : 'Off'}
+                      </Badge>
+                    </TableCell>
                     <TableCell>{doctor.staffCount || 0}</TableCell>
                     <TableCell>{doctor.appointmentCount || 0}</TableCell>
                     <TableCell>{new Date(doctor.createdAt).toLocaleDateString()}</TableCell>
@@ -363,6 +482,20 @@ export default function DoctorManagement() {
                             <SelectItem value="inactive">Inactive</SelectItem>
                           </SelectContent>
                         </Select>
+                        {doctor.twoFactorEnabled && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resetTwoFactorMutation.isPending}
+                            onClick={() => {
+                              if (window.confirm(`Reset two-factor authentication for ${doctor.firstName} ${doctor.lastName}?`)) {
+                                resetTwoFactorMutation.mutate(doctor.id);
+                              }
+                            }}
+                          >
+                            Reset 2FA
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+
+const linkUrl = (token) => `/api/appointment-links/${token}`;
+
+// Landing page for the link in a reminder; the patient answers without signing in
+export default function AppointmentResponse({ params }) {
+  const [appointment, setAppointment] = useState(null);
+  const [error, setError] = useState('');
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [answered, setAnswered] = useState(null);
+
+  useEffect(() => {
+    fetch(linkUrl(params.token))
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'This link is invalid or has expired.');
+        setAppointment(data);
+      })
+      .catch((error) => setError(error.message));
+  }, [params.token]);
+
+  const respond = async (response) => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const result = await fetch(linkUrl(params.token), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(response === 'reschedule' ? { response, note } : { response }),
+      });
+      const data = await result.json().catch(() => ({}));
+      if (!result.ok) throw new Error(data.message || 'Failed to record your answer');
+      setAppointment(data);
+      setAnswered(response);
+      setShowReschedule(false);
+    } catch (error) {
+      setError(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancel = () => {
+    if (window.confirm('Cancel this appointment?')) {
+      respond('cancel');
+    }
+  };
+
+  const outcome = () => {
+    if (appointment.status === 'cancelled') return 'This appointment is cancelled.';
+    if (answered === 'reschedule' || appointment.rescheduleRequested) {
+      return 'Thanks, the practice will be in touch to find a new time.';
+    }
+    if (appointment.status === 'confirmed') return "Thanks, you're confirmed. See you then!";
+    return null;
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            {appointment?.practiceName || 'SBBookings'}
+          </CardTitle>
+          <CardDescription>Your appointment</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!appointment && !error ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !appointment ? (
+            <p className="text-center text-gray-500">
+              {error} Please contact the practice if you need to change your appointment.
+            </p>
+          ) : (
+            <>
+              <div className="p-4 rounded-lg bg-gray-50 text-center">
+                {appointment.patientFirstName && (
+                  <p className="text-sm text-gray-600 mb-1">Hi {appointment.patientFirstName},</p>
+                )}
+                <p className="font-medium text-gray-900">{appointment.serviceName}</p>
+                <p className="text-gray-700">
+                  {format(new Date(appointment.startTime), 'EEEE, MMMM d')} at {format(new Date(appointment.startTime), 'h:mm a')}
+                </p>
+                {appointment.staffName && <p className="text-sm text-gray-500">with {appointment.staffName}</p>}
+              </div>
+
+              {outcome() && <p className="text-center text-gray-700">{outcome()}</p>}
+              {error && <p className="text-center text-sm text-red-500">{error}</p>}
+
+              {!appointment.canRespond ? (
+                appointment.status !== 'cancelled' && (
+                  <p className="text-center text-sm text-gray-500">
+                    This appointment can no longer be changed online. Please contact the practice.
+                  </p>
+                )
+              ) : showReschedule ? (
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor="note">When would suit you better? (optional)</Label>
+                    <Textarea
+                      id="note"
+                      rows={3}
+                      maxLength={1000}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="e.g. any weekday morning next week"
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" className="flex-1" onClick={() => setShowReschedule(false)}>
+                      Back
+                    </Button>
+                    <Button className="flex-1" disabled={submitting} onClick={() => respond('reschedule')}>
+                      {submitting ? 'Sending...' : 'Ask to Reschedule'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {appointment.status !== 'confirmed' && (
+                    <Button className="w-full" disabled={submitting} onClick={() => respond('confirm')}>
+                      I'll Be There
+                    </Button>
+                  )}
+                  {!appointment.rescheduleRequested && answered !== 'reschedule' && !appointment.rescheduleLockedReason && (
+                    <Button variant="outline" className="w-full" disabled={submitting} onClick={() => setShowReschedule(true)}>
+                      Ask to Reschedule
+                    </Button>
+                  )}
+                  {!appointment.cancelLockedReason && (
+                    <Button
+                      variant="ghost"
+                      className="w-full text-red-600 hover:text-red-700"
+                      disabled={submitting}
+                      onClick={cancel}
+                    >
+                      Cancel Appointment
+                    </Button>
+                  )}
+                  {/* The cancellation policy's notice period or reschedule limit */}
+                  {(appointment.cancelLockedReason || appointment.rescheduleLockedReason) && (
+                    <p className="text-center text-sm text-gray-500">
+                      {appointment.cancelLockedReason || appointment.rescheduleLockedReason}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
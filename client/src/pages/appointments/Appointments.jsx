@@ -10,6 +10,9 @@ import { useToast } from '@/hooks/use-toast';
 import { CalendarView } from '../../components/appointments/CalendarView';
 import { BookingModal } from '../../components/appointments/BookingModal';
 import { AppointmentForm } from '../../components/appointments/AppointmentForm';
+import { CheckInButton } from '../../components/appointments/CheckInButton';
+import { HistoryButton } from '../../components/audit/HistoryButton';
+import { useAuth } from '../../hooks/useAuth';
 import { format } from 'date-fns';
 import { apiRequest } from '@/lib/queryClient';
 
@@ -17,22 +20,19 @@ export default function Appointments() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showBookingModal, setShowBookingModal] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState(null);
+  const [deletingSeriesAppointment, setDeletingSeriesAppointment] = useState(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [staffFilter, setStaffFilter] = useState('all');
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   // Fetch appointments
   const { data: appointments, isLoading } = useQuery({
     queryKey: ['/api/appointments'],
     queryFn: async () => {
-      const response = await fetch('/api/appointments', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch appointments');
+      const response = await apiRequest('GET', '/api/appointments');
       return response.json();
     },
   });
@@ -44,15 +44,20 @@ export default function Appointments() {
 
   // Delete appointment mutation
   const deleteAppointmentMutation = useMutation({
-    mutationFn: async (id) => {
-      await apiRequest('DELETE', `/api/appointments/${id}`);
+    mutationFn: async ({ id, scope }) => {
+      const response = await apiRequest('DELETE', `/api/appointments/${id}${scope ? `?scope=${scope}` : ''}`);
+      // A series delete answers with the billed occurrences it had to keep
+      return response.status === 204 ? null : response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: 'Success',
-        description: 'Appointment deleted successfully',
+        description: result?.skipped?.length
+          ? `Appointments deleted. ${result.skipped.length} with charges were kept; cancel them instead.`
+          : 'Appointment deleted successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      setDeletingSeriesAppointment(null);
     },
     onError: (error) => {
       toast({
@@ -80,6 +85,10 @@ export default function Appointments() {
     switch (status) {
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
@@ -91,9 +100,14 @@ export default function Appointments() {
     }
   };
 
-  const handleDeleteAppointment = (id) => {
+  const handleDeleteAppointment = (appointment) => {
+    // Occurrences of a recurring series ask which part of the series to remove
+    if (appointment.recurringRuleId) {
+      setDeletingSeriesAppointment(appointment);
+      return;
+    }
     if (window.confirm('Are you sure you want to delete this appointment?')) {
-      deleteAppointmentMutation.mutate(id);
+      deleteAppointmentMutation.mutate({ id: appointment.id });
     }
   };
 
@@ -152,6 +166,8 @@ export default function Appointments() {
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="scheduled">Scheduled</SelectItem>
+                  <SelectItem value="confirmed">Confirmed</SelectItem>
+                  <SelectItem value="checked_in">Checked In</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
                   <SelectItem value="no_show">No Show</SelectItem>
@@ -223,7 +239,9 @@ export default function Appointments() {
                         <Badge className={getStatusColor(appointment.status)}>
                           {appointment.status}
                         </Badge>
+                        <CheckInButton appointment={appointment} />
                         <div className="flex items-center space-x-1">
+                          <HistoryButton path="appointments" id={appointment.id} title="Appointment History" />
                           <Dialog>
                             <DialogTrigger asChild>
                               <Button variant="ghost" size="sm">
@@ -244,16 +262,19 @@ export default function Appointments() {
                               />
                             </DialogContent>
                           </Dialog>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteAppointment(appointment.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                          </Button>
+                          {/* The front desk cancels appointments instead of deleting them */}
+                          {user?.role !== 'receptionist' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteAppointment(appointment)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -270,6 +291,37 @@ export default function Appointments() {
         </CardContent>
       </Card>
 
+      {/* Delete recurring occurrence */}
+      <Dialog
+        open={!!deletingSeriesAppointment}
+        onOpenChange={(open) => !open && setDeletingSeriesAppointment(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete recurring appointment</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Completed visits in the past are kept regardless of the option you choose.
+          </p>
+          <div className="flex flex-col space-y-2">
+            {[
+              { scope: 'this', label: 'This appointment only' },
+              { scope: 'following', label: 'This and following appointments' },
+              { scope: 'all', label: 'All appointments in the series' },
+            ].map(({ scope, label }) => (
+              <Button
+                key={scope}
+                variant={scope === 'this' ? 'outline' : 'destructive'}
+                disabled={deleteAppointmentMutation.isPending}
+                onClick={() => deleteAppointmentMutation.mutate({ id: deletingSeriesAppointment.id, scope })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Booking Modal */}
       <BookingModal
         open={showBookingModal}
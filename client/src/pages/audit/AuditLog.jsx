@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { AuditChanges, actorName, getAuditActionColor } from '../../components/audit/HistoryButton';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS = {
+  patient: 'Patient',
+  patientAllowance: 'Patient Allowance',
+  appointment: 'Appointment',
+  staff: 'Staff',
+  service: 'Service',
+  billingRecord: 'Invoice',
+  insuranceClaim: 'Insurance Claim',
+  remittanceClaim: 'Remittance',
+};
+
+// Every change to clinical and billing records, searchable by record, person and date
+export default function AuditLog() {
+  const [entityFilter, setEntityFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [entityId, setEntityId] = useState('');
+  const [search, setSearch] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams();
+  if (entityFilter !== 'all') params.set('entityType', entityFilter);
+  if (actionFilter !== 'all') params.set('action', actionFilter);
+  if (entityId) params.set('entityId', entityId);
+  if (search) params.set('search', search);
+  if (startDate) params.set('startDate', new Date(`${startDate}T00:00:00`).toISOString());
+  if (endDate) params.set('endDate', new Date(`${endDate}T23:59:59.999`).toISOString());
+  params.set('limit', PAGE_SIZE.toString());
+  params.set('offset', (page * PAGE_SIZE).toString());
+  const query = params.toString();
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['/api/audit-logs', query],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/audit-logs?${query}`);
+      return response.json();
+    },
+  });
+
+  // Any filter change starts again from the first page
+  const withPageReset = (setter) => (value) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setEntityFilter('all');
+    setActionFilter('all');
+    setEntityId('');
+    setSearch('');
+    setStartDate('');
+    setEndDate('');
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h2>
+        <p className="text-gray-600">Who created, changed or removed patient, appointment and billing records</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-4 mb-6">
+            <div>
+              <Label>Record Type</Label>
+              <Select value={entityFilter} onValueChange={withPageReset(setEntityFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="entityId">Record #</Label>
+              <Input
+                id="entityId"
+                type="number"
+                value={entityId}
+                onChange={(e) => withPageReset(setEntityId)(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={withPageReset(setActionFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  <SelectItem value="create">Created</SelectItem>
+                  <SelectItem value="update">Updated</SelectItem>
+                  <SelectItem value="delete">Deleted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="search">Changed By</Label>
+              <Input
+                id="search"
+                placeholder="Name or email"
+                value={search}
+                onChange={(e) => withPageReset(setSearch)(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="startDate">From</Label>
+              <Input id="startDate" type="date" value={startDate} onChange={(e) => withPageReset(setStartDate)(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="endDate">To</Label>
+              <Input id="endDate" type="date" value={endDate} onChange={(e) => withPageReset(setEndDate)(e.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries?.length > 0 ? (
+            <div className="space-y-4">
+              {entries.map((entry) => (
+                <div key={entry.id} className="p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-3">
+                      <Badge className={getAuditActionColor(entry.action)}>{entry.action}</Badge>
+                      <span className="font-medium text-gray-900">
+                        {ENTITY_LABELS[entry.entityType] || entry.entityType} #{entry.entityId}
+                      </span>
+                      <span className="text-sm text-gray-600">
+                        by {actorName(entry)}{entry.actorRole && ` (${entry.actorRole})`}
+                      </span>
+                    </div>
+                    <div className="text-right text-xs text-gray-500">
+                      <p>{format(new Date(entry.createdAt), 'MMM d, yyyy h:mm:ss a')}</p>
+                      {entry.ipAddress && <p>{entry.ipAddress}</p>}
+                    </div>
+                  </div>
+                  <AuditChanges entry={entry} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">No changes match these filters</p>
+          )}
+
+          <div className="flex items-center justify-between mt-6">
+            <Button variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              Newer
+            </Button>
+            <span className="text-sm text-gray-500">Page {page + 1}</span>
+            <Button variant="outline" disabled={!entries || entries.length < PAGE_SIZE} onClick={() => setPage(page + 1)}>
+              Older
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { authService } from "../../lib/authService";
+
+// Landing page for the emailed verification link; the token is used as soon as the page opens
+export default function VerifyEmail({ params }) {
+  const [status, setStatus] = useState('verifying');
+  const [message, setMessage] = useState('');
+  // React may run the effect twice in development; the token only works once
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    authService.verifyEmail(params.token)
+      .then(() => setStatus('verified'))
+      .catch((error) => {
+        setMessage(error.message);
+        setStatus('failed');
+      });
+  }, [params.token]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            SBBookings
+          </CardTitle>
+          <CardDescription>Email verification</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {status === 'verifying' ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : status === 'verified' ? (
+            <p className="text-gray-600">Your email address is confirmed.</p>
+          ) : (
+            <p className="text-gray-500">
+              {message || 'This verification link is invalid or has expired.'} Sign in to request a new one.
+            </p>
+          )}
+          {status !== 'verifying' && (
+            <Button className="w-full" onClick={() => { window.location.href = '/'; }}>
+              Continue
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, downloadFile } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { ClaimDialog, getClaimStatusColor } from '../../components/billing/ClaimDialog';
+import { PracticeDetails } from '../../components/billing/PracticeDetails';
+import { Reconciliation } from '../../components/billing/Reconciliation';
+import { HistoryButton } from '../../components/audit/HistoryButton';
+import { useAuth } from '../../hooks/useAuth';
+
+export default function Billing() {
+  const [patientFilter, setPatientFilter] = useState('all');
+  const [serviceFilter, setServiceFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [selectedClaimId, setSelectedClaimId] = useState(null);
+  const [exportIds, setExportIds] = useState([]);
+  const [exportResult, setExportResult] = useState(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const params = new URLSearchParams();
+  if (patientFilter !== 'all') params.set('patientId', patientFilter);
+  if (serviceFilter !== 'all') params.set('serviceId', serviceFilter);
+  if (statusFilter !== 'all') params.set('paymentStatus', statusFilter);
+  if (startDate) params.set('startDate', new Date(`${startDate}T00:00:00`).toISOString());
+  if (endDate) params.set('endDate', new Date(`${endDate}T23:59:59.999`).toISOString());
+  const query = params.toString();
+
+  // Fetch billing records
+  const { data: records, isLoading } = useQuery({
+    queryKey: ['/api/billing', 'list', query],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/billing${query ? `?${query}` : ''}`);
+      return response.json();
+    },
+  });
+
+  // Fetch outstanding balances
+  const { data: balances } = useQuery({
+    queryKey: ['/api/billing/balances'],
+  });
+
+  const { data: patients } = useQuery({
+    queryKey: ['/api/patients'],
+  });
+
+  const { data: services } = useQuery({
+    queryKey: ['/api/services'],
+  });
+
+  const { data: claims } = useQuery({
+    queryKey: ['/api/claims'],
+  });
+
+  const claimFor = (recordId) => claims?.find(claim => claim.billingRecordId === recordId);
+  const selectedClaim = claims?.find(claim => claim.id === selectedClaimId);
+
+  const patientName = (patientId) => {
+    const patient = patients?.find(p => p.id === patientId);
+    return patient ? `${patient.firstName} ${patient.lastName}` : `Patient #${patientId}`;
+  };
+
+  const serviceName = (serviceId) =>
+    services?.find(s => s.id === serviceId)?.name || `Service #${serviceId}`;
+
+  // Update payment status mutation
+  const updatePaymentMutation = useMutation({
+    mutationFn: async ({ id, paymentStatus }) => {
+      const response = await apiRequest('PUT', `/api/billing/${id}`, { paymentStatus });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Payment status updated successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/balances'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update payment status',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // File insurance claim mutation
+  const createClaimMutation = useMutation({
+    mutationFn: async (recordId) => {
+      const response = await apiRequest('POST', `/api/billing/${recordId}/claim`);
+      return response.json();
+    },
+    onSuccess: (claim) => {
+      toast({
+        title: 'Success',
+        description: `Claim ${claim.claimNumber} created as draft`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/claims'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create claim',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Export selected claims as an 837P batch
+  const exportClaimsMutation = useMutation({
+    mutationFn: async (billingRecordIds) => {
+      const response = await apiRequest('POST', '/api/claims/export', { billingRecordIds });
+      return response.json();
+    },
+    onSuccess: (batch) => {
+      setExportResult(batch);
+      setExportIds([]);
+      if (batch.exported.length > 0) {
+        const url = URL.createObjectURL(new Blob([batch.content], { type: 'text/plain' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = batch.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+      toast({
+        title: batch.exported.length > 0 ? 'Success' : 'Nothing exported',
+        description: `${batch.exported.length} exported, ${batch.skipped.length} skipped`,
+        variant: batch.exported.length > 0 ? 'default' : 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/claims'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to export claims',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleExport = (recordId, checked) => {
+    setExportIds(ids => checked ? [...ids, recordId] : ids.filter(id => id !== recordId));
+  };
+
+  const handleDownloadInvoice = async (record) => {
+    try {
+      await downloadFile(`/api/billing/${record.id}/pdf`, `invoice-${record.id}.pdf`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download invoice',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getPaymentStatusColor = (status) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'denied':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const clearFilters = () => {
+    setPatientFilter('all');
+    setServiceFilter('all');
+    setStatusFilter('all');
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const totalOutstanding = balances?.reduce((sum, balance) => sum + parseFloat(balance.outstanding), 0) || 0;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Billing</h2>
+        <p className="text-gray-600">Track charges, payments and outstanding patient balances</p>
+      </div>
+
+      {/* Outstanding balances */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding Balances (${totalOutstanding.toFixed(2)})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {balances && balances.length > 0 ? (
+            <div className="space-y-3">
+              {balances.map((balance) => (
+                <div key={balance.patientId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{patientName(balance.patientId)}</p>
+                    <p className="text-xs text-gray-500">
+                      {balance.pendingCount} unpaid {balance.pendingCount === 1 ? 'charge' : 'charges'}
+                      {balance.oldestPendingDate && `, oldest from ${format(new Date(balance.oldestPendingDate), 'MMM d, yyyy')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-semibold text-gray-900">${balance.outstanding}</span>
+                    <Button variant="outline" size="sm" onClick={() => {
+                      setPatientFilter(balance.patientId.toString());
+                      setStatusFilter('pending');
+                    }}>
+                      View
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">No outstanding balances</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invoices */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Invoices</CardTitle>
+            <Button
+              variant="outline"
+              disabled={exportIds.length === 0 || exportClaimsMutation.isPending}
+              onClick={() => exportClaimsMutation.mutate(exportIds)}
+            >
+              {exportClaimsMutation.isPending ? 'Exporting...' : `Export Claims (${exportIds.length})`}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
+            <div>
+              <Label>Patient</Label>
+              <Select value={patientFilter} onValueChange={setPatientFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Patients</SelectItem>
+                  {patients?.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id.toString()}>
+                      {patient.firstName} {patient.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Service</Label>
+              <Select value={serviceFilter} onValueChange={setServiceFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by service" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Services</SelectItem>
+                  {services?.map((service) => (
+                    <SelectItem key={service.id} value={service.id.toString()}>
+                      {service.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="denied">Denied</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="startDate">From</Label>
+              <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="endDate">To</Label>
+              <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            </div>
+          </div>
+
+          {exportResult?.skipped.length > 0 && (
+            <div className="mb-6 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              <div className="flex items-center justify-between mb-1">
+                <p className="font-medium">Skipped from the last export</p>
+                <Button variant="ghost" size="sm" onClick={() => setExportResult(null)}>
+                  Dismiss
+                </Button>
+              </div>
+              {exportResult.skipped.map((skip) => (
+                <p key={skip.billingRecordId}>
+                  Invoice #{skip.billingRecordId}: {skip.reasons.join('; ')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : records && records.length > 0 ? (
+            <div className="space-y-3">
+              {records.map((record) => (
+                <div key={record.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    {claimFor(record.id) && (
+                      <Checkbox
+                        checked={exportIds.includes(record.id)}
+                        onCheckedChange={(checked) => toggleExport(record.id, !!checked)}
+                        aria-label="Select claim for export"
+                      />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {patientName(record.patientId)} · {serviceName(record.serviceId)}
+                        {record.chargeType === 'no_show' && ' (no-show)'}
+                        {record.chargeType === 'late_cancellation' && ' (late cancellation)'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Billed {format(new Date(record.billingDate), 'MMM d, yyyy')}
+                        {record.paymentDate && ` · Paid ${format(new Date(record.paymentDate), 'MMM d, yyyy')}`}
+                        {record.insurancePaidAmount && ` · Insurance paid $${record.insurancePaidAmount}`}
+                        {record.paymentStatus === 'pending' && record.patientResponsibility && ` · Patient owes $${record.patientResponsibility}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-semibold text-gray-900">${record.amount}</span>
+                    <Badge className={getPaymentStatusColor(record.paymentStatus)}>
+                      {record.paymentStatus}
+                    </Badge>
+                    <Button variant="ghost" size="sm" onClick={() => handleDownloadInvoice(record)}>
+                      PDF
+                    </Button>
+                    <HistoryButton path="billing" id={record.id} title={`Invoice #${record.id}`} />
+                    {claimFor(record.id) ? (
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedClaimId(claimFor(record.id).id)}>
+                        <Badge className={getClaimStatusColor(claimFor(record.id).status)}>
+                          claim {claimFor(record.id).status}
+                        </Badge>
+                      </Button>
+                    ) : record.paymentStatus === 'pending' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={createClaimMutation.isPending}
+                        onClick={() => createClaimMutation.mutate(record.id)}
+                      >
+                        File Claim
+                      </Button>
+                    )}
+                    {record.paymentStatus === 'pending' && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={updatePaymentMutation.isPending}
+                          onClick={() => updatePaymentMutation.mutate({ id: record.id, paymentStatus: 'paid' })}
+                        >
+                          Mark Paid
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={updatePaymentMutation.isPending}
+                          onClick={() => updatePaymentMutation.mutate({ id: record.id, paymentStatus: 'denied' })}
+                        >
+                          Deny
+                        </Button>
+                      </>
+                    )}
+                    {record.paymentStatus === 'denied' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={updatePaymentMutation.isPending}
+                        onClick={() => updatePaymentMutation.mutate({ id: record.id, paymentStatus: 'pending' })}
+                      >
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-500">No billing records found</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Reconciliation patientName={patientName} serviceName={serviceName} />
+
+      {user?.role === 'doctor' && <PracticeDetails />}
+
+      <ClaimDialog
+        key={selectedClaim?.id}
+        claim={selectedClaim}
+        open={!!selectedClaim}
+        onOpenChange={(open) => !open && setSelectedClaimId(null)}
+      />
+    </div>
+  );
+}
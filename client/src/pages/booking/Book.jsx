@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+
+const pageUrl = (slug) => `/api/public/booking/${encodeURIComponent(slug)}`;
+
+const getJson = async (url, options) => {
+  const response = await fetch(url, options);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || 'Something went wrong. Please try again.');
+  return data;
+};
+
+const EMPTY_CONTACT = { firstName: '', lastName: '', email: '', phone: '' };
+
+// The service's cancellation policy in plain words, shown before the patient books
+const policyTerms = ({ noticeHours, maxReschedules, lateCancelFeePercent }) => {
+  const terms = [
+    noticeHours > 0
+      ? `You can cancel or move this appointment online up to ${noticeHours} hours before it starts.`
+      : 'You can cancel or move this appointment online until it starts.',
+  ];
+  if (maxReschedules !== null) {
+    terms.push(maxReschedules === 0
+      ? "It can't be moved once booked."
+      : `It can be moved at most ${maxReschedules} time${maxReschedules === 1 ? '' : 's'}.`);
+  }
+  if (lateCancelFeePercent > 0 && noticeHours > 0) {
+    terms.push(`Cancelling later than that is charged ${lateCancelFeePercent}% of the price.`);
+  }
+  return terms.join(' ');
+};
+
+// A practice's public booking page; patients book without an account and confirm from the emailed link
+export default function Book({ params }) {
+  const [practice, setPractice] = useState(null);
+  const [error, setError] = useState('');
+  const [serviceId, setServiceId] = useState('');
+  const [team, setTeam] = useState(null);
+  const [staffId, setStaffId] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [slots, setSlots] = useState(null);
+  const [slot, setSlot] = useState(null);
+  const [contact, setContact] = useState(EMPTY_CONTACT);
+  const [submitting, setSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState(null);
+
+  useEffect(() => {
+    getJson(pageUrl(params.slug))
+      .then(setPractice)
+      .catch((error) => setError(error.message));
+  }, [params.slug]);
+
+  useEffect(() => {
+    setTeam(null);
+    setStaffId('');
+    if (!serviceId) return;
+    getJson(`${pageUrl(params.slug)}/services/${serviceId}/staff`)
+      .then((data) => {
+        setTeam(data);
+        if (data.length === 1) setStaffId(String(data[0].id));
+      })
+      .catch((error) => setError(error.message));
+  }, [params.slug, serviceId]);
+
+  useEffect(() => {
+    setSlots(null);
+    setSlot(null);
+    if (!serviceId || !staffId || !date) return;
+    const query = new URLSearchParams({ serviceId, staffId, date });
+    getJson(`${pageUrl(params.slug)}/availability?${query}`)
+      .then((data) => setSlots(data.slots))
+      .catch((error) => setError(error.message));
+  }, [params.slug, serviceId, staffId, date]);
+
+  const updateContact = (field) => (e) => setContact({ ...contact, [field]: e.target.value });
+
+  const submit = async (e) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      const data = await getJson(pageUrl(params.slug), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          serviceId: parseInt(serviceId),
+          staffId: parseInt(staffId),
+          startTime: slot.startTime,
+          firstName: contact.firstName,
+          lastName: contact.lastName,
+          email: contact.email,
+          phone: contact.phone || undefined,
+        }),
+      });
+      setSentTo(data.email);
+    } catch (error) {
+      setError(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const service = practice?.services.find((entry) => String(entry.id) === serviceId);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 py-8">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            {practice?.practiceName || 'SBBookings'}
+          </CardTitle>
+          <CardDescription>Book an appointment</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!practice && !error ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !practice ? (
+            <p className="text-center text-gray-500">{error}</p>
+          ) : sentTo ? (
+            <div className="space-y-2 text-center">
+              <p className="font-medium text-gray-900">Check your email</p>
+              <p className="text-gray-600">
+                We sent a link to {sentTo}. Your appointment is only booked once you open it, so please do that within the hour.
+              </p>
+            </div>
+          ) : practice.services.length === 0 ? (
+            <p className="text-center text-gray-500">
+              No services can be booked online right now. Please contact the practice.
+            </p>
+          ) : (
+            <form onSubmit={submit} className="space-y-4">
+              <div>
+                <Label>Service</Label>
+                <Select value={serviceId} onValueChange={setServiceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a service" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {practice.services.map((entry) => (
+                      <SelectItem key={entry.id} value={String(entry.id)}>
+                        {entry.name} ({entry.duration} min{entry.price ? `, $${entry.price}` : ''})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {team && (
+                team.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Nobody is available for this service online. Please contact the practice.
+                  </p>
+                ) : (
+                  <div>
+                    <Label>With</Label>
+                    <Select value={staffId} onValueChange={setStaffId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose who you'd like to see" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {team.map((member) => (
+                          <SelectItem key={member.id} value={String(member.id)}>
+                            {member.firstName} {member.lastName} ({member.role})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+              )}
+
+              {staffId && (
+                <div>
+                  <Label htmlFor="date">Date</Label>
+                  <Input
+                    id="date"
+                    type="date"
+                    value={date}
+                    min={format(new Date(), 'yyyy-MM-dd')}
+                    onChange={(e) => setDate(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {slots && (
+                slots.length === 0 ? (
+                  <p className="text-sm text-gray-500">No times are free on this day. Please try another date.</p>
+                ) : (
+                  <div>
+                    <Label>Time</Label>
+                    <div className="grid grid-cols-4 gap-2 mt-1">
+                      {slots.map((entry) => (
+                        <Button
+                          key={entry.time}
+                          type="button"
+                          size="sm"
+                          variant={slot?.time === entry.time ? 'default' : 'outline'}
+                          onClick={() => setSlot(entry)}
+                        >
+                          {format(new Date(entry.startTime), 'h:mm a')}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )
+              )}
+
+              {slot && (
+                <>
+                  <div className="p-3 rounded-lg bg-gray-50 text-sm text-gray-700 text-center">
+                    {service?.name} on {format(new Date(slot.startTime), 'EEEE, MMMM d')} at {format(new Date(slot.startTime), 'h:mm a')}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="firstName">First Name</Label>
+                      <Input id="firstName" value={contact.firstName} onChange={updateContact('firstName')} required />
+                    </div>
+                    <div>
+                      <Label htmlFor="lastName">Last Name</Label>
+                      <Input id="lastName" value={contact.lastName} onChange={updateContact('lastName')} required />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="email">Email</Label>
+                    <Input id="email" type="email" value={contact.email} onChange={updateContact('email')} required />
+                    <p className="text-xs text-gray-500 mt-1">
+                      If you've been before, use the email address the practice has for you.
+                    </p>
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Phone (optional)</Label>
+                    <Input id="phone" type="tel" value={contact.phone} onChange={updateContact('phone')} />
+                  </div>
+                  {service?.cancellationPolicy && (
+                    <p className="text-xs text-gray-500">{policyTerms(service.cancellationPolicy)}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={submitting}>
+                    {submitting ? 'Sending...' : 'Book Appointment'}
+                  </Button>
+                </>
+              )}
+
+              {error && <p className="text-center text-sm text-red-500">{error}</p>}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { format } from "date-fns";
+
+// Landing page for the link in a booking confirmation email; the booking is made as soon as the page opens
+export default function ConfirmBooking({ params }) {
+  const [booking, setBooking] = useState(null);
+  const [error, setError] = useState('');
+  // React may run the effect twice in development; the second call would only find the booking already made
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    fetch(`/api/public/booking-requests/${params.token}/confirm`, { method: 'POST' })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'This link is invalid or has expired.');
+        setBooking(data);
+      })
+      .catch((error) => setError(error.message));
+  }, [params.token]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            {booking?.practiceName || 'SBBookings'}
+          </CardTitle>
+          <CardDescription>Your booking</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {!booking && !error ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !booking ? (
+            <p className="text-gray-500">{error}</p>
+          ) : (
+            <>
+              <p className="text-gray-700">Thanks {booking.firstName}, you're booked in.</p>
+              <div className="p-4 rounded-lg bg-gray-50">
+                <p className="font-medium text-gray-900">{booking.serviceName}</p>
+                <p className="text-gray-700">
+                  {format(new Date(booking.startTime), 'EEEE, MMMM d')} at {format(new Date(booking.startTime), 'h:mm a')}
+                </p>
+                {booking.staffName && <p className="text-sm text-gray-500">with {booking.staffName}</p>}
+              </div>
+              <p className="text-sm text-gray-500">
+                You'll get a reminder before your appointment with a link to confirm, cancel or reschedule.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
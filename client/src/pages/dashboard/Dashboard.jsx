@@ -5,11 +5,16 @@ import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { CalendarView } from '../../components/appointments/CalendarView';
 import { BookingModal } from '../../components/appointments/BookingModal';
+import { CheckInButton } from '../../components/appointments/CheckInButton';
+import { PatientResponses } from '../../components/appointments/PatientResponses';
+import { useAuth } from '../../hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
 import { format } from 'date-fns';
 
 export default function Dashboard() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showBookingModal, setShowBookingModal] = useState(false);
+  const { user } = useAuth();
 
   // Fetch dashboard stats
   const { data: stats } = useQuery({
@@ -24,13 +29,9 @@ export default function Dashboard() {
       const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
       const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59);
       
-      const response = await fetch(
-        `/api/appointments?startDate=${startOfDay.toISOString()}&endDate=${endOfDay.toISOString()}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-          },
-        }
+      const response = await apiRequest(
+        'GET',
+        `/api/appointments?startDate=${startOfDay.toISOString()}&endDate=${endOfDay.toISOString()}`
       );
       return response.json();
     },
@@ -40,6 +41,10 @@ export default function Dashboard() {
     switch (status) {
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
@@ -119,23 +124,27 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">Revenue This Month</p>
-                <p className="text-2xl font-bold text-gray-900">${stats?.monthlyRevenue || '0.00'}</p>
-              </div>
-              <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
-                <svg className="w-6 h-6 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
-                </svg>
+        {user?.role !== 'receptionist' && (
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Revenue This Month</p>
+                  <p className="text-2xl font-bold text-gray-900">${stats?.monthlyRevenue || '0.00'}</p>
+                </div>
+                <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                  <svg className="w-6 h-6 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
+                  </svg>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
+      <PatientResponses />
+
       {/* Calendar and Today's Appointments */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Calendar */}
@@ -190,9 +199,12 @@ export default function Dashboard() {
                         </div>
                       </div>
                       <div className="flex items-center justify-between">
-                        <Badge className={getStatusColor(appointment.status)}>
-                          {appointment.status}
-                        </Badge>
+                        <div className="flex items-center space-x-2">
+                          <Badge className={getStatusColor(appointment.status)}>
+                            {appointment.status}
+                          </Badge>
+                          <CheckInButton appointment={appointment} />
+                        </div>
                         <span className="text-xs text-gray-500">
                           {appointment.staff?.firstName} {appointment.staff?.lastName}
                         </span>
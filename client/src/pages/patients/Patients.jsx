@@ -6,13 +6,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
 import { format } from 'date-fns';
+import { PatientAllowances } from '../../components/patients/PatientAllowances';
+import { PatientStatement } from '../../components/patients/PatientStatement';
+import { InsuranceFields, insuranceFormSchema, toInsuranceInfo, fromInsuranceInfo, isLegacyUnchanged } from '../../components/patients/InsuranceFields';
+import { HistoryButton } from '../../components/audit/HistoryButton';
 
 const patientSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
@@ -21,6 +27,7 @@ const patientSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   medicalHistory: z.string().optional(),
+  insurance: insuranceFormSchema.optional(),
 });
 
 export default function Patients() {
@@ -30,15 +37,20 @@ export default function Patients() {
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // The front desk never sees clinical notes or patient balances
+  const isReceptionist = user?.role === 'receptionist';
 
   const {
     register,
     handleSubmit,
     setValue,
+    watch,
     reset,
     formState: { errors },
   } = useForm({
     resolver: zodResolver(patientSchema),
+    defaultValues: { insurance: fromInsuranceInfo(null) },
   });
 
   // Fetch patients
@@ -126,11 +138,15 @@ export default function Patients() {
     },
   });
 
-  const onSubmit = (data) => {
+  const onSubmit = ({ insurance, ...data }) => {
+    const insuranceInfo = editingPatient && isLegacyUnchanged(insurance, editingPatient.insuranceInfo)
+      ? editingPatient.insuranceInfo
+      : toInsuranceInfo(insurance, data);
+    const patientData = { ...data, insuranceInfo };
     if (editingPatient) {
-      updatePatientMutation.mutate({ id: editingPatient.id, data });
+      updatePatientMutation.mutate({ id: editingPatient.id, data: patientData });
     } else {
-      createPatientMutation.mutate(data);
+      createPatientMutation.mutate(patientData);
     }
   };
 
@@ -142,6 +158,7 @@ export default function Patients() {
     setValue('phone', patient.phone || '');
     setValue('address', patient.address || '');
     setValue('medicalHistory', patient.medicalHistory || '');
+    setValue('insurance', fromInsuranceInfo(patient.insuranceInfo));
   };
 
   const handleDelete = (id) => {
@@ -150,6 +167,9 @@ export default function Patients() {
     }
   };
 
+  // Read through the form mapping so coverage in the old free-form shape still shows its payer and member ID
+  const selectedInsurance = selectedPatient ? fromInsuranceInfo(selectedPatient.insuranceInfo) : null;
+
   const filteredPatients = patients?.filter(patient =>
     patient.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -165,6 +185,10 @@ export default function Patients() {
     switch (status) {
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
@@ -200,7 +224,7 @@ export default function Patients() {
               Add Patient
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add New Patient</DialogTitle>
             </DialogHeader>
@@ -256,14 +280,17 @@ export default function Patients() {
                   rows={2}
                 />
               </div>
-              <div>
-                <Label htmlFor="medicalHistory">Medical History</Label>
-                <Textarea
-                  id="medicalHistory"
-                  {...register('medicalHistory')}
-                  rows={3}
-                />
-              </div>
+              {!isReceptionist && (
+                <div>
+                  <Label htmlFor="medicalHistory">Medical History</Label>
+                  <Textarea
+                    id="medicalHistory"
+                    {...register('medicalHistory')}
+                    rows={3}
+                  />
+                </div>
+              )}
+              <InsuranceFields register={register} watch={watch} setValue={setValue} errors={errors} />
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={() => setShowAddDialog(false)}>
                   Cancel
@@ -339,6 +366,7 @@ export default function Patients() {
                           {patient.isActive ? 'Active' : 'Inactive'}
                         </Badge>
                         <div className="flex items-center space-x-1">
+                          <HistoryButton path="patients" id={patient.id} title={`${patient.firstName} ${patient.lastName}`} />
                           <Dialog>
                             <DialogTrigger asChild>
                               <Button
@@ -354,7 +382,7 @@ export default function Patients() {
                                 </svg>
                               </Button>
                             </DialogTrigger>
-                            <DialogContent>
+                            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                               <DialogHeader>
                                 <DialogTitle>Edit Patient</DialogTitle>
                               </DialogHeader>
@@ -410,14 +438,17 @@ export default function Patients() {
                                     rows={2}
                                   />
                                 </div>
-                                <div>
-                                  <Label htmlFor="medicalHistory">Medical History</Label>
-                                  <Textarea
-                                    id="medicalHistory"
-                                    {...register('medicalHistory')}
-                                    rows={3}
-                                  />
-                                </div>
+                                {!isReceptionist && (
+                                  <div>
+                                    <Label htmlFor="medicalHistory">Medical History</Label>
+                                    <Textarea
+                                      id="medicalHistory"
+                                      {...register('medicalHistory')}
+                                      rows={3}
+                                    />
+                                  </div>
+                                )}
+                                <InsuranceFields register={register} watch={watch} setValue={setValue} errors={errors} />
                                 <div className="flex justify-end space-x-2">
                                   <Button type="button" variant="outline" onClick={() => setEditingPatient(null)}>
                                     Cancel
@@ -459,59 +490,86 @@ export default function Patients() {
           </CardHeader>
           <CardContent>
             {selectedPatient ? (
-              <div className="space-y-6">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                    {selectedPatient.firstName} {selectedPatient.lastName}
-                  </h3>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
+              <Tabs key={selectedPatient.id} defaultValue="overview">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="overview">Overview</TabsTrigger>
+                  <TabsTrigger value="allowances">Allowances</TabsTrigger>
+                </TabsList>
+                <TabsContent value="overview">
+                  <div className="space-y-6">
                     <div>
-                      <label className="font-medium text-gray-700">Email:</label>
-                      <p className="text-gray-900">{selectedPatient.email || 'N/A'}</p>
-                    </div>
-                    <div>
-                      <label className="font-medium text-gray-700">Phone:</label>
-                      <p className="text-gray-900">{selectedPatient.phone || 'N/A'}</p>
-                    </div>
-                    <div className="col-span-2">
-                      <label className="font-medium text-gray-700">Address:</label>
-                      <p className="text-gray-900">{selectedPatient.address || 'N/A'}</p>
-                    </div>
-                    <div className="col-span-2">
-                      <label className="font-medium text-gray-700">Medical History:</label>
-                      <p className="text-gray-900">{selectedPatient.medicalHistory || 'N/A'}</p>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                        {selectedPatient.firstName} {selectedPatient.lastName}
+                      </h3>
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <label className="font-medium text-gray-700">Email:</label>
+                          <p className="text-gray-900">{selectedPatient.email || 'N/A'}</p>
+                        </div>
+                        <div>
+                          <label className="font-medium text-gray-700">Phone:</label>
+                          <p className="text-gray-900">{selectedPatient.phone || 'N/A'}</p>
+                        </div>
+                        <div className="col-span-2">
+                          <label className="font-medium text-gray-700">Address:</label>
+                          <p className="text-gray-900">{selectedPatient.address || 'N/A'}</p>
+                        </div>
+                        {!isReceptionist && (
+                          <div className="col-span-2">
+                            <label className="font-medium text-gray-700">Medical History:</label>
+                            <p className="text-gray-900">{selectedPatient.medicalHistory || 'N/A'}</p>
+                          </div>
+                        )}
+                        <div className="col-span-2">
+                          <label className="font-medium text-gray-700">Insurance:</label>
+                          {selectedInsurance?.enabled ? (
+                            <p className="text-gray-900">
+                              {selectedInsurance.payerName || 'Unknown payer'} · Member {selectedInsurance.memberId || 'N/A'}
+                              {selectedInsurance.groupNumber && ` · Group ${selectedInsurance.groupNumber}`}
+                              {selectedInsurance.coverageEnd && ` · Until ${format(new Date(`${selectedInsurance.coverageEnd}T00:00:00`), 'MMM d, yyyy')}`}
+                            </p>
+                          ) : (
+                            <p className="text-gray-900">N/A</p>
+                          )}
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
 
-                <div>
-                  <h4 className="text-md font-semibold text-gray-900 mb-4">Appointment History</h4>
-                  {patientAppointments && patientAppointments.length > 0 ? (
-                    <div className="space-y-3">
-                      {patientAppointments.slice(0, 5).map((appointment) => (
-                        <div key={appointment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                          <div>
-                            <p className="text-sm font-medium text-gray-900">
-                              {appointment.service?.name}
-                            </p>
-                            <p className="text-xs text-gray-500">
-                              {format(new Date(appointment.startTime), 'MMM d, yyyy h:mm a')}
-                            </p>
-                            <p className="text-xs text-gray-500">
-                              {appointment.staff?.firstName} {appointment.staff?.lastName}
-                            </p>
-                          </div>
-                          <Badge className={getAppointmentStatusColor(appointment.status)}>
-                            {appointment.status}
-                          </Badge>
+                    <div>
+                      <h4 className="text-md font-semibold text-gray-900 mb-4">Appointment History</h4>
+                      {patientAppointments && patientAppointments.length > 0 ? (
+                        <div className="space-y-3">
+                          {patientAppointments.slice(0, 5).map((appointment) => (
+                            <div key={appointment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {appointment.service?.name}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {format(new Date(appointment.startTime), 'MMM d, yyyy h:mm a')}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {appointment.staff?.firstName} {appointment.staff?.lastName}
+                                </p>
+                              </div>
+                              <Badge className={getAppointmentStatusColor(appointment.status)}>
+                                {appointment.status}
+                              </Badge>
+                            </div>
+                          ))}
                         </div>
-                      ))}
+                      ) : (
+                        <p className="text-gray-500 text-sm">No appointments found</p>
+                      )}
                     </div>
-                  ) : (
-                    <p className="text-gray-500 text-sm">No appointments found</p>
-                  )}
-                </div>
-              </div>
+
+                    {!isReceptionist && <PatientStatement patient={selectedPatient} />}
+                  </div>
+                </TabsContent>
+                <TabsContent value="allowances">
+                  <PatientAllowances patient={selectedPatient} />
+                </TabsContent>
+              </Tabs>
             ) : (
               <div className="text-center py-12">
                 <svg className="w-12 h-12 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,483 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  clearPortalToken,
+  downloadPortalFile,
+  getPortalToken,
+  isPortalQuery,
+  portalRequest,
+} from "@/lib/portal";
+
+const getStatusColor = (status) => {
+  switch (status) {
+    case 'scheduled':
+      return 'bg-blue-100 text-blue-800';
+    case 'confirmed':
+      return 'bg-teal-100 text-teal-800';
+    case 'checked_in':
+      return 'bg-purple-100 text-purple-800';
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'cancelled':
+      return 'bg-red-100 text-red-800';
+    case 'no_show':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const formatStatus = (status) => status.replace('_', ' ');
+
+// Asks for the patient's email address and sends the sign-in link
+function PortalLogin() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (e) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await portalRequest('POST', '/api/portal/login', { email });
+      setSent(true);
+    } catch (error) {
+      setError(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            SBBookings
+          </CardTitle>
+          <CardDescription>Patient portal</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sent ? (
+            <p className="text-center text-gray-600">
+              If {email} is on file with a practice, we've sent it a sign-in link. It works once and expires in 30 minutes.
+            </p>
+          ) : (
+            <form onSubmit={submit} className="space-y-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="The address your practice has for you"
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'Sending...' : 'Email Me a Sign-In Link'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Picks a new time with the same staff member and service
+function RescheduleDialog({ appointment, onClose, onMoved }) {
+  const [date, setDate] = useState(format(new Date(appointment.startTime), 'yyyy-MM-dd'));
+  const [slot, setSlot] = useState(null);
+  const { toast } = useToast();
+
+  const { data: availability, isLoading } = useQuery({
+    queryKey: ['/api/portal/appointments', appointment.id, 'availability', date],
+    queryFn: () => portalRequest('GET', `/api/portal/appointments/${appointment.id}/availability?date=${date}`),
+    enabled: !!date,
+  });
+
+  useEffect(() => {
+    setSlot(null);
+  }, [date]);
+
+  const moveMutation = useMutation({
+    mutationFn: () => portalRequest('POST', `/api/portal/appointments/${appointment.id}/reschedule`, { startTime: slot.startTime }),
+    onSuccess: (appointments) => {
+      toast({
+        title: 'Success',
+        description: 'Your appointment has been moved',
+      });
+      onMoved(appointments);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to move appointment',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move Appointment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {appointment.serviceName}{appointment.staffName && ` with ${appointment.staffName}`}, now on{' '}
+            {format(new Date(appointment.startTime), 'EEEE, MMMM d')} at {format(new Date(appointment.startTime), 'h:mm a')}
+          </p>
+          <div>
+            <Label htmlFor="rescheduleDate">New date</Label>
+            <Input
+              id="rescheduleDate"
+              type="date"
+              value={date}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          {isLoading ? (
+            <div className="h-16 bg-gray-200 rounded animate-pulse" />
+          ) : availability?.slots.length ? (
+            <div className="grid grid-cols-4 gap-2">
+              {availability.slots.map((entry) => (
+                <Button
+                  key={entry.time}
+                  type="button"
+                  size="sm"
+                  variant={slot?.time === entry.time ? 'default' : 'outline'}
+                  onClick={() => setSlot(entry)}
+                >
+                  {format(new Date(entry.startTime), 'h:mm a')}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No times are free on this day. Please try another date.</p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button onClick={() => moveMutation.mutate()} disabled={!slot || moveMutation.isPending}>
+              {moveMutation.isPending ? 'Moving...' : 'Move Appointment'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A patient's own appointments, invoices and contact details
+export default function Portal() {
+  const [signedIn, setSignedIn] = useState(!!getPortalToken());
+  const [moving, setMoving] = useState(null);
+  const [contact, setContact] = useState(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Any portal request that comes back 401 has already dropped the session
+  const onPortalError = (error) => {
+    if (error?.status === 401) setSignedIn(false);
+  };
+
+  const { data: profile, error: profileError } = useQuery({
+    queryKey: ['/api/portal/me'],
+    queryFn: () => portalRequest('GET', '/api/portal/me'),
+    enabled: signedIn,
+    retry: false,
+  });
+
+  const { data: appointments, isLoading: appointmentsLoading, error: appointmentsError } = useQuery({
+    queryKey: ['/api/portal/appointments'],
+    queryFn: () => portalRequest('GET', '/api/portal/appointments'),
+    enabled: signedIn,
+    retry: false,
+  });
+
+  const { data: invoices, error: invoicesError } = useQuery({
+    queryKey: ['/api/portal/invoices'],
+    queryFn: () => portalRequest('GET', '/api/portal/invoices'),
+    enabled: signedIn,
+    retry: false,
+  });
+
+  useEffect(() => {
+    [profileError, appointmentsError, invoicesError].forEach(onPortalError);
+  }, [profileError, appointmentsError, invoicesError]);
+
+  useEffect(() => {
+    if (profile) {
+      setContact({ phone: profile.phone || '', address: profile.address || '' });
+    }
+  }, [profile]);
+
+  const onError = (fallback) => (error) => {
+    onPortalError(error);
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: (id) => portalRequest('POST', `/api/portal/appointments/${id}/cancel`),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/portal/appointments'], data);
+      toast({
+        title: 'Success',
+        description: 'Your appointment has been cancelled',
+      });
+    },
+    onError: onError('Failed to cancel appointment'),
+  });
+
+  const contactMutation = useMutation({
+    mutationFn: (data) => portalRequest('PUT', '/api/portal/me', data),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/portal/me'], data);
+      toast({
+        title: 'Success',
+        description: 'Your details have been updated',
+      });
+    },
+    onError: onError('Failed to update your details'),
+  });
+
+  if (!signedIn) {
+    return <PortalLogin />;
+  }
+
+  const signOut = () => {
+    clearPortalToken();
+    queryClient.removeQueries({ predicate: isPortalQuery });
+    setSignedIn(false);
+  };
+
+  const cancel = (appointment) => {
+    if (window.confirm('Cancel this appointment?')) {
+      cancelMutation.mutate(appointment.id);
+    }
+  };
+
+  const now = new Date();
+  const upcoming = (appointments || [])
+    .filter((appointment) => new Date(appointment.startTime) >= now && appointment.status !== 'cancelled')
+    .sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+  const past = (appointments || []).filter((appointment) => !upcoming.includes(appointment));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto py-8 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{profile?.practiceName || 'Patient Portal'}</h2>
+            <p className="text-gray-600">
+              {profile ? `Signed in as ${profile.firstName} ${profile.lastName}` : 'Loading...'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={signOut}>
+            Sign Out
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Appointments</CardTitle>
+            {profile && (
+              <CardDescription>
+                You can usually cancel or move an appointment here up to {profile.noticeHours} hours before it starts.
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {appointmentsLoading ? (
+              <div className="h-16 bg-gray-200 rounded animate-pulse" />
+            ) : upcoming.length === 0 ? (
+              <p className="text-gray-500">You have no upcoming appointments.</p>
+            ) : (
+              upcoming.map((appointment) => (
+                <div key={appointment.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{appointment.serviceName}</p>
+                      <p className="text-sm text-gray-700">
+                        {format(new Date(appointment.startTime), 'EEEE, MMMM d')} at {format(new Date(appointment.startTime), 'h:mm a')}
+                      </p>
+                      {appointment.staffName && <p className="text-sm text-gray-500">with {appointment.staffName}</p>}
+                    </div>
+                    <Badge className={getStatusColor(appointment.status)}>{formatStatus(appointment.status)}</Badge>
+                  </div>
+                  {appointment.cancelLockedReason ? (
+                    <p className="text-xs text-gray-500">{appointment.cancelLockedReason}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex space-x-2">
+                        {!appointment.rescheduleLockedReason && (
+                          <Button size="sm" variant="outline" onClick={() => setMoving(appointment)}>
+                            Reschedule
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => cancel(appointment)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                      {appointment.rescheduleLockedReason && (
+                        <p className="text-xs text-gray-500">{appointment.rescheduleLockedReason}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Past Appointments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {past.length === 0 ? (
+              <p className="text-gray-500">No past appointments.</p>
+            ) : (
+              <div className="divide-y">
+                {past.map((appointment) => (
+                  <div key={appointment.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{appointment.serviceName}</p>
+                      <p className="text-sm text-gray-500">
+                        {format(new Date(appointment.startTime), 'MMM d, yyyy h:mm a')}
+                        {appointment.staffName && ` with ${appointment.staffName}`}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(appointment.status)}>{formatStatus(appointment.status)}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invoices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!invoices?.length ? (
+              <p className="text-gray-500">No invoices yet.</p>
+            ) : (
+              <div className="divide-y">
+                {invoices.map((line) => (
+                  <div key={line.recordId} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {line.serviceName}
+                        {line.chargeType === 'no_show' && ' (no-show)'}
+                        {line.chargeType === 'late_cancellation' && ' (late cancellation)'}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {format(new Date(line.date), 'MMM d, yyyy')} · ${line.amount} · {line.paymentStatus}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => downloadPortalFile(`/api/portal/invoices/${line.recordId}/pdf`, `invoice-${line.recordId}.pdf`)
+                        .catch(onError('Failed to download invoice'))}
+                    >
+                      Download
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {contact && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Contact Details</CardTitle>
+              <CardDescription>
+                Your email address, {profile.email}, is how you sign in. Please ask the practice to change it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => { e.preventDefault(); contactMutation.mutate(contact); }}
+                className="space-y-4"
+              >
+                <div>
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    value={contact.phone}
+                    onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="address">Address</Label>
+                  <Textarea
+                    id="address"
+                    rows={2}
+                    value={contact.address}
+                    onChange={(e) => setContact({ ...contact, address: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={contactMutation.isPending}>
+                    {contactMutation.isPending ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {moving && (
+        <RescheduleDialog
+          appointment={moving}
+          onClose={() => setMoving(null)}
+          onMoved={(data) => {
+            queryClient.setQueryData(['/api/portal/appointments'], data);
+            setMoving(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { isPortalQuery, setPortalToken } from "@/lib/portal";
+
+// Landing page for the emailed portal link; the link is used as soon as the page opens
+export default function PortalSignIn({ params }) {
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+  // React may run the effect twice in development; the link only works once
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    fetch('/api/portal/session', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token: params.token }),
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'This sign-in link is invalid or has expired.');
+        setPortalToken(data.token);
+        queryClient.removeQueries({ predicate: isPortalQuery });
+        setLocation('/portal');
+      })
+      .catch((error) => setError(error.message));
+  }, [params.token, setLocation, queryClient]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            SBBookings
+          </CardTitle>
+          <CardDescription>Patient portal</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {!error ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-500">{error}</p>
+              <Button className="w-full" onClick={() => setLocation('/portal')}>
+                Get a New Link
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
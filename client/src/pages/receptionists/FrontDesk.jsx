@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+
+const inviteSchema = z.object({
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+// Receptionist accounts for the doctor's practice: they book and check patients in
+// but cannot see medical history, billing or subscription settings
+export default function FrontDesk() {
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm({
+    resolver: zodResolver(inviteSchema),
+  });
+
+  const { data: receptionists, isLoading } = useQuery({
+    queryKey: ['/api/receptionists'],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('POST', '/api/receptionists', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Receptionist account created successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/receptionists'] });
+      setShowInviteDialog(false);
+      reset();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create receptionist',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id) => {
+      await apiRequest('DELETE', `/api/receptionists/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Receptionist deactivated successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/receptionists'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to deactivate receptionist',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleDeactivate = (receptionist) => {
+    if (window.confirm(`Deactivate ${receptionist.firstName} ${receptionist.lastName}? They will no longer be able to sign in.`)) {
+      deactivateMutation.mutate(receptionist.id);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Front Desk</h2>
+          <p className="text-gray-600">Receptionists who book appointments and check patients in</p>
+        </div>
+        <Button onClick={() => setShowInviteDialog(true)}>
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Add Receptionist
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Receptionists</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : receptionists && receptionists.length > 0 ? (
+            <div className="space-y-3">
+              {receptionists.map((receptionist) => (
+                <div key={receptionist.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {receptionist.firstName} {receptionist.lastName}
+                    </p>
+                    <p className="text-xs text-gray-500">{receptionist.email}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge className={receptionist.isActive === false ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'}>
+                      {receptionist.isActive === false ? 'inactive' : 'active'}
+                    </Badge>
+                    {receptionist.isActive !== false && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deactivateMutation.isPending}
+                        onClick={() => handleDeactivate(receptionist)}
+                      >
+                        Deactivate
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-500">No receptionists yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Receptionist</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit((data) => inviteMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="firstName">First Name</Label>
+                <Input id="firstName" {...register('firstName')} className={errors.firstName ? 'border-red-500' : ''} />
+                {errors.firstName && (
+                  <p className="text-sm text-red-500">{errors.firstName.message}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="lastName">Last Name</Label>
+                <Input id="lastName" {...register('lastName')} className={errors.lastName ? 'border-red-500' : ''} />
+                {errors.lastName && (
+                  <p className="text-sm text-red-500">{errors.lastName.message}</p>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" {...register('email')} className={errors.email ? 'border-red-500' : ''} />
+              {errors.email && (
+                <p className="text-sm text-red-500">{errors.email.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="password">Initial Password</Label>
+              <Input id="password" type="password" {...register('password')} className={errors.password ? 'border-red-500' : ''} />
+              {errors.password && (
+                <p className="text-sm text-red-500">{errors.password.message}</p>
+              )}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setShowInviteDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? 'Creating...' : 'Create Account'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { ReminderSettings } from '../../components/reminders/ReminderSettings';
+import { useAuth } from '../../hooks/useAuth';
+
+const getReminderStatusColor = (status) => {
+  switch (status) {
+    case 'sent':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-blue-100 text-blue-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// 2880 -> '2 days before', 90 -> '90 minutes before'
+const offsetLabel = (minutes) => {
+  const [amount, unit] = minutes % 1440 === 0 ? [minutes / 1440, 'day']
+    : minutes % 60 === 0 ? [minutes / 60, 'hour']
+    : [minutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'} before`;
+};
+
+export default function Reminders() {
+  const [statusFilter, setStatusFilter] = useState('all');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const query = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
+
+  const { data: reminders, isLoading } = useQuery({
+    queryKey: ['/api/reminders', 'list', query],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reminders${query}`);
+      return response.json();
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await apiRequest('POST', `/api/reminders/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Reminder queued to send again',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to retry reminder',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Reminders</h2>
+        <p className="text-gray-600">Automatic appointment reminders and how their delivery went</p>
+      </div>
+
+      {user?.role === 'doctor' && <ReminderSettings />}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Delivery</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="skipped">Skipped</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : reminders?.length > 0 ? (
+            <div className="space-y-3">
+              {reminders.map((reminder) => (
+                <div key={reminder.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {reminder.patientFirstName} {reminder.patientLastName}
+                      <span className="text-gray-500 font-normal">
+                        {' · '}{reminder.channel === 'email' ? 'Email' : 'Text'} to {reminder.recipient}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Appointment {format(new Date(reminder.appointmentStart), 'MMM d, yyyy h:mm a')}
+                      {' · '}{offsetLabel(reminder.offsetMinutes)}
+                      {reminder.sentAt && ` · Sent ${format(new Date(reminder.sentAt), 'MMM d, h:mm a')}`}
+                    </p>
+                    {reminder.lastError && reminder.status !== 'sent' && (
+                      <p className="text-xs text-red-600">
+                        {reminder.lastError} ({reminder.attempts} attempt{reminder.attempts === 1 ? '' : 's'})
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge className={getReminderStatusColor(reminder.status)}>{reminder.status}</Badge>
+                    {reminder.status === 'failed' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate(reminder.id)}
+                      >
+                        Retry
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">No reminders yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
-import { authService } from '@/lib/authService';
+import { apiRequest } from '@/lib/queryClient';
 
 export default function Reports() {
   const [dateRange, setDateRange] = useState('last30days');
@@ -25,11 +25,7 @@ export default function Reports() {
   const { data: appointmentsData } = useQuery({
     queryKey: ['/api/appointments'],
     queryFn: async () => {
-      const response = await fetch('/api/appointments', {
-        headers: {
-          'Authorization': `Bearer ${authService.getToken()}`,
-        },
-      });
+      const response = await apiRequest('GET', '/api/appointments');
       return response.json();
     },
   });
@@ -53,11 +49,7 @@ export default function Reports() {
   const { data: billingRecords } = useQuery({
     queryKey: ['/api/billing'],
     queryFn: async () => {
-      const response = await fetch('/api/billing', {
-        headers: {
-          'Authorization': `Bearer ${authService.getToken()}`,
-        },
-      });
+      const response = await apiRequest('GET', '/api/billing');
       return response.json();
     },
   });
@@ -134,7 +126,7 @@ export default function Reports() {
   const completedAppointments = filteredAppointments.filter(apt => apt.status === 'completed').length;
   const cancelledAppointments = filteredAppointments.filter(apt => apt.status === 'cancelled').length;
   const noShowAppointments = filteredAppointments.filter(apt => apt.status === 'no_show').length;
-  const scheduledAppointments = filteredAppointments.filter(apt => apt.status === 'scheduled').length;
+  const scheduledAppointments = filteredAppointments.filter(apt => ['scheduled', 'confirmed'].includes(apt.status)).length;
 
   // Calculate service utilization
   const serviceUtilization = services?.map(service => {
@@ -170,6 +162,10 @@ export default function Reports() {
     switch (status) {
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
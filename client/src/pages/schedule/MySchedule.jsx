@@ -0,0 +1,302 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import { format, addDays, startOfWeek, isSameDay } from 'date-fns';
+
+const timeOffSchema = z.object({
+  startTime: z.string().min(1, 'Start is required'),
+  endTime: z.string().min(1, 'End is required'),
+  reason: z.string().optional(),
+}).refine((data) => new Date(data.endTime) > new Date(data.startTime), {
+  message: 'End must be after start',
+  path: ['endTime'],
+});
+
+// A signed-in staff member's own week: record visit outcomes and ask for time off
+export default function MySchedule() {
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [showTimeOffDialog, setShowTimeOffDialog] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const weekStart = addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), weekOffset * 7);
+  const weekEnd = addDays(weekStart, 7);
+  const days = [...Array(7)].map((_, i) => addDays(weekStart, i));
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm({
+    resolver: zodResolver(timeOffSchema),
+  });
+
+  const { data: appointments, isLoading } = useQuery({
+    queryKey: ['/api/schedule', weekStart.toISOString()],
+    queryFn: async () => {
+      const response = await apiRequest(
+        'GET',
+        `/api/schedule?startDate=${weekStart.toISOString()}&endDate=${weekEnd.toISOString()}`
+      );
+      return response.json();
+    },
+  });
+
+  const { data: timeOff } = useQuery({
+    queryKey: ['/api/time-off'],
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: async ({ id, status }) => {
+      const response = await apiRequest('PUT', `/api/appointments/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Appointment updated successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update appointment',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const timeOffMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await apiRequest('POST', '/api/time-off', {
+        startTime: new Date(data.startTime).toISOString(),
+        endTime: new Date(data.endTime).toISOString(),
+        reason: data.reason || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Time off requested',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/time-off'] });
+      setShowTimeOffDialog(false);
+      reset();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to request time off',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const getStatusColor = (status) => {
+    switch (status) {
+      case 'scheduled':
+        return 'bg-blue-100 text-blue-800';
+      case 'confirmed':
+        return 'bg-teal-100 text-teal-800';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800';
+      case 'completed':
+        return 'bg-green-100 text-green-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      case 'no_show':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getTimeOffColor = (status) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">My Schedule</h2>
+          <p className="text-gray-600">Your appointments and time off</p>
+        </div>
+        <Button onClick={() => setShowTimeOffDialog(true)}>
+          Request Time Off
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>
+              {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </CardTitle>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset - 1)}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekOffset(0)}>
+                This Week
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {days.map((day) => {
+                const dayAppointments = appointments?.filter(appointment =>
+                  isSameDay(new Date(appointment.startTime), day)
+                ) || [];
+                return (
+                  <div key={day.toISOString()}>
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">{format(day, 'EEEE, MMM d')}</h4>
+                    {dayAppointments.length === 0 ? (
+                      <p className="text-sm text-gray-400">No appointments</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {dayAppointments.map((appointment) => (
+                          <div key={appointment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900">
+                                {format(new Date(appointment.startTime), 'h:mm a')} · {appointment.patient?.firstName} {appointment.patient?.lastName}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {appointment.service?.name}
+                                {appointment.patient?.phone && ` · ${appointment.patient.phone}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Badge className={getStatusColor(appointment.status)}>
+                                {appointment.status}
+                              </Badge>
+                              {['scheduled', 'confirmed', 'checked_in'].includes(appointment.status) && (
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={outcomeMutation.isPending}
+                                    onClick={() => outcomeMutation.mutate({ id: appointment.id, status: 'completed' })}
+                                  >
+                                    Completed
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={outcomeMutation.isPending}
+                                    onClick={() => outcomeMutation.mutate({ id: appointment.id, status: 'no_show' })}
+                                  >
+                                    No-show
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time Off</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {timeOff && timeOff.length > 0 ? (
+            <div className="space-y-3">
+              {timeOff.map((request) => (
+                <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {format(new Date(request.startTime), 'MMM d, h:mm a')} – {format(new Date(request.endTime), 'MMM d, h:mm a')}
+                    </p>
+                    {request.reason && <p className="text-xs text-gray-500">{request.reason}</p>}
+                  </div>
+                  <Badge className={getTimeOffColor(request.status)}>
+                    {request.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">No time off requested</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showTimeOffDialog} onOpenChange={setShowTimeOffDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request Time Off</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit((data) => timeOffMutation.mutate(data))} className="space-y-4">
+            <div>
+              <Label htmlFor="startTime">From</Label>
+              <Input id="startTime" type="datetime-local" {...register('startTime')} className={errors.startTime ? 'border-red-500' : ''} />
+              {errors.startTime && (
+                <p className="text-sm text-red-500">{errors.startTime.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="endTime">Until</Label>
+              <Input id="endTime" type="datetime-local" {...register('endTime')} className={errors.endTime ? 'border-red-500' : ''} />
+              {errors.endTime && (
+                <p className="text-sm text-red-500">{errors.endTime.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea id="reason" {...register('reason')} rows={2} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setShowTimeOffDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={timeOffMutation.isPending}>
+                {timeOffMutation.isPending ? 'Sending...' : 'Send Request'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
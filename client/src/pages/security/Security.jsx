@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { authService } from '@/lib/authService';
+
+function CodeInput({ value, onChange }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[...Array(6)].map((_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Two-factor enrollment for the signed-in user, and the backup codes that go with it
+export default function Security() {
+  const [setup, setSetup] = useState(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState(null);
+  // 'backup-codes' or 'disable' while the user confirms with a current code
+  const [confirmAction, setConfirmAction] = useState(null);
+  const [confirmCode, setConfirmCode] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['/api/auth/two-factor'],
+  });
+
+  const onError = (fallback) => (error) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  // The signed-in user carries the two-factor flags, so reload it after a change
+  const refreshStatus = async () => {
+    await authService.getCurrentUser();
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/two-factor'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/two-factor/setup');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setSetupCode('');
+    },
+    onError: onError('Failed to start two-factor setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code) => {
+      const response = await apiRequest('POST', '/api/auth/two-factor/enable', { code });
+      return response.json();
+    },
+    onSuccess: async (data) => {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      await refreshStatus();
+      toast({
+        title: 'Success',
+        description: 'Two-factor authentication is on',
+      });
+    },
+    onError: onError('Failed to enable two-factor authentication'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code) => {
+      const response = await apiRequest('POST', '/api/auth/two-factor/backup-codes', { code });
+      return response.json();
+    },
+    onSuccess: async (data) => {
+      setConfirmAction(null);
+      setBackupCodes(data.backupCodes);
+      await refreshStatus();
+    },
+    onError: onError('Failed to generate backup codes'),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (code) => {
+      await apiRequest('POST', '/api/auth/two-factor/disable', { code });
+    },
+    onSuccess: async () => {
+      setConfirmAction(null);
+      await refreshStatus();
+      toast({
+        title: 'Success',
+        description: 'Two-factor authentication is off',
+      });
+    },
+    onError: onError('Failed to disable two-factor authentication'),
+  });
+
+  const openConfirm = (action) => {
+    setConfirmCode('');
+    setConfirmAction(action);
+  };
+
+  const submitConfirm = (e) => {
+    e.preventDefault();
+    if (confirmAction === 'disable') {
+      disableMutation.mutate(confirmCode);
+    } else {
+      regenerateMutation.mutate(confirmCode);
+    }
+  };
+
+  const copyBackupCodes = async () => {
+    await navigator.clipboard.writeText(backupCodes.join('\n'));
+    toast({
+      title: 'Copied',
+      description: 'Backup codes copied to clipboard',
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Security</h2>
+        <p className="text-gray-600">Protect your account with a second sign-in step</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                After your password, sign-in asks for a code from an authenticator app on your phone.
+              </CardDescription>
+            </div>
+            {status && (
+              <Badge className={status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                {status.enabled ? 'On' : 'Off'}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="h-16 bg-gray-200 rounded animate-pulse" />
+          ) : status?.enabled ? (
+            <>
+              <p className="text-sm text-gray-600">
+                {status.backupCodesRemaining} unused backup code{status.backupCodesRemaining === 1 ? '' : 's'} left.
+                Each one signs you in once if you don't have your phone.
+              </p>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => openConfirm('backup-codes')}>
+                  New Backup Codes
+                </Button>
+                {!status.required && (
+                  <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => openConfirm('disable')}>
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+              {status.required && (
+                <p className="text-xs text-gray-500">Two-factor authentication is required for your account.</p>
+              )}
+            </>
+          ) : setup ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy,
+                then enter the 6-digit code it shows.
+              </p>
+              <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 border rounded" />
+              <div className="space-y-2">
+                <Label htmlFor="secret">Can't scan? Enter this key instead</Label>
+                <Input id="secret" value={setup.secret} readOnly onFocus={(e) => e.target.select()} className="font-mono" />
+              </div>
+              <form
+                onSubmit={(e) => { e.preventDefault(); enableMutation.mutate(setupCode); }}
+                className="flex items-center space-x-4"
+              >
+                <CodeInput value={setupCode} onChange={setSetupCode} />
+                <Button type="submit" disabled={setupCode.length !== 6 || enableMutation.isPending}>
+                  {enableMutation.isPending ? 'Verifying...' : 'Turn On'}
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </form>
+            </div>
+          ) : (
+            <>
+              {status?.required && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3">
+                  Two-factor authentication is required for your account. Set it up to continue.
+                </p>
+              )}
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                {setupMutation.isPending ? 'Starting...' : 'Set Up Two-Factor'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirmAction === 'disable' ? 'Turn Off Two-Factor' : 'New Backup Codes'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submitConfirm} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {confirmAction === 'disable'
+                ? 'Enter a code from your authenticator app or a backup code to turn two-factor off.'
+                : 'Enter a code from your authenticator app. Your old backup codes stop working.'}
+            </p>
+            <Input
+              value={confirmCode}
+              onChange={(e) => setConfirmCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="off"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setConfirmAction(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={confirmAction === 'disable' ? 'destructive' : 'default'}
+                disabled={!confirmCode || disableMutation.isPending || regenerateMutation.isPending}
+              >
+                Confirm
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!backupCodes} onOpenChange={(open) => !open && setBackupCodes(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Backup Codes</DialogTitle>
+          </DialogHeader>
+          {backupCodes && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Keep these somewhere safe. Each code signs you in once without your phone, and they won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded font-mono text-sm">
+                {backupCodes.map((code) => (
+                  <span key={code}>{code}</span>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={copyBackupCodes}>
+                  Copy
+                </Button>
+                <Button onClick={() => setBackupCodes(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
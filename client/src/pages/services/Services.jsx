@@ -27,14 +27,44 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
+import { HistoryButton } from "../../components/audit/HistoryButton";
+import { OnlineBookingSettings } from "../../components/booking/OnlineBookingSettings";
+import { CancellationPolicySettings, ServiceCancellationPolicy } from "../../components/cancellations/CancellationPolicySettings";
 
 const serviceSchema = z.object({
   name: z.string().min(1, "Service name is required"),
   duration: z.number().min(1, "Duration must be at least 1 minute"),
   price: z.string().optional(),
+  procedureCode: z.string().optional(),
   categoryId: z.number().optional(),
+  billNoShows: z.boolean().optional(),
+  noShowFee: z.string().optional(),
 });
 
+// Per-service setting for charging patients who miss their appointment
+function NoShowFeeFields({ register, watch, setValue }) {
+  const billNoShows = watch("billNoShows");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="billNoShows"
+          checked={!!billNoShows}
+          onCheckedChange={(checked) => setValue("billNoShows", !!checked)}
+        />
+        <Label htmlFor="billNoShows">Charge a fee for no-shows</Label>
+      </div>
+      {billNoShows && (
+        <div>
+          <Label htmlFor="noShowFee">No-show Fee</Label>
+          <Input id="noShowFee" {...register("noShowFee")} placeholder="$0.00" />
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function Services() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingService, setEditingService] = useState(null);
@@ -150,6 +180,9 @@ export default function Services() {
     const formattedData = {
       ...data,
       price: data.price === "" ? null : data.price,
+      procedureCode: data.procedureCode ? data.procedureCode.trim().toUpperCase() : null,
+      billNoShows: !!data.billNoShows,
+      noShowFee: data.billNoShows && data.noShowFee ? data.noShowFee : null,
     };
 
     if (editingService) {
@@ -169,7 +202,10 @@ export default function Services() {
     setValue("name", service.name);
     setValue("duration", service.duration);
     setValue("price", service.price || "");
+    setValue("procedureCode", service.procedureCode || "");
     setValue("categoryId", service.categoryId || undefined);
+    setValue("billNoShows", !!service.billNoShows);
+    setValue("noShowFee", service.noShowFee || "");
     setShowEditDialog(true);
   };
 
@@ -302,6 +338,15 @@ export default function Services() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="procedureCode">Procedure Code (CPT)</Label>
+                <Input
+                  id="procedureCode"
+                  {...register("procedureCode")}
+                  placeholder="e.g. 97110"
+                />
+              </div>
+              <NoShowFeeFields register={register} watch={watch} setValue={setValue} />
               <div className="flex justify-end space-x-2">
                 <Button
                   type="button"
@@ -435,6 +480,7 @@ export default function Services() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <HistoryButton path="services" id={service.id} title={service.name} />
                         <Button
                           variant="ghost"
                           size="sm"
@@ -557,6 +603,15 @@ export default function Services() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label htmlFor="procedureCode">Procedure Code (CPT)</Label>
+                  <Input
+                    id="procedureCode"
+                    {...register("procedureCode")}
+                    placeholder="e.g. 97110"
+                  />
+                </div>
+                <NoShowFeeFields register={register} watch={watch} setValue={setValue} />
                 <div className="flex justify-end space-x-2">
                   <Button
                     type="button"
@@ -579,10 +634,20 @@ export default function Services() {
                   </Button>
                 </div>
               </form>
+              {user?.role === "doctor" && editingService && (
+                <ServiceCancellationPolicy serviceId={editingService.id} />
+              )}
             </DialogContent>
           </Dialog>
         </CardContent>
       </Card>
+
+      {user?.role === "doctor" && (
+        <>
+          <OnlineBookingSettings />
+          <CancellationPolicySettings />
+        </>
+      )}
     </div>
   );
 }
@@ -12,6 +12,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { TimeOffRequests } from '../../components/staff/TimeOffRequests';
+import { HistoryButton } from '../../components/audit/HistoryButton';
 
 const staffSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
@@ -26,6 +29,7 @@ export default function Staff() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingStaff, setEditingStaff] = useState(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [inviteLink, setInviteLink] = useState(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -118,6 +122,32 @@ export default function Staff() {
     },
   });
 
+  // Invite a staff member to sign in to their own schedule
+  const inviteStaffMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await apiRequest('POST', `/api/staff/${id}/invite`);
+      return response.json();
+    },
+    onSuccess: (invite) => {
+      setInviteLink(invite);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create invite',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const copyInviteLink = async () => {
+    await navigator.clipboard.writeText(inviteLink.inviteUrl);
+    toast({
+      title: 'Copied',
+      description: 'Invite link copied to clipboard',
+    });
+  };
+
   const onSubmit = (data) => {
     if (editingStaff) {
       updateStaffMutation.mutate({ id: editingStaff.id, data });
@@ -347,6 +377,7 @@ export default function Staff() {
                         </Badge>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                        <HistoryButton path="staff" id={member.id} title={`${member.firstName} ${member.lastName}`} />
                         <Dialog>
                           <DialogTrigger asChild>
                             <Button
@@ -436,6 +467,16 @@ export default function Staff() {
                             </form>
                           </DialogContent>
                         </Dialog>
+                        {member.isActive && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={inviteStaffMutation.isPending}
+                            onClick={() => inviteStaffMutation.mutate(member.id)}
+                          >
+                            Invite
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -455,6 +496,35 @@ export default function Staff() {
           )}
         </CardContent>
       </Card>
+
+      <TimeOffRequests staff={staff} />
+
+      <Dialog open={!!inviteLink} onOpenChange={(open) => !open && setInviteLink(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Staff Invite</DialogTitle>
+          </DialogHeader>
+          {inviteLink && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {inviteLink.emailed
+                  ? `We emailed this link to ${inviteLink.email}; you can also pass it on yourself.`
+                  : `The email to ${inviteLink.email} couldn't be sent, so send them this link.`}
+                {' '}They choose a password and can then sign in to see their own schedule. The link works once and expires {format(new Date(inviteLink.expiresAt), 'MMM d, yyyy')}.
+              </p>
+              <Input value={inviteLink.inviteUrl} readOnly onFocus={(e) => e.target.select()} />
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setInviteLink(null)}>
+                  Close
+                </Button>
+                <Button onClick={copyInviteLink}>
+                  Copy Link
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { createSlice } from '@reduxjs/toolkit';
 const initialState = {
   user: null,
   token: null,
+  refreshToken: null,
   isAuthenticated: false,
 };
 
@@ -11,14 +12,19 @@ export const authSlice = createSlice({
   initialState,
   reducers: {
     setCredentials: (state, action) => {
-      const { user, token } = action.payload;
+      const { user, token, refreshToken } = action.payload;
       state.user = user;
       state.token = token;
+      // Refreshing the user profile alone keeps the refresh token already held
+      if (refreshToken) {
+        state.refreshToken = refreshToken;
+      }
       state.isAuthenticated = true;
     },
     logout: (state) => {
       state.user = null;
       state.token = null;
+      state.refreshToken = null;
       state.isAuthenticated = false;
     },
   },
@@ -28,6 +34,7 @@ export const { setCredentials, logout } = authSlice.actions;
 
 export const selectCurrentUser = (state) => state.auth.user;
 export const selectToken = (state) => state.auth.token;
+export const selectRefreshToken = (state) => state.auth.refreshToken;
 export const selectIsAuthenticated = (state) => state.auth.isAuthenticated;
 
 export default authSlice.reducer;
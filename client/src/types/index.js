@@ -9,7 +9,16 @@
  * @property {string} email - User email address
  * @property {string} firstName - User first name
  * @property {string} lastName - User last name
- * @property {'admin' | 'doctor'} role - User role
+ * @property {string|null} [practiceName] - Practice name printed on invoices and statements
+ * @property {string|null} [npi] - Practice NPI sent on insurance claims
+ * @property {string|null} [taxId] - Practice tax ID sent on insurance claims
+ * @property {string|null} [practiceAddress] - Practice address, "street, city, ST 12345"
+ * @property {number|null} [practiceOwnerId] - Receptionists and staff: the doctor whose practice they work for
+ * @property {number|null} [staffId] - Staff: the staff profile whose schedule they sign in to
+ * @property {'admin' | 'doctor' | 'receptionist' | 'staff'} role - User role
+ * @property {boolean} [emailVerified] - Whether the user has confirmed their email address
+ * @property {boolean} [twoFactorEnabled] - Whether sign-in asks for an authenticator code
+ * @property {boolean} [twoFactorSetupRequired] - Two-factor is required but not set up; only /security works until it is
  */
 
 /**
@@ -42,13 +51,24 @@
  * @property {string} [phone] - Patient phone number (optional)
  * @property {Date} [dateOfBirth] - Patient date of birth (optional)
  * @property {string} [address] - Patient address (optional)
- * @property {Object} [insuranceInfo] - Patient insurance information (optional)
+ * @property {InsuranceInfo|null} [insuranceInfo] - Patient insurance coverage (optional)
  * @property {string} [medicalHistory] - Patient medical history (optional)
  * @property {boolean} isActive - Whether patient is active
  * @property {Date} createdAt - Creation timestamp
  * @property {Date} updatedAt - Last update timestamp
  */
 
+/**
+ * @typedef {Object} InsuranceInfo
+ * @property {string} payerName - Insurance company name
+ * @property {string} [payerId] - Clearinghouse payer ID (optional)
+ * @property {string} memberId - Member ID on the insurance card
+ * @property {string} [groupNumber] - Group number (optional)
+ * @property {{firstName: string, lastName: string, relationship: 'self'|'spouse'|'child'|'other', dateOfBirth?: string}} policyHolder - Person who holds the policy
+ * @property {string} coverageStart - First covered day (YYYY-MM-DD)
+ * @property {string} [coverageEnd] - Last covered day (YYYY-MM-DD, optional)
+ */
+
 /**
  * @typedef {Object} Service
  * @property {number} id - Service ID
@@ -58,6 +78,9 @@
  * @property {number} duration - Service duration in minutes
  * @property {number} capacity - Maximum number of patients
  * @property {string} [price] - Service price (optional)
+ * @property {string} [procedureCode] - CPT/HCPCS code billed on insurance claims (optional)
+ * @property {boolean} [billNoShows] - Whether no-shows are charged (optional)
+ * @property {string} [noShowFee] - Fee charged for a no-show (optional)
  * @property {boolean} isGroup - Whether this is a group service
  * @property {boolean} isActive - Whether service is active
  * @property {Object} [rules] - Service rules (optional)
@@ -73,9 +96,10 @@
  * @property {number} serviceId - Service ID
  * @property {Date} startTime - Appointment start time
  * @property {Date} endTime - Appointment end time
- * @property {'scheduled' | 'completed' | 'cancelled' | 'no_show'} status - Appointment status
+ * @property {'scheduled' | 'confirmed' | 'checked_in' | 'completed' | 'cancelled' | 'no_show'} status - Appointment status
  * @property {string} [notes] - Appointment notes (optional)
  * @property {number} [recurringRuleId] - Recurring rule ID (optional)
+ * @property {number} rescheduleCount - Times the appointment has been moved
  * @property {Date} createdAt - Creation timestamp
  * @property {Date} updatedAt - Last update timestamp
  */
@@ -88,7 +112,7 @@
  * @property {number} serviceId - Service ID
  * @property {Date} startTime - Appointment start time
  * @property {Date} endTime - Appointment end time
- * @property {'scheduled' | 'completed' | 'cancelled' | 'no_show'} status - Appointment status
+ * @property {'scheduled' | 'confirmed' | 'checked_in' | 'completed' | 'cancelled' | 'no_show'} status - Appointment status
  * @property {string} [notes] - Appointment notes (optional)
  * @property {number} [recurringRuleId] - Recurring rule ID (optional)
  * @property {Date} createdAt - Creation timestamp
@@ -114,9 +138,149 @@
  * @property {string} [reason] - Reason for unavailability (optional)
  */
 
+/**
+ * @typedef {Object} BookableSlot
+ * @property {string} time - Start time as HH:mm
+ * @property {string} startTime - Slot start (ISO string)
+ * @property {string} endTime - Slot end (ISO string)
+ */
+
 /**
  * @typedef {Object} StaffAvailability
- * @property {Object} availability - Availability settings
- * @property {Array} exclusions - Exclusion dates/times
- * @property {Array<Appointment>} existingAppointments - Existing appointments
+ * @property {string} date - Requested day (YYYY-MM-DD)
+ * @property {number} staffId - Staff member ID
+ * @property {number} serviceId - Service ID
+ * @property {number} duration - Service duration in minutes
+ * @property {Array<BookableSlot>} slots - Open start times
+ */
+
+/**
+ * @typedef {Object} TimeOffRequest
+ * @property {number} id - Request ID
+ * @property {number} staffId - Staff member ID
+ * @property {string} startTime - Start of the time off (ISO string)
+ * @property {string} endTime - End of the time off (ISO string)
+ * @property {string|null} [reason] - Why the staff member is away
+ * @property {'pending' | 'approved' | 'rejected'} status - Only approved time off blocks bookings
+ * @property {string} createdAt - When the request was made
+ */
+
+/**
+ * @typedef {Object} StaffInviteLink
+ * @property {string} email - Staff member the invite is for
+ * @property {string} inviteUrl - Link the staff member opens to create their login
+ * @property {string} expiresAt - When the link stops working (ISO string)
+ * @property {boolean} emailed - Whether the link was emailed to the staff member
+ */
+
+/**
+ * @typedef {Object} FailedLogin
+ * @property {number} id - Event ID
+ * @property {string} email - Email as typed at sign-in
+ * @property {number|null} [userId] - Account the email belongs to, if any
+ * @property {'unknown_email' | 'wrong_password' | 'wrong_code' | 'inactive' | 'locked'} reason - Why the sign-in failed
+ * @property {string|null} [ipAddress] - Client address
+ * @property {string|null} [userAgent] - Client browser
+ * @property {string} createdAt - When the attempt was made
+ */
+
+/**
+ * @typedef {Object} AuditLog
+ * @property {number} id - Entry ID
+ * @property {number|null} [actorId] - User who made the change; empty for system changes
+ * @property {string|null} [actorRole] - Role of that user at the time
+ * @property {string|null} [actorName] - Name of that user
+ * @property {string|null} [actorEmail] - Email of that user
+ * @property {number|null} [tenantId] - Practice (doctor) the record belongs to
+ * @property {'patient' | 'patientAllowance' | 'appointment' | 'staff' | 'service' | 'billingRecord' | 'insuranceClaim' | 'remittanceClaim'} entityType - Kind of record changed
+ * @property {number} entityId - ID of the record changed
+ * @property {'create' | 'update' | 'delete'} action - What happened to it
+ * @property {Object<string, {from: *, to: *}>} changes - Before and after of each changed field
+ * @property {string|null} [ipAddress] - Client address
+ * @property {string} createdAt - When the change was made
+ */
+
+/**
+ * @typedef {Object} ReminderSettings
+ * @property {boolean} enabled - Whether the practice sends reminders at all
+ * @property {number[]} offsetsMinutes - How long before the start time each reminder goes out
+ * @property {boolean} emailEnabled - Whether reminders go out by email
+ * @property {boolean} smsEnabled - Whether reminders go out by text message
+ * @property {string} emailSubject - Email subject template
+ * @property {string} emailBody - Email body template
+ * @property {string} smsBody - Text message template
+ * @property {Object<string, string>} placeholders - Placeholders the templates may use, with descriptions
+ */
+
+/**
+ * @typedef {Object} AppointmentReminder
+ * @property {number} id - Reminder ID
+ * @property {number} appointmentId - Appointment it reminds of
+ * @property {number} doctorId - Practice it belongs to
+ * @property {'email' | 'sms'} channel - How it is sent
+ * @property {number} offsetMinutes - How long before the start time it goes out
+ * @property {string} appointmentStart - Start time it reminds of (ISO string)
+ * @property {string} recipient - Email address or phone number
+ * @property {'pending' | 'sent' | 'failed' | 'skipped'} status - Delivery status
+ * @property {number} attempts - Delivery attempts so far
+ * @property {string|null} [lastError] - Why the last attempt failed
+ * @property {string} nextAttemptAt - When it is (next) due (ISO string)
+ * @property {string|null} [sentAt] - When it was delivered (ISO string)
+ * @property {string} patientFirstName - Patient's first name
+ * @property {string} patientLastName - Patient's last name
+ * @property {string} createdAt - When it was scheduled (ISO string)
+ */
+
+/**
+ * @typedef {Object} AppointmentResponse
+ * @property {number} id - Response ID
+ * @property {number} appointmentId - Appointment answered for
+ * @property {number} doctorId - Practice it belongs to
+ * @property {'confirm' | 'cancel' | 'reschedule'} response - What the patient chose
+ * @property {string|null} [note] - Patient's note with a reschedule request
+ * @property {string|null} [acknowledgedAt] - When someone at the practice marked it seen (ISO string)
+ * @property {number|null} [acknowledgedBy] - Who marked it seen
+ * @property {string} patientFirstName - Patient's first name
+ * @property {string} patientLastName - Patient's last name
+ * @property {string} appointmentStart - Appointment start time (ISO string)
+ * @property {string} appointmentStatus - Appointment status now
+ * @property {string} createdAt - When the patient answered (ISO string)
+ */
+
+/**
+ * @typedef {Object} BookingSettings
+ * @property {string|null} [bookingSlug] - Address of the public booking page, /book/<slug>; unset while online booking is off
+ * @property {string|null} [bookingUrl] - Full link to the booking page
+ * @property {boolean} subscriptionActive - Whether the subscription keeps the booking page open
+ */
+
+/**
+ * @typedef {Object} CancellationPolicy
+ * @property {number} noticeHours - Patients can't cancel or move an appointment online once it starts within this many hours
+ * @property {number|null} maxReschedules - How often an appointment can be moved; null for no limit
+ * @property {number} lateCancelFeePercent - Share of the service price charged for a cancellation inside the notice period
+ */
+
+/**
+ * @typedef {Object} PortalProfile
+ * @property {number} id - Patient ID
+ * @property {string} firstName - Patient's first name
+ * @property {string} lastName - Patient's last name
+ * @property {string|null} [email] - Address the patient signs in with
+ * @property {string|null} [phone] - Patient's phone number
+ * @property {string|null} [address] - Patient's address
+ * @property {string} practiceName - Practice the record belongs to
+ * @property {number} noticeHours - The practice's cancellation notice, in hours
+ */
+
+/**
+ * @typedef {Object} PortalAppointment
+ * @property {number} id - Appointment ID
+ * @property {string} startTime - Start time (ISO string)
+ * @property {string} endTime - End time (ISO string)
+ * @property {string} status - Appointment status
+ * @property {string} serviceName - Service booked
+ * @property {string} staffName - Staff member seeing the patient
+ * @property {string|null} [cancelLockedReason] - Why it can't be cancelled online; null when it can
+ * @property {string|null} [rescheduleLockedReason] - Why it can't be moved online; null when it can
  */
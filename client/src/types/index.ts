@@ -3,7 +3,16 @@ export interface User {
   email: string;
   firstName: string;
   lastName: string;
-  role: 'admin' | 'doctor';
+  practiceName?: string | null;
+  npi?: string | null;
+  taxId?: string | null;
+  practiceAddress?: string | null;
+  practiceOwnerId?: number | null;
+  staffId?: number | null;
+  role: 'admin' | 'doctor' | 'receptionist' | 'staff';
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 export interface AuthResponse {
@@ -33,13 +42,28 @@ export interface Patient {
   phone?: string;
   dateOfBirth?: Date;
   address?: string;
-  insuranceInfo?: any;
+  insuranceInfo?: InsuranceInfo | null;
   medicalHistory?: string;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface InsuranceInfo {
+  payerName: string;
+  payerId?: string;
+  memberId: string;
+  groupNumber?: string;
+  policyHolder: {
+    firstName: string;
+    lastName: string;
+    relationship: 'self' | 'spouse' | 'child' | 'other';
+    dateOfBirth?: string;
+  };
+  coverageStart: string; // YYYY-MM-DD
+  coverageEnd?: string;
+}
+
 export interface Service {
   id: number;
   name: string;
@@ -48,6 +72,9 @@ export interface Service {
   duration: number;
   capacity: number;
   price?: string;
+  procedureCode?: string;
+  billNoShows?: boolean;
+  noShowFee?: string;
   isGroup: boolean;
   isActive: boolean;
   rules?: any;
@@ -62,9 +89,10 @@ export interface Appointment {
   serviceId: number;
   startTime: Date;
   endTime: Date;
-  status: 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  status: 'scheduled' | 'confirmed' | 'checked_in' | 'completed' | 'cancelled' | 'no_show';
   notes?: string;
   recurringRuleId?: number;
+  rescheduleCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -89,8 +117,136 @@ export interface TimeSlot {
   reason?: string;
 }
 
+export interface BookableSlot {
+  time: string;
+  startTime: string;
+  endTime: string;
+}
+
 export interface StaffAvailability {
-  availability: any;
-  exclusions: any[];
-  existingAppointments: Appointment[];
+  date: string;
+  staffId: number;
+  serviceId: number;
+  duration: number;
+  slots: BookableSlot[];
+}
+
+export interface TimeOffRequest {
+  id: number;
+  staffId: number;
+  startTime: string;
+  endTime: string;
+  reason?: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string;
+}
+
+export interface StaffInviteLink {
+  email: string;
+  inviteUrl: string;
+  expiresAt: string;
+  emailed: boolean;
+}
+
+export interface FailedLogin {
+  id: number;
+  email: string;
+  userId?: number | null;
+  reason: 'unknown_email' | 'wrong_password' | 'wrong_code' | 'inactive' | 'locked';
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: string;
+}
+
+export interface AuditLog {
+  id: number;
+  actorId?: number | null;
+  actorRole?: string | null;
+  actorName?: string | null;
+  actorEmail?: string | null;
+  tenantId?: number | null;
+  entityType: 'patient' | 'patientAllowance' | 'appointment' | 'staff' | 'service' | 'billingRecord' | 'insuranceClaim' | 'remittanceClaim';
+  entityId: number;
+  action: 'create' | 'update' | 'delete';
+  changes: Record<string, { from: unknown; to: unknown }>;
+  ipAddress?: string | null;
+  createdAt: string;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  offsetsMinutes: number[];
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  emailSubject: string;
+  emailBody: string;
+  smsBody: string;
+  placeholders: Record<string, string>;
+}
+
+export interface AppointmentReminder {
+  id: number;
+  appointmentId: number;
+  doctorId: number;
+  channel: 'email' | 'sms';
+  offsetMinutes: number;
+  appointmentStart: string;
+  recipient: string;
+  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  lastError?: string | null;
+  nextAttemptAt: string;
+  sentAt?: string | null;
+  patientFirstName: string;
+  patientLastName: string;
+  createdAt: string;
+}
+
+export interface AppointmentResponse {
+  id: number;
+  appointmentId: number;
+  doctorId: number;
+  response: 'confirm' | 'cancel' | 'reschedule';
+  note?: string | null;
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: number | null;
+  patientFirstName: string;
+  patientLastName: string;
+  appointmentStart: string;
+  appointmentStatus: Appointment['status'];
+  createdAt: string;
+}
+
+export interface BookingSettings {
+  bookingSlug?: string | null;
+  bookingUrl?: string | null;
+  subscriptionActive: boolean;
+}
+
+export interface CancellationPolicy {
+  noticeHours: number;
+  maxReschedules: number | null;
+  lateCancelFeePercent: number;
+}
+
+export interface PortalProfile {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  practiceName: string;
+  noticeHours: number;
+}
+
+export interface PortalAppointment {
+  id: number;
+  startTime: string;
+  endTime: string;
+  status: Appointment['status'];
+  serviceName: string;
+  staffName: string;
+  cancelLockedReason?: string | null;
+  rescheduleLockedReason?: string | null;
 }
@@ -0,0 +1,143 @@
+import type { Appointment, PatientServiceAllowance } from "@shared/schema";
+import { storage } from "./storage";
+
+// Statuses that will use up a session once the visit happens
+const PENDING_STATUSES = ['scheduled', 'confirmed'];
+
+// Allowances ending within this many days are flagged so the practice can renew them in time
+export const EXPIRY_WARNING_DAYS = 14;
+
+export interface AllowanceSummary extends PatientServiceAllowance {
+  pendingSessions: number;
+  remaining: number;
+  expiresSoon: boolean;
+  usage: Pick<Appointment, 'id' | 'startTime' | 'endTime' | 'status' | 'staffId'>[];
+}
+
+export interface AllowanceCheck {
+  allowance: PatientServiceAllowance;
+  remaining: number; // sessions left after counting completed and already booked visits
+}
+
+function isInPeriod(allowance: PatientServiceAllowance, appointment: Appointment): boolean {
+  const start = new Date(appointment.startTime);
+  return start >= new Date(allowance.periodStart) && start <= new Date(allowance.periodEnd);
+}
+
+// The allowance row that funds a visit to `serviceId` on `date`, if the patient has one
+export function findAllowanceFor(
+  allowances: PatientServiceAllowance[],
+  serviceId: number,
+  date: Date
+): PatientServiceAllowance | undefined {
+  return allowances.find(allowance =>
+    allowance.serviceId === serviceId &&
+    allowance.isActive !== false &&
+    new Date(allowance.periodStart) <= date &&
+    new Date(allowance.periodEnd) >= date
+  );
+}
+
+export function countPendingSessions(
+  allowance: PatientServiceAllowance,
+  appointments: Appointment[],
+  excludeId?: number
+): number {
+  return appointments.filter(appointment =>
+    appointment.id !== excludeId &&
+    appointment.serviceId === allowance.serviceId &&
+    PENDING_STATUSES.includes(appointment.status) &&
+    isInPeriod(allowance, appointment)
+  ).length;
+}
+
+/**
+ * Looks up the allowance covering a prospective booking. Returns null when the
+ * patient has no allowance for that service in the period, meaning the visit
+ * is not session-limited.
+ */
+export async function checkAllowance(
+  patientId: number,
+  serviceId: number,
+  startTime: Date,
+  excludeAppointmentId?: number
+): Promise<AllowanceCheck | null> {
+  const allowances = await storage.getPatientAllowances(patientId);
+  const allowance = findAllowanceFor(allowances, serviceId, startTime);
+  if (!allowance) return null;
+
+  const appointments = await storage.getAppointmentsByPatient(patientId);
+  const pending = countPendingSessions(allowance, appointments, excludeAppointmentId);
+  return {
+    allowance,
+    remaining: allowance.allowedSessions - (allowance.usedSessions || 0) - pending,
+  };
+}
+
+/**
+ * The allowance check for an edited booking. A booking that stays on the
+ * allowance it already draws on is counted there already, so only a move onto
+ * another allowance (new period, service or patient) or re-opening a closed
+ * booking is checked. Returns null when nothing needs checking.
+ */
+export async function checkAllowanceChange(
+  existing: Appointment,
+  updated: Pick<Appointment, 'patientId' | 'serviceId' | 'startTime' | 'status'>
+): Promise<AllowanceCheck | null> {
+  if (!PENDING_STATUSES.includes(updated.status)) return null;
+
+  if (PENDING_STATUSES.includes(existing.status) && existing.patientId === updated.patientId) {
+    const allowances = await storage.getPatientAllowances(updated.patientId);
+    const current = findAllowanceFor(allowances, existing.serviceId, new Date(existing.startTime));
+    const next = findAllowanceFor(allowances, updated.serviceId, new Date(updated.startTime));
+    if (current && current.id === next?.id) return null;
+  }
+
+  return await checkAllowance(updated.patientId, updated.serviceId, new Date(updated.startTime), existing.id);
+}
+
+/**
+ * Keeps usedSessions in step with an appointment's status: completing a visit
+ * consumes a session, and moving a completed visit to any other status
+ * (typically cancelled) gives it back.
+ */
+export async function syncAllowanceUsage(previous: Appointment, updated: Appointment): Promise<void> {
+  const wasCompleted = previous.status === 'completed';
+  const isCompleted = updated.status === 'completed';
+  if (wasCompleted === isCompleted) return;
+
+  const source = isCompleted ? updated : previous;
+  const allowances = await storage.getPatientAllowances(source.patientId);
+  const allowance = findAllowanceFor(allowances, source.serviceId, new Date(source.startTime));
+  if (!allowance) return;
+
+  await storage.adjustAllowanceUsage(allowance.id, isCompleted ? 1 : -1);
+}
+
+// Remaining sessions, expiry warning and the visits drawn against an allowance, for the patient detail view
+export function summarizeAllowance(
+  allowance: PatientServiceAllowance,
+  appointments: Appointment[],
+  now: Date = new Date()
+): AllowanceSummary {
+  const pendingSessions = countPendingSessions(allowance, appointments);
+  const periodEnd = new Date(allowance.periodEnd);
+  const warnAfter = new Date(periodEnd.getTime() - EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const usage = appointments
+    .filter(appointment =>
+      appointment.serviceId === allowance.serviceId &&
+      appointment.status !== 'cancelled' &&
+      isInPeriod(allowance, appointment)
+    )
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .map(({ id, startTime, endTime, status, staffId }) => ({ id, startTime, endTime, status, staffId }));
+
+  return {
+    ...allowance,
+    pendingSessions,
+    remaining: allowance.allowedSessions - (allowance.usedSessions || 0) - pendingSessions,
+    expiresSoon: now >= warnAfter && now <= periodEnd,
+    usage,
+  };
+}
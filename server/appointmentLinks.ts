@@ -0,0 +1,106 @@
+import type { Appointment, AppointmentResponse, CancellationPolicyInput } from "@shared/schema";
+import { storage } from "./storage";
+import { practiceNameFor } from "./invoices";
+import { syncAllowanceUsage } from "./allowances";
+import { billStatusChange } from "./billing";
+import { appointmentCancellationPolicy, insideNoticePeriod, rescheduleLimitReached } from "./cancellationPolicy";
+
+export type LinkResponse = 'confirm' | 'cancel' | 'reschedule';
+
+export type PatientChange = 'cancel' | 'reschedule';
+
+// Appointments a patient can still answer for; anything checked in or closed is up to the practice
+export const OPEN_STATUSES = ['scheduled', 'confirmed'];
+
+// Why the patient can't make this change themselves under the cancellation policy, or null when they can
+export function patientChangeLockedReason(
+  appointment: Appointment,
+  policy: CancellationPolicyInput,
+  change: PatientChange,
+  now: Date = new Date()
+): string | null {
+  if (!OPEN_STATUSES.includes(appointment.status) || appointment.startTime <= now) {
+    return 'This appointment can no longer be changed online. Please contact the practice.';
+  }
+  if (insideNoticePeriod(appointment.startTime, policy, now)) {
+    return `Appointments can't be changed online within ${policy.noticeHours} hours of the start. Please contact the practice.`;
+  }
+  if (change === 'reschedule' && rescheduleLimitReached(appointment, policy)) {
+    return 'This appointment has already been moved as many times as the practice allows. Please contact the practice.';
+  }
+  return null;
+}
+
+export function appointmentLinkUrl(origin: string, token: string): string {
+  return `${origin}/appointment-response/${token}`;
+}
+
+// What the patient sees on the link page: enough to recognise the appointment, nothing clinical
+export interface AppointmentLinkSummary {
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  patientFirstName: string;
+  serviceName: string;
+  staffName: string;
+  practiceName: string;
+  canRespond: boolean;
+  cancelLockedReason: string | null;
+  rescheduleLockedReason: string | null;
+  rescheduleRequested: boolean;
+}
+
+export async function appointmentLinkSummary(appointment: Appointment): Promise<AppointmentLinkSummary> {
+  const [patient, staffMember, service] = await Promise.all([
+    storage.getPatient(appointment.patientId),
+    storage.getStaff(appointment.staffId),
+    storage.getService(appointment.serviceId),
+  ]);
+  const doctor = staffMember?.userId ? await storage.getUser(staffMember.userId) : undefined;
+  const pending = await storage.getUnacknowledgedResponses({ appointmentId: appointment.id });
+  const policy = await appointmentCancellationPolicy(appointment);
+
+  return {
+    startTime: appointment.startTime,
+    endTime: appointment.endTime,
+    status: appointment.status,
+    patientFirstName: patient?.firstName ?? '',
+    serviceName: service?.name ?? 'Appointment',
+    staffName: staffMember ? `${staffMember.firstName} ${staffMember.lastName}` : '',
+    practiceName: practiceNameFor(doctor),
+    canRespond: OPEN_STATUSES.includes(appointment.status),
+    cancelLockedReason: patientChangeLockedReason(appointment, policy, 'cancel'),
+    rescheduleLockedReason: patientChangeLockedReason(appointment, policy, 'reschedule'),
+    rescheduleRequested: pending.some(entry => entry.response === 'reschedule'),
+  };
+}
+
+/**
+ * Applies a patient's answer: confirming or cancelling changes the status
+ * straight away, a reschedule request leaves the booking as it is for the
+ * front desk to move. Each answer is queued for the practice to see, except
+ * confirming an appointment that is already confirmed.
+ */
+export async function applyLinkResponse(
+  appointment: Appointment,
+  response: LinkResponse,
+  note?: string
+): Promise<AppointmentResponse | undefined> {
+  const status = response === 'confirm' ? 'confirmed' : response === 'cancel' ? 'cancelled' : appointment.status;
+  if (response === 'confirm' && appointment.status === 'confirmed') return;
+
+  if (status !== appointment.status) {
+    const updated = await storage.updateAppointment(appointment.id, { status });
+    await syncAllowanceUsage(appointment, updated);
+    await billStatusChange(appointment, updated);
+  }
+
+  const doctorId = (await storage.getStaff(appointment.staffId))?.userId;
+  if (!doctorId) return;
+  return await storage.createAppointmentResponse({
+    appointmentId: appointment.id,
+    doctorId,
+    response,
+    note: response === 'reschedule' ? note || null : null,
+  });
+}
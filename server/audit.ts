@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { AuditChanges } from "@shared/schema";
+
+export type AuditEntity =
+  | 'patient' | 'patientAllowance' | 'appointment' | 'staff' | 'service'
+  | 'billingRecord' | 'insuranceClaim' | 'remittanceClaim';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export const AUDIT_ENTITIES: AuditEntity[] = [
+  'patient', 'patientAllowance', 'appointment', 'staff', 'service', 'billingRecord', 'insuranceClaim', 'remittanceClaim',
+];
+
+// The signed-in user behind the request being served; a patient signed in to the portal has no user id
+export interface AuditActor {
+  userId: number | null;
+  role: string;
+  ipAddress: string | null;
+}
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * Runs the rest of a request as the given actor, so storage can attribute
+ * the changes it makes without every route passing the user down.
+ */
+export function runAsActor<T>(actor: AuditActor, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+export function currentActor(): AuditActor | undefined {
+  return actorContext.getStore();
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// The fields that differ between two versions of a record; either side may be missing
+export function diffRecords(before?: Record<string, any>, after?: Record<string, any>): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameValue(from, to)) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
@@ -0,0 +1,330 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { Appointment, Patient, User } from "@shared/schema";
+import { storage } from "./storage";
+import { hashBackupCode, verifyTotp } from "./totp";
+
+// Read on use rather than at import, so the server can refuse to start with a clear message (see index.ts)
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET must be set. Access tokens cannot be signed without it.");
+  }
+  return secret;
+}
+
+// Access tokens are short-lived; clients renew them with the refresh token
+export const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Time allowed between the password step and the code step of a two-factor login
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+// Consecutive failed sign-ins (wrong password or code) before the account is locked, and for how long
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+
+// A portal sign-in link works once within this time; the portal session it opens lasts PATIENT_SESSION_TTL
+const PATIENT_LOGIN_TOKEN_TTL_MINUTES = 30;
+const PATIENT_SESSION_TTL = '2h';
+
+// Two tabs refreshing at once present the same token twice; within this window that is not treated as theft
+const ROTATION_GRACE_MS = 60 * 1000;
+
+export interface AccessTokenPayload {
+  userId: number;
+  email: string;
+  role: string;
+  tokenVersion: number;
+}
+
+interface TwoFactorChallengePayload {
+  userId: number;
+  purpose: 'two_factor';
+  tokenVersion: number;
+}
+
+interface AppointmentLinkPayload {
+  appointmentId: number;
+  startTime: number; // The link only answers for the appointment at this time
+  purpose: 'appointment_link';
+}
+
+interface PatientSessionPayload {
+  patientId: number;
+  purpose: 'patient_portal';
+}
+
+export type PublicUser = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'role'> & {
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // Two-factor is required for the user but not set up yet; only the auth routes answer until it is
+  twoFactorSetupRequired: boolean;
+};
+
+// What the client keeps after signing in or refreshing
+export interface Session {
+  token: string;
+  refreshToken: string;
+  user: PublicUser;
+}
+
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+// Reset links are short-lived; verification links may sit in an inbox for a while
+const USER_TOKEN_TTL_HOURS: Record<UserTokenPurpose, number> = {
+  password_reset: 1,
+  email_verification: 48,
+};
+
+// The user fields the client is given
+export async function publicUser(user: User): Promise<PublicUser> {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    emailVerified: !!user.emailVerifiedAt,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    twoFactorSetupRequired: await mustSetUpTwoFactor(user)
+  };
+}
+
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  const payload = jwt.verify(token, jwtSecret()) as AccessTokenPayload & { purpose?: string };
+  // Two-factor challenges, appointment links and patient portal sessions are signed with the same secret but must never pass as a session
+  if (payload.purpose) {
+    throw new Error('Not an access token');
+  }
+  return payload;
+}
+
+// Whether the platform requires two-factor for the user's role
+export async function isTwoFactorRequired(user: Pick<User, 'role'>): Promise<boolean> {
+  if (user.role !== 'doctor') return false;
+  return (await storage.getSetting<boolean>('requireDoctorTwoFactor')) === true;
+}
+
+export async function mustSetUpTwoFactor(user: User): Promise<boolean> {
+  return !user.totpEnabledAt && await isTwoFactorRequired(user);
+}
+
+// Stands in for a session between the password step and the code step of a two-factor login
+export function createTwoFactorChallenge(user: User): string {
+  const payload: TwoFactorChallengePayload = { userId: user.id, purpose: 'two_factor', tokenVersion: user.tokenVersion };
+  return jwt.sign(payload, jwtSecret(), { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+}
+
+// The user a challenge was issued to, while it is still valid
+export async function userForTwoFactorChallenge(challengeToken: string): Promise<User | undefined> {
+  try {
+    const payload = jwt.verify(challengeToken, jwtSecret()) as TwoFactorChallengePayload;
+    if (payload.purpose !== 'two_factor') return undefined;
+
+    const user = await storage.getUser(payload.userId);
+    if (!user || user.isActive === false || user.tokenVersion !== payload.tokenVersion || !user.totpEnabledAt) {
+      return undefined;
+    }
+    return user;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Token for the link in a reminder that lets the patient confirm, cancel or
+ * ask to reschedule without signing in. It expires when the appointment starts
+ * and stops working once the appointment is moved.
+ */
+export function createAppointmentLinkToken(appointment: Pick<Appointment, 'id' | 'startTime'>): string {
+  const payload: AppointmentLinkPayload = {
+    appointmentId: appointment.id,
+    startTime: appointment.startTime.getTime(),
+    purpose: 'appointment_link',
+  };
+  return jwt.sign({ ...payload, exp: Math.floor(appointment.startTime.getTime() / 1000) }, jwtSecret());
+}
+
+// The appointment a link was issued for, while the link is still valid
+export async function appointmentForLinkToken(token: string): Promise<Appointment | undefined> {
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as AppointmentLinkPayload;
+    if (payload.purpose !== 'appointment_link') return undefined;
+
+    const appointment = await storage.getAppointment(payload.appointmentId);
+    if (!appointment || appointment.startTime.getTime() !== payload.startTime) {
+      return undefined;
+    }
+    return appointment;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Issues a single-use portal sign-in token for the patient; any earlier unused one stops working
+export async function createPatientLoginToken(patientId: number): Promise<string> {
+  await storage.revokePatientLoginTokens(patientId);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + PATIENT_LOGIN_TOKEN_TTL_MINUTES * 60 * 1000);
+  await storage.createPatientLoginToken({ patientId, tokenHash: hashToken(token), expiresAt });
+  return token;
+}
+
+// Uses up a portal sign-in token and returns the patient it was issued for
+export async function consumePatientLoginToken(token: string): Promise<Patient | undefined> {
+  const stored = await storage.getPatientLoginTokenByHash(hashToken(token));
+  if (!stored || stored.usedAt || stored.expiresAt <= new Date()) {
+    return undefined;
+  }
+  if (!(await storage.usePatientLoginToken(stored.id))) return undefined;
+
+  const patient = await storage.getPatient(stored.patientId);
+  return patient && patient.isActive !== false ? patient : undefined;
+}
+
+/**
+ * Token the patient portal sends with each request. It names one patient
+ * record and nothing else, so every portal route is scoped to that patient.
+ */
+export function createPatientSession(patient: Patient): string {
+  const payload: PatientSessionPayload = { patientId: patient.id, purpose: 'patient_portal' };
+  return jwt.sign(payload, jwtSecret(), { expiresIn: PATIENT_SESSION_TTL });
+}
+
+// The patient a portal session belongs to, while it is valid and the record is still active
+export async function patientForSession(token: string): Promise<Patient | undefined> {
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as PatientSessionPayload;
+    if (payload.purpose !== 'patient_portal') return undefined;
+
+    const patient = await storage.getPatient(payload.patientId);
+    return patient && patient.isActive !== false ? patient : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Checks a code from the user's authenticator app, or one of their backup
+ * codes, which is used up. Either way a code only works once.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastStep);
+  if (step !== null) {
+    return storage.recordTotpStep(user.id, step);
+  }
+  return storage.useBackupCode(user.id, hashBackupCode(code));
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+async function createSession(user: User, userAgent?: string): Promise<{ session: Session; refreshTokenId: number }> {
+  const payload: AccessTokenPayload = { userId: user.id, email: user.email, role: user.role, tokenVersion: user.tokenVersion };
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+  const stored = await storage.createRefreshToken({
+    userId: user.id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt,
+    userAgent: userAgent || null,
+  });
+
+  return {
+    session: {
+      token: jwt.sign(payload, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL }),
+      refreshToken,
+      user: await publicUser(user)
+    },
+    refreshTokenId: stored.id
+  };
+}
+
+// Starts a new session after the user has proven who they are
+export async function issueSession(user: User, userAgent?: string): Promise<Session> {
+  return (await createSession(user, userAgent)).session;
+}
+
+/**
+ * Trades a refresh token for a new session, revoking the old token. A token
+ * that was already rotated away coming back means it was copied, so every
+ * session of its user is ended. Returns null when the token can't be used.
+ */
+export async function rotateSession(refreshToken: string, userAgent?: string): Promise<Session | null> {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (!stored) return null;
+
+  if (stored.revokedAt) {
+    const rotatedAgo = Date.now() - stored.revokedAt.getTime();
+    if (stored.replacedById && rotatedAgo > ROTATION_GRACE_MS) {
+      await storage.endSessions(stored.userId);
+    }
+    return null;
+  }
+  if (stored.expiresAt <= new Date()) return null;
+
+  const user = await storage.getUser(stored.userId);
+  if (!user || user.isActive === false) return null;
+
+  const { session, refreshTokenId } = await createSession(user, userAgent);
+  await storage.revokeRefreshToken(stored.id, refreshTokenId);
+  return session;
+}
+
+// Logout: the refresh token stops working; the access token dies on its own shortly after
+export async function revokeSession(refreshToken: string): Promise<void> {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (stored && !stored.revokedAt) {
+    await storage.revokeRefreshToken(stored.id);
+  }
+}
+
+// Issues a single-use token to email to the user; any earlier unused one for the same purpose stops working
+export async function createUserToken(userId: number, purpose: UserTokenPurpose): Promise<string> {
+  await storage.revokeUserTokens(userId, purpose);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + USER_TOKEN_TTL_HOURS[purpose] * 60 * 60 * 1000);
+  await storage.createUserToken({ userId, purpose, tokenHash: hashToken(token), expiresAt });
+  return token;
+}
+
+/**
+ * Uses up an emailed token and returns the user it was issued to, or
+ * undefined when it is unknown, for another purpose, expired or already used.
+ */
+export async function consumeUserToken(token: string, purpose: UserTokenPurpose): Promise<User | undefined> {
+  const stored = await storage.getUserTokenByHash(hashToken(token));
+  if (!stored || stored.purpose !== purpose || stored.usedAt || stored.expiresAt <= new Date()) {
+    return undefined;
+  }
+  if (!(await storage.useUserToken(stored.id))) return undefined;
+
+  const user = await storage.getUser(stored.userId);
+  return user && user.isActive !== false ? user : undefined;
+}
+
+export function isLockedOut(user: User): boolean {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+}
+
+// Counts a wrong password or code against the account, locking it once the limit is reached
+export async function recordLoginFailure(user: User): Promise<void> {
+  const failures = await storage.recordLoginFailure(user.id);
+  if (failures >= MAX_FAILED_LOGINS) {
+    await storage.setLoginLock(user.id, new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000));
+  }
+}
+
+export async function clearLoginFailures(user: User): Promise<void> {
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.setLoginLock(user.id, null);
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  weeklyAvailabilitySchema,
+  type Appointment, type StaffAvailabilityExclusion, type WeeklyAvailability
+} from "@shared/schema";
+
+// Granularity of the start times offered to the booking UI
+export const SLOT_INTERVAL_MINUTES = 30;
+
+const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Used when a staff member has no schedule saved yet (Mon-Fri, 9am-5pm)
+export const DEFAULT_WEEKLY_AVAILABILITY: WeeklyAvailability = {
+  monday: [{ start: '09:00', end: '17:00' }],
+  tuesday: [{ start: '09:00', end: '17:00' }],
+  wednesday: [{ start: '09:00', end: '17:00' }],
+  thursday: [{ start: '09:00', end: '17:00' }],
+  friday: [{ start: '09:00', end: '17:00' }],
+};
+
+export interface BookableSlot {
+  time: string; // HH:mm, local to the server
+  startTime: Date;
+  endTime: Date;
+}
+
+interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export function parseWeeklyAvailability(raw: unknown): WeeklyAvailability {
+  if (raw === null || raw === undefined) {
+    return DEFAULT_WEEKLY_AVAILABILITY;
+  }
+
+  const result = weeklyAvailabilitySchema.safeParse(raw);
+  if (!result.success) {
+    console.warn('Ignoring malformed staff availability:', result.error.message);
+    return DEFAULT_WEEKLY_AVAILABILITY;
+  }
+  return result.data;
+}
+
+// Parses a YYYY-MM-DD string as local midnight (new Date('YYYY-MM-DD') would be UTC)
+export function parseLocalDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export interface DateRange {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Reads a ?startDate=&endDate= filter. Plain YYYY-MM-DD values are local days,
+ * with the end day included up to its last millisecond; full timestamps are
+ * taken as given. Returns null when either value can't be read.
+ */
+export function parseDateRange(startDate: unknown, endDate: unknown): DateRange | null {
+  const parse = (value: unknown, endOfDay: boolean): Date | null | undefined => {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') return null;
+
+    const day = parseLocalDate(value);
+    if (day) {
+      return endOfDay ? new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59, 999) : day;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  const start = parse(startDate, false);
+  const end = parse(endDate, true);
+  if (start === null || end === null) return null;
+  return { startDate: start, endDate: end };
+}
+
+function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+}
+
+function formatTime(date: Date): string {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
+
+function overlaps(start: Date, end: Date, interval: BusyInterval): boolean {
+  return start < interval.end && end > interval.start;
+}
+
+/**
+ * Returns the start times on `date` at which a service of `durationMinutes`
+ * fits entirely inside the staff member's weekly schedule without touching an
+ * exclusion or an existing (non-cancelled) appointment.
+ */
+export function computeBookableSlots(options: {
+  date: Date;
+  availability: unknown;
+  durationMinutes: number;
+  exclusions: StaffAvailabilityExclusion[];
+  appointments: Appointment[];
+  now?: Date;
+  intervalMinutes?: number;
+}): BookableSlot[] {
+  const {
+    date,
+    durationMinutes,
+    exclusions,
+    appointments,
+    now = new Date(),
+    intervalMinutes = SLOT_INTERVAL_MINUTES,
+  } = options;
+
+  const schedule = parseWeeklyAvailability(options.availability);
+  const windows = schedule[DAY_KEYS[date.getDay()]] || [];
+
+  const busy: BusyInterval[] = [
+    ...exclusions.map(exclusion => ({ start: new Date(exclusion.startTime), end: new Date(exclusion.endTime) })),
+    ...appointments
+      .filter(appointment => appointment.status !== 'cancelled')
+      .map(appointment => ({ start: new Date(appointment.startTime), end: new Date(appointment.endTime) })),
+  ];
+
+  const slots: BookableSlot[] = [];
+  for (const window of windows) {
+    const windowStart = atTimeOfDay(date, window.start);
+    const windowEnd = atTimeOfDay(date, window.end);
+
+    for (
+      let start = windowStart;
+      start.getTime() + durationMinutes * 60000 <= windowEnd.getTime();
+      start = new Date(start.getTime() + intervalMinutes * 60000)
+    ) {
+      const end = new Date(start.getTime() + durationMinutes * 60000);
+      if (start < now) continue;
+      if (busy.some(interval => overlaps(start, end, interval))) continue;
+
+      slots.push({ time: formatTime(start), startTime: start, endTime: end });
+    }
+  }
+
+  return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
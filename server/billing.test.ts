@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Appointment, BillingRecord, Service } from "@shared/schema";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getService: vi.fn(),
+    getBillingRecordByAppointment: vi.fn(),
+    createAppointmentCharge: vi.fn(async (record: object) => ({ id: 1, ...record })),
+    updateBillingRecord: vi.fn(async (id: number, record: object) => ({ id, ...record })),
+  },
+}));
+
+vi.mock("./storage", () => ({ storage }));
+
+const { billStatusChange } = await import("./billing");
+
+const service = { id: 1, userId: 1, price: '80.00', billNoShows: true, noShowFee: '25.00' } as Service;
+
+const appointment = (status: string) => ({
+  id: 10, patientId: 100, staffId: 20, serviceId: 1, status,
+  startTime: new Date('2030-01-07T09:00:00Z'), endTime: new Date('2030-01-07T10:00:00Z'),
+}) as Appointment;
+
+const noShowFee = (fields: Partial<BillingRecord> = {}) => ({
+  id: 5, appointmentId: 10, chargeType: 'no_show', amount: '25.00', paymentStatus: 'pending',
+  insuranceClaim: null, insurancePaidAmount: null, ...fields,
+}) as BillingRecord;
+
+describe('billStatusChange', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getService.mockResolvedValue(service);
+  });
+
+  it('bills a completed visit', async () => {
+    storage.getBillingRecordByAppointment.mockResolvedValue(undefined);
+
+    await billStatusChange(appointment('scheduled'), appointment('completed'));
+
+    expect(storage.createAppointmentCharge).toHaveBeenCalledWith(expect.objectContaining({ chargeType: 'visit', amount: '80.00' }));
+  });
+
+  it('turns an open no-show fee into the visit charge when the visit is corrected to completed', async () => {
+    storage.getBillingRecordByAppointment.mockResolvedValue(noShowFee());
+
+    await billStatusChange(appointment('no_show'), appointment('completed'));
+
+    expect(storage.updateBillingRecord).toHaveBeenCalledWith(5, expect.objectContaining({ chargeType: 'visit', amount: '80.00' }));
+    expect(storage.createAppointmentCharge).not.toHaveBeenCalled();
+  });
+
+  it('leaves a no-show fee the patient already paid alone', async () => {
+    storage.getBillingRecordByAppointment.mockResolvedValue(noShowFee({ paymentStatus: 'paid' }));
+
+    await billStatusChange(appointment('no_show'), appointment('completed'));
+
+    expect(storage.updateBillingRecord).not.toHaveBeenCalled();
+    expect(storage.createAppointmentCharge).not.toHaveBeenCalled();
+  });
+
+  it('never bills a visit twice', async () => {
+    storage.getBillingRecordByAppointment.mockResolvedValue(noShowFee({ chargeType: 'visit', amount: '80.00' }));
+
+    await billStatusChange(appointment('checked_in'), appointment('completed'));
+
+    expect(storage.updateBillingRecord).not.toHaveBeenCalled();
+    expect(storage.createAppointmentCharge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import type { Appointment, BillingRecord, Service } from "@shared/schema";
+import { storage } from "./storage";
+import { cancellationPolicyFor, insideNoticePeriod, lateCancellationFee } from "./cancellationPolicy";
+
+interface Charge {
+  chargeType: 'visit' | 'no_show' | 'late_cancellation';
+  amount: string;
+}
+
+export interface StatusChangeOptions {
+  waiveLateCancelFee?: boolean; // Staff can let a late cancellation off, e.g. for an emergency
+}
+
+// What an appointment in its current status should be billed, if anything
+export function chargeFor(appointment: Appointment, service: Service): Charge | null {
+  if (appointment.status === 'completed' && service.price !== null) {
+    return { chargeType: 'visit', amount: service.price };
+  }
+  if (appointment.status === 'no_show' && service.billNoShows && service.noShowFee !== null) {
+    return { chargeType: 'no_show', amount: service.noShowFee };
+  }
+  return null;
+}
+
+// Cancelling a booking inside the notice period costs the policy's share of the service price
+async function lateCancellationCharge(previous: Appointment, service: Service): Promise<Charge | null> {
+  if (!['scheduled', 'confirmed'].includes(previous.status) || service.price === null) return null;
+
+  const policy = await cancellationPolicyFor(service.userId ?? -1, service.id);
+  if (!insideNoticePeriod(previous.startTime, policy)) return null;
+
+  const amount = lateCancellationFee(service.price, policy);
+  return amount ? { chargeType: 'late_cancellation', amount } : null;
+}
+
+// A fee nobody has paid or claimed yet can still be corrected
+function isOpenCharge(record: BillingRecord): boolean {
+  return (record.paymentStatus || 'pending') === 'pending' && !record.insuranceClaim && record.insurancePaidAmount === null;
+}
+
+/**
+ * Creates the billing record for an appointment whose status just changed to
+ * one that is chargeable. Each appointment has at most one record: later status
+ * changes never add a second one. The exception is a no-show or late-cancel fee
+ * charged by mistake: when staff correct the status to completed, the open fee
+ * becomes the visit charge.
+ */
+export async function billStatusChange(
+  previous: Appointment,
+  updated: Appointment,
+  options: StatusChangeOptions = {}
+): Promise<BillingRecord | undefined> {
+  if (previous.status === updated.status) return;
+
+  const service = await storage.getService(updated.serviceId);
+  if (!service) return;
+
+  const charge = updated.status === 'cancelled'
+    ? (options.waiveLateCancelFee ? null : await lateCancellationCharge(previous, service))
+    : chargeFor(updated, service);
+  if (!charge) return;
+
+  const existing = await storage.getBillingRecordByAppointment(updated.id);
+  if (existing) {
+    if (charge.chargeType === 'visit' && existing.chargeType !== 'visit' && isOpenCharge(existing)) {
+      return await storage.updateBillingRecord(existing.id, {
+        chargeType: charge.chargeType,
+        amount: charge.amount,
+        billingDate: new Date(),
+      });
+    }
+    return;
+  }
+
+  return await storage.createAppointmentCharge({
+    appointmentId: updated.id,
+    patientId: updated.patientId,
+    serviceId: updated.serviceId,
+    chargeType: charge.chargeType,
+    amount: charge.amount,
+    billingDate: new Date(),
+    paymentStatus: 'pending',
+  });
+}
+
+// Allowed paymentStatus moves; a denied charge can be reopened once corrected and resubmitted
+export const PAYMENT_STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ['paid', 'denied'],
+  denied: ['pending'],
+  paid: [],
+};
+
+export function canTransitionPayment(from: string | null, to: string): boolean {
+  return (PAYMENT_STATUS_TRANSITIONS[from || 'pending'] || []).includes(to);
+}
+
+export interface PatientBalance {
+  patientId: number;
+  outstanding: string; // sum of pending charges, less what insurance has already settled
+  pendingCount: number;
+  oldestPendingDate: Date | null;
+}
+
+// Outstanding (pending) totals per patient, largest balance first
+export function summarizeBalances(records: BillingRecord[]): PatientBalance[] {
+  const balances = new Map<number, { total: number; count: number; oldest: Date | null }>();
+
+  for (const record of records) {
+    if ((record.paymentStatus || 'pending') !== 'pending') continue;
+
+    const balance = balances.get(record.patientId) || { total: 0, count: 0, oldest: null };
+    const billingDate = new Date(record.billingDate);
+    // Once the payer has settled its part, only the patient's share is still owed
+    balance.total += parseFloat(record.patientResponsibility ?? record.amount);
+    balance.count += 1;
+    balance.oldest = !balance.oldest || billingDate < balance.oldest ? billingDate : balance.oldest;
+    balances.set(record.patientId, balance);
+  }
+
+  return Array.from(balances.entries())
+    .map(([patientId, balance]) => ({
+      patientId,
+      outstanding: balance.total.toFixed(2),
+      pendingCount: balance.count,
+      oldestPendingDate: balance.oldest,
+    }))
+    .sort((a, b) => parseFloat(b.outstanding) - parseFloat(a.outstanding));
+}
@@ -0,0 +1,51 @@
+import type { Appointment, CancellationPolicy, CancellationPolicyInput, ServiceCancellationPolicy } from "@shared/schema";
+import { storage } from "./storage";
+
+// What a practice gets until its doctor sets a policy
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyInput = {
+  noticeHours: 24,
+  maxReschedules: null,
+  lateCancelFeePercent: 0,
+};
+
+function policyFields(policy: CancellationPolicy | ServiceCancellationPolicy): CancellationPolicyInput {
+  const { noticeHours, maxReschedules, lateCancelFeePercent } = policy;
+  return { noticeHours, maxReschedules, lateCancelFeePercent };
+}
+
+// A service with its own policy uses it in full; everything else follows the practice's
+export async function cancellationPolicyFor(doctorId: number, serviceId?: number): Promise<CancellationPolicyInput> {
+  if (serviceId !== undefined) {
+    const servicePolicy = await storage.getServiceCancellationPolicy(serviceId);
+    if (servicePolicy) return policyFields(servicePolicy);
+  }
+  const policy = await storage.getCancellationPolicy(doctorId);
+  return policy ? policyFields(policy) : DEFAULT_CANCELLATION_POLICY;
+}
+
+export async function appointmentCancellationPolicy(appointment: Appointment): Promise<CancellationPolicyInput> {
+  const service = await storage.getService(appointment.serviceId);
+  return await cancellationPolicyFor(service?.userId ?? -1, appointment.serviceId);
+}
+
+// Whether a start time is too close for the patient to cancel or move the appointment themselves
+export function insideNoticePeriod(startTime: Date, policy: CancellationPolicyInput, now: Date = new Date()): boolean {
+  return startTime.getTime() - now.getTime() < policy.noticeHours * 60 * 60 * 1000;
+}
+
+export function rescheduleLimitReached(appointment: Appointment, policy: CancellationPolicyInput): boolean {
+  return policy.maxReschedules !== null && appointment.rescheduleCount >= policy.maxReschedules;
+}
+
+// The count to store with an update: moving the start is a reschedule, anything else leaves it alone
+export function rescheduleCountAfter(existing: Appointment, startTime?: Date): number {
+  return startTime && startTime.getTime() !== existing.startTime.getTime()
+    ? existing.rescheduleCount + 1
+    : existing.rescheduleCount;
+}
+
+// The policy's share of the service price, or null when late cancellations are free
+export function lateCancellationFee(price: string, policy: CancellationPolicyInput): string | null {
+  if (policy.lateCancelFeePercent === 0) return null;
+  return (parseFloat(price) * policy.lateCancelFeePercent / 100).toFixed(2);
+}
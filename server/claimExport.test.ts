@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Appointment, BillingRecord, InsuranceClaim, Patient, Service, User } from "@shared/schema";
+import type { ClaimExportInput } from "./claimExport";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+const { buildClaimBatch, parseUsAddress } = await import("./claimExport");
+
+const provider = {
+  id: 1, email: 'doctor@example.com', firstName: 'Dana', lastName: 'Reyes', practiceName: 'Reyes Physio',
+  npi: '1234567893', taxId: '12-3456789', practiceAddress: '1 Main St, Springfield, IL 62701',
+} as User;
+
+const input = (id: number, relationship: 'self' | 'child', fields: Partial<ClaimExportInput> = {}): ClaimExportInput => ({
+  record: { id, appointmentId: id, patientId: id } as BillingRecord,
+  claim: {
+    billingRecordId: id, claimNumber: `CLM-${id}`, status: 'draft', payerName: 'Acme Health', payerId: 'ACME1',
+    memberId: 'M123', groupNumber: null, billedAmount: '80.00', diagnosisCodes: ['M54.5'],
+  } as InsuranceClaim,
+  patient: {
+    id, firstName: 'Sam', lastName: 'Lee', dateOfBirth: '2015-04-02', address: '9 Oak Ave, Springfield, IL 62704',
+    insuranceInfo: {
+      payerName: 'Acme Health', payerId: 'ACME1', memberId: 'M123', coverageStart: '2029-01-01',
+      policyHolder: relationship === 'self'
+        ? { firstName: 'Sam', lastName: 'Lee', relationship }
+        : { firstName: 'Alex', lastName: 'Lee', relationship, dateOfBirth: '1985-09-12' },
+    },
+  } as unknown as Patient,
+  service: { name: 'Physio', procedureCode: '97110' } as Service,
+  appointment: { startTime: new Date(2030, 0, 7, 9) } as Appointment,
+  provider,
+  ...fields,
+});
+
+const now = new Date(2030, 0, 8, 14, 30);
+const segments = (content: string) => content.split('\n').map(line => line.replace(/~$/, '').split('*'));
+
+describe('parseUsAddress', () => {
+  it('splits "street, city, ST 12345" and normalises the ZIP+4', () => {
+    expect(parseUsAddress('1 Main St\nSpringfield, il 62701-1234')).toEqual({
+      street: '1 Main St', city: 'Springfield', state: 'IL', zip: '627011234',
+    });
+  });
+
+  it('gives up on addresses it cannot read unambiguously', () => {
+    expect(parseUsAddress('1 Main St Springfield')).toBeNull();
+    expect(parseUsAddress(null)).toBeNull();
+  });
+});
+
+describe('buildClaimBatch', () => {
+  it('counts every segment from ST to SE in SE01', () => {
+    const { content } = buildClaimBatch([input(1, 'self'), input(2, 'child')], now);
+    const lines = segments(content);
+    const st = lines.findIndex(([id]) => id === 'ST');
+    const se = lines.findIndex(([id]) => id === 'SE');
+
+    expect(lines[se][1]).toBe(String(se - st + 1));
+    expect(lines[se][2]).toBe(lines[st][2]);
+  });
+
+  it('nests subscribers under their provider, and a dependent patient under the subscriber', () => {
+    const { content } = buildClaimBatch([input(1, 'self'), input(2, 'child')], now);
+    const hl = segments(content).filter(([id]) => id === 'HL').map(([, ...elements]) => elements);
+
+    expect(hl).toEqual([
+      ['1', '', '20', '1'],
+      ['2', '1', '22', '0'],
+      ['3', '1', '22', '1'],
+      ['4', '3', '23', '0'],
+    ]);
+    expect(segments(content).find(([id]) => id === 'PAT')).toEqual(['PAT', '19']);
+  });
+
+  it('writes the diagnosis codes without dots and the service line at the billed amount', () => {
+    const lines = segments(buildClaimBatch([input(1, 'self')], now).content);
+
+    expect(lines.find(([id]) => id === 'CLM')?.slice(0, 3)).toEqual(['CLM', 'CLM-1', '80.00']);
+    expect(lines.find(([id]) => id === 'HI')).toEqual(['HI', 'ABK:M545']);
+    expect(lines.find(([id]) => id === 'SV1')?.slice(0, 3)).toEqual(['SV1', 'HC:97110', '80.00']);
+    expect(lines.find(([id]) => id === 'DTP')).toEqual(['DTP', '472', 'D8', '20300107']);
+  });
+
+  it('keeps delimiters in free text out of the file', () => {
+    const named = input(1, 'self');
+    named.claim = { ...named.claim!, payerName: 'Acme*Health~Plan' };
+    const payer = segments(buildClaimBatch([named], now).content).find(([id, entity]) => id === 'NM1' && entity === 'PR');
+
+    expect(payer?.[3]).toBe('ACME HEALTH PLAN');
+  });
+
+  it('leaves out records that would be rejected and says why', () => {
+    const batch = buildClaimBatch([
+      input(1, 'self'),
+      input(2, 'self', { provider: { ...provider, npi: null } }),
+      input(3, 'self', { claim: undefined }),
+    ], now);
+
+    expect(batch.exported).toEqual([1]);
+    expect(batch.skipped).toEqual([
+      { billingRecordId: 2, reasons: ['Practice NPI is missing'] },
+      { billingRecordId: 3, reasons: ['No insurance claim has been filed for this charge'] },
+    ]);
+  });
+
+  it('writes no file when nothing is valid', () => {
+    const batch = buildClaimBatch([input(1, 'self', { claim: undefined })], now);
+
+    expect(batch.content).toBe('');
+    expect(batch.exported).toEqual([]);
+  });
+});
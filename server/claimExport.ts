@@ -0,0 +1,301 @@
+import type { Appointment, BillingRecord, InsuranceClaim, InsuranceInfo, Patient, Service, User } from "@shared/schema";
+import { storage } from "./storage";
+import { parseInsuranceInfo } from "./claims";
+
+// Interchange identities agreed with the clearinghouse
+const SUBMITTER_ID = process.env.X12_SUBMITTER_ID || "SBBOOKINGS";
+const SUBMITTER_NAME = process.env.X12_SUBMITTER_NAME || "SBBOOKINGS";
+const RECEIVER_ID = process.env.X12_RECEIVER_ID || "CLEARINGHOUSE";
+const RECEIVER_NAME = process.env.X12_RECEIVER_NAME || "CLEARINGHOUSE";
+
+// Claims in these statuses can be (re)sent; accepted and paid claims are settled with the payer
+export const EXPORTABLE_CLAIM_STATUSES = ['draft', 'submitted', 'denied'];
+
+// Place of service 11 = office
+const PLACE_OF_SERVICE = '11';
+
+// PAT01 codes for a patient who is not the policy holder
+const PATIENT_RELATIONSHIP_CODES: Record<string, string> = {
+  spouse: '01',
+  child: '19',
+  other: 'G8',
+};
+
+export interface ClaimExportInput {
+  record: BillingRecord;
+  claim?: InsuranceClaim;
+  patient?: Patient;
+  service?: Service;
+  appointment?: Appointment;
+  provider?: User; // the doctor who owns the patient, billed as the practice
+}
+
+export interface SkippedClaim {
+  billingRecordId: number;
+  reasons: string[];
+}
+
+export interface ClaimBatch {
+  content: string;
+  filename: string;
+  exported: number[]; // billing record ids written to the file
+  skipped: SkippedClaim[];
+}
+
+interface UsAddress {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+/**
+ * Splits a free-text address of the form "street, city, ST 12345" into the
+ * parts X12 needs. Returns null for anything it cannot read unambiguously.
+ */
+export function parseUsAddress(text: string | null | undefined): UsAddress | null {
+  if (!text) return null;
+  const match = text.replace(/\s*\n\s*/g, ', ').match(/^\s*(.+),\s*([^,]+),\s*([A-Za-z]{2})\s+(\d{5}(?:-?\d{4})?)\s*$/);
+  if (!match) return null;
+  return {
+    street: match[1].trim(),
+    city: match[2].trim(),
+    state: match[3].toUpperCase(),
+    zip: match[4].replace('-', ''),
+  };
+}
+
+export async function loadClaimExportInputs(records: BillingRecord[]): Promise<ClaimExportInput[]> {
+  const claims = await storage.getInsuranceClaims({ billingRecordIds: records.map(record => record.id) });
+  const providers = new Map<number, User | undefined>();
+
+  const inputs: ClaimExportInput[] = [];
+  for (const record of records) {
+    const patient = await storage.getPatient(record.patientId);
+    let provider: User | undefined;
+    if (patient?.userId) {
+      if (!providers.has(patient.userId)) {
+        providers.set(patient.userId, await storage.getUser(patient.userId));
+      }
+      provider = providers.get(patient.userId);
+    }
+
+    inputs.push({
+      record,
+      claim: claims.find(claim => claim.billingRecordId === record.id),
+      patient,
+      service: await storage.getService(record.serviceId),
+      appointment: await storage.getAppointment(record.appointmentId),
+      provider,
+    });
+  }
+  return inputs;
+}
+
+// Everything that would make a clearinghouse reject the claim, checked before any segment is written
+export function validateClaimInput(input: ClaimExportInput): string[] {
+  const { claim, patient, service, appointment, provider } = input;
+  const reasons: string[] = [];
+
+  if (!claim) {
+    return ['No insurance claim has been filed for this charge'];
+  }
+  if (!EXPORTABLE_CLAIM_STATUSES.includes(claim.status)) {
+    reasons.push(`Claim is already ${claim.status}`);
+  }
+  if (!claim.payerId) reasons.push('Payer ID is missing');
+  if (!claim.diagnosisCodes || claim.diagnosisCodes.length === 0) {
+    reasons.push('At least one diagnosis code is required');
+  }
+
+  if (!service) {
+    reasons.push('Service not found');
+  } else if (!service.procedureCode) {
+    reasons.push(`Service "${service.name}" has no procedure code`);
+  }
+  if (!appointment) reasons.push('Appointment for this charge not found');
+
+  if (!provider) {
+    reasons.push('Billing provider not found');
+  } else {
+    if (!provider.npi) reasons.push('Practice NPI is missing');
+    if (!provider.taxId) reasons.push('Practice tax ID is missing');
+    if (!parseUsAddress(provider.practiceAddress)) reasons.push('Practice address must look like "street, city, ST 12345"');
+  }
+
+  if (!patient) {
+    reasons.push('Patient not found');
+  } else {
+    const insurance = parseInsuranceInfo(patient);
+    if (!insurance) {
+      reasons.push('Patient insurance information is incomplete');
+    } else if (insurance.policyHolder.relationship !== 'self' && !patient.dateOfBirth) {
+      reasons.push('Patient date of birth is required when the patient is not the policy holder');
+    }
+    if (!parseUsAddress(patient.address)) reasons.push('Patient address must look like "street, city, ST 12345"');
+  }
+
+  return reasons;
+}
+
+function clean(value: string | number | null | undefined): string {
+  return String(value ?? '').replace(/[~*:^\n\r]/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+function segment(...elements: (string | number | null | undefined)[]): string {
+  const values = elements.map(element => element === null || element === undefined ? '' : String(element));
+  while (values.length > 1 && values[values.length - 1] === '') values.pop();
+  return `${values.join('*')}~`;
+}
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, '0');
+}
+
+function ccyymmdd(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}${pad(date.getDate(), 2)}`;
+}
+
+function hhmm(date: Date): string {
+  return `${pad(date.getHours(), 2)}${pad(date.getMinutes(), 2)}`;
+}
+
+function isoToD8(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function addressSegments(address: UsAddress): string[] {
+  return [
+    segment('N3', clean(address.street)),
+    segment('N4', clean(address.city), address.state, address.zip),
+  ];
+}
+
+function claimSegments(input: ClaimExportInput, insurance: InsuranceInfo, nextHl: () => number, parentHl: number): string[] {
+  const claim = input.claim!;
+  const patient = input.patient!;
+  const patientAddress = parseUsAddress(patient.address)!;
+  const isSelf = insurance.policyHolder.relationship === 'self';
+  const holder = insurance.policyHolder;
+  const amount = parseFloat(claim.billedAmount).toFixed(2);
+  const segments: string[] = [];
+
+  // 2000B subscriber
+  const subscriberHl = nextHl();
+  segments.push(segment('HL', subscriberHl, parentHl, '22', isSelf ? '0' : '1'));
+  segments.push(segment('SBR', 'P', isSelf ? '18' : '', clean(claim.groupNumber), '', '', '', '', '', 'CI'));
+  segments.push(segment('NM1', 'IL', '1', clean(holder.lastName), clean(holder.firstName), '', '', '', 'MI', clean(claim.memberId)));
+  if (isSelf) {
+    segments.push(...addressSegments(patientAddress));
+    if (patient.dateOfBirth) {
+      segments.push(segment('DMG', 'D8', ccyymmdd(new Date(patient.dateOfBirth)), 'U'));
+    }
+  } else if (holder.dateOfBirth) {
+    segments.push(segment('DMG', 'D8', isoToD8(holder.dateOfBirth), 'U'));
+  }
+  segments.push(segment('NM1', 'PR', '2', clean(claim.payerName), '', '', '', '', 'PI', clean(claim.payerId)));
+
+  // 2000C patient, only when someone else holds the policy
+  if (!isSelf) {
+    segments.push(segment('HL', nextHl(), subscriberHl, '23', '0'));
+    segments.push(segment('PAT', PATIENT_RELATIONSHIP_CODES[holder.relationship] || 'G8'));
+    segments.push(segment('NM1', 'QC', '1', clean(patient.lastName), clean(patient.firstName)));
+    segments.push(...addressSegments(patientAddress));
+    segments.push(segment('DMG', 'D8', ccyymmdd(new Date(patient.dateOfBirth!)), 'U'));
+  }
+
+  // 2300 claim and 2400 service line
+  const diagnoses = claim.diagnosisCodes!.map(code => code.replace('.', '').toUpperCase());
+  segments.push(segment('CLM', clean(claim.claimNumber), amount, '', '', `${PLACE_OF_SERVICE}:B:1`, 'Y', 'A', 'Y', 'Y'));
+  segments.push(segment('HI', ...diagnoses.map((code, index) => `${index === 0 ? 'ABK' : 'ABF'}:${code}`)));
+  segments.push(segment('LX', '1'));
+  segments.push(segment('SV1', `HC:${clean(input.service!.procedureCode)}`, amount, 'UN', '1', '', '', '1'));
+  segments.push(segment('DTP', '472', 'D8', ccyymmdd(new Date(input.appointment!.startTime))));
+
+  return segments;
+}
+
+/**
+ * Builds an ANSI X12 837P (005010X222A1) batch from billing records. Records
+ * that fail validation are left out and reported with their reasons; claims
+ * are grouped under their billing provider so one file can cover several
+ * practices.
+ */
+export function buildClaimBatch(inputs: ClaimExportInput[], now: Date = new Date()): ClaimBatch {
+  const skipped: SkippedClaim[] = [];
+  const valid: ClaimExportInput[] = [];
+  for (const input of inputs) {
+    const reasons = validateClaimInput(input);
+    if (reasons.length > 0) {
+      skipped.push({ billingRecordId: input.record.id, reasons });
+    } else {
+      valid.push(input);
+    }
+  }
+
+  const controlNumber = pad(now.getTime() % 1000000000, 9);
+  const filename = `claims-${ccyymmdd(now)}-${controlNumber}.837`;
+  if (valid.length === 0) {
+    return { content: '', filename, exported: [], skipped };
+  }
+
+  const byProvider = new Map<number, ClaimExportInput[]>();
+  for (const input of valid) {
+    const group = byProvider.get(input.provider!.id) || [];
+    group.push(input);
+    byProvider.set(input.provider!.id, group);
+  }
+
+  let hl = 0;
+  const nextHl = () => ++hl;
+
+  const transaction: string[] = [
+    segment('ST', '837', '0001', '005010X222A1'),
+    segment('BHT', '0019', '00', controlNumber, ccyymmdd(now), hhmm(now), 'CH'),
+    segment('NM1', '41', '2', clean(SUBMITTER_NAME), '', '', '', '', '46', clean(SUBMITTER_ID)),
+    segment('PER', 'IC', clean(SUBMITTER_NAME), 'EM', valid[0].provider!.email),
+    segment('NM1', '40', '2', clean(RECEIVER_NAME), '', '', '', '', '46', clean(RECEIVER_ID)),
+  ];
+
+  for (const group of Array.from(byProvider.values())) {
+    const provider = group[0].provider!;
+    const providerHl = nextHl();
+    transaction.push(segment('HL', providerHl, '', '20', '1'));
+    transaction.push(segment(
+      'NM1', '85', '2',
+      clean(provider.practiceName || `${provider.firstName} ${provider.lastName}`),
+      '', '', '', '', 'XX', provider.npi
+    ));
+    transaction.push(...addressSegments(parseUsAddress(provider.practiceAddress)!));
+    transaction.push(segment('REF', 'EI', provider.taxId!.replace('-', '')));
+
+    for (const input of group) {
+      const insurance = parseInsuranceInfo(input.patient!)!;
+      transaction.push(...claimSegments(input, insurance, nextHl, providerHl));
+    }
+  }
+
+  // SE01 counts every segment from ST to SE inclusive
+  transaction.push(segment('SE', transaction.length + 1, '0001'));
+
+  const isaDate = ccyymmdd(now).slice(2);
+  const content = [
+    segment(
+      'ISA', '00', ''.padEnd(10), '00', ''.padEnd(10),
+      'ZZ', clean(SUBMITTER_ID).padEnd(15).slice(0, 15),
+      'ZZ', clean(RECEIVER_ID).padEnd(15).slice(0, 15),
+      isaDate, hhmm(now), '^', '00501', controlNumber, '0', 'P', ':'
+    ),
+    segment('GS', 'HC', clean(SUBMITTER_ID), clean(RECEIVER_ID), ccyymmdd(now), hhmm(now), '1', 'X', '005010X222A1'),
+    ...transaction,
+    segment('GE', '1', '1'),
+    segment('IEA', '1', controlNumber),
+  ].join('\n');
+
+  return {
+    content,
+    filename,
+    exported: valid.map(input => input.record.id),
+    skipped,
+  };
+}
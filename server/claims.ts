@@ -0,0 +1,117 @@
+import type { BillingRecord, InsertBillingRecord, InsertInsuranceClaim, InsuranceClaim, InsuranceInfo, Patient } from "@shared/schema";
+import { insuranceInfoSchema } from "@shared/schema";
+import { canTransitionPayment } from "./billing";
+
+export const CLAIM_STATUSES = ['draft', 'submitted', 'accepted', 'denied', 'paid'] as const;
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+// Denied claims can be corrected and resubmitted; paid claims are final
+const CLAIM_STATUS_TRANSITIONS: Record<string, string[]> = {
+  draft: ['submitted'],
+  submitted: ['accepted', 'denied'],
+  accepted: ['paid', 'denied'],
+  denied: ['submitted'],
+  paid: [],
+};
+
+export function canTransitionClaim(from: string, to: string): boolean {
+  return (CLAIM_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+// Coding can be corrected until the claim is sent, or after a denial ahead of resubmitting
+export function isClaimEditable(status: string): boolean {
+  return status === 'draft' || status === 'denied';
+}
+
+// Claim control number sent to the payer and echoed back on remittances
+export function claimNumberFor(billingRecordId: number): string {
+  return `CLM${billingRecordId.toString().padStart(8, '0')}`;
+}
+
+// The patient's stored coverage, or null if it is missing or no longer matches the schema
+export function parseInsuranceInfo(patient: Patient): InsuranceInfo | null {
+  const parsed = insuranceInfoSchema.safeParse(patient.insuranceInfo);
+  return parsed.success ? parsed.data : null;
+}
+
+// Records from before insurance was structured keep their old blob until someone edits the coverage itself
+export function isUnchangedLegacyInsurance(patient: Patient, submitted: unknown): boolean {
+  return !!patient.insuranceInfo && !parseInsuranceInfo(patient) &&
+    JSON.stringify(submitted) === JSON.stringify(patient.insuranceInfo);
+}
+
+export function isCoveredOn(info: InsuranceInfo, date: Date): boolean {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+  return info.coverageStart <= day && (!info.coverageEnd || info.coverageEnd >= day);
+}
+
+export function draftClaimFor(record: BillingRecord, info: InsuranceInfo): InsertInsuranceClaim {
+  return {
+    billingRecordId: record.id,
+    claimNumber: claimNumberFor(record.id),
+    status: 'draft',
+    payerName: info.payerName,
+    payerId: info.payerId || null,
+    memberId: info.memberId,
+    groupNumber: info.groupNumber || null,
+    billedAmount: record.amount,
+  };
+}
+
+/**
+ * Timestamps and field resets that go with moving a claim to `status`.
+ * Resubmitting a denied claim clears the previous denial.
+ */
+export function claimTransitionFields(
+  status: ClaimStatus,
+  now: Date = new Date()
+): Partial<InsertInsuranceClaim> {
+  switch (status) {
+    case 'submitted':
+      return { status, submittedAt: now, respondedAt: null, denialReason: null };
+    case 'accepted':
+      return { status, respondedAt: now };
+    case 'denied':
+      return { status, respondedAt: now };
+    case 'paid':
+      return { status, paidAt: now };
+    default:
+      return { status };
+  }
+}
+
+/**
+ * Keeps the billing record's payment status in step with its claim: a paid
+ * claim settles the charge, a denial marks it denied, and resubmitting puts it
+ * back to pending. Returns null when the billing record should be left alone.
+ */
+export function billingUpdateForClaim(
+  record: BillingRecord,
+  claim: InsuranceClaim
+): Partial<InsertBillingRecord> | null {
+  const current = record.paymentStatus || 'pending';
+  let target: string;
+  switch (claim.status) {
+    case 'paid':
+      target = 'paid';
+      break;
+    case 'denied':
+      target = 'denied';
+      break;
+    case 'submitted':
+      target = 'pending';
+      break;
+    default:
+      return null;
+  }
+
+  if (target === current || !canTransitionPayment(current, target)) return null;
+  return {
+    paymentStatus: target,
+    paymentDate: target === 'paid' ? claim.paidAt || new Date() : null,
+  };
+}
@@ -6,11 +6,23 @@ dotenv.config();
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReminderScheduler } from "./reminders";
+
+// There is no default signing secret; without one no session could be issued or trusted
+if (!process.env.JWT_SECRET) {
+  console.error("JWT_SECRET is not set. Add it to .env (any long random string) and start the server again.");
+  process.exit(1);
+}
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Behind a reverse proxy, TRUST_PROXY is the number of proxy hops, so rate limits see the client's address
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY));
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -77,5 +89,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startReminderScheduler();
   });
 })();
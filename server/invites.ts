@@ -0,0 +1,29 @@
+import crypto from "crypto";
+import type { StaffInvite } from "@shared/schema";
+
+// How long an invite link stays usable
+export const INVITE_TTL_DAYS = 7;
+
+export function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A fresh random token for the invite link. Only its hash is stored, so a
+ * leaked database row cannot be turned back into a working link.
+ */
+export function createInviteToken(now: Date = new Date()): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(now);
+  expiresAt.setDate(now.getDate() + INVITE_TTL_DAYS);
+  return { token, tokenHash: hashInviteToken(token), expiresAt };
+}
+
+// Accepted and expired invites can't be used again
+export function isInviteUsable(invite: StaffInvite, now: Date = new Date()): boolean {
+  return !invite.acceptedAt && invite.expiresAt > now;
+}
+
+export function inviteUrl(origin: string, token: string): string {
+  return `${origin}/accept-invite/${token}`;
+}
@@ -0,0 +1,167 @@
+import PDFDocument from "pdfkit";
+import type { Writable } from "stream";
+import type { BillingRecord, Patient, User } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface StatementLine {
+  recordId: number;
+  date: Date;
+  serviceName: string;
+  staffName: string;
+  chargeType: string;
+  amount: string;
+  paymentStatus: string;
+}
+
+export interface StatementDocument {
+  kind: 'invoice' | 'statement';
+  practiceName: string;
+  patient: Patient;
+  lines: StatementLine[];
+  periodStart?: Date;
+  periodEnd?: Date;
+  issuedAt: Date;
+}
+
+export function practiceNameFor(doctor: User | undefined): string {
+  if (!doctor) return 'Medical Practice';
+  return doctor.practiceName || `Dr. ${doctor.firstName} ${doctor.lastName}`;
+}
+
+/**
+ * Resolves each billing record to the visit it charges for, so the printout
+ * shows when the appointment took place and who saw the patient rather than
+ * just the date the charge was raised.
+ */
+export async function buildStatementLines(records: BillingRecord[]): Promise<StatementLine[]> {
+  const serviceNames = new Map<number, string>();
+  const staffNames = new Map<number, string>();
+  const lines: StatementLine[] = [];
+
+  for (const record of records) {
+    if (!serviceNames.has(record.serviceId)) {
+      const service = await storage.getService(record.serviceId);
+      serviceNames.set(record.serviceId, service?.name || `Service #${record.serviceId}`);
+    }
+
+    const appointment = record.appointmentId ? await storage.getAppointment(record.appointmentId) : undefined;
+    let staffName = '';
+    if (appointment) {
+      if (!staffNames.has(appointment.staffId)) {
+        const member = await storage.getStaff(appointment.staffId);
+        staffNames.set(appointment.staffId, member ? `${member.firstName} ${member.lastName}` : '');
+      }
+      staffName = staffNames.get(appointment.staffId)!;
+    }
+
+    lines.push({
+      recordId: record.id,
+      date: new Date(appointment ? appointment.startTime : record.billingDate),
+      serviceName: serviceNames.get(record.serviceId)!,
+      staffName,
+      chargeType: record.chargeType,
+      amount: record.amount,
+      paymentStatus: record.paymentStatus || 'pending',
+    });
+  }
+
+  return lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Charges other than a plain visit are marked on their line
+const CHARGE_LABELS: Record<string, string> = {
+  no_show: 'no-show',
+  late_cancellation: 'late cancellation',
+};
+
+// Column x-offsets and widths for the itemized table
+const COLUMNS = [
+  { label: 'Date', x: 50, width: 80 },
+  { label: 'Service', x: 130, width: 140 },
+  { label: 'Staff', x: 270, width: 110 },
+  { label: 'Status', x: 380, width: 70 },
+  { label: 'Amount', x: 450, width: 95, align: 'right' as const },
+];
+
+function drawRow(doc: PDFKit.PDFDocument, values: string[], y: number) {
+  COLUMNS.forEach((column, index) => {
+    doc.text(values[index], column.x, y, { width: column.width, align: column.align || 'left' });
+  });
+}
+
+/**
+ * Writes an itemized invoice or statement as a PDF to `output` (typically the
+ * HTTP response). Totals are split into paid and outstanding so a statement
+ * doubles as a balance summary.
+ */
+export function renderStatementPdf(statement: StatementDocument, output: Writable): void {
+  const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+  doc.pipe(output);
+
+  doc.fontSize(20).font('Helvetica-Bold').text(statement.practiceName);
+  doc.moveDown(0.25);
+  doc.fontSize(14).font('Helvetica').text(statement.kind === 'invoice' ? 'Invoice' : 'Patient Statement');
+  doc.moveDown();
+
+  const { patient } = statement;
+  doc.fontSize(10);
+  doc.text(`Patient: ${patient.firstName} ${patient.lastName}`);
+  if (patient.address) doc.text(patient.address);
+  if (patient.email) doc.text(patient.email);
+  doc.text(`Issued: ${formatDate(statement.issuedAt)}`);
+  if (statement.kind === 'invoice' && statement.lines.length === 1) {
+    doc.text(`Invoice #: ${statement.lines[0].recordId}`);
+  }
+  if (statement.periodStart || statement.periodEnd) {
+    const from = statement.periodStart ? formatDate(statement.periodStart) : 'beginning';
+    const to = statement.periodEnd ? formatDate(statement.periodEnd) : formatDate(statement.issuedAt);
+    doc.text(`Period: ${from} – ${to}`);
+  }
+  doc.moveDown(1.5);
+
+  let y = doc.y;
+  doc.font('Helvetica-Bold');
+  drawRow(doc, COLUMNS.map(column => column.label), y);
+  y += 16;
+  doc.moveTo(50, y - 4).lineTo(545, y - 4).stroke();
+  doc.font('Helvetica');
+
+  let paid = 0;
+  let outstanding = 0;
+  for (const line of statement.lines) {
+    if (y > doc.page.height - 100) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+
+    const amount = parseFloat(line.amount);
+    if (line.paymentStatus === 'paid') paid += amount;
+    if (line.paymentStatus === 'pending') outstanding += amount;
+
+    const label = CHARGE_LABELS[line.chargeType];
+    const service = label ? `${line.serviceName} (${label})` : line.serviceName;
+    drawRow(doc, [formatDate(line.date), service, line.staffName, line.paymentStatus, formatMoney(amount)], y);
+    y += 18;
+  }
+
+  if (statement.lines.length === 0) {
+    doc.text('No charges in this period.', 50, y);
+    y += 18;
+  }
+
+  doc.moveTo(50, y).lineTo(545, y).stroke();
+  y += 10;
+  doc.font('Helvetica-Bold');
+  doc.text(`Paid: ${formatMoney(paid)}`, 350, y, { width: 195, align: 'right' });
+  doc.text(`Balance due: ${formatMoney(outstanding)}`, 350, y + 16, { width: 195, align: 'right' });
+
+  doc.end();
+}
@@ -0,0 +1,158 @@
+import fs from "fs/promises";
+import net from "net";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; a hosted provider plugs in through setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "SBBookings <no-reply@sbbookings.local>";
+
+function formatMessage(message: MailMessage): string {
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+  ].join('\r\n');
+}
+
+// Development stand-in: every message is written to the outbox directory as an .eml file
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = message.to.replace(/[^a-z0-9@.-]/gi, '_');
+    await fs.writeFile(path.join(this.dir, `${stamp}-${recipient}.eml`), formatMessage(message));
+  }
+}
+
+/**
+ * Plain SMTP without authentication or TLS, for a local mail catcher such as
+ * MailHog or Mailpit. Not meant for delivering to real inboxes.
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private host: string, private port: number) {}
+
+  send(message: MailMessage): Promise<void> {
+    const sender = MAIL_FROM.match(/<([^>]+)>/)?.[1] || MAIL_FROM;
+    // Lines starting with a dot are doubled so they can't end the DATA section early
+    const body = formatMessage(message).replace(/^\./gm, '..');
+    const commands = ['HELO localhost', `MAIL FROM:<${sender}>`, `RCPT TO:<${message.to}>`, 'DATA', `${body}\r\n.`, 'QUIT'];
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.port, this.host);
+      let buffer = '';
+      let step = 0;
+
+      socket.setEncoding('utf8');
+      socket.setTimeout(10000, () => socket.destroy(new Error('SMTP server timed out')));
+      socket.on('error', reject);
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\r\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          // "250-..." continues a reply, "250 ..." ends it
+          if (!/^\d{3} /.test(line)) continue;
+          if (parseInt(line.slice(0, 3)) >= 400) {
+            socket.destroy();
+            return reject(new Error(`SMTP error: ${line}`));
+          }
+          if (step < commands.length) {
+            socket.write(`${commands[step++]}\r\n`);
+          } else {
+            socket.end();
+            resolve();
+          }
+        }
+      });
+    });
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// MAIL_TRANSPORT picks the stand-in: 'file' (default), 'smtp' or 'console'
+function defaultTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpMailTransport(process.env.SMTP_HOST || 'localhost', parseInt(process.env.SMTP_PORT || '1025'));
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || 'mail-outbox');
+  }
+}
+
+let transport: MailTransport = defaultTransport();
+
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
+
+// Account emails
+
+export function passwordResetEmail(to: string, url: string): MailMessage {
+  return {
+    to,
+    subject: 'Reset your SBBookings password',
+    text: `Someone asked to reset the password for this account.\n\nChoose a new password here (the link works once and expires in an hour):\n${url}\n\nIf it wasn't you, ignore this email and your password stays the same.`,
+  };
+}
+
+export function verificationEmail(to: string, url: string): MailMessage {
+  return {
+    to,
+    subject: 'Confirm your SBBookings email address',
+    text: `Please confirm this is your email address:\n${url}\n\nThe link expires in 48 hours.`,
+  };
+}
+
+export function staffInviteEmail(to: string, practiceName: string, url: string): MailMessage {
+  return {
+    to,
+    subject: `${practiceName} invited you to SBBookings`,
+    text: `${practiceName} set up an account so you can see your schedule and request time off.\n\nChoose a password to get started (the link works once and expires in 7 days):\n${url}`,
+  };
+}
+
+// Patient emails
+
+export function bookingConfirmationEmail(to: string, practiceName: string, details: string, url: string): MailMessage {
+  return {
+    to,
+    subject: `Confirm your booking with ${practiceName}`,
+    text: `Thanks for booking with ${practiceName}:\n${details}\n\nYour appointment isn't booked until you confirm it here (the link expires in an hour):\n${url}\n\nIf you didn't make this booking, ignore this email and nothing will be booked.`,
+  };
+}
+
+// One link per practice the address is on file with; each signs in to that practice's records only
+export function portalSignInEmail(to: string, links: { practiceName: string; url: string }[]): MailMessage {
+  const list = links.map(link => `${link.practiceName}:\n${link.url}`).join('\n\n');
+  return {
+    to,
+    subject: 'Your patient portal sign-in link',
+    text: `Use the link below to see your appointments and invoices (each link works once and expires in 30 minutes):\n\n${list}\n\nIf you didn't ask to sign in, you can ignore this email.`,
+  };
+}
@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import type { BookingRequest, Patient, Service, Staff, User } from "@shared/schema";
+import { storage } from "./storage";
+import { computeBookableSlots, type BookableSlot } from "./availability";
+import { practiceNameFor } from "./invoices";
+
+// How long the emailed confirmation link stays usable; the slot is not held meanwhile
+export const BOOKING_REQUEST_TTL_MINUTES = 60;
+
+// How far ahead patients can book themselves in
+export const BOOKING_WINDOW_DAYS = 90;
+
+// Subscriptions that keep a practice's booking page open
+const BOOKABLE_SUBSCRIPTIONS = ['active', 'trial'];
+
+export function hasBookableSubscription(doctor: User): boolean {
+  return BOOKABLE_SUBSCRIPTIONS.includes(doctor.subscriptionStatus ?? '');
+}
+
+// The doctor whose public booking page this is, or undefined while online booking is off
+export async function bookingPractice(slug: string): Promise<User | undefined> {
+  const doctor = await storage.getUserByBookingSlug(slug.toLowerCase());
+  if (!doctor || doctor.role !== 'doctor' || !doctor.isActive || !hasBookableSubscription(doctor)) return;
+  return doctor;
+}
+
+/**
+ * The doctor's staff who can be booked for a service: those assigned to it,
+ * or everyone on the team when nobody has been assigned yet.
+ */
+export async function bookableStaff(doctorId: number, serviceId: number): Promise<Staff[]> {
+  const team = await storage.getStaffByUserId(doctorId);
+  const assigned = (await storage.getStaffByService(serviceId)).filter(member => member.userId === doctorId);
+  if (assigned.length === 0) return team;
+  return team.filter(member => assigned.some(entry => entry.id === member.id));
+}
+
+/**
+ * Open start times for a service with one staff member on a day. Appointments
+ * that would make checkAppointmentConflicts reject the booking are left out:
+ * the staff member's own, plus the patient's when one is given. An appointment
+ * being moved is passed as movingId so it doesn't block its own new time.
+ */
+export async function loadBookableSlots(
+  staffMember: Staff,
+  service: Service,
+  day: Date,
+  patientId?: number,
+  movingId?: number
+): Promise<BookableSlot[]> {
+  const exclusions = (await storage.getStaffExclusions(staffMember.id)).filter(exclusion => exclusion.status === 'approved');
+
+  const nextDay = new Date(day);
+  nextDay.setDate(day.getDate() + 1);
+  const dayAppointments = await storage.getAppointmentsByDateRange(day, nextDay);
+  const blockingAppointments = dayAppointments.filter(apt =>
+    apt.id !== movingId && (apt.staffId === staffMember.id || (patientId !== undefined && apt.patientId === patientId))
+  );
+
+  return computeBookableSlots({
+    date: day,
+    availability: staffMember.availability,
+    durationMinutes: service.duration,
+    exclusions,
+    appointments: blockingAppointments,
+  });
+}
+
+// A service the doctor offers and hasn't retired
+export async function bookingService(doctorId: number, serviceId: number): Promise<Service | undefined> {
+  const service = await storage.getService(serviceId);
+  if (!service || service.userId !== doctorId || !service.isActive) return;
+  return service;
+}
+
+export function isWithinBookingWindow(day: Date, now: Date = new Date()): boolean {
+  const last = new Date(now);
+  last.setDate(now.getDate() + BOOKING_WINDOW_DAYS);
+  return day <= last;
+}
+
+export function hashBookingToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Only the hash is stored, like staff invites
+export function createBookingToken(now: Date = new Date()): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(now.getTime() + BOOKING_REQUEST_TTL_MINUTES * 60000);
+  return { token, tokenHash: hashBookingToken(token), expiresAt };
+}
+
+export function bookingUrl(origin: string, slug: string): string {
+  return `${origin}/book/${slug}`;
+}
+
+export function bookingConfirmUrl(origin: string, token: string): string {
+  return `${origin}/book/confirm/${token}`;
+}
+
+/**
+ * The practice's record for whoever confirmed the booking. A returning patient
+ * is matched on the email address the link was sent to; anyone else gets a new
+ * record with the details they typed in.
+ */
+export async function bookingPatient(request: BookingRequest): Promise<Patient> {
+  const existing = await storage.getPatientByEmail(request.doctorId, request.email);
+  if (existing) {
+    if (!existing.phone && request.phone) {
+      return await storage.updatePatient(existing.id, { phone: request.phone });
+    }
+    return existing;
+  }
+
+  return await storage.createPatient({
+    userId: request.doctorId,
+    firstName: request.firstName,
+    lastName: request.lastName,
+    email: request.email,
+    phone: request.phone,
+  });
+}
+
+// What the booking pages show back to the patient: the booking itself, nothing else on file
+export interface BookingSummary {
+  practiceName: string;
+  serviceName: string;
+  staffName: string;
+  startTime: Date;
+  endTime: Date;
+  firstName: string;
+  confirmed: boolean;
+}
+
+export async function bookingSummary(request: BookingRequest): Promise<BookingSummary> {
+  const [doctor, service, staffMember] = await Promise.all([
+    storage.getUser(request.doctorId),
+    storage.getService(request.serviceId),
+    storage.getStaff(request.staffId),
+  ]);
+  return {
+    practiceName: practiceNameFor(doctor),
+    serviceName: service?.name ?? 'Appointment',
+    staffName: staffMember ? `${staffMember.firstName} ${staffMember.lastName}` : '',
+    startTime: request.startTime,
+    endTime: request.endTime,
+    firstName: request.firstName,
+    confirmed: !!request.appointmentId,
+  };
+}
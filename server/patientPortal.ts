@@ -0,0 +1,85 @@
+import type { Appointment, CancellationPolicyInput, Patient } from "@shared/schema";
+import { storage } from "./storage";
+import { practiceNameFor } from "./invoices";
+import { patientChangeLockedReason } from "./appointmentLinks";
+import { cancellationPolicyFor } from "./cancellationPolicy";
+
+export function portalSignInUrl(origin: string, token: string): string {
+  return `${origin}/portal/sign-in/${token}`;
+}
+
+// The patient's own details as the portal shows them, with the practice they belong to
+export interface PortalProfile {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  practiceName: string;
+  noticeHours: number;
+}
+
+export interface PortalAppointment {
+  id: number;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  serviceName: string;
+  staffName: string;
+  // Why the patient can't cancel or move it online, or null when they can
+  cancelLockedReason: string | null;
+  rescheduleLockedReason: string | null;
+}
+
+export async function portalPolicy(patient: Patient): Promise<CancellationPolicyInput> {
+  return await cancellationPolicyFor(patient.userId ?? -1);
+}
+
+export async function portalProfile(patient: Patient): Promise<PortalProfile> {
+  const doctor = patient.userId ? await storage.getUser(patient.userId) : undefined;
+  const { noticeHours } = await portalPolicy(patient);
+  return {
+    id: patient.id,
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    email: patient.email,
+    phone: patient.phone,
+    address: patient.address,
+    practiceName: practiceNameFor(doctor),
+    noticeHours,
+  };
+}
+
+// The policy for one of the patient's appointments; a service with its own rules overrides the practice's
+export async function portalAppointmentPolicy(patient: Patient, appointment: Appointment): Promise<CancellationPolicyInput> {
+  return await cancellationPolicyFor(patient.userId ?? -1, appointment.serviceId);
+}
+
+export async function portalAppointments(patient: Patient): Promise<PortalAppointment[]> {
+  const appointments = await storage.getAppointmentsByPatient(patient.id);
+
+  const serviceIds = Array.from(new Set(appointments.map(appointment => appointment.serviceId)));
+  const staffIds = Array.from(new Set(appointments.map(appointment => appointment.staffId)));
+  const [serviceList, staffList, policies] = await Promise.all([
+    Promise.all(serviceIds.map(id => storage.getService(id))),
+    Promise.all(staffIds.map(id => storage.getStaff(id))),
+    Promise.all(serviceIds.map(id => cancellationPolicyFor(patient.userId ?? -1, id))),
+  ]);
+
+  return appointments.map(appointment => {
+    const service = serviceList.find(entry => entry?.id === appointment.serviceId);
+    const staffMember = staffList.find(entry => entry?.id === appointment.staffId);
+    const policy = policies[serviceIds.indexOf(appointment.serviceId)];
+    return {
+      id: appointment.id,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      status: appointment.status,
+      serviceName: service?.name ?? 'Appointment',
+      staffName: staffMember ? `${staffMember.firstName} ${staffMember.lastName}` : '',
+      cancelLockedReason: patientChangeLockedReason(appointment, policy, 'cancel'),
+      rescheduleLockedReason: patientChangeLockedReason(appointment, policy, 'reschedule'),
+    };
+  });
+}
@@ -0,0 +1,269 @@
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type Role = 'admin' | 'doctor' | 'receptionist' | 'staff';
+export type Action = 'read' | 'create' | 'update' | 'delete';
+export type Resource =
+  | 'staff' | 'patient' | 'service' | 'serviceCategory' | 'appointment' | 'receptionist' | 'timeOff'
+  | 'billingRecord' | 'insuranceClaim' | 'remittanceClaim' | 'reminder' | 'appointmentResponse'
+  | 'practice' | 'subscription' | 'report' | 'doctorAccount' | 'platformStats' | 'platformSettings' | 'failedLogin' | 'auditLog' | 'policy'
+  | 'cancellationOverride';
+
+// 'any' reaches every practice's records, 'own' only the records of the user's practice,
+// 'self' only the records assigned to the user's own staff profile
+export type Scope = 'any' | 'own' | 'self';
+
+type PolicyUser = Pick<User, 'id' | 'role' | 'practiceOwnerId' | 'staffId'>;
+
+type Grants = Partial<Record<Action, Scope>>;
+
+const ALL: Grants = { read: 'any', create: 'any', update: 'any', delete: 'any' };
+const OWN: Grants = { read: 'own', create: 'own', update: 'own', delete: 'own' };
+
+/**
+ * Which role may perform which action on which resource. Anything not listed
+ * is denied, so this table is the complete permission audit: a new route
+ * either reuses a row here or adds one.
+ */
+export const POLICY: Record<Resource, Partial<Record<Role, Grants>>> = {
+  staff: { admin: ALL, doctor: OWN, receptionist: { read: 'own' }, staff: { read: 'self' } },
+  patient: { admin: ALL, doctor: OWN, receptionist: { read: 'own', create: 'own', update: 'own' } },
+  service: { admin: ALL, doctor: OWN, receptionist: { read: 'own' } },
+  // Categories are shared by every practice, so only admins curate them
+  serviceCategory: { admin: ALL, doctor: { read: 'any' }, receptionist: { read: 'any' } },
+  // The front desk books, reschedules and checks patients in, but cancels rather than deletes
+  // Staff only record the outcome of their own appointments
+  appointment: {
+    admin: ALL,
+    doctor: OWN,
+    receptionist: { read: 'own', create: 'own', update: 'own' },
+    staff: { read: 'self', update: 'self' },
+  },
+  receptionist: { admin: ALL, doctor: OWN },
+  // Moving an appointment past the cancellation policy's reschedule limit or waiving a late-cancel fee is the practice's call
+  cancellationOverride: { admin: { update: 'any' }, doctor: { update: 'own' } },
+  // Staff request time off, their doctor approves it
+  timeOff: { admin: ALL, doctor: OWN, staff: { read: 'self', create: 'self' } },
+  // Charges are raised by completing appointments, never by hand
+  billingRecord: { admin: { read: 'any', update: 'any' }, doctor: { read: 'own', update: 'own' } },
+  insuranceClaim: { admin: ALL, doctor: OWN },
+  remittanceClaim: {
+    admin: { read: 'any', create: 'any', update: 'any' },
+    doctor: { read: 'own', create: 'own', update: 'own' },
+  },
+  // Reminders are sent automatically; the front desk can see how delivery went and retry failures
+  reminder: {
+    admin: { read: 'any', update: 'any' },
+    doctor: { read: 'own', update: 'own' },
+    receptionist: { read: 'own', update: 'own' },
+  },
+  // Patients' answers to reminders; updating one marks it as seen
+  appointmentResponse: {
+    admin: { read: 'any', update: 'any' },
+    doctor: { read: 'own', update: 'own' },
+    receptionist: { read: 'own', update: 'own' },
+  },
+  practice: { doctor: { read: 'own', update: 'own' } },
+  subscription: { doctor: { read: 'own', create: 'own' } },
+  report: { admin: { read: 'any' }, doctor: { read: 'own' }, receptionist: { read: 'own' } },
+  doctorAccount: { admin: { read: 'any', create: 'any', update: 'any' } },
+  platformStats: { admin: { read: 'any' } },
+  platformSettings: { admin: { read: 'any', update: 'any' } },
+  failedLogin: { admin: { read: 'any' } },
+  auditLog: { admin: { read: 'any' }, doctor: { read: 'own' } },
+  policy: { admin: { read: 'any' } },
+};
+
+// Fields a role may neither see nor write even on records it can otherwise reach
+const HIDDEN_FIELDS: Partial<Record<Role, Partial<Record<Resource, string[]>>>> = {
+  receptionist: {
+    patient: ['medicalHistory'],
+    service: ['price', 'noShowFee'],
+  },
+};
+
+interface ResourceLoader {
+  label: string;
+  load(id: number): Promise<any | undefined>;
+  // Users whose practice the record belongs to; a record can reach more than one
+  owners(record: any): Promise<(number | null | undefined)[]>;
+  // Staff member the record is assigned to, for the 'self' scope
+  assignee?(record: any): number | null | undefined;
+}
+
+const patientOwner = async (patientId: number) => [(await storage.getPatient(patientId))?.userId];
+
+const LOADERS: Partial<Record<Resource, ResourceLoader>> = {
+  staff: {
+    label: 'Staff member',
+    load: id => storage.getStaff(id),
+    owners: async staffMember => [staffMember.userId],
+    assignee: staffMember => staffMember.id,
+  },
+  patient: {
+    label: 'Patient',
+    load: id => storage.getPatient(id),
+    owners: async patient => [patient.userId],
+  },
+  service: {
+    label: 'Service',
+    load: id => storage.getService(id),
+    owners: async service => [service.userId],
+  },
+  receptionist: {
+    label: 'Receptionist',
+    load: async id => {
+      const user = await storage.getUser(id);
+      return user?.role === 'receptionist' ? user : undefined;
+    },
+    owners: async receptionist => [receptionist.practiceOwnerId],
+  },
+  appointment: {
+    label: 'Appointment',
+    load: id => storage.getAppointment(id),
+    owners: async appointment => [
+      (await storage.getStaff(appointment.staffId))?.userId,
+      ...(await patientOwner(appointment.patientId)),
+    ],
+    assignee: appointment => appointment.staffId,
+  },
+  timeOff: {
+    label: 'Time off request',
+    load: id => storage.getStaffExclusion(id),
+    owners: async exclusion => [(await storage.getStaff(exclusion.staffId))?.userId],
+    assignee: exclusion => exclusion.staffId,
+  },
+  billingRecord: {
+    label: 'Billing record',
+    load: id => storage.getBillingRecord(id),
+    owners: async record => patientOwner(record.patientId),
+  },
+  insuranceClaim: {
+    label: 'Claim',
+    load: id => storage.getInsuranceClaim(id),
+    owners: async claim => {
+      const record = await storage.getBillingRecord(claim.billingRecordId);
+      return record ? patientOwner(record.patientId) : [];
+    },
+  },
+  remittanceClaim: {
+    label: 'Remittance claim',
+    load: id => storage.getRemittanceClaim(id),
+    owners: async remittanceClaim => [(await storage.getRemittanceAdvice(remittanceClaim.remittanceId))?.userId],
+  },
+  reminder: {
+    label: 'Reminder',
+    load: id => storage.getAppointmentReminder(id),
+    owners: async reminder => [reminder.doctorId],
+  },
+  appointmentResponse: {
+    label: 'Response',
+    load: id => storage.getAppointmentResponse(id),
+    owners: async response => [response.doctorId],
+  },
+};
+
+export function scopeFor(user: Pick<User, 'role'>, action: Action, resource: Resource): Scope | null {
+  return POLICY[resource][user.role as Role]?.[action] ?? null;
+}
+
+// The doctor whose practice the user acts for; receptionists and staff work for the doctor who
+// invited them (an unlinked account gets an id no record carries)
+export function practiceOf(user: PolicyUser): number {
+  return user.role === 'receptionist' || user.role === 'staff' ? user.practiceOwnerId ?? -1 : user.id;
+}
+
+// Owner to filter list queries by, or undefined when the user may see every practice
+export function ownerFilter(user: PolicyUser, resource: Resource, action: Action = 'read'): number | undefined {
+  return scopeFor(user, action, resource) === 'any' ? undefined : practiceOf(user);
+}
+
+// Staff member to narrow list queries to when the user only reaches their own records
+export function assigneeFilter(user: PolicyUser, resource: Resource, action: Action = 'read'): number | undefined {
+  return scopeFor(user, action, resource) === 'self' ? user.staffId ?? -1 : undefined;
+}
+
+/**
+ * Whether the user may perform the action, on a specific record when one is
+ * given. Without a record only the role is checked.
+ */
+export async function can(user: PolicyUser, action: Action, resource: Resource, record?: any): Promise<boolean> {
+  const scope = scopeFor(user, action, resource);
+  if (!scope) return false;
+  if (scope === 'any' || record === undefined) return true;
+
+  const loader = LOADERS[resource];
+  if (!loader) return false;
+  if (scope === 'self') {
+    return !!user.staffId && loader.assignee?.(record) === user.staffId;
+  }
+  const owners = await loader.owners(record);
+  return owners.includes(practiceOf(user));
+}
+
+// Bookings may only pair staff and patients the user can see
+export async function canBook(user: PolicyUser, staffId: number, patientId: number): Promise<boolean> {
+  const [staffMember, patient] = await Promise.all([storage.getStaff(staffId), storage.getPatient(patientId)]);
+  if (!staffMember || !patient) return false;
+  return await can(user, 'read', 'staff', staffMember) && await can(user, 'read', 'patient', patient);
+}
+
+/**
+ * Drops the fields the user's role may not see from a record or list, or may
+ * not write from incoming data.
+ */
+export function redact<T extends Record<string, any>>(user: Pick<User, 'role'>, resource: Resource, data: T): T;
+export function redact<T extends Record<string, any>>(user: Pick<User, 'role'>, resource: Resource, data: T[]): T[];
+export function redact(user: Pick<User, 'role'>, resource: Resource, data: any): any {
+  const hidden = HIDDEN_FIELDS[user.role as Role]?.[resource];
+  if (!hidden) return data;
+  if (Array.isArray(data)) return data.map(item => redact(user, resource, item));
+
+  const visible = { ...data };
+  for (const field of hidden) delete visible[field];
+  return visible;
+}
+
+/**
+ * Enforces the policy for a route. With `param`, the record with that id is
+ * loaded (404 when missing), checked for ownership and left on `req.resource`
+ * for the handler.
+ */
+export const authorize = (action: Action, resource: Resource, param?: string) => {
+  return async (req: any, res: any, next: any) => {
+    try {
+      if (!req.user || !scopeFor(req.user, action, resource)) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+      if (!param) return next();
+
+      const loader = LOADERS[resource]!;
+      const record = await loader.load(parseInt(req.params[param]));
+      if (!record) {
+        return res.status(404).json({ message: `${loader.label} not found` });
+      }
+      if (!(await can(req.user, action, resource, record))) {
+        return res.status(403).json({ message: `You do not have access to this ${loader.label.toLowerCase()}` });
+      }
+
+      req.resource = record;
+      next();
+    } catch (error) {
+      console.error('Authorization error:', error);
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
+};
+
+// The policy table flattened to one row per grant, for reviewing who can do what
+export function listPermissions(): { resource: Resource; role: Role; action: Action; scope: Scope; hiddenFields?: string[] }[] {
+  const rows: { resource: Resource; role: Role; action: Action; scope: Scope; hiddenFields?: string[] }[] = [];
+  for (const [resource, roles] of Object.entries(POLICY) as [Resource, Partial<Record<Role, Grants>>][]) {
+    for (const [role, grants] of Object.entries(roles) as [Role, Grants][]) {
+      for (const [action, scope] of Object.entries(grants) as [Action, Scope][]) {
+        rows.push({ resource, role, action, scope, hiddenFields: HIDDEN_FIELDS[role]?.[resource] });
+      }
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { User } from "@shared/schema";
+
+// One user's failure count and lock, kept the way the users table does it
+const { storage, account } = vi.hoisted(() => {
+  const account = { failedLoginCount: 0, lockedUntil: null as Date | null };
+  return {
+    account,
+    storage: {
+      recordLoginFailure: vi.fn(async () => ++account.failedLoginCount),
+      setLoginLock: vi.fn(async (_userId: number, lockedUntil: Date | null) => {
+        account.failedLoginCount = 0;
+        account.lockedUntil = lockedUntil;
+      }),
+    },
+  };
+});
+
+vi.mock("./storage", () => ({ storage }));
+
+const { rateLimit } = await import("./rateLimit");
+const { clearLoginFailures, isLockedOut, recordLoginFailure } = await import("./auth");
+
+const NOW = new Date(2030, 0, 7, 9, 0);
+
+// Only the clock is faked; supertest still needs real sockets and timers
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rateLimit', () => {
+  const limited = () => {
+    const app = express();
+    app.post('/login', rateLimit({ windowMs: 60 * 1000, max: 3, message: 'Too many attempts' }), (_req, res) => {
+      res.sendStatus(204);
+    });
+    return app;
+  };
+
+  it('refuses requests over the limit until the window is up', async () => {
+    const app = limited();
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await request(app).post('/login')).status);
+    }
+    vi.setSystemTime(NOW.getTime() + 45 * 1000);
+    const refused = await request(app).post('/login');
+
+    expect(statuses).toEqual([204, 204, 204, 429]);
+    expect(refused.status).toBe(429);
+    expect(refused.body).toEqual({ message: 'Too many attempts' });
+    expect(refused.headers['retry-after']).toBe('15');
+  });
+
+  it('starts the count over once the window has passed', async () => {
+    const app = limited();
+    for (let i = 0; i < 4; i++) {
+      await request(app).post('/login');
+    }
+    vi.setSystemTime(NOW.getTime() + 60 * 1000);
+
+    expect((await request(app).post('/login')).status).toBe(204);
+  });
+
+  it('counts each client address separately', async () => {
+    const app = limited();
+    app.set('trust proxy', true);
+    for (let i = 0; i < 4; i++) {
+      await request(app).post('/login').set('X-Forwarded-For', '203.0.113.1');
+    }
+
+    expect((await request(app).post('/login').set('X-Forwarded-For', '203.0.113.2')).status).toBe(204);
+  });
+});
+
+describe('login lockout', () => {
+  const user = () => ({ id: 1, ...account }) as User;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    account.failedLoginCount = 0;
+    account.lockedUntil = null;
+  });
+
+  it('locks the account for fifteen minutes on the fifth failure in a row', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordLoginFailure(user());
+    }
+    expect(isLockedOut(user())).toBe(false);
+
+    await recordLoginFailure(user());
+
+    expect(account.lockedUntil).toEqual(new Date(NOW.getTime() + 15 * 60 * 1000));
+    expect(account.failedLoginCount).toBe(0);
+    expect(isLockedOut(user())).toBe(true);
+  });
+
+  it('lets the user back in once the lock runs out', async () => {
+    account.lockedUntil = new Date(NOW.getTime() + 15 * 60 * 1000);
+    vi.setSystemTime(NOW.getTime() + 15 * 60 * 1000);
+
+    expect(isLockedOut(user())).toBe(false);
+  });
+
+  it('starts the count over after a successful sign-in', async () => {
+    await recordLoginFailure(user());
+    await clearLoginFailures(user());
+    await clearLoginFailures(user());
+
+    expect(account.failedLoginCount).toBe(0);
+    expect(storage.setLoginLock).toHaveBeenCalledTimes(1);
+  });
+});
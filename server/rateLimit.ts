@@ -0,0 +1,47 @@
+import type { RequestHandler } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window limit on requests per client address. Counts live in this
+ * process's memory, so they start over on restart and aren't shared between
+ * instances; that is enough to slow down password guessing and sign-up spam.
+ */
+export function rateLimit({ windowMs, max, message }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  // Forget addresses whose window has passed so the map doesn't grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.set('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { Appointment } from "@shared/schema";
+import {
+  endOfPreviousDay, expandRecurringRule, parseSeriesScope, selectSeriesOccurrences, shiftPattern, type RecurrencePattern
+} from "./recurrence";
+
+// 7 January 2030 is a Monday; times are local, as the rule's startDate carries the time of day
+const rule = (fields: Partial<RecurrencePattern>): RecurrencePattern => ({
+  frequency: 'weekly',
+  interval: 1,
+  startDate: new Date(2030, 0, 7, 9, 0),
+  endDate: null,
+  daysOfWeek: null,
+  dayOfMonth: null,
+  ...fields,
+});
+
+const days = (occurrences: { startTime: Date }[]) =>
+  occurrences.map(({ startTime }) => `${startTime.getMonth() + 1}/${startTime.getDate()}`);
+
+describe('expandRecurringRule', () => {
+  it('repeats weekly on the chosen weekdays until the end date, inclusive', () => {
+    const occurrences = expandRecurringRule(rule({ daysOfWeek: [1, 3], endDate: new Date(2030, 0, 16) }), 45);
+
+    expect(days(occurrences)).toEqual(['1/7', '1/9', '1/14', '1/16']);
+    expect(occurrences[1].startTime).toEqual(new Date(2030, 0, 9, 9, 0));
+    expect(occurrences[1].endTime).toEqual(new Date(2030, 0, 9, 9, 45));
+  });
+
+  it('skips weeks by the interval', () => {
+    const occurrences = expandRecurringRule(rule({ interval: 2, endDate: new Date(2030, 1, 4) }), 60);
+
+    expect(days(occurrences)).toEqual(['1/7', '1/21', '2/4']);
+  });
+
+  it('skips months that do not have the day rather than shifting into the next', () => {
+    const occurrences = expandRecurringRule(
+      rule({ frequency: 'monthly', startDate: new Date(2030, 0, 31, 9, 0), dayOfMonth: 31, endDate: new Date(2030, 4, 31) }),
+      60
+    );
+
+    expect(days(occurrences)).toEqual(['1/31', '3/31', '5/31']);
+  });
+
+  it('stops an open-ended rule six months out', () => {
+    const occurrences = expandRecurringRule(rule({}), 60);
+
+    expect(occurrences).toHaveLength(26);
+    expect(days(occurrences).at(-1)).toBe('7/1');
+  });
+
+  it('caps the number of occurrences', () => {
+    expect(expandRecurringRule(rule({}), 60, { maxOccurrences: 3 })).toHaveLength(3);
+  });
+
+  it('drops occurrences before `from` without changing the pattern\'s phase', () => {
+    const occurrences = expandRecurringRule(rule({ interval: 2, endDate: new Date(2030, 1, 28) }), 60, {
+      from: new Date(2030, 0, 15),
+    });
+
+    expect(days(occurrences)).toEqual(['1/21', '2/4', '2/18']);
+  });
+});
+
+describe('parseSeriesScope', () => {
+  it('defaults to this occurrence and rejects anything unknown', () => {
+    expect(parseSeriesScope(undefined)).toBe('this');
+    expect(parseSeriesScope('following')).toBe('following');
+    expect(parseSeriesScope('everything')).toBeNull();
+  });
+});
+
+describe('selectSeriesOccurrences', () => {
+  const occurrence = (id: number, day: number, status = 'scheduled') =>
+    ({ id, status, startTime: new Date(2030, 0, day, 9, 0) }) as Appointment;
+  const series = [occurrence(1, 7, 'completed'), occurrence(2, 14), occurrence(3, 21), occurrence(4, 28)];
+  const now = new Date(2030, 0, 10);
+  const ids = (appointments: Appointment[]) => appointments.map(appointment => appointment.id);
+
+  it('picks only the target for this', () => {
+    expect(ids(selectSeriesOccurrences(series, series[2], 'this', now))).toEqual([3]);
+  });
+
+  it('picks the target and everything after it for following', () => {
+    expect(ids(selectSeriesOccurrences(series, series[2], 'following', now))).toEqual([3, 4]);
+  });
+
+  it('picks the whole series for all, except visits already completed', () => {
+    expect(ids(selectSeriesOccurrences(series, series[2], 'all', now))).toEqual([2, 3, 4]);
+  });
+});
+
+describe('shiftPattern', () => {
+  it('moves the weekdays along with the first occurrence', () => {
+    const pattern = shiftPattern(rule({ daysOfWeek: [1, 3] }), new Date(2030, 0, 7, 9), new Date(2030, 0, 8, 9));
+
+    expect(pattern).toEqual({ daysOfWeek: [2, 4], dayOfMonth: null });
+  });
+
+  it('wraps weekdays past Saturday round to Sunday', () => {
+    const pattern = shiftPattern(rule({ daysOfWeek: [5, 6] }), new Date(2030, 0, 11, 9), new Date(2030, 0, 12, 9));
+
+    expect(pattern.daysOfWeek).toEqual([6, 0]);
+  });
+
+  it('moves the day of the month of a monthly rule', () => {
+    const pattern = shiftPattern(
+      rule({ frequency: 'monthly', dayOfMonth: 7 }), new Date(2030, 0, 7, 9), new Date(2030, 0, 9, 9)
+    );
+
+    expect(pattern.dayOfMonth).toBe(9);
+  });
+});
+
+describe('endOfPreviousDay', () => {
+  it('ends a split series on the last moment before the day it was split at', () => {
+    expect(endOfPreviousDay(new Date(2030, 0, 14, 9))).toEqual(new Date(2030, 0, 13, 23, 59, 59, 999));
+  });
+});
@@ -0,0 +1,152 @@
+import type { Appointment, RecurringAppointmentRule } from "@shared/schema";
+
+// Upper bound on how many appointments a single rule may generate
+export const MAX_RECURRING_OCCURRENCES = 104;
+
+// How far ahead an open-ended rule (no endDate) is materialized
+const OPEN_ENDED_HORIZON_MONTHS = 6;
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+export type RecurrencePattern = Pick<
+  RecurringAppointmentRule,
+  'frequency' | 'interval' | 'startDate' | 'endDate' | 'daysOfWeek' | 'dayOfMonth'
+>;
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function seriesEnd(rule: RecurrencePattern): Date {
+  if (rule.endDate) {
+    return endOfDay(new Date(rule.endDate));
+  }
+  const start = new Date(rule.startDate);
+  return new Date(start.getFullYear(), start.getMonth() + OPEN_ENDED_HORIZON_MONTHS, start.getDate(), 23, 59, 59, 999);
+}
+
+function weeklyStarts(rule: RecurrencePattern, start: Date, from: Date, until: Date, limit: number): Date[] {
+  const interval = rule.interval || 1;
+  const days = Array.isArray(rule.daysOfWeek) && rule.daysOfWeek.length > 0
+    ? Array.from(new Set(rule.daysOfWeek as number[])).sort((a, b) => a - b)
+    : [start.getDay()];
+
+  // Sunday of the week the series starts in, at the appointment's time of day
+  const firstWeek = new Date(start);
+  firstWeek.setDate(start.getDate() - start.getDay());
+
+  const starts: Date[] = [];
+  for (let week = 0; starts.length < limit; week += interval) {
+    for (const day of days) {
+      const candidate = new Date(firstWeek);
+      candidate.setDate(firstWeek.getDate() + week * 7 + day);
+      if (candidate > until) return starts;
+      if (candidate < from) continue;
+      starts.push(candidate);
+      if (starts.length >= limit) break;
+    }
+  }
+  return starts;
+}
+
+function monthlyStarts(rule: RecurrencePattern, start: Date, from: Date, until: Date, limit: number): Date[] {
+  const interval = rule.interval || 1;
+  const dayOfMonth = rule.dayOfMonth || start.getDate();
+
+  const starts: Date[] = [];
+  for (let month = 0; starts.length < limit; month += interval) {
+    const targetMonth = new Date(start.getFullYear(), start.getMonth() + month, 1);
+    if (targetMonth > until) break;
+
+    const candidate = new Date(
+      targetMonth.getFullYear(), targetMonth.getMonth(), dayOfMonth,
+      start.getHours(), start.getMinutes(), start.getSeconds()
+    );
+    // Months without that day (e.g. the 31st in April) are skipped rather than shifted
+    if (candidate.getMonth() !== targetMonth.getMonth()) continue;
+    if (candidate > until) break;
+    if (candidate < from) continue;
+    starts.push(candidate);
+  }
+  return starts;
+}
+
+/**
+ * Expands a recurring rule into concrete appointment times. The rule's
+ * startDate carries the time of day of every occurrence; `from` drops
+ * occurrences before a given moment without changing the pattern's phase.
+ */
+export function expandRecurringRule(
+  rule: RecurrencePattern,
+  durationMinutes: number,
+  options: { from?: Date; maxOccurrences?: number } = {}
+): Occurrence[] {
+  const start = new Date(rule.startDate);
+  const until = seriesEnd(rule);
+  const limit = options.maxOccurrences ?? MAX_RECURRING_OCCURRENCES;
+  const from = options.from && options.from > start ? options.from : start;
+
+  const starts = rule.frequency === 'monthly'
+    ? monthlyStarts(rule, start, from, until, limit)
+    : weeklyStarts(rule, start, from, until, limit);
+
+  return starts.map(startTime => ({
+    startTime,
+    endTime: new Date(startTime.getTime() + durationMinutes * 60000),
+  }));
+}
+
+// Which occurrences of a series an edit or cancellation applies to
+export const SERIES_SCOPES = ['this', 'following', 'all'] as const;
+export type SeriesScope = typeof SERIES_SCOPES[number];
+
+export function parseSeriesScope(value: unknown): SeriesScope | null {
+  if (value === undefined || value === '') return 'this';
+  return SERIES_SCOPES.includes(value as SeriesScope) ? value as SeriesScope : null;
+}
+
+// Completed visits that already happened are history and never rewritten by series edits
+export function isLockedOccurrence(appointment: Appointment, now: Date = new Date()): boolean {
+  return appointment.status === 'completed' && new Date(appointment.startTime) < now;
+}
+
+export function selectSeriesOccurrences(
+  series: Appointment[],
+  target: Appointment,
+  scope: SeriesScope,
+  now: Date = new Date()
+): Appointment[] {
+  if (scope === 'this') return [target];
+
+  const targetStart = new Date(target.startTime);
+  return series.filter(appointment =>
+    !isLockedOccurrence(appointment, now) &&
+    (scope === 'all' || new Date(appointment.startTime) >= targetStart)
+  );
+}
+
+/**
+ * Moves the weekday / day-of-month of a pattern along with its first
+ * occurrence, so the rule keeps describing the appointments after a reschedule.
+ */
+export function shiftPattern(
+  rule: RecurrencePattern,
+  oldStart: Date,
+  newStart: Date
+): { daysOfWeek: number[] | null; dayOfMonth: number | null } {
+  const dayShift = newStart.getDay() - oldStart.getDay();
+  const daysOfWeek = Array.isArray(rule.daysOfWeek)
+    ? (rule.daysOfWeek as number[]).map(day => (day + dayShift + 7) % 7)
+    : null;
+  const dayOfMonth = rule.dayOfMonth ? newStart.getDate() : rule.dayOfMonth;
+
+  return { daysOfWeek, dayOfMonth };
+}
+
+// Last moment of the day before `date`, used as the end of a series split at `date`
+export function endOfPreviousDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 23, 59, 59, 999);
+}
@@ -0,0 +1,211 @@
+import type { Appointment, AppointmentReminder, InsertAppointmentReminder, ReminderSettingsInput } from "@shared/schema";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+import { sendSms } from "./sms";
+import { practiceNameFor } from "./invoices";
+import { createAppointmentLinkToken } from "./auth";
+import { appointmentLinkUrl } from "./appointmentLinks";
+
+export type ReminderChannel = 'email' | 'sms';
+
+// What a practice gets until its doctor changes the reminder settings
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettingsInput = {
+  enabled: true,
+  offsetsMinutes: [48 * 60, 2 * 60],
+  emailEnabled: true,
+  smsEnabled: true,
+  emailSubject: 'Reminder: your appointment with {{practiceName}}',
+  emailBody:
+    'Hi {{patientFirstName}},\n\n' +
+    'This is a reminder of your {{serviceName}} appointment with {{staffName}} on {{date}} at {{time}}.\n\n' +
+    "Please confirm you're coming, or let us know if you need to cancel or move it:\n{{responseUrl}}\n\n" +
+    '{{practiceName}}',
+  smsBody: '{{practiceName}}: reminder of your {{serviceName}} appointment on {{date}} at {{time}}. Confirm, cancel or reschedule: {{responseUrl}}',
+};
+
+// Placeholders templates may use, with what they stand for
+export const REMINDER_PLACEHOLDERS: Record<string, string> = {
+  patientFirstName: "Patient's first name",
+  patientName: "Patient's full name",
+  serviceName: 'Service booked',
+  staffName: 'Staff member seeing the patient',
+  practiceName: 'Practice name',
+  date: 'Appointment date',
+  time: 'Appointment start time',
+  responseUrl: 'Link to confirm, cancel or ask to reschedule',
+};
+
+// Appointments still worth reminding about
+const REMINDABLE_STATUSES = ['scheduled', 'confirmed'];
+
+// Reminders go out from the scheduler rather than a request, so their links are built on APP_URL
+const APP_URL = process.env.APP_URL || 'http://localhost:5000';
+
+const POLL_INTERVAL_MS = parseInt(process.env.REMINDER_POLL_SECONDS || '60') * 1000;
+// A reminder whose send time passed longer ago than this (e.g. while the server was down) is dropped
+const CATCH_UP_MS = 60 * 60 * 1000;
+// Wait before each retry; a reminder that fails once more after the last one is given up on
+const RETRY_DELAYS_MINUTES = [5, 15, 60];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+// How long a claimed reminder is left alone while it is being sent
+const SEND_LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export async function reminderSettingsFor(doctorId: number): Promise<ReminderSettingsInput> {
+  const settings = await storage.getReminderSettings(doctorId);
+  if (!settings) return DEFAULT_REMINDER_SETTINGS;
+  const { enabled, offsetsMinutes, emailEnabled, smsEnabled, emailSubject, emailBody, smsBody } = settings;
+  return { enabled, offsetsMinutes, emailEnabled, smsEnabled, emailSubject, emailBody, smsBody };
+}
+
+// Unknown placeholders are left as typed so a mistake in a template shows up in the message
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => values[name] ?? match);
+}
+
+// PRACTICE_TIME_ZONE (e.g. America/New_York) sets the zone reminder times are written in; the server's zone otherwise
+export function appointmentTime(startTime: Date): { date: string; time: string } {
+  const timeZone = process.env.PRACTICE_TIME_ZONE || undefined;
+  return {
+    date: startTime.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone }),
+    time: startTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone }),
+  };
+}
+
+async function templateValues(appointment: Appointment, doctorId: number): Promise<Record<string, string>> {
+  const [patient, staffMember, service, doctor] = await Promise.all([
+    storage.getPatient(appointment.patientId),
+    storage.getStaff(appointment.staffId),
+    storage.getService(appointment.serviceId),
+    storage.getUser(doctorId),
+  ]);
+  return {
+    patientFirstName: patient?.firstName ?? '',
+    patientName: patient ? `${patient.firstName} ${patient.lastName}` : '',
+    serviceName: service?.name ?? 'appointment',
+    staffName: staffMember ? `${staffMember.firstName} ${staffMember.lastName}` : '',
+    practiceName: practiceNameFor(doctor),
+    ...appointmentTime(appointment.startTime),
+    responseUrl: appointmentLinkUrl(APP_URL, createAppointmentLinkToken(appointment)),
+  };
+}
+
+/**
+ * Creates the reminders whose send time has come for appointments booked
+ * before it. Each distinct offset any practice uses is checked separately, so
+ * only appointments starting about that far ahead are looked at.
+ */
+async function scheduleDueReminders(now: Date): Promise<void> {
+  const offsets = new Set(DEFAULT_REMINDER_SETTINGS.offsetsMinutes);
+  (await storage.getAllReminderSettings()).forEach(settings => settings.offsetsMinutes.forEach(offset => offsets.add(offset)));
+
+  const settingsByDoctor = new Map<number, ReminderSettingsInput>();
+  const reminders: InsertAppointmentReminder[] = [];
+
+  for (const offset of Array.from(offsets)) {
+    const windowEnd = new Date(now.getTime() + offset * 60000);
+    const windowStart = new Date(windowEnd.getTime() - CATCH_UP_MS);
+    const upcoming = await storage.getAppointmentsByDateRange(windowStart, windowEnd);
+
+    for (const appointment of upcoming) {
+      const sendAt = new Date(appointment.startTime.getTime() - offset * 60000);
+      if (!REMINDABLE_STATUSES.includes(appointment.status)) continue;
+      if (appointment.startTime <= now || (appointment.createdAt && appointment.createdAt > sendAt)) continue;
+
+      const doctorId = (await storage.getStaff(appointment.staffId))?.userId;
+      if (!doctorId) continue;
+      if (!settingsByDoctor.has(doctorId)) {
+        settingsByDoctor.set(doctorId, await reminderSettingsFor(doctorId));
+      }
+      const settings = settingsByDoctor.get(doctorId)!;
+      if (!settings.enabled || !settings.offsetsMinutes.includes(offset)) continue;
+
+      const patient = await storage.getPatient(appointment.patientId);
+      const recipients: [ReminderChannel, string | null | undefined][] = [
+        ['email', settings.emailEnabled ? patient?.email : null],
+        ['sms', settings.smsEnabled ? patient?.phone : null],
+      ];
+      for (const [channel, recipient] of recipients) {
+        if (!recipient) continue;
+        reminders.push({
+          appointmentId: appointment.id,
+          doctorId,
+          channel,
+          offsetMinutes: offset,
+          appointmentStart: appointment.startTime,
+          recipient,
+          status: 'pending',
+          nextAttemptAt: now,
+        });
+      }
+    }
+  }
+
+  await storage.createAppointmentReminders(reminders);
+}
+
+async function deliver(reminder: AppointmentReminder): Promise<void> {
+  const appointment = await storage.getAppointment(reminder.appointmentId);
+  // Cancelled, moved or already started since the reminder was scheduled
+  if (
+    !appointment
+    || !REMINDABLE_STATUSES.includes(appointment.status)
+    || appointment.startTime.getTime() !== reminder.appointmentStart.getTime()
+    || appointment.startTime <= new Date()
+  ) {
+    await storage.updateAppointmentReminder(reminder.id, { status: 'skipped' });
+    return;
+  }
+
+  const attempts = reminder.attempts + 1;
+  try {
+    const settings = await reminderSettingsFor(reminder.doctorId);
+    const values = await templateValues(appointment, reminder.doctorId);
+    if (reminder.channel === 'email') {
+      await sendMail({
+        to: reminder.recipient,
+        subject: renderTemplate(settings.emailSubject, values),
+        text: renderTemplate(settings.emailBody, values),
+      });
+    } else {
+      await sendSms({ to: reminder.recipient, text: renderTemplate(settings.smsBody, values) });
+    }
+    await storage.updateAppointmentReminder(reminder.id, { status: 'sent', attempts, sentAt: new Date(), lastError: null });
+  } catch (error) {
+    const outOfRetries = attempts >= MAX_ATTEMPTS;
+    await storage.updateAppointmentReminder(reminder.id, {
+      status: outOfRetries ? 'failed' : 'pending',
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: outOfRetries ? reminder.nextAttemptAt : new Date(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1] * 60000),
+    });
+  }
+}
+
+export async function processReminders(now = new Date()): Promise<void> {
+  await scheduleDueReminders(now);
+
+  let batch: AppointmentReminder[];
+  do {
+    batch = await storage.claimDueReminders(now, new Date(now.getTime() + SEND_LEASE_MS), BATCH_SIZE);
+    for (const reminder of batch) {
+      await deliver(reminder);
+    }
+  } while (batch.length === BATCH_SIZE);
+}
+
+// Polls for due reminders every REMINDER_POLL_SECONDS (default 60); a poll still running is never overlapped
+export function startReminderScheduler(): void {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processReminders();
+    } catch (error) {
+      console.error('Reminder scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS).unref();
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BillingRecord, InsuranceClaim } from "@shared/schema";
+import type { ParsedRemittanceClaim } from "./remittance";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+const { parse835, unmatchedReason } = await import("./remittance");
+
+// An interchange around the given segments, written with `*` and `~` unless told otherwise
+const interchange = (segments: string[], element = '*', terminator = '~') => {
+  const isa = [
+    'ISA', '00', ''.padEnd(10), '00', ''.padEnd(10), 'ZZ', 'ACME'.padEnd(15), 'ZZ', 'SBBOOKINGS'.padEnd(15),
+    '300110', '0900', '^', '00501', '000000001', '0', 'P', ':',
+  ];
+  return [isa, ...segments.map(segment => segment.split('*'))]
+    .map(elements => `${elements.join(element)}${terminator}`)
+    .join('\n');
+};
+
+const remittance = [
+  'ST*835*0001',
+  'BPR*I*65.00*C*ACH*CCP*01*999999999*DA*123456*1512345678**01*999999999*DA*654321*20300110',
+  'TRN*1*EFT-778*1512345678',
+  'N1*PR*ACME HEALTH',
+  'CLP*CLM-1*1*80*65*15*12*PAYER-1',
+  'CAS*CO*45*5',
+  'CAS*PR*1*6**2*4',
+  'CLP*CLM-2*4*120*0**12*PAYER-2',
+  'SE*9*0001',
+];
+
+describe('parse835', () => {
+  it('reads the payment and each claim with its adjustments', () => {
+    const [parsed] = parse835(interchange(remittance));
+
+    expect(parsed).toMatchObject({
+      payerName: 'ACME HEALTH', traceNumber: 'EFT-778', paymentAmount: '65.00', paymentDate: new Date(2030, 0, 10),
+    });
+    expect(parsed.claims).toEqual([
+      {
+        claimNumber: 'CLM-1', statusCode: '1', chargedAmount: '80.00', paidAmount: '65.00',
+        patientResponsibility: '15.00', payerClaimNumber: 'PAYER-1',
+        adjustments: [
+          { group: 'CO', reason: '45', amount: '5.00' },
+          { group: 'PR', reason: '1', amount: '6.00' },
+          { group: 'PR', reason: '2', amount: '4.00' },
+        ],
+      },
+      {
+        claimNumber: 'CLM-2', statusCode: '4', chargedAmount: '120.00', paidAmount: '0.00',
+        patientResponsibility: null, payerClaimNumber: 'PAYER-2', adjustments: [],
+      },
+    ]);
+  });
+
+  it('takes its delimiters from the ISA header', () => {
+    const [parsed] = parse835(interchange(remittance, '|', '\n'));
+
+    expect(parsed.claims.map(claim => claim.claimNumber)).toEqual(['CLM-1', 'CLM-2']);
+  });
+
+  it('rejects files that are not 835 remittances', () => {
+    expect(() => parse835('Not an interchange')).toThrow('File is not an X12 interchange');
+    expect(() => parse835(interchange(['ST*837*0001', 'SE*2*0001']))).toThrow('found transaction set 837');
+    expect(() => parse835(interchange(['GS*HP*ACME*SBBOOKINGS']))).toThrow('File contains no 835 transactions');
+  });
+});
+
+describe('unmatchedReason', () => {
+  const parsed = (fields: Partial<ParsedRemittanceClaim> = {}): ParsedRemittanceClaim => ({
+    claimNumber: 'CLM-1', statusCode: '1', chargedAmount: '80.00', paidAmount: '65.00',
+    patientResponsibility: null, payerClaimNumber: null, adjustments: [], ...fields,
+  });
+  const claim = (status: string) => ({ id: 1, billingRecordId: 5, status, billedAmount: '80' }) as InsuranceClaim;
+  const record = { id: 5, amount: '80.00' } as BillingRecord;
+
+  it('applies a payment on a submitted claim for the billed amount', () => {
+    expect(unmatchedReason(parsed(), claim('submitted'), record)).toBeNull();
+  });
+
+  it('queues lines whose claim or charge cannot be found', () => {
+    expect(unmatchedReason(parsed(), undefined, record)).toBe('No claim with this claim number');
+    expect(unmatchedReason(parsed(), claim('submitted'), undefined)).toBe('Billing record not found');
+  });
+
+  it('queues reversals for someone to handle by hand', () => {
+    expect(unmatchedReason(parsed({ statusCode: '22' }), claim('accepted'), record)).toBe('Payer reversed a previous payment');
+  });
+
+  it('queues lines the claim is not awaiting', () => {
+    expect(unmatchedReason(parsed(), claim('draft'), record)).toBe('Claim was never submitted');
+    expect(unmatchedReason(parsed(), claim('paid'), record)).toBe('Claim is already paid');
+  });
+
+  it('queues lines charged at a different amount than was billed', () => {
+    expect(unmatchedReason(parsed({ chargedAmount: '90.00' }), claim('submitted'), record))
+      .toBe('Charged amount 90.00 does not match billed amount 80.00');
+  });
+});
@@ -0,0 +1,232 @@
+import type {
+  BillingRecord, InsertBillingRecord, InsertInsuranceClaim, InsuranceClaim, RemittanceAdjustment, RemittanceClaim
+} from "@shared/schema";
+import { storage } from "./storage";
+import { canTransitionClaim, type ClaimStatus } from "./claims";
+
+// CLP02 claim status codes; 1-3 mean processed as primary/secondary/tertiary and are treated as paid
+const DENIED_STATUS_CODE = '4';
+const REVERSAL_STATUS_CODE = '22';
+
+// CAS group for amounts written off under the payer contract; the patient doesn't owe them
+const CONTRACTUAL_GROUP = 'CO';
+
+export interface ParsedRemittanceClaim {
+  claimNumber: string;
+  statusCode: string;
+  chargedAmount: string;
+  paidAmount: string;
+  patientResponsibility: string | null;
+  payerClaimNumber: string | null;
+  adjustments: RemittanceAdjustment[];
+}
+
+export interface ParsedRemittance {
+  payerName: string | null;
+  traceNumber: string | null;
+  paymentAmount: string;
+  paymentDate: Date | null;
+  claims: ParsedRemittanceClaim[];
+}
+
+function money(value: string | undefined): string {
+  const amount = parseFloat(value || '0');
+  return (isNaN(amount) ? 0 : amount).toFixed(2);
+}
+
+function parseD8(value: string | undefined): Date | null {
+  if (!value || !/^\d{8}$/.test(value)) return null;
+  return new Date(parseInt(value.slice(0, 4)), parseInt(value.slice(4, 6)) - 1, parseInt(value.slice(6, 8)));
+}
+
+// CAS*group*reason*amount*quantity repeated up to six times per segment
+function parseAdjustments(elements: string[]): RemittanceAdjustment[] {
+  const group = elements[1];
+  const adjustments: RemittanceAdjustment[] = [];
+  for (let i = 2; i + 1 < elements.length; i += 3) {
+    if (!elements[i]) continue;
+    adjustments.push({ group, reason: elements[i], amount: money(elements[i + 1]) });
+  }
+  return adjustments;
+}
+
+/**
+ * Parses an X12 835 file into one entry per transaction (ST/SE). Delimiters
+ * are read from the ISA header, so files using non-default separators work.
+ * Throws on anything that is not an 835 interchange.
+ */
+export function parse835(text: string): ParsedRemittance[] {
+  const content = text.replace(/^\uFEFF/, '').trimStart();
+  if (!content.startsWith('ISA') || content.length < 106) {
+    throw new Error('File is not an X12 interchange');
+  }
+
+  const elementSeparator = content[3];
+  const segmentTerminator = content[105];
+  const segments = content
+    .split(segmentTerminator)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .map(segment => segment.split(elementSeparator));
+
+  const remittances: ParsedRemittance[] = [];
+  let current: ParsedRemittance | null = null;
+  let claim: ParsedRemittanceClaim | null = null;
+
+  for (const elements of segments) {
+    switch (elements[0]) {
+      case 'ST':
+        if (elements[1] !== '835') {
+          throw new Error(`Expected an 835 remittance, found transaction set ${elements[1]}`);
+        }
+        current = { payerName: null, traceNumber: null, paymentAmount: '0.00', paymentDate: null, claims: [] };
+        claim = null;
+        break;
+      case 'BPR':
+        if (current) {
+          current.paymentAmount = money(elements[2]);
+          current.paymentDate = parseD8(elements[16]);
+        }
+        break;
+      case 'TRN':
+        if (current) current.traceNumber = elements[2] || null;
+        break;
+      case 'N1':
+        if (current && elements[1] === 'PR') current.payerName = elements[2] || null;
+        break;
+      case 'CLP':
+        if (current) {
+          claim = {
+            claimNumber: elements[1] || '',
+            statusCode: elements[2] || '',
+            chargedAmount: money(elements[3]),
+            paidAmount: money(elements[4]),
+            patientResponsibility: elements[5] ? money(elements[5]) : null,
+            payerClaimNumber: elements[7] || null,
+            adjustments: [],
+          };
+          current.claims.push(claim);
+        }
+        break;
+      case 'CAS':
+        // Claim-level and service-line adjustments are both recorded against the claim
+        if (claim) claim.adjustments.push(...parseAdjustments(elements));
+        break;
+      case 'SE':
+        if (current) remittances.push(current);
+        current = null;
+        claim = null;
+        break;
+    }
+  }
+
+  if (remittances.length === 0) {
+    throw new Error('File contains no 835 transactions');
+  }
+  return remittances;
+}
+
+export function formatAdjustments(adjustments: RemittanceAdjustment[]): string {
+  return adjustments.map(adjustment => `${adjustment.group}-${adjustment.reason}`).join(', ');
+}
+
+/**
+ * The status a remittance line moves its claim to, or null when the claim
+ * can't get there from where it is. A payment on a submitted claim implies the
+ * payer accepted it first.
+ */
+export function remittanceClaimStatus(claim: InsuranceClaim, statusCode: string): ClaimStatus | null {
+  const status: ClaimStatus = statusCode === DENIED_STATUS_CODE ? 'denied' : 'paid';
+  if (canTransitionClaim(claim.status, status)) return status;
+  if (claim.status === 'submitted' && canTransitionClaim('accepted', status)) return status;
+  return null;
+}
+
+// Why a claim can't take a remittance line, in the words the reconciliation queue shows
+export function claimStatusBlocker(claim: InsuranceClaim, statusCode: string): string | null {
+  if (remittanceClaimStatus(claim, statusCode)) return null;
+  if (claim.status === 'draft') return 'Claim was never submitted';
+  if (claim.status === 'paid') return 'Claim is already paid';
+  return `Claim is ${claim.status} and is not awaiting a payer response`;
+}
+
+/**
+ * Why a remittance claim cannot be applied to the claim it names, or null
+ * when it can. Unmatched claims are kept for someone to reconcile by hand.
+ */
+export function unmatchedReason(
+  parsed: ParsedRemittanceClaim,
+  claim: InsuranceClaim | undefined,
+  record: BillingRecord | undefined
+): string | null {
+  if (!claim) return 'No claim with this claim number';
+  if (!record) return 'Billing record not found';
+  if (parsed.statusCode === REVERSAL_STATUS_CODE) return 'Payer reversed a previous payment';
+  const blocker = claimStatusBlocker(claim, parsed.statusCode);
+  if (blocker) return blocker;
+  if (parsed.chargedAmount !== money(claim.billedAmount)) {
+    return `Charged amount ${parsed.chargedAmount} does not match billed amount ${money(claim.billedAmount)}`;
+  }
+  return null;
+}
+
+/**
+ * What the patient still owes on a charge after the payer's remittance: the
+ * patient responsibility the payer states, or else whatever its payment and
+ * contractual write-offs leave uncovered.
+ */
+export function remainingAfterRemittance(remittanceClaim: RemittanceClaim, record: BillingRecord): { covered: boolean; owed: string } {
+  const charged = parseFloat(record.amount);
+  const paid = parseFloat(remittanceClaim.paidAmount);
+  const contractual = (remittanceClaim.adjustments || [])
+    .filter(adjustment => adjustment.group === CONTRACTUAL_GROUP)
+    .reduce((total, adjustment) => total + parseFloat(adjustment.amount), 0);
+
+  // Half a cent of slack for rounding in the payer's figures
+  const covered = paid + contractual >= charged - 0.005;
+  const owed = remittanceClaim.patientResponsibility !== null
+    ? parseFloat(remittanceClaim.patientResponsibility)
+    : Math.max(charged - paid - contractual, 0);
+  return { covered, owed: owed.toFixed(2) };
+}
+
+/**
+ * Settles a billing record (and its claim, if any) from a remittance line.
+ * The charge is only marked paid when the payer's payment and contractual
+ * write-offs cover it; otherwise it stays pending with the payer's payment and
+ * the patient's share recorded on it. The claim only moves along its normal
+ * lifecycle (see remittanceClaimStatus).
+ */
+export async function applyRemittanceClaim(
+  remittanceClaim: RemittanceClaim,
+  record: BillingRecord,
+  paymentDate: Date | null
+): Promise<void> {
+  const denied = remittanceClaim.statusCode === DENIED_STATUS_CODE;
+  const now = new Date();
+  const paidOn = paymentDate || now;
+  const adjustments = remittanceClaim.adjustments || [];
+
+  const claim = await storage.getInsuranceClaimByBillingRecord(record.id);
+  if (claim && remittanceClaimStatus(claim, remittanceClaim.statusCode)) {
+    const claimUpdate: Partial<InsertInsuranceClaim> = denied
+      ? { status: 'denied', respondedAt: now, denialReason: formatAdjustments(adjustments) || 'Denied by payer' }
+      : { status: 'paid', respondedAt: claim.respondedAt || now, paidAt: paidOn, paidAmount: remittanceClaim.paidAmount };
+    await storage.updateInsuranceClaim(claim.id, claimUpdate);
+  }
+
+  if (denied) {
+    await storage.updateBillingRecord(record.id, { paymentStatus: 'denied', paymentDate: null });
+    return;
+  }
+
+  const { covered, owed } = remainingAfterRemittance(remittanceClaim, record);
+  const billingUpdate: Partial<InsertBillingRecord> = {
+    insurancePaidAmount: remittanceClaim.paidAmount,
+    patientResponsibility: owed,
+    ...(covered && parseFloat(owed) === 0
+      ? { paymentStatus: 'paid', paymentDate: paidOn }
+      : { paymentStatus: 'pending', paymentDate: null }),
+  };
+  await storage.updateBillingRecord(record.id, billingUpdate);
+}
@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import jwt from "jsonwebtoken";
+import request from "supertest";
+
+// Two practices, each with one staff member, one patient and one booking, plus a platform admin;
+// the first practice also has a receptionist and a weekly series, one occurrence of it already moved twice,
+// and its patient has a single session funded for February
+const { storage } = vi.hoisted(() => {
+  process.env.JWT_SECRET = 'test-secret';
+
+  const user = (id: number, role: string) => ({
+    id, role, email: `user${id}@example.com`, isActive: true, tokenVersion: 0,
+    practiceOwnerId: null, staffId: null, totpEnabledAt: null,
+  });
+  const users = [
+    user(1, 'doctor'), user(2, 'doctor'), user(3, 'admin'), { ...user(4, 'receptionist'), practiceOwnerId: 1 },
+    { ...user(5, 'staff'), practiceOwnerId: 1, staffId: 10 },
+  ];
+  const staff = [{ id: 10, userId: 1 }, { id: 20, userId: 2 }];
+  const patients = [{ id: 100, userId: 1 }, { id: 200, userId: 2 }];
+  const appointment = (id: number, staffId: number, patientId: number, day = '07') => ({
+    id, staffId, patientId, serviceId: 1, status: 'scheduled', notes: null, recurringRuleId: null, rescheduleCount: 0,
+    startTime: new Date(`2030-01-${day}T09:00:00Z`), endTime: new Date(`2030-01-${day}T10:00:00Z`),
+  });
+  const series = [
+    { ...appointment(3000, 10, 100, '14'), recurringRuleId: 7 },
+    { ...appointment(3001, 10, 100, '21'), recurringRuleId: 7, rescheduleCount: 2 },
+  ];
+  const appointments = [appointment(1000, 10, 100), appointment(2000, 20, 200), ...series];
+  const rule = { id: 7, frequency: 'weekly', interval: 1, startDate: series[0].startTime, endDate: null, daysOfWeek: [1], dayOfMonth: null, isActive: true };
+  const allowances = [{
+    id: 50, patientId: 100, serviceId: 1, allowedSessions: 1, usedSessions: 0, isActive: true,
+    periodStart: new Date('2030-02-01T00:00:00Z'), periodEnd: new Date('2030-02-28T23:59:59Z'),
+  }];
+  const practiceOfStaff = (staffId: number) => staff.find(s => s.id === staffId)?.userId;
+
+  return {
+    storage: {
+      getUser: async (id: number) => users.find(u => u.id === id),
+      getSetting: async () => undefined,
+      getStaff: async (id: number) => staff.find(s => s.id === id),
+      getPatient: async (id: number) => patients.find(p => p.id === id),
+      getAppointment: async (id: number) => appointments.find(a => a.id === id),
+      getAppointments: async (filters: { userId?: number }) =>
+        appointments.filter(a => filters.userId === undefined || practiceOfStaff(a.staffId) === filters.userId),
+      getRecurringRule: async (id: number) => (id === rule.id ? rule : undefined),
+      getAppointmentsByRecurringRule: async () => series,
+      getService: async (id: number) => ({ id, userId: 1, name: 'Physio', duration: 60, price: '80.00' }),
+      getServiceCancellationPolicy: async () => undefined,
+      getCancellationPolicy: async () => ({ noticeHours: 24, maxReschedules: 2, lateCancelFeePercent: 50 }),
+      getPatientAllowances: async (patientId: number) => allowances.filter(a => a.patientId === patientId),
+      getAppointmentsByPatient: async (patientId: number) => appointments.filter(a => a.patientId === patientId),
+      checkAppointmentConflicts: async () => false,
+      getBillingRecordByAppointment: async () => undefined,
+      updateAppointment: vi.fn(async (id: number, data: object) => ({ ...appointments.find(a => a.id === id), ...data })),
+      deleteAppointment: vi.fn(async () => true),
+      updateUser: async (id: number, data: object) => ({
+        ...users.find(u => u.id === id), ...data, password: 'hash', totpSecret: 'SECRET', totpBackupCodes: ['code'],
+      }),
+      getAuditLogs: vi.fn(async () => []),
+      updatePatient: vi.fn(async (id: number, data: object) => ({ ...patients.find(p => p.id === id), ...data })),
+      updateStaff: vi.fn(async (id: number, data: object) => ({ ...staff.find(s => s.id === id), ...data })),
+    },
+  };
+});
+
+vi.mock("./storage", () => ({ storage }));
+
+const { registerRoutes } = await import("./routes");
+
+const app = express();
+app.use(express.json());
+await registerRoutes(app);
+
+const tokenFor = (userId: number, role: string) =>
+  `Bearer ${jwt.sign({ userId, email: `user${userId}@example.com`, role, tokenVersion: 0 }, 'test-secret')}`;
+
+const doctor = tokenFor(1, 'doctor');
+const admin = tokenFor(3, 'admin');
+const receptionist = tokenFor(4, 'receptionist');
+const staffMember = tokenFor(5, 'staff');
+const portalPatient = `Bearer ${jwt.sign({ patientId: 100, purpose: 'patient_portal' }, 'test-secret')}`;
+
+describe('appointment routes', () => {
+  beforeEach(() => {
+    storage.updateAppointment.mockClear();
+    storage.deleteAppointment.mockClear();
+  });
+
+  it('lists only the caller\'s practice bookings', async () => {
+    const res = await request(app).get('/api/appointments').set('Authorization', doctor);
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((a: { id: number }) => a.id)).toEqual([1000, 3000, 3001]);
+  });
+
+  it('refuses another practice\'s booking', async () => {
+    const read = await request(app).get('/api/appointments/2000').set('Authorization', doctor);
+    const update = await request(app).put('/api/appointments/2000').set('Authorization', doctor).send({ notes: 'Moved' });
+    const remove = await request(app).delete('/api/appointments/2000').set('Authorization', doctor);
+
+    expect([read.status, update.status, remove.status]).toEqual([403, 403, 403]);
+    expect(storage.updateAppointment).not.toHaveBeenCalled();
+    expect(storage.deleteAppointment).not.toHaveBeenCalled();
+  });
+
+  it('lets a doctor reach their own booking', async () => {
+    const res = await request(app).get('/api/appointments/1000').set('Authorization', doctor);
+
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(1000);
+  });
+
+  it('lets an admin reach every practice\'s bookings', async () => {
+    const list = await request(app).get('/api/appointments').set('Authorization', admin);
+    const read = await request(app).get('/api/appointments/2000').set('Authorization', admin);
+    const update = await request(app).put('/api/appointments/2000').set('Authorization', admin).send({ notes: 'Moved' });
+    const remove = await request(app).delete('/api/appointments/1000').set('Authorization', admin);
+
+    expect(list.body.map((a: { id: number }) => a.id)).toEqual([1000, 2000, 3000, 3001]);
+    expect([read.status, update.status, remove.status]).toEqual([200, 200, 204]);
+    expect(storage.updateAppointment).toHaveBeenCalledWith(2000, expect.objectContaining({ notes: 'Moved' }));
+    expect(storage.deleteAppointment).toHaveBeenCalledWith(1000);
+  });
+});
+
+describe('cancellation policy on appointment edits', () => {
+  beforeEach(() => {
+    storage.updateAppointment.mockClear();
+  });
+
+  it('holds each occurrence of a moved series to the reschedule limit', async () => {
+    const res = await request(app)
+      .put('/api/appointments/3000?scope=all')
+      .set('Authorization', doctor)
+      .send({ startTime: '2030-01-14T11:00:00Z', endTime: '2030-01-14T12:00:00Z' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('RESCHEDULE_LIMIT');
+    expect(res.body.limited.map((o: { id: number }) => o.id)).toEqual([3001]);
+    expect(storage.updateAppointment).not.toHaveBeenCalled();
+  });
+
+  it('leaves going past the policy to the practice', async () => {
+    const waive = await request(app)
+      .put('/api/appointments/1000')
+      .set('Authorization', receptionist)
+      .send({ status: 'cancelled', waiveLateCancelFee: true });
+    const override = await request(app)
+      .put('/api/appointments/3001')
+      .set('Authorization', receptionist)
+      .send({ startTime: '2030-01-21T11:00:00Z', endTime: '2030-01-21T12:00:00Z', overridePolicy: true });
+
+    expect([waive.status, override.status]).toEqual([403, 403]);
+    expect(storage.updateAppointment).not.toHaveBeenCalled();
+  });
+});
+
+describe('allowances on appointment edits', () => {
+  beforeEach(() => {
+    storage.updateAppointment.mockClear();
+  });
+
+  it('holds a series moved into another allowance period to its sessions', async () => {
+    const res = await request(app)
+      .put('/api/appointments/3000?scope=all')
+      .set('Authorization', doctor)
+      .send({ startTime: '2030-02-11T09:00:00Z', endTime: '2030-02-11T10:00:00Z', overridePolicy: true });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('ALLOWANCE_EXHAUSTED');
+    expect(res.body.overAllowance.map((o: { id: number }) => o.id)).toEqual([3001]);
+    expect(storage.updateAppointment).not.toHaveBeenCalled();
+  });
+});
+
+describe('staff routes', () => {
+  it('rejects a schedule range that is not a date', async () => {
+    const res = await request(app).get('/api/schedule?startDate=garbage').set('Authorization', staffMember);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('keeps an edited staff member in their practice', async () => {
+    const res = await request(app).put('/api/staff/10').set('Authorization', doctor).send({ firstName: 'Ana', userId: 2 });
+
+    expect(res.status).toBe(200);
+    expect(storage.updateStaff).toHaveBeenCalledWith(10, { firstName: 'Ana' });
+  });
+});
+
+describe('patient portal routes', () => {
+  it('leaves contact details the patient did not send alone', async () => {
+    const res = await request(app).put('/api/portal/me').set('Authorization', portalPatient).send({ phone: '555-0100' });
+
+    expect(res.status).toBe(200);
+    expect(storage.updatePatient).toHaveBeenCalledWith(100, { phone: '555-0100' });
+  });
+});
+
+describe('admin routes', () => {
+  it('returns a doctor\'s account without their credentials after a subscription change', async () => {
+    const res = await request(app).patch('/api/admin/doctors/1/subscription').set('Authorization', admin).send({ status: 'trial' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.subscriptionStatus).toBe('trial');
+    expect(res.body).not.toHaveProperty('password');
+    expect(res.body).not.toHaveProperty('totpSecret');
+    expect(res.body).not.toHaveProperty('totpBackupCodes');
+  });
+
+  it('rejects an unknown subscription status', async () => {
+    const res = await request(app).patch('/api/admin/doctors/1/subscription').set('Authorization', admin).send({ status: 'gold' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('audit log routes', () => {
+  it('reads the date filter as whole local days', async () => {
+    const res = await request(app).get('/api/audit-logs?startDate=2030-01-07&endDate=2030-01-07').set('Authorization', doctor);
+
+    expect(res.status).toBe(200);
+    expect(storage.getAuditLogs).toHaveBeenCalledWith(expect.objectContaining({
+      startDate: new Date(2030, 0, 7),
+      endDate: new Date(2030, 0, 7, 23, 59, 59, 999),
+    }));
+  });
+
+  it('rejects a date filter that is not a date', async () => {
+    const res = await request(app).get('/api/audit-logs?endDate=garbage').set('Authorization', doctor);
+
+    expect(res.status).toBe(400);
+  });
+});
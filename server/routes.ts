@@ -1,11 +1,96 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import jwt from "jsonwebtoken";
-import { insertUserSchema, insertStaffSchema, insertPatientSchema, insertServiceSchema, insertAppointmentSchema } from "@shared/schema";
+import { parseDateRange, parseLocalDate } from "./availability";
+import {
+  expandRecurringRule, parseSeriesScope, selectSeriesOccurrences, shiftPattern, endOfPreviousDay,
+  type Occurrence
+} from "./recurrence";
+import { checkAllowance, checkAllowanceChange, syncAllowanceUsage, summarizeAllowance } from "./allowances";
+import { billStatusChange, canTransitionPayment, summarizeBalances } from "./billing";
+import { buildStatementLines, practiceNameFor, renderStatementPdf } from "./invoices";
+import {
+  CLAIM_STATUSES, canTransitionClaim, isClaimEditable, parseInsuranceInfo, isUnchangedLegacyInsurance, isCoveredOn, draftClaimFor,
+  claimTransitionFields, billingUpdateForClaim
+} from "./claims";
+import { buildClaimBatch, loadClaimExportInputs } from "./claimExport";
+import { parse835, unmatchedReason, applyRemittanceClaim, claimStatusBlocker, type ParsedRemittance } from "./remittance";
+import {
+  assigneeFilter, authorize, can, canBook, listPermissions, ownerFilter, practiceOf, redact, scopeFor, type Resource
+} from "./policy";
+import { AUDIT_ENTITIES, runAsActor, type AuditEntity } from "./audit";
+import { createInviteToken, hashInviteToken, inviteUrl, isInviteUsable } from "./invites";
+import {
+  consumeUserToken, createUserToken, issueSession, publicUser, revokeSession, rotateSession, verifyAccessToken,
+  createTwoFactorChallenge, userForTwoFactorChallenge, verifySecondFactor, isTwoFactorRequired, mustSetUpTwoFactor,
+  isLockedOut, recordLoginFailure, clearLoginFailures, appointmentForLinkToken,
+  createPatientLoginToken, consumePatientLoginToken, createPatientSession, patientForSession
+} from "./auth";
+import { rateLimit } from "./rateLimit";
+import { generateBackupCodes, generateTotpSecret, totpProvisioningUri, verifyTotp } from "./totp";
+import QRCode from "qrcode";
+import { bookingConfirmationEmail, passwordResetEmail, portalSignInEmail, sendMail, staffInviteEmail, verificationEmail } from "./mail";
+import { REMINDER_PLACEHOLDERS, appointmentTime, reminderSettingsFor } from "./reminders";
+import { OPEN_STATUSES, applyLinkResponse, appointmentLinkSummary, patientChangeLockedReason } from "./appointmentLinks";
+import {
+  bookableStaff, bookingConfirmUrl, bookingPatient, bookingPractice, bookingService, bookingSummary, bookingUrl,
+  createBookingToken, hashBookingToken, hasBookableSubscription, isWithinBookingWindow, loadBookableSlots
+} from "./onlineBooking";
+import { appointmentCancellationPolicy, cancellationPolicyFor, insideNoticePeriod, rescheduleCountAfter, rescheduleLimitReached } from "./cancellationPolicy";
+import { portalAppointmentPolicy, portalAppointments, portalProfile, portalSignInUrl } from "./patientPortal";
+import { registerSchema, insertStaffSchema, insertPatientSchema, insertServiceSchema, insertAppointmentSchema, insertRecurringRuleSchema, insertPatientAllowanceSchema, diagnosisCodeSchema, practiceDetailsSchema, receptionistInviteSchema, staffInviteAcceptSchema, refreshTokenSchema, twoFactorCodeSchema, twoFactorLoginSchema, securitySettingsSchema, subscriptionUpdateSchema, reminderSettingsSchema, appointmentLinkResponseSchema, bookingSettingsSchema, publicBookingSchema, cancellationPolicySchema, portalLoginSchema, portalSessionSchema, portalContactSchema, portalRescheduleSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, timeOffRequestSchema, timeOffReviewSchema, type Appointment, type Patient, type Service, type Staff, type BillingRecord, type InsuranceClaim, type RemittanceClaim, type RecurringAppointmentRule, type InsertBillingRecord, type InsertInsuranceClaim, type InsertUser, type User } from "@shared/schema";
 import { z } from "zod";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+// Error code the booking UI checks for before offering to book past a patient's allowance
+const ALLOWANCE_EXHAUSTED = 'ALLOWANCE_EXHAUSTED';
+const RESCHEDULE_LIMIT = 'RESCHEDULE_LIMIT';
+const APPOINTMENT_BILLED = 'APPOINTMENT_BILLED';
+// Error code the client checks for to send the user to two-factor setup
+const TWO_FACTOR_SETUP_REQUIRED = 'TWO_FACTOR_SETUP_REQUIRED';
+
+// Fields staff may change on a billing record; amounts come from the service and are not editable
+const billingUpdateSchema = z.object({
+  paymentStatus: z.enum(['pending', 'paid', 'denied']).optional(),
+  paymentDate: z.coerce.date().optional(),
+  notes: z.string().nullable().optional(),
+  insuranceClaim: z.string().nullable().optional(),
+});
+
+// Claim status changes and coding corrections; a denial needs a reason and a payment may record what the payer actually paid
+const claimUpdateSchema = z.object({
+  status: z.enum(CLAIM_STATUSES).optional(),
+  denialReason: z.string().min(1).optional(),
+  paidAmount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(),
+  diagnosisCodes: z.array(diagnosisCodeSchema).min(1).max(12).optional(),
+}).refine(update => update.status !== 'denied' || !!update.denialReason, {
+  message: 'A denial reason is required',
+  path: ['denialReason'],
+});
+
+// Billing records to write into an 837P batch; exported claims are marked submitted unless told otherwise
+const claimExportSchema = z.object({
+  billingRecordIds: z.array(z.number().int()).min(1),
+  markSubmitted: z.boolean().optional(),
+});
+
+// Manual reconciliation: apply a remittance line to a chosen charge, or dismiss it
+const remittanceResolutionSchema = z.object({
+  billingRecordId: z.number().int().optional(),
+  dismiss: z.boolean().optional(),
+}).refine(resolution => !!resolution.billingRecordId !== !!resolution.dismiss, {
+  message: 'Provide either a billing record or dismiss',
+});
+
+// Staff working their own schedule only record how a visit went
+const scheduleUpdateSchema = z.object({
+  status: z.enum(['completed', 'no_show']),
+});
+
+// One appointment plus the rule it repeats on; the rule starts at the appointment
+const recurringSeriesSchema = z.object({
+  appointment: insertAppointmentSchema.omit({ recurringRuleId: true }),
+  rule: insertRecurringRuleSchema.omit({ startDate: true, isActive: true }),
+});
 
 // Authentication middleware
 const authenticateToken = async (req: any, res: any, next: any) => {
@@ -17,31 +102,130 @@ const authenticateToken = async (req: any, res: any, next: any) => {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    const decoded = verifyAccessToken(token);
     const user = await storage.getUser(decoded.userId);
-    if (!user) {
+    // Tokens issued before a password change, deactivation or sign-out everywhere no longer count
+    if (!user || user.isActive === false || user.tokenVersion !== decoded.tokenVersion) {
       return res.status(401).json({ message: 'Invalid token' });
     }
+    // Until required two-factor is set up, only the auth routes (where setup happens) answer
+    if (!req.originalUrl.startsWith('/api/auth/') && await mustSetUpTwoFactor(user)) {
+      return res.status(403).json({
+        message: 'Two-factor authentication must be set up before continuing',
+        code: TWO_FACTOR_SETUP_REQUIRED,
+      });
+    }
     req.user = user;
-    next();
+    // Changes made while serving the request are attributed to this user in the audit trail
+    runAsActor({ userId: user.id, role: user.role, ipAddress: req.ip || null }, next);
   } catch (error) {
-    return res.status(403).json({ message: 'Invalid token' });
+    // Expired tokens land here too; 401 tells the client to refresh
+    return res.status(401).json({ message: 'Invalid token' });
   }
 };
 
-// Role-based middleware
-const requireRole = (roles: string[]) => {
-  return (req: any, res: any, next: any) => {
-    if (!req.user || !roles.includes(req.user.role)) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-    next();
-  };
+// Patient portal middleware: the session names one patient, and portal routes only ever look at that patient's records
+const authenticatePatient = async (req: any, res: any, next: any) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  const patient = token ? await patientForSession(token) : undefined;
+  if (!patient) {
+    return res.status(401).json({ message: 'Please sign in again' });
+  }
+  req.patient = patient;
+  runAsActor({ userId: null, role: 'patient', ipAddress: req.ip || null }, next);
+};
+
+// Base URL for links in emails; APP_URL keeps a spoofed Host header out of them
+const appOrigin = (req: any): string => process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+
+// Per-address limits on the unauthenticated account routes, on top of the per-account lockout
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: 'Too many sign-in attempts, please try again later',
+});
+const registerLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: 'Too many sign-ups from this address, please try again later',
+});
+const accountEmailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: 'Too many requests, please try again later',
+});
+const appointmentLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: 'Too many requests, please try again later',
+});
+// Browsing a booking page takes a request per day looked at; sending a booking emails whoever was typed in
+const bookingPageLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 120,
+  message: 'Too many requests, please try again later',
+});
+const portalLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 300,
+  message: 'Too many requests, please try again later',
+});
+const bookingRequestLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: 'Too many bookings from this address, please try again later',
+});
+
+// A practice's booking address, and whether the page is open to patients right now
+const bookingSettingsFor = (user: User, origin: string) => ({
+  bookingSlug: user.bookingSlug,
+  bookingUrl: user.bookingSlug ? bookingUrl(origin, user.bookingSlug) : null,
+  subscriptionActive: hasBookableSubscription(user),
+});
+
+const LOCKED_OUT_MESSAGE = 'Too many failed sign-in attempts. Try again in a few minutes or reset your password.';
+
+type FailedLoginReason = 'unknown_email' | 'wrong_password' | 'wrong_code' | 'inactive' | 'locked';
+
+// Records a failed sign-in for review; a logging failure must never change the login response
+const logFailedLogin = async (req: any, email: string, reason: FailedLoginReason, user?: User) => {
+  try {
+    await storage.createFailedLogin({
+      email,
+      userId: user?.id ?? null,
+      reason,
+      ipAddress: req.ip || null,
+      userAgent: req.get('user-agent') || null,
+    });
+  } catch (error) {
+    console.error('Log failed login error:', error);
+  }
+};
+
+// Account fields an admin may see; secrets stay on the server
+const accountSummary = ({ password, totpSecret, totpBackupCodes, ...user }: User) => ({
+  ...user,
+  twoFactorEnabled: !!user.totpEnabledAt,
+});
+
+const sendVerificationEmail = async (user: User, origin: string) => {
+  const token = await createUserToken(user.id, 'email_verification');
+  await sendMail(verificationEmail(user.email, `${origin}/verify-email/${token}`));
+};
+
+// The invite behind a link and the staff member it is for, while it can still be used
+const findUsableInvite = async (token: string) => {
+  const invite = await storage.getStaffInviteByTokenHash(hashInviteToken(token));
+  if (!invite || !isInviteUsable(invite)) return undefined;
+  const staffMember = await storage.getStaff(invite.staffId);
+  return staffMember ? { invite, staffMember } : undefined;
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes
-  app.post('/api/auth/login', async (req, res) => {
+  app.post('/api/auth/login', loginLimiter, async (req, res) => {
     try {
       const { email, password } = req.body;
       
@@ -49,105 +233,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Email and password are required' });
       }
 
+      const account = await storage.getUserByEmail(email);
+      if (account && isLockedOut(account)) {
+        await logFailedLogin(req, email, 'locked', account);
+        return res.status(429).json({ message: LOCKED_OUT_MESSAGE });
+      }
+
       const user = await storage.validatePassword(email, password);
-      if (!user) {
+      if (!user || user.isActive === false) {
+        if (!account) {
+          await logFailedLogin(req, email, 'unknown_email');
+        } else if (!user) {
+          await logFailedLogin(req, email, 'wrong_password', account);
+          await recordLoginFailure(account);
+        } else {
+          await logFailedLogin(req, email, 'inactive', account);
+        }
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+      // With two-factor on, the password only earns a challenge to answer with a code
+      if (user.totpEnabledAt) {
+        return res.json({ twoFactorRequired: true, challengeToken: createTwoFactorChallenge(user) });
+      }
 
-      res.json({
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          role: user.role
-        }
-      });
+      await clearLoginFailures(user);
+      res.json(await issueSession(user, req.get('user-agent')));
     } catch (error) {
       console.error('Login error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/auth/register', async (req, res) => {
+  app.post('/api/auth/login/two-factor', loginLimiter, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
       
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+      const user = await userForTwoFactorChallenge(challengeToken);
+      if (!user) {
+        return res.status(401).json({ message: 'Your sign-in has expired, please start again' });
+      }
+      // Wrong codes count towards the same lockout as wrong passwords
+      if (isLockedOut(user)) {
+        await logFailedLogin(req, user.email, 'locked', user);
+        return res.status(429).json({ message: LOCKED_OUT_MESSAGE });
+      }
+      if (!(await verifySecondFactor(user, code))) {
+        await logFailedLogin(req, user.email, 'wrong_code', user);
+        await recordLoginFailure(user);
+        return res.status(401).json({ message: 'Invalid code' });
+      }
+      
+      await clearLoginFailures(user);
+      res.json(await issueSession(user, req.get('user-agent')));
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      res.status(400).json({ message: 'Failed to verify code' });
+    }
+  });
 
-      res.status(201).json({
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          role: user.role
-        }
-      });
+  // Self-service sign-up is for doctors only; fields like role and subscription status are never taken from the body
+  app.post('/api/auth/register', registerLimiter, async (req, res) => {
+    try {
+      const userData = registerSchema.parse(req.body);
+      // The account starts without a subscription; the doctor activates one from the subscription page
+      const user = await storage.createUser({ ...userData, role: 'doctor', subscriptionStatus: 'inactive' });
+      sendVerificationEmail(user, appOrigin(req)).catch(error => console.error('Send verification email error:', error));
+      
+      res.status(201).json(await issueSession(user, req.get('user-agent')));
     } catch (error) {
       console.error('Registration error:', error);
       res.status(400).json({ message: 'Registration failed' });
     }
   });
 
-  app.get('/api/auth/me', authenticateToken, (req: any, res) => {
-    res.json({
-      user: {
-        id: req.user.id,
-        email: req.user.email,
-        firstName: req.user.firstName,
-        lastName: req.user.lastName,
-        role: req.user.role
+  // Trades a refresh token for a new access token and a new refresh token
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      
+      const session = await rotateSession(refreshToken, req.get('user-agent'));
+      if (!session) {
+        return res.status(401).json({ message: 'Session expired' });
       }
-    });
+      
+      res.json(session);
+    } catch (error) {
+      console.error('Refresh token error:', error);
+      res.status(400).json({ message: 'Failed to refresh session' });
+    }
   });
 
-  // Staff routes - Updated to allow doctors to manage their own staff
-  app.get('/api/staff', authenticateToken, async (req: any, res) => {
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      
+      await revokeSession(refreshToken);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(400).json({ message: 'Failed to log out' });
+    }
+  });
+
+  // Sign out all devices
+  app.post('/api/auth/logout-all', authenticateToken, async (req: any, res) => {
+    try {
+      await storage.endSessions(req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({ message: 'Failed to sign out all devices' });
+    }
+  });
+
+  app.get('/api/auth/me', authenticateToken, async (req: any, res) => {
+    res.json({ user: await publicUser(req.user) });
+  });
+
+  // Password reset - answers the same whether or not the email has an account, so it can't be used to find one
+  app.post('/api/auth/forgot-password', accountEmailLimiter, async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      
+      const user = await storage.getUserByEmail(email);
+      if (user && user.isActive !== false) {
+        const token = await createUserToken(user.id, 'password_reset');
+        await sendMail(passwordResetEmail(user.email, `${appOrigin(req)}/reset-password/${token}`));
+      }
+      
+      res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(400).json({ message: 'Failed to request password reset' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', accountEmailLimiter, async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      
+      const user = await consumeUserToken(token, 'password_reset');
+      if (!user) {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+      }
+      
+      // The new password signs the user out everywhere and lifts any lockout; receiving the link also proves the address
+      await storage.updateUser(user.id, { password, emailVerifiedAt: user.emailVerifiedAt ?? new Date() });
+      await clearLoginFailures(user);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(400).json({ message: 'Failed to reset password' });
+    }
+  });
+
+  // Email verification
+  app.post('/api/auth/verify-email', async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      
+      const user = await consumeUserToken(token, 'email_verification');
+      if (!user) {
+        return res.status(400).json({ message: 'This verification link is invalid or has expired' });
+      }
+      
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Verify email error:', error);
+      res.status(400).json({ message: 'Failed to verify email' });
+    }
+  });
+
+  app.post('/api/auth/resend-verification', authenticateToken, async (req: any, res) => {
+    try {
+      if (req.user.emailVerifiedAt) {
+        return res.status(400).json({ message: 'Email is already verified' });
+      }
+      
+      await sendVerificationEmail(req.user, appOrigin(req));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ message: 'Failed to send verification email' });
+    }
+  });
+
+  // Two-factor authentication (TOTP)
+  app.get('/api/auth/two-factor', authenticateToken, async (req: any, res) => {
+    try {
+      res.json({
+        enabled: !!req.user.totpEnabledAt,
+        required: await isTwoFactorRequired(req.user),
+        backupCodesRemaining: req.user.totpBackupCodes?.length ?? 0,
+      });
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      res.status(500).json({ message: 'Failed to fetch two-factor status' });
+    }
+  });
+
+  // Starts enrollment with a new secret; it only takes effect once a code from it is confirmed
+  app.post('/api/auth/two-factor/setup', authenticateToken, async (req: any, res) => {
+    try {
+      if (req.user.totpEnabledAt) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      }
+      
+      const secret = generateTotpSecret();
+      await storage.updateTwoFactor(req.user.id, { totpSecret: secret, totpLastStep: null });
+      
+      const otpauthUri = totpProvisioningUri(secret, req.user.email);
+      res.json({ secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) });
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+
+  app.post('/api/auth/two-factor/enable', authenticateToken, async (req: any, res) => {
     try {
-      console.log('GET /api/staff - User:', req.user.id, req.user.role);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (req.user.totpEnabledAt || !req.user.totpSecret) {
+        return res.status(400).json({ message: 'Start two-factor setup first' });
+      }
+      
+      const step = verifyTotp(req.user.totpSecret, code);
+      if (step === null) {
+        return res.status(400).json({ message: 'Invalid code' });
+      }
       
-      let staffList;
+      // The backup codes are shown this once
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateTwoFactor(req.user.id, { totpEnabledAt: new Date(), totpLastStep: step, totpBackupCodes: hashes });
+      res.json({ backupCodes: codes });
+    } catch (error) {
+      console.error('Enable two-factor error:', error);
+      res.status(400).json({ message: 'Failed to enable two-factor authentication' });
+    }
+  });
+
+  // New backup codes replace any left over
+  app.post('/api/auth/two-factor/backup-codes', authenticateToken, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!req.user.totpEnabledAt) {
+        return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      }
+      if (!(await verifySecondFactor(req.user, code))) {
+        return res.status(400).json({ message: 'Invalid code' });
+      }
       
-      if (req.user.role === 'admin') {
-        // Admin can see all staff
-        staffList = await storage.getAllStaff();
-        console.log('Admin staff list:', staffList);
-      } else if (req.user.role === 'doctor') {
-        // Doctor can only see their own staff
-        staffList = await storage.getStaffByUserId(req.user.id);
-        console.log('Doctor staff list for user_id', req.user.id, ':', staffList);
-      } else {
-        return res.status(403).json({ message: 'Insufficient permissions' });
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateTwoFactor(req.user.id, { totpBackupCodes: hashes });
+      res.json({ backupCodes: codes });
+    } catch (error) {
+      console.error('Regenerate backup codes error:', error);
+      res.status(400).json({ message: 'Failed to generate backup codes' });
+    }
+  });
+
+  app.post('/api/auth/two-factor/disable', authenticateToken, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!req.user.totpEnabledAt) {
+        return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      }
+      if (await isTwoFactorRequired(req.user)) {
+        return res.status(403).json({ message: 'Two-factor authentication is required for your account' });
       }
+      if (!(await verifySecondFactor(req.user, code))) {
+        return res.status(400).json({ message: 'Invalid code' });
+      }
+      
+      await storage.updateTwoFactor(req.user.id, {
+        totpSecret: null, totpEnabledAt: null, totpLastStep: null, totpBackupCodes: null
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+      res.status(400).json({ message: 'Failed to disable two-factor authentication' });
+    }
+  });
+
+  // Staff routes - Updated to allow doctors to manage their own staff
+  app.get('/api/staff', authenticateToken, authorize('read', 'staff'), async (req: any, res) => {
+    try {
+      const userId = ownerFilter(req.user, 'staff');
+      const staffList = userId ? await storage.getStaffByUserId(userId) : await storage.getAllStaff();
+      const staffId = assigneeFilter(req.user, 'staff');
       
-      res.json(staffList);
+      res.json(staffId ? staffList.filter(member => member.id === staffId) : staffList);
     } catch (error) {
       console.error('Get staff error:', error);
       res.status(500).json({ message: 'Failed to fetch staff' });
     }
   });
 
-  app.post('/api/staff', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
+  app.post('/api/staff', authenticateToken, authorize('create', 'staff'), async (req: any, res) => {
     try {
       const staffData = insertStaffSchema.parse(req.body);
       
-      // If user is a doctor, set userId to their own ID
-      if (req.user.role === 'doctor') {
-        staffData.userId = req.user.id;
+      // Users limited to their own practice always add staff to it
+      if (scopeFor(req.user, 'create', 'staff') === 'own') {
+        staffData.userId = practiceOf(req.user);
       }
       
       const staff = await storage.createStaff(staffData);
@@ -158,18 +548,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/staff/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
+  app.put('/api/staff/:id', authenticateToken, authorize('update', 'staff', 'id'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const staffData = req.body;
-      
-      // If user is a doctor, ensure they can only update their own staff
-      if (req.user.role === 'doctor') {
-        const existingStaff = await storage.getStaff(id);
-        if (!existingStaff || existingStaff.userId !== req.user.id) {
-          return res.status(403).json({ message: 'Can only update your own staff' });
-        }
-      }
+      // A staff member stays with the practice that added them
+      const staffData = redact(req.user, 'staff', insertStaffSchema.omit({ userId: true }).partial().parse(req.body));
       
       const staff = await storage.updateStaff(id, staffData);
       res.json(staff);
@@ -179,19 +562,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/staff/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
+  app.delete('/api/staff/:id', authenticateToken, authorize('delete', 'staff', 'id'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       
-      // If user is a doctor, ensure they can only delete their own staff
-      if (req.user.role === 'doctor') {
-        const existingStaff = await storage.getStaff(id);
-        if (!existingStaff || existingStaff.userId !== req.user.id) {
-          return res.status(403).json({ message: 'Can only delete your own staff' });
-        }
-      }
-      
       await storage.deleteStaff(id);
+      
+      // A removed staff member can no longer sign in to their schedule
+      const account = await storage.getUserByStaffId(id);
+      if (account) {
+        await storage.updateUser(account.id, { isActive: false });
+      }
       res.status(204).send();
     } catch (error) {
       console.error('Delete staff error:', error);
@@ -200,303 +581,1944 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient routes
-  app.get('/api/patients', authenticateToken, async (req: any, res) => {
+  app.get('/api/patients', authenticateToken, authorize('read', 'patient'), async (req: any, res) => {
     try {
-      let patients;
-      
-      if (req.user.role === 'admin') {
-        // Admin can see all patients
-        patients = await storage.getAllPatients();
-      } else {
-        // Doctors can only see their own patients
-        patients = await storage.getPatientsByUserId(req.user.id);
-      }
+      const userId = ownerFilter(req.user, 'patient');
+      const patients = userId ? await storage.getPatientsByUserId(userId) : await storage.getAllPatients();
       
-      res.json(patients);
+      res.json(redact(req.user, 'patient', patients));
     } catch (error) {
       console.error('Get patients error:', error);
       res.status(500).json({ message: 'Failed to fetch patients' });
     }
   });
 
-  app.post('/api/patients', authenticateToken, async (req: any, res) => {
+  app.post('/api/patients', authenticateToken, authorize('create', 'patient'), async (req: any, res) => {
+    try {
+      const patientData = redact(req.user, 'patient', insertPatientSchema.parse(req.body));
+      
+      // Associate the patient with the logged-in user's practice
+      patientData.userId = practiceOf(req.user);
+      
+      const patient = await storage.createPatient(patientData);
+      res.status(201).json(redact(req.user, 'patient', patient));
+    } catch (error) {
+      console.error('Create patient error:', error);
+      res.status(400).json({ message: 'Failed to create patient' });
+    }
+  });
+
+  app.put('/api/patients/:id', authenticateToken, authorize('update', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // An old free-form insuranceInfo sent back as it was is left alone rather than failing validation
+      const { insuranceInfo, ...fields } = req.body;
+      const body = isUnchangedLegacyInsurance(req.resource, insuranceInfo) ? fields : req.body;
+      const patientData = redact(req.user, 'patient', insertPatientSchema.partial().parse(body));
+      const patient = await storage.updatePatient(id, patientData);
+      res.json(redact(req.user, 'patient', patient));
+    } catch (error) {
+      console.error('Update patient error:', error);
+      res.status(400).json({ message: 'Failed to update patient' });
+    }
+  });
+
+  app.delete('/api/patients/:id', authenticateToken, authorize('delete', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      await storage.deletePatient(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete patient error:', error);
+      res.status(400).json({ message: 'Failed to delete patient' });
+    }
+  });
+
+  // Patient allowances - session limits per service, scoped to the doctor who owns the patient
+  app.get('/api/patients/:id/allowances', authenticateToken, authorize('read', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      
+      const allowances = await storage.getPatientAllowances(patientId);
+      const appointments = await storage.getAppointmentsByPatient(patientId);
+      res.json(allowances.map(allowance => summarizeAllowance(allowance, appointments)));
+    } catch (error) {
+      console.error('Get patient allowances error:', error);
+      res.status(500).json({ message: 'Failed to fetch patient allowances' });
+    }
+  });
+
+  // Itemized statement of a patient's charges over an optional date range, as a PDF
+  app.get('/api/patients/:id/statement', authenticateToken, authorize('read', 'billingRecord'), authorize('read', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const patient: Patient = req.resource;
+      const patientId = patient.id;
+      
+      const period = parseDateRange(req.query.startDate, req.query.endDate);
+      if (!period) {
+        return res.status(400).json({ message: 'startDate and endDate must be dates (YYYY-MM-DD) or timestamps' });
+      }
+      const { startDate: periodStart, endDate: periodEnd } = period;
+      const records = await storage.getBillingRecords({ patientId, startDate: periodStart, endDate: periodEnd });
+      const doctor = patient.userId ? await storage.getUser(patient.userId) : undefined;
+      const lines = await buildStatementLines(records);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="statement-${patient.id}.pdf"`);
+      renderStatementPdf({
+        kind: 'statement',
+        practiceName: practiceNameFor(doctor),
+        patient,
+        lines,
+        periodStart,
+        periodEnd,
+        issuedAt: new Date(),
+      }, res);
+    } catch (error) {
+      console.error('Generate statement error:', error);
+      res.status(500).json({ message: 'Failed to generate statement' });
+    }
+  });
+
+  app.post('/api/patients/:id/allowances', authenticateToken, authorize('update', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const patient: Patient = req.resource;
+      const patientId = patient.id;
+      
+      const allowanceData = insertPatientAllowanceSchema.parse({ ...req.body, patientId });
+      if (allowanceData.periodEnd <= allowanceData.periodStart) {
+        return res.status(400).json({ message: 'Period end must be after period start' });
+      }
+      
+      const service = await storage.getService(allowanceData.serviceId);
+      if (!service || service.userId !== patient.userId) {
+        return res.status(400).json({ message: "Service must belong to the patient's practice" });
+      }
+      
+      const allowance = await storage.createPatientAllowance(allowanceData);
+      res.status(201).json(allowance);
+    } catch (error) {
+      console.error('Create patient allowance error:', error);
+      res.status(400).json({ message: 'Failed to create patient allowance' });
+    }
+  });
+
+  app.put('/api/patients/:id/allowances/:allowanceId', authenticateToken, authorize('update', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const allowanceId = parseInt(req.params.allowanceId);
+      const existing = await storage.getPatientAllowance(allowanceId);
+      if (!existing || existing.patientId !== patientId) {
+        return res.status(404).json({ message: 'Allowance not found' });
+      }
+      
+      // The patient and service an allowance funds are fixed; create a new allowance instead
+      const { patientId: _patientId, serviceId: _serviceId, ...allowanceData } = insertPatientAllowanceSchema.partial().parse(req.body);
+      const periodStart = allowanceData.periodStart || existing.periodStart;
+      const periodEnd = allowanceData.periodEnd || existing.periodEnd;
+      if (periodEnd <= periodStart) {
+        return res.status(400).json({ message: 'Period end must be after period start' });
+      }
+      
+      const allowance = await storage.updatePatientAllowance(allowanceId, allowanceData);
+      res.json(allowance);
+    } catch (error) {
+      console.error('Update patient allowance error:', error);
+      res.status(400).json({ message: 'Failed to update patient allowance' });
+    }
+  });
+
+  app.delete('/api/patients/:id/allowances/:allowanceId', authenticateToken, authorize('update', 'patient', 'id'), async (req: any, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const allowanceId = parseInt(req.params.allowanceId);
+      const existing = await storage.getPatientAllowance(allowanceId);
+      if (!existing || existing.patientId !== patientId) {
+        return res.status(404).json({ message: 'Allowance not found' });
+      }
+      
+      // Deactivate rather than delete so past usage stays on record
+      await storage.updatePatientAllowance(allowanceId, { isActive: false });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete patient allowance error:', error);
+      res.status(400).json({ message: 'Failed to delete patient allowance' });
+    }
+  });
+
+  // Service routes
+  app.get('/api/services', authenticateToken, authorize('read', 'service'), async (req: any, res) => {
+    try {
+      const userId = ownerFilter(req.user, 'service');
+      const services = userId ? await storage.getServicesByUserId(userId) : await storage.getAllServices();
+      
+      res.json(redact(req.user, 'service', services));
+    } catch (error) {
+      console.error('Get services error:', error);
+      res.status(500).json({ message: 'Failed to fetch services' });
+    }
+  });
+
+  app.get('/api/services/:id', authenticateToken, authorize('read', 'service', 'id'), async (req: any, res) => {
+    res.json(redact(req.user, 'service', req.resource));
+  });
+
+  app.post('/api/services', authenticateToken, authorize('create', 'service'), async (req: any, res) => {
+    try {
+      // Services always belong to the practice that creates them
+      const serviceData = insertServiceSchema.parse({
+        ...req.body,
+        userId: practiceOf(req.user)
+      });
+      
+      const service = await storage.createService(serviceData);
+      res.status(201).json(service);
+    } catch (error) {
+      console.error('Create service error:', error);
+      res.status(400).json({ message: 'Failed to create service' });
+    }
+  });
+
+  app.put('/api/services/:id', authenticateToken, authorize('update', 'service', 'id'), async (req: any, res) => {
     try {
-      const patientData = insertPatientSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      const serviceData = redact(req.user, 'service', insertServiceSchema.omit({ userId: true }).partial().parse(req.body));
+      const service = await storage.updateService(id, serviceData);
+      res.json(service);
+    } catch (error) {
+      console.error('Update service error:', error);
+      res.status(400).json({ message: 'Failed to update service' });
+    }
+  });
+
+  app.delete('/api/services/:id', authenticateToken, authorize('delete', 'service', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteService(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete service error:', error);
+      res.status(400).json({ message: 'Failed to delete service' });
+    }
+  });
+
+  // Appointment routes
+  app.get('/api/appointments', authenticateToken, authorize('read', 'appointment'), async (req: any, res) => {
+    try {
+      const { startDate, endDate, staffId, patientId } = req.query;
+      
+      const appointments = await storage.getAppointments({
+        userId: ownerFilter(req.user, 'appointment'),
+        staffId: assigneeFilter(req.user, 'appointment') ?? (staffId ? parseInt(staffId as string) : undefined),
+        patientId: patientId ? parseInt(patientId as string) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+      
+      res.json(appointments);
+    } catch (error) {
+      console.error('Get appointments error:', error);
+      res.status(500).json({ message: 'Failed to fetch appointments' });
+    }
+  });
+
+  app.get('/api/appointments/:id', authenticateToken, authorize('read', 'appointment', 'id'), async (req: any, res) => {
+    res.json(req.resource);
+  });
+
+  app.post('/api/appointments', authenticateToken, authorize('create', 'appointment'), async (req: any, res) => {
+    try {
+      const appointmentData = insertAppointmentSchema.parse(req.body);
+      
+      if (!(await canBook(req.user, appointmentData.staffId, appointmentData.patientId))) {
+        return res.status(403).json({ message: 'You can only book your own staff and patients' });
+      }
+      
+      // Check for conflicts
+      const hasConflict = await storage.checkAppointmentConflicts(
+        appointmentData.staffId,
+        appointmentData.patientId,
+        appointmentData.startTime,
+        appointmentData.endTime
+      );
+      
+      if (hasConflict) {
+        return res.status(409).json({ message: 'Appointment conflicts with existing booking' });
+      }
+      
+      // Session-limited patients (e.g. insurance-funded) can only be booked while sessions remain,
+      // unless the front desk explicitly books past the limit
+      const allowanceCheck = await checkAllowance(appointmentData.patientId, appointmentData.serviceId, appointmentData.startTime);
+      if (allowanceCheck && allowanceCheck.remaining <= 0 && !req.body.overrideAllowance) {
+        return res.status(409).json({
+          code: ALLOWANCE_EXHAUSTED,
+          message: 'Patient has no sessions left for this service in the current allowance period',
+          allowance: allowanceCheck.allowance
+        });
+      }
+      
+      const appointment = await storage.createAppointment(appointmentData);
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error('Create appointment error:', error);
+      res.status(400).json({ message: 'Failed to create appointment' });
+    }
+  });
+
+  // Books every occurrence of a recurring rule that doesn't clash with an existing appointment
+  app.post('/api/appointments/recurring', authenticateToken, authorize('create', 'appointment'), async (req: any, res) => {
+    try {
+      const { appointment: appointmentData, rule: ruleData } = recurringSeriesSchema.parse(req.body);
+      
+      if (!(await canBook(req.user, appointmentData.staffId, appointmentData.patientId))) {
+        return res.status(403).json({ message: 'You can only book your own staff and patients' });
+      }
+      
+      const durationMinutes = (appointmentData.endTime.getTime() - appointmentData.startTime.getTime()) / 60000;
+      if (durationMinutes <= 0) {
+        return res.status(400).json({ message: 'End time must be after start time' });
+      }
+      
+      const ruleInput = { ...ruleData, startDate: appointmentData.startTime };
+      const occurrences = expandRecurringRule({
+        frequency: ruleInput.frequency,
+        interval: ruleInput.interval ?? 1,
+        startDate: ruleInput.startDate,
+        endDate: ruleInput.endDate ?? null,
+        daysOfWeek: ruleInput.daysOfWeek ?? null,
+        dayOfMonth: ruleInput.dayOfMonth ?? null,
+      }, durationMinutes);
+      
+      if (occurrences.length === 0) {
+        return res.status(400).json({ message: 'The recurrence rule does not produce any appointments' });
+      }
+      
+      const bookable: Occurrence[] = [];
+      const conflicts: (Occurrence & { reason: 'conflict' | 'allowance' })[] = [];
+      const remainingByAllowance = new Map<number, number>();
+      for (const occurrence of occurrences) {
+        const hasConflict = await storage.checkAppointmentConflicts(
+          appointmentData.staffId,
+          appointmentData.patientId,
+          occurrence.startTime,
+          occurrence.endTime
+        );
+        if (hasConflict) {
+          conflicts.push({ ...occurrence, reason: 'conflict' });
+          continue;
+        }
+        
+        if (!req.body.overrideAllowance) {
+          const allowanceCheck = await checkAllowance(appointmentData.patientId, appointmentData.serviceId, occurrence.startTime);
+          if (allowanceCheck) {
+            // Occurrences booked earlier in this loop aren't in the database yet, so count them down here
+            const remaining = remainingByAllowance.get(allowanceCheck.allowance.id) ?? allowanceCheck.remaining;
+            if (remaining <= 0) {
+              conflicts.push({ ...occurrence, reason: 'allowance' });
+              continue;
+            }
+            remainingByAllowance.set(allowanceCheck.allowance.id, remaining - 1);
+          }
+        }
+        
+        bookable.push(occurrence);
+      }
+      
+      if (bookable.length === 0) {
+        return res.status(409).json({ message: 'No occurrence could be booked', booked: [], conflicts });
+      }
+      
+      const rule = await storage.createRecurringRule(ruleInput);
+      const booked = [];
+      for (const occurrence of bookable) {
+        booked.push(await storage.createAppointment({
+          ...appointmentData,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          recurringRuleId: rule.id
+        }));
+      }
+      
+      res.status(201).json({ rule, booked, conflicts });
+    } catch (error) {
+      console.error('Create recurring appointments error:', error);
+      res.status(400).json({ message: 'Failed to create recurring appointments' });
+    }
+  });
+
+  // ?scope=this|following|all decides how an edit to a recurring occurrence spreads through its series
+  app.put('/api/appointments/:id', authenticateToken, authorize('update', 'appointment', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const scope = parseSeriesScope(req.query.scope);
+      if (!scope) {
+        return res.status(400).json({ message: 'scope must be one of this, following or all' });
+      }
+      
+      const existing: Appointment = req.resource;
+      if ((req.body.overridePolicy || req.body.waiveLateCancelFee) && !scopeFor(req.user, 'update', 'cancellationOverride')) {
+        return res.status(403).json({ message: 'Only the practice can go past the cancellation policy' });
+      }
+      if (scopeFor(req.user, 'update', 'appointment') === 'self') {
+        const appointment = await storage.updateAppointment(id, scheduleUpdateSchema.parse(req.body));
+        await syncAllowanceUsage(existing, appointment);
+        await billStatusChange(existing, appointment);
+        return res.json(appointment);
+      }
+      
+      const appointmentData = insertAppointmentSchema.partial().parse(req.body);
+      if ((appointmentData.staffId || appointmentData.patientId) && !(await canBook(
+        req.user,
+        appointmentData.staffId || existing.staffId,
+        appointmentData.patientId || existing.patientId
+      ))) {
+        return res.status(403).json({ message: 'You can only book your own staff and patients' });
+      }
+      
+      if (existing.recurringRuleId && scope !== 'this') {
+        const rule = await storage.getRecurringRule(existing.recurringRuleId);
+        if (!rule) {
+          return res.status(404).json({ message: 'Recurring rule not found' });
+        }
+        
+        const { startTime, endTime, recurringRuleId, ...fields } = appointmentData;
+        const newStart = startTime || existing.startTime;
+        const newEnd = endTime || existing.endTime;
+        const shiftMs = newStart.getTime() - existing.startTime.getTime();
+        const durationMs = newEnd.getTime() - newStart.getTime();
+        const timeChanged = shiftMs !== 0 || durationMs !== existing.endTime.getTime() - existing.startTime.getTime();
+        
+        const series = await storage.getAppointmentsByRecurringRule(rule.id);
+        const targets = selectSeriesOccurrences(series, existing, scope);
+        const updates = targets.map(occurrence => {
+          const occurrenceStart = new Date(occurrence.startTime.getTime() + shiftMs);
+          return {
+            occurrence,
+            data: {
+              ...fields,
+              ...(timeChanged ? { startTime: occurrenceStart, endTime: new Date(occurrenceStart.getTime() + durationMs) } : {}),
+              rescheduleCount: rescheduleCountAfter(occurrence, occurrenceStart)
+            }
+          };
+        });
+        
+        // Each occurrence that moves is rescheduled in its own right and held to the policy's limit
+        if (shiftMs !== 0 && !req.body.overridePolicy) {
+          const limited = [];
+          for (const { occurrence } of updates) {
+            if (rescheduleLimitReached(occurrence, await appointmentCancellationPolicy(occurrence))) {
+              limited.push({ id: occurrence.id, startTime: occurrence.startTime });
+            }
+          }
+          
+          if (limited.length > 0) {
+            return res.status(409).json({
+              code: RESCHEDULE_LIMIT,
+              message: 'Some occurrences have already been rescheduled as many times as the cancellation policy allows',
+              limited
+            });
+          }
+        }
+        
+        // Every occurrence that moves must still fit; the series itself is excluded so it can slide over its old slots
+        if (timeChanged || fields.staffId || fields.patientId) {
+          const targetIds = targets.map(occurrence => occurrence.id);
+          const conflicts = [];
+          for (const { occurrence, data } of updates) {
+            const hasConflict = await storage.checkAppointmentConflicts(
+              data.staffId || occurrence.staffId,
+              data.patientId || occurrence.patientId,
+              data.startTime || occurrence.startTime,
+              data.endTime || occurrence.endTime,
+              targetIds
+            );
+            if (hasConflict) {
+              conflicts.push({ id: occurrence.id, startTime: data.startTime || occurrence.startTime });
+            }
+          }
+          
+          if (conflicts.length > 0) {
+            return res.status(409).json({ message: 'Some occurrences conflict with existing bookings', conflicts });
+          }
+        }
+        
+        // Occurrences moved onto another allowance draw on it as new bookings would, and add up when several land on the same one
+        if (!req.body.overrideAllowance) {
+          const drawn = new Map<number, number>();
+          const overAllowance = [];
+          for (const { occurrence, data } of updates) {
+            const allowanceCheck = await checkAllowanceChange(occurrence, {
+              patientId: data.patientId || occurrence.patientId,
+              serviceId: data.serviceId || occurrence.serviceId,
+              startTime: data.startTime || occurrence.startTime,
+              status: data.status || occurrence.status,
+            });
+            if (!allowanceCheck) continue;
+            
+            const alreadyDrawn = drawn.get(allowanceCheck.allowance.id) ?? 0;
+            drawn.set(allowanceCheck.allowance.id, alreadyDrawn + 1);
+            if (allowanceCheck.remaining - alreadyDrawn <= 0) {
+              overAllowance.push({ id: occurrence.id, startTime: data.startTime || occurrence.startTime, allowance: allowanceCheck.allowance });
+            }
+          }
+          
+          if (overAllowance.length > 0) {
+            return res.status(409).json({
+              code: ALLOWANCE_EXHAUSTED,
+              message: 'Patient has no sessions left for this service in the current allowance period',
+              allowance: overAllowance[0].allowance,
+              overAllowance
+            });
+          }
+        }
+        
+        const isFirstOccurrence = !series.some(occurrence => occurrence.startTime < existing.startTime);
+        const pattern = timeChanged ? shiftPattern(rule, existing.startTime, newStart) : {};
+        let updatedRule: RecurringAppointmentRule;
+        
+        if (scope === 'following' && !isFirstOccurrence) {
+          // Split: the old rule stops before this occurrence, a new one carries it and everything after
+          await storage.updateRecurringRule(rule.id, { endDate: endOfPreviousDay(existing.startTime) });
+          updatedRule = await storage.createRecurringRule({
+            frequency: rule.frequency as 'weekly' | 'monthly',
+            interval: rule.interval ?? 1,
+            startDate: newStart,
+            endDate: rule.endDate,
+            daysOfWeek: rule.daysOfWeek as number[] | null,
+            dayOfMonth: rule.dayOfMonth,
+            isActive: rule.isActive,
+            ...pattern
+          });
+        } else {
+          const ruleStart = new Date(rule.startDate.getTime() + shiftMs);
+          updatedRule = await storage.updateRecurringRule(rule.id, { startDate: ruleStart, ...pattern });
+        }
+        
+        const updated = [];
+        for (const { occurrence, data } of updates) {
+          const appointment = await storage.updateAppointment(occurrence.id, { ...data, recurringRuleId: updatedRule.id });
+          await syncAllowanceUsage(occurrence, appointment);
+          await billStatusChange(occurrence, appointment, { waiveLateCancelFee: !!req.body.waiveLateCancelFee });
+          updated.push(appointment);
+        }
+        
+        return res.json({ scope, rule: updatedRule, updated });
+      }
+      
+      // The practice's reschedule limit applies at the front desk too, unless the practice deliberately goes past it
+      const rescheduleCount = rescheduleCountAfter(existing, appointmentData.startTime);
+      if (rescheduleCount > existing.rescheduleCount && !req.body.overridePolicy) {
+        const policy = await appointmentCancellationPolicy(existing);
+        if (rescheduleLimitReached(existing, policy)) {
+          return res.status(409).json({
+            code: RESCHEDULE_LIMIT,
+            message: `This appointment has already been rescheduled ${existing.rescheduleCount} times, the most the cancellation policy allows`,
+            maxReschedules: policy.maxReschedules
+          });
+        }
+      }
+      
+      // Check for conflicts if time is being changed
+      if (appointmentData.startTime || appointmentData.endTime || appointmentData.staffId || appointmentData.patientId) {
+        const hasConflict = await storage.checkAppointmentConflicts(
+          appointmentData.staffId || existing.staffId,
+          appointmentData.patientId || existing.patientId,
+          appointmentData.startTime || existing.startTime,
+          appointmentData.endTime || existing.endTime,
+          id
+        );
+        
+        if (hasConflict) {
+          return res.status(409).json({ message: 'Appointment conflicts with existing booking' });
+        }
+      }
+      
+      // Moving a booking into another allowance period or service draws on that allowance, as a new booking would
+      const allowanceCheck = await checkAllowanceChange(existing, {
+        patientId: appointmentData.patientId || existing.patientId,
+        serviceId: appointmentData.serviceId || existing.serviceId,
+        startTime: appointmentData.startTime || existing.startTime,
+        status: appointmentData.status || existing.status,
+      });
+      if (allowanceCheck && allowanceCheck.remaining <= 0 && !req.body.overrideAllowance) {
+        return res.status(409).json({
+          code: ALLOWANCE_EXHAUSTED,
+          message: 'Patient has no sessions left for this service in the current allowance period',
+          allowance: allowanceCheck.allowance
+        });
+      }
+      
+      const appointment = await storage.updateAppointment(id, { ...appointmentData, rescheduleCount });
+      await syncAllowanceUsage(existing, appointment);
+      await billStatusChange(existing, appointment, { waiveLateCancelFee: !!req.body.waiveLateCancelFee });
+      res.json(appointment);
+    } catch (error) {
+      console.error('Update appointment error:', error);
+      res.status(400).json({ message: 'Failed to update appointment' });
+    }
+  });
+
+  app.delete('/api/appointments/:id', authenticateToken, authorize('delete', 'appointment', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const scope = parseSeriesScope(req.query.scope);
+      if (!scope) {
+        return res.status(400).json({ message: 'scope must be one of this, following or all' });
+      }
+      
+      const existing: Appointment = req.resource;
+      if (existing.recurringRuleId && scope !== 'this') {
+        // Occurrences that have been billed stay on the books; the charge has to keep pointing at its visit
+        const series = await storage.getAppointmentsByRecurringRule(existing.recurringRuleId);
+        const skipped = [];
+        for (const occurrence of selectSeriesOccurrences(series, existing, scope)) {
+          if (await storage.getBillingRecordByAppointment(occurrence.id)) {
+            skipped.push({ id: occurrence.id, startTime: occurrence.startTime });
+            continue;
+          }
+          await storage.deleteAppointment(occurrence.id);
+        }
+        
+        // Stop the rule where the deleted run begins so it no longer describes those dates
+        if (scope === 'all') {
+          await storage.updateRecurringRule(existing.recurringRuleId, { isActive: false });
+        } else {
+          await storage.updateRecurringRule(existing.recurringRuleId, { endDate: endOfPreviousDay(existing.startTime) });
+        }
+        
+        if (skipped.length > 0) {
+          return res.json({ message: 'Occurrences with charges were kept; cancel them instead', skipped });
+        }
+        return res.status(204).send();
+      }
+      
+      if (await storage.getBillingRecordByAppointment(id)) {
+        return res.status(409).json({
+          code: APPOINTMENT_BILLED,
+          message: 'This appointment has charges; cancel it instead of deleting it'
+        });
+      }
+      
+      await storage.deleteAppointment(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete appointment error:', error);
+      res.status(400).json({ message: 'Failed to delete appointment' });
+    }
+  });
+
+  // Service categories - shared by every practice
+  app.get('/api/service-categories', authenticateToken, authorize('read', 'serviceCategory'), async (req, res) => {
+    try {
+      const categories = await storage.getAllServiceCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error('Get service categories error:', error);
+      res.status(500).json({ message: 'Failed to fetch service categories' });
+    }
+  });
+
+  // Reports
+  app.get('/api/reports/dashboard', authenticateToken, authorize('read', 'report'), async (req: any, res) => {
+    try {
+      const today = new Date();
+      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59);
+      
+      const startOfWeek = new Date(today);
+      startOfWeek.setDate(today.getDate() - today.getDay());
+      const endOfWeek = new Date(startOfWeek);
+      endOfWeek.setDate(startOfWeek.getDate() + 6);
+      
+      const userId = ownerFilter(req.user, 'report');
+      const todayAppointments = await storage.getAppointments({ userId, startDate: startOfDay, endDate: endOfDay });
+      const weekAppointments = await storage.getAppointments({ userId, startDate: startOfWeek, endDate: endOfWeek });
+      const allPatients = userId ? await storage.getPatientsByUserId(userId) : await storage.getAllPatients();
+      
+      // Calculate revenue (simplified)
+      const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+      const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+      const billingRecords = await storage.getBillingRecords({ userId, startDate: startOfMonth, endDate: endOfMonth });
+      const monthlyRevenue = billingRecords.reduce((sum, record) => sum + parseFloat(record.amount), 0);
+      
+      res.json({
+        todayAppointments: todayAppointments.length,
+        weekAppointments: weekAppointments.length,
+        activePatients: allPatients.length,
+        // Revenue is billing data, left out for roles that cannot see charges
+        monthlyRevenue: scopeFor(req.user, 'read', 'billingRecord') ? monthlyRevenue.toFixed(2) : undefined
+      });
+    } catch (error) {
+      console.error('Get dashboard stats error:', error);
+      res.status(500).json({ message: 'Failed to fetch dashboard statistics' });
+    }
+  });
+
+  // Practice details - billing provider identity printed on invoices and sent on claims
+  app.get('/api/practice', authenticateToken, authorize('read', 'practice'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const { practiceName, npi, taxId, practiceAddress } = user;
+      res.json({ practiceName, npi, taxId, practiceAddress });
+    } catch (error) {
+      console.error('Get practice details error:', error);
+      res.status(500).json({ message: 'Failed to fetch practice details' });
+    }
+  });
+
+  app.put('/api/practice', authenticateToken, authorize('update', 'practice'), async (req: any, res) => {
+    try {
+      const practiceData = practiceDetailsSchema.parse(req.body);
+      const user = await storage.updateUser(req.user.id, practiceData);
+      
+      const { practiceName, npi, taxId, practiceAddress } = user;
+      res.json({ practiceName, npi, taxId, practiceAddress });
+    } catch (error) {
+      console.error('Update practice details error:', error);
+      res.status(400).json({ message: 'Failed to update practice details' });
+    }
+  });
+
+  // Appointment reminders - the doctor sets when they go out and what they say
+  app.get('/api/reminders/settings', authenticateToken, authorize('read', 'practice'), async (req: any, res) => {
+    try {
+      const settings = await reminderSettingsFor(req.user.id);
+      res.json({ ...settings, placeholders: REMINDER_PLACEHOLDERS });
+    } catch (error) {
+      console.error('Get reminder settings error:', error);
+      res.status(500).json({ message: 'Failed to fetch reminder settings' });
+    }
+  });
+
+  app.put('/api/reminders/settings', authenticateToken, authorize('update', 'practice'), async (req: any, res) => {
+    try {
+      const settingsData = reminderSettingsSchema.parse(req.body);
+      // Same offset twice would only send the same reminder twice
+      settingsData.offsetsMinutes = Array.from(new Set(settingsData.offsetsMinutes)).sort((a, b) => b - a);
+      await storage.saveReminderSettings(req.user.id, settingsData);
+      res.json({ ...settingsData, placeholders: REMINDER_PLACEHOLDERS });
+    } catch (error) {
+      console.error('Update reminder settings error:', error);
+      res.status(400).json({ message: 'Failed to update reminder settings' });
+    }
+  });
+
+  app.get('/api/reminders', authenticateToken, authorize('read', 'reminder'), async (req: any, res) => {
+    try {
+      const { appointmentId, status } = req.query;
+      
+      const reminders = await storage.getAppointmentReminders({
+        doctorId: ownerFilter(req.user, 'reminder'),
+        appointmentId: appointmentId ? parseInt(appointmentId as string) : undefined,
+        status: status ? status as string : undefined,
+      });
+      
+      res.json(reminders);
+    } catch (error) {
+      console.error('Get reminders error:', error);
+      res.status(500).json({ message: 'Failed to fetch reminders' });
+    }
+  });
+
+  // Links in reminders - the signed token stands in for a login, for this one appointment only
+  app.get('/api/appointment-links/:token', appointmentLinkLimiter, async (req, res) => {
+    try {
+      const appointment = await appointmentForLinkToken(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ message: 'This link has expired or is no longer valid' });
+      }
+      
+      res.json(await appointmentLinkSummary(appointment));
+    } catch (error) {
+      console.error('Get appointment link error:', error);
+      res.status(500).json({ message: 'Failed to load appointment' });
+    }
+  });
+
+  app.post('/api/appointment-links/:token', appointmentLinkLimiter, async (req, res) => {
+    try {
+      const appointment = await appointmentForLinkToken(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ message: 'This link has expired or is no longer valid' });
+      }
+      
+      const { response, note } = appointmentLinkResponseSchema.parse(req.body);
+      if (!OPEN_STATUSES.includes(appointment.status)) {
+        return res.status(409).json({ message: 'This appointment can no longer be changed online. Please contact the practice.' });
+      }
+      if (response !== 'confirm') {
+        const lockedReason = patientChangeLockedReason(appointment, await appointmentCancellationPolicy(appointment), response);
+        if (lockedReason) {
+          return res.status(409).json({ message: lockedReason });
+        }
+      }
+      
+      await applyLinkResponse(appointment, response, note);
+      const updated = await storage.getAppointment(appointment.id);
+      res.json(await appointmentLinkSummary(updated!));
+    } catch (error) {
+      console.error('Appointment link response error:', error);
+      res.status(400).json({ message: 'Failed to record your answer' });
+    }
+  });
+
+  // Online booking - each doctor's public page at /book/<slug>; nothing is booked until the patient confirms by email
+  app.get('/api/public/booking/:slug', bookingPageLimiter, async (req, res) => {
+    try {
+      const doctor = await bookingPractice(req.params.slug);
+      if (!doctor) {
+        return res.status(404).json({ message: 'This booking page is not available' });
+      }
+      
+      const services = await storage.getServicesByUserId(doctor.id);
+      // Patients see the cancellation terms before they book
+      const policies = await Promise.all(services.map(service => cancellationPolicyFor(doctor.id, service.id)));
+      res.json({
+        practiceName: practiceNameFor(doctor),
+        services: services.map(({ id, name, duration, price }, index) => ({ id, name, duration, price, cancellationPolicy: policies[index] })),
+      });
+    } catch (error) {
+      console.error('Get booking page error:', error);
+      res.status(500).json({ message: 'Failed to load booking page' });
+    }
+  });
+
+  app.get('/api/public/booking/:slug/services/:serviceId/staff', bookingPageLimiter, async (req, res) => {
+    try {
+      const doctor = await bookingPractice(req.params.slug);
+      const service = doctor ? await bookingService(doctor.id, parseInt(req.params.serviceId)) : undefined;
+      if (!doctor || !service) {
+        return res.status(404).json({ message: 'Service not found' });
+      }
+      
+      const team = await bookableStaff(doctor.id, service.id);
+      res.json(team.map(({ id, firstName, lastName, role }) => ({ id, firstName, lastName, role })));
+    } catch (error) {
+      console.error('Get booking staff error:', error);
+      res.status(500).json({ message: 'Failed to fetch staff' });
+    }
+  });
+
+  app.get('/api/public/booking/:slug/availability', bookingPageLimiter, async (req, res) => {
+    try {
+      const { date, serviceId, staffId } = req.query;
+      if (!date || !serviceId || !staffId) {
+        return res.status(400).json({ message: 'date, serviceId and staffId are required' });
+      }
+      
+      const day = parseLocalDate(date as string);
+      if (!day) {
+        return res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      }
+      
+      const doctor = await bookingPractice(req.params.slug);
+      const service = doctor ? await bookingService(doctor.id, parseInt(serviceId as string)) : undefined;
+      const staffMember = doctor && service
+        ? (await bookableStaff(doctor.id, service.id)).find(member => member.id === parseInt(staffId as string))
+        : undefined;
+      if (!service || !staffMember) {
+        return res.status(404).json({ message: 'Service or staff member not found' });
+      }
+      
+      const slots = isWithinBookingWindow(day) ? await loadBookableSlots(staffMember, service, day) : [];
+      res.json({
+        date,
+        duration: service.duration,
+        slots: slots.map(({ time, startTime }) => ({ time, startTime })),
+      });
+    } catch (error) {
+      console.error('Get booking availability error:', error);
+      res.status(500).json({ message: 'Failed to fetch availability' });
+    }
+  });
+
+  app.post('/api/public/booking/:slug', bookingRequestLimiter, async (req, res) => {
+    try {
+      const bookingData = publicBookingSchema.parse(req.body);
+      
+      const doctor = await bookingPractice(req.params.slug);
+      const service = doctor ? await bookingService(doctor.id, bookingData.serviceId) : undefined;
+      const staffMember = doctor && service
+        ? (await bookableStaff(doctor.id, service.id)).find(member => member.id === bookingData.staffId)
+        : undefined;
+      if (!doctor || !service || !staffMember) {
+        return res.status(404).json({ message: 'Service or staff member not found' });
+      }
+      
+      // Only the start times the page offered can be asked for
+      const { startTime } = bookingData;
+      const day = new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate());
+      const slots = isWithinBookingWindow(day) ? await loadBookableSlots(staffMember, service, day) : [];
+      if (!slots.some(slot => slot.startTime.getTime() === startTime.getTime())) {
+        return res.status(409).json({ message: 'That time is no longer available. Please choose another.' });
+      }
+      
+      const { token, tokenHash, expiresAt } = createBookingToken();
+      const request = await storage.createBookingRequest({
+        doctorId: doctor.id,
+        serviceId: service.id,
+        staffId: staffMember.id,
+        startTime,
+        endTime: new Date(startTime.getTime() + service.duration * 60000),
+        firstName: bookingData.firstName,
+        lastName: bookingData.lastName,
+        email: bookingData.email,
+        phone: bookingData.phone || null,
+        tokenHash,
+        expiresAt,
+      });
+      
+      const { date, time } = appointmentTime(startTime);
+      const details = `${service.name} with ${staffMember.firstName} ${staffMember.lastName} on ${date} at ${time}`;
+      await sendMail(bookingConfirmationEmail(request.email, practiceNameFor(doctor), details, bookingConfirmUrl(appOrigin(req), token)));
+      
+      res.status(202).json({ email: request.email, expiresAt });
+    } catch (error) {
+      console.error('Create booking request error:', error);
+      res.status(400).json({ message: 'Failed to send booking confirmation' });
+    }
+  });
+
+  // Public: the link in the confirmation email books the appointment, creating the patient on their first visit
+  app.post('/api/public/booking-requests/:token/confirm', bookingPageLimiter, async (req, res) => {
+    try {
+      const request = await storage.getBookingRequestByTokenHash(hashBookingToken(req.params.token));
+      if (!request) {
+        return res.status(404).json({ message: 'This link is invalid or has expired' });
+      }
+      
+      // Opening the link again just shows the booking
+      if (request.appointmentId) {
+        return res.json(await bookingSummary(request));
+      }
+      if (request.confirmedAt) {
+        return res.status(409).json({ message: 'This booking could not be completed. Please book again.' });
+      }
+      if (request.expiresAt <= new Date()) {
+        return res.status(404).json({ message: 'This link has expired. Please book again.' });
+      }
+      if (!(await storage.claimBookingRequest(request.id))) {
+        return res.status(409).json({ message: 'This booking is already being confirmed' });
+      }
+      
+      const [service, staffMember] = await Promise.all([
+        bookingService(request.doctorId, request.serviceId),
+        storage.getStaff(request.staffId),
+      ]);
+      const day = new Date(request.startTime.getFullYear(), request.startTime.getMonth(), request.startTime.getDate());
+      const slots = service && staffMember?.isActive ? await loadBookableSlots(staffMember, service, day) : [];
+      if (!slots.some(slot => slot.startTime.getTime() === request.startTime.getTime())) {
+        return res.status(409).json({ message: 'Sorry, that time has been taken since you booked. Please choose another.' });
+      }
+      
+      const patient = await bookingPatient(request);
+      const hasConflict = await storage.checkAppointmentConflicts(request.staffId, patient.id, request.startTime, request.endTime);
+      if (hasConflict) {
+        return res.status(409).json({ message: 'You already have an appointment at that time' });
+      }
+      
+      // Patients with a session limit (e.g. insurance-funded) are left to the front desk once it is used up
+      const allowanceCheck = await checkAllowance(patient.id, request.serviceId, request.startTime);
+      if (allowanceCheck && allowanceCheck.remaining <= 0) {
+        return res.status(409).json({ message: 'Please contact the practice to book this appointment' });
+      }
+      
+      const appointment = await storage.createAppointment({
+        patientId: patient.id,
+        staffId: request.staffId,
+        serviceId: request.serviceId,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        status: 'scheduled',
+        notes: 'Booked online',
+      });
+      const completed = await storage.completeBookingRequest(request.id, appointment.id);
+      
+      res.status(201).json(await bookingSummary(completed));
+    } catch (error) {
+      console.error('Confirm booking error:', error);
+      res.status(500).json({ message: 'Failed to confirm booking' });
+    }
+  });
+
+  // Where the practice's booking page lives; clearing the address turns online booking off
+  app.get('/api/practice/booking', authenticateToken, authorize('read', 'practice'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      res.json(bookingSettingsFor(user, appOrigin(req)));
+    } catch (error) {
+      console.error('Get booking settings error:', error);
+      res.status(500).json({ message: 'Failed to fetch booking settings' });
+    }
+  });
+
+  app.put('/api/practice/booking', authenticateToken, authorize('update', 'practice'), async (req: any, res) => {
+    try {
+      const { bookingSlug } = bookingSettingsSchema.parse(req.body);
+      
+      if (bookingSlug) {
+        const existing = await storage.getUserByBookingSlug(bookingSlug);
+        if (existing && existing.id !== req.user.id) {
+          return res.status(409).json({ message: 'That booking address is taken' });
+        }
+      }
+      
+      const user = await storage.updateUser(req.user.id, { bookingSlug });
+      res.json(bookingSettingsFor(user, appOrigin(req)));
+    } catch (error) {
+      console.error('Update booking settings error:', error);
+      res.status(400).json({ message: 'Failed to update booking settings' });
+    }
+  });
+
+  // How close to the start patients can still cancel or move an appointment themselves
+  app.get('/api/cancellation-policy', authenticateToken, authorize('read', 'practice'), async (req: any, res) => {
+    try {
+      res.json(await cancellationPolicyFor(req.user.id));
+    } catch (error) {
+      console.error('Get cancellation policy error:', error);
+      res.status(500).json({ message: 'Failed to fetch cancellation policy' });
+    }
+  });
+
+  app.put('/api/cancellation-policy', authenticateToken, authorize('update', 'practice'), async (req: any, res) => {
+    try {
+      const policyData = cancellationPolicySchema.parse(req.body);
+      await storage.saveCancellationPolicy(req.user.id, policyData);
+      res.json(policyData);
+    } catch (error) {
+      console.error('Update cancellation policy error:', error);
+      res.status(400).json({ message: 'Failed to update cancellation policy' });
+    }
+  });
+
+  // A service's own rules replace the practice's policy for its appointments; null while it follows the practice
+  app.get('/api/services/:id/cancellation-policy', authenticateToken, authorize('read', 'service', 'id'), async (req: any, res) => {
+    try {
+      const policy = await storage.getServiceCancellationPolicy(req.resource.id);
+      if (!policy) return res.json(null);
+      const { noticeHours, maxReschedules, lateCancelFeePercent } = policy;
+      res.json({ noticeHours, maxReschedules, lateCancelFeePercent });
+    } catch (error) {
+      console.error('Get service cancellation policy error:', error);
+      res.status(500).json({ message: 'Failed to fetch cancellation policy' });
+    }
+  });
+
+  app.put('/api/services/:id/cancellation-policy', authenticateToken, authorize('update', 'service', 'id'), async (req: any, res) => {
+    try {
+      const policyData = cancellationPolicySchema.parse(req.body);
+      await storage.saveServiceCancellationPolicy(req.resource.id, policyData);
+      res.json(policyData);
+    } catch (error) {
+      console.error('Update service cancellation policy error:', error);
+      res.status(400).json({ message: 'Failed to update cancellation policy' });
+    }
+  });
+
+  app.delete('/api/services/:id/cancellation-policy', authenticateToken, authorize('update', 'service', 'id'), async (req: any, res) => {
+    try {
+      await storage.deleteServiceCancellationPolicy(req.resource.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete service cancellation policy error:', error);
+      res.status(400).json({ message: 'Failed to remove cancellation policy' });
+    }
+  });
+
+  // Patient portal - patients sign in with a link emailed to the address on their record
+  app.post('/api/portal/login', accountEmailLimiter, async (req, res) => {
+    try {
+      const { email } = portalLoginSchema.parse(req.body);
+      
+      const patientList = await storage.getPatientsByEmail(email);
+      if (patientList.length > 0) {
+        const links = await Promise.all(patientList.map(async patient => {
+          const doctor = patient.userId ? await storage.getUser(patient.userId) : undefined;
+          const token = await createPatientLoginToken(patient.id);
+          return { practiceName: practiceNameFor(doctor), url: portalSignInUrl(appOrigin(req), token) };
+        }));
+        await sendMail(portalSignInEmail(email, links));
+      }
+      
+      // Same answer either way, so the form can't be used to find out who is a patient where
+      res.json({ message: 'If that address is on file, a sign-in link is on its way' });
+    } catch (error) {
+      console.error('Portal login error:', error);
+      res.status(400).json({ message: 'Failed to send sign-in link' });
+    }
+  });
+
+  app.post('/api/portal/session', accountEmailLimiter, async (req, res) => {
+    try {
+      const { token } = portalSessionSchema.parse(req.body);
+      const patient = await consumePatientLoginToken(token);
+      if (!patient) {
+        return res.status(400).json({ message: 'This sign-in link is invalid or has expired' });
+      }
+      
+      res.json({ token: createPatientSession(patient), patient: await portalProfile(patient) });
+    } catch (error) {
+      console.error('Portal session error:', error);
+      res.status(400).json({ message: 'Failed to sign in' });
+    }
+  });
+
+  app.get('/api/portal/me', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      res.json(await portalProfile(req.patient));
+    } catch (error) {
+      console.error('Get portal profile error:', error);
+      res.status(500).json({ message: 'Failed to fetch your details' });
+    }
+  });
+
+  // Email is how the patient signs in, so only the practice changes it
+  app.put('/api/portal/me', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const { phone, address } = portalContactSchema.parse(req.body);
+      const patient = await storage.updatePatient(req.patient.id, {
+        ...(phone !== undefined ? { phone: phone || null } : {}),
+        ...(address !== undefined ? { address: address || null } : {}),
+      });
+      res.json(await portalProfile(patient));
+    } catch (error) {
+      console.error('Update portal profile error:', error);
+      res.status(400).json({ message: 'Failed to update your details' });
+    }
+  });
+
+  app.get('/api/portal/appointments', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      res.json(await portalAppointments(req.patient));
+    } catch (error) {
+      console.error('Get portal appointments error:', error);
+      res.status(500).json({ message: 'Failed to fetch appointments' });
+    }
+  });
+
+  // Other times with the same staff member and service, for moving an appointment
+  app.get('/api/portal/appointments/:id/availability', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(parseInt(req.params.id));
+      if (!appointment || appointment.patientId !== req.patient.id) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      
+      const day = parseLocalDate(req.query.date as string || '');
+      if (!day) {
+        return res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      }
+      
+      const [staffMember, service, policy] = await Promise.all([
+        storage.getStaff(appointment.staffId),
+        storage.getService(appointment.serviceId),
+        portalAppointmentPolicy(req.patient, appointment),
+      ]);
+      const slots = staffMember && service && isWithinBookingWindow(day)
+        ? await loadBookableSlots(staffMember, service, day, appointment.patientId, appointment.id)
+        : [];
+      
+      res.json({
+        date: req.query.date,
+        slots: slots
+          .filter(slot => !insideNoticePeriod(slot.startTime, policy))
+          .map(({ time, startTime }) => ({ time, startTime })),
+      });
+    } catch (error) {
+      console.error('Get portal availability error:', error);
+      res.status(500).json({ message: 'Failed to fetch availability' });
+    }
+  });
+
+  app.post('/api/portal/appointments/:id/cancel', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(parseInt(req.params.id));
+      if (!appointment || appointment.patientId !== req.patient.id) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      
+      const lockedReason = patientChangeLockedReason(appointment, await portalAppointmentPolicy(req.patient, appointment), 'cancel');
+      if (lockedReason) {
+        return res.status(409).json({ message: lockedReason });
+      }
+      
+      // Queued for the practice like a cancellation from a reminder link
+      await applyLinkResponse(appointment, 'cancel');
+      res.json(await portalAppointments(req.patient));
+    } catch (error) {
+      console.error('Portal cancel error:', error);
+      res.status(400).json({ message: 'Failed to cancel appointment' });
+    }
+  });
+
+  app.post('/api/portal/appointments/:id/reschedule', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const { startTime } = portalRescheduleSchema.parse(req.body);
+      const appointment = await storage.getAppointment(parseInt(req.params.id));
+      if (!appointment || appointment.patientId !== req.patient.id) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      
+      const policy = await portalAppointmentPolicy(req.patient, appointment);
+      const lockedReason = patientChangeLockedReason(appointment, policy, 'reschedule');
+      if (lockedReason) {
+        return res.status(409).json({ message: lockedReason });
+      }
+      
+      // Only the times the portal offered: same staff member and service, open, and outside the notice period
+      const [staffMember, service] = await Promise.all([
+        storage.getStaff(appointment.staffId),
+        storage.getService(appointment.serviceId),
+      ]);
+      const day = new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate());
+      const slots = staffMember && service && isWithinBookingWindow(day)
+        ? await loadBookableSlots(staffMember, service, day, appointment.patientId, appointment.id)
+        : [];
+      const slot = slots.find(entry => entry.startTime.getTime() === startTime.getTime());
+      if (!slot || insideNoticePeriod(slot.startTime, policy)) {
+        return res.status(409).json({ message: 'That time is no longer available. Please choose another.' });
+      }
+      
+      const hasConflict = await storage.checkAppointmentConflicts(
+        appointment.staffId,
+        appointment.patientId,
+        slot.startTime,
+        slot.endTime,
+        appointment.id
+      );
+      if (hasConflict) {
+        return res.status(409).json({ message: 'That time is no longer available. Please choose another.' });
+      }
+      
+      // A move into another allowance period needs a session left there, as it would at the front desk
+      const allowanceCheck = await checkAllowanceChange(appointment, { ...appointment, startTime: slot.startTime });
+      if (allowanceCheck && allowanceCheck.remaining <= 0) {
+        return res.status(409).json({
+          code: ALLOWANCE_EXHAUSTED,
+          message: 'You have no sessions left for this service in that period. Please contact the practice to book it.'
+        });
+      }
+      
+      const updated = await storage.updateAppointment(appointment.id, {
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        rescheduleCount: rescheduleCountAfter(appointment, slot.startTime),
+      });
+      await syncAllowanceUsage(appointment, updated);
+      res.json(await portalAppointments(req.patient));
+    } catch (error) {
+      console.error('Portal reschedule error:', error);
+      res.status(400).json({ message: 'Failed to move appointment' });
+    }
+  });
+
+  app.get('/api/portal/invoices', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const records = await storage.getBillingRecords({ patientId: req.patient.id });
+      res.json(await buildStatementLines(records));
+    } catch (error) {
+      console.error('Get portal invoices error:', error);
+      res.status(500).json({ message: 'Failed to fetch invoices' });
+    }
+  });
+
+  app.get('/api/portal/invoices/:id/pdf', portalLimiter, authenticatePatient, async (req: any, res) => {
+    try {
+      const record = await storage.getBillingRecord(parseInt(req.params.id));
+      if (!record || record.patientId !== req.patient.id) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      
+      const patient: Patient = req.patient;
+      const doctor = patient.userId ? await storage.getUser(patient.userId) : undefined;
+      const lines = await buildStatementLines([record]);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="invoice-${record.id}.pdf"`);
+      renderStatementPdf({
+        kind: 'invoice',
+        practiceName: practiceNameFor(doctor),
+        patient,
+        lines,
+        issuedAt: new Date(),
+      }, res);
+    } catch (error) {
+      console.error('Generate portal invoice error:', error);
+      res.status(500).json({ message: 'Failed to generate invoice' });
+    }
+  });
+
+  // Answers patients gave through those links, until someone at the practice marks them seen
+  app.get('/api/appointment-responses', authenticateToken, authorize('read', 'appointmentResponse'), async (req: any, res) => {
+    try {
+      const responses = await storage.getUnacknowledgedResponses({ doctorId: ownerFilter(req.user, 'appointmentResponse') });
+      res.json(responses);
+    } catch (error) {
+      console.error('Get appointment responses error:', error);
+      res.status(500).json({ message: 'Failed to fetch patient responses' });
+    }
+  });
+
+  app.post('/api/appointment-responses/:id/acknowledge', authenticateToken, authorize('update', 'appointmentResponse', 'id'), async (req: any, res) => {
+    try {
+      const response = await storage.acknowledgeAppointmentResponse(req.resource.id, req.user.id);
+      res.json(response);
+    } catch (error) {
+      console.error('Acknowledge appointment response error:', error);
+      res.status(500).json({ message: 'Failed to update response' });
+    }
+  });
+
+  // A reminder that ran out of retries goes back in the queue, e.g. after the patient's email was corrected
+  app.post('/api/reminders/:id/retry', authenticateToken, authorize('update', 'reminder', 'id'), async (req: any, res) => {
+    try {
+      if (req.resource.status !== 'failed') {
+        return res.status(400).json({ message: 'Only failed reminders can be retried' });
+      }
+      
+      // Sent to the contact details on file now, so a corrected address takes effect
+      const appointment = await storage.getAppointment(req.resource.appointmentId);
+      const patient = appointment ? await storage.getPatient(appointment.patientId) : undefined;
+      const recipient = req.resource.channel === 'email' ? patient?.email : patient?.phone;
+      if (!recipient) {
+        return res.status(400).json({
+          message: req.resource.channel === 'email' ? 'Patient has no email address on file' : 'Patient has no phone number on file'
+        });
+      }
+      
+      const reminder = await storage.updateAppointmentReminder(req.resource.id, {
+        recipient,
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+      });
+      res.json(reminder);
+    } catch (error) {
+      console.error('Retry reminder error:', error);
+      res.status(500).json({ message: 'Failed to retry reminder' });
+    }
+  });
+
+  // Billing - doctors see charges for their own patients, admins see everything
+  app.get('/api/billing', authenticateToken, authorize('read', 'billingRecord'), async (req: any, res) => {
+    try {
+      const { patientId, serviceId, paymentStatus, startDate, endDate } = req.query;
+      const period = parseDateRange(startDate, endDate);
+      if (!period) {
+        return res.status(400).json({ message: 'startDate and endDate must be dates (YYYY-MM-DD) or timestamps' });
+      }
+      
+      const records = await storage.getBillingRecords({
+        userId: ownerFilter(req.user, 'billingRecord'),
+        patientId: patientId ? parseInt(patientId as string) : undefined,
+        serviceId: serviceId ? parseInt(serviceId as string) : undefined,
+        paymentStatus: paymentStatus ? paymentStatus as string : undefined,
+        ...period,
+      });
+      
+      res.json(records);
+    } catch (error) {
+      console.error('Get billing records error:', error);
+      res.status(500).json({ message: 'Failed to fetch billing records' });
+    }
+  });
+
+  app.get('/api/billing/balances', authenticateToken, authorize('read', 'billingRecord'), async (req: any, res) => {
+    try {
+      const records = await storage.getBillingRecords({
+        userId: ownerFilter(req.user, 'billingRecord'),
+        paymentStatus: 'pending',
+      });
+      
+      res.json(summarizeBalances(records));
+    } catch (error) {
+      console.error('Get billing balances error:', error);
+      res.status(500).json({ message: 'Failed to fetch outstanding balances' });
+    }
+  });
+
+  app.get('/api/billing/:id', authenticateToken, authorize('read', 'billingRecord', 'id'), async (req: any, res) => {
+    res.json(req.resource);
+  });
+
+  app.get('/api/billing/:id/pdf', authenticateToken, authorize('read', 'billingRecord', 'id'), async (req: any, res) => {
+    try {
+      const record: BillingRecord = req.resource;
+      const patient = await storage.getPatient(record.patientId);
+      if (!patient) {
+        return res.status(404).json({ message: 'Patient not found' });
+      }
+      
+      const doctor = patient.userId ? await storage.getUser(patient.userId) : undefined;
+      const lines = await buildStatementLines([record]);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="invoice-${record.id}.pdf"`);
+      renderStatementPdf({
+        kind: 'invoice',
+        practiceName: practiceNameFor(doctor),
+        patient,
+        lines,
+        issuedAt: new Date(),
+      }, res);
+    } catch (error) {
+      console.error('Generate invoice error:', error);
+      res.status(500).json({ message: 'Failed to generate invoice' });
+    }
+  });
+
+  app.put('/api/billing/:id', authenticateToken, authorize('update', 'billingRecord', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing: BillingRecord = req.resource;
+      
+      const { paymentStatus, paymentDate, notes, insuranceClaim } = billingUpdateSchema.parse(req.body);
+      const recordData: Partial<InsertBillingRecord> = { notes, insuranceClaim };
+      
+      if (paymentStatus && paymentStatus !== existing.paymentStatus) {
+        if (!canTransitionPayment(existing.paymentStatus, paymentStatus)) {
+          return res.status(400).json({ message: `Cannot change payment status from ${existing.paymentStatus} to ${paymentStatus}` });
+        }
+        recordData.paymentStatus = paymentStatus;
+        // Paid charges always carry the date the money arrived; other statuses clear it
+        recordData.paymentDate = paymentStatus === 'paid' ? paymentDate || new Date() : null;
+      } else if (paymentDate && existing.paymentStatus === 'paid') {
+        recordData.paymentDate = paymentDate;
+      }
+      
+      const record = await storage.updateBillingRecord(id, recordData);
+      res.json(record);
+    } catch (error) {
+      console.error('Update billing record error:', error);
+      res.status(400).json({ message: 'Failed to update billing record' });
+    }
+  });
+
+  // Insurance claims - one per billing record, filed against the patient's coverage on the visit date
+  app.get('/api/claims', authenticateToken, authorize('read', 'insuranceClaim'), async (req: any, res) => {
+    try {
+      const { status } = req.query;
+      const claims = await storage.getInsuranceClaims({
+        userId: ownerFilter(req.user, 'insuranceClaim'),
+        status: status ? status as string : undefined,
+      });
+      res.json(claims);
+    } catch (error) {
+      console.error('Get claims error:', error);
+      res.status(500).json({ message: 'Failed to fetch insurance claims' });
+    }
+  });
+
+  app.post('/api/billing/:id/claim', authenticateToken, authorize('create', 'insuranceClaim'), authorize('update', 'billingRecord', 'id'), async (req: any, res) => {
+    try {
+      const record: BillingRecord = req.resource;
+      const patient = await storage.getPatient(record.patientId);
+      if (!patient) {
+        return res.status(404).json({ message: 'Patient not found' });
+      }
+      
+      if (await storage.getInsuranceClaimByBillingRecord(record.id)) {
+        return res.status(409).json({ message: 'A claim already exists for this charge' });
+      }
+      if (record.paymentStatus !== 'pending') {
+        return res.status(400).json({ message: 'Only pending charges can be claimed' });
+      }
+      
+      const insurance = parseInsuranceInfo(patient);
+      if (!insurance) {
+        return res.status(400).json({ message: 'Patient has no insurance on file' });
+      }
+      const appointment = await storage.getAppointment(record.appointmentId);
+      const serviceDate = new Date(appointment ? appointment.startTime : record.billingDate);
+      if (!isCoveredOn(insurance, serviceDate)) {
+        return res.status(400).json({ message: 'Patient coverage does not include the date of service' });
+      }
+      
+      const claim = await storage.createInsuranceClaim(draftClaimFor(record, insurance));
+      await storage.updateBillingRecord(record.id, { insuranceClaim: claim.claimNumber });
+      res.status(201).json(claim);
+    } catch (error) {
+      console.error('Create claim error:', error);
+      res.status(400).json({ message: 'Failed to create insurance claim' });
+    }
+  });
+
+  app.post('/api/claims/export', authenticateToken, authorize('update', 'insuranceClaim'), async (req: any, res) => {
+    try {
+      const { billingRecordIds, markSubmitted = true } = claimExportSchema.parse(req.body);
+      
+      const records = await storage.getBillingRecords({
+        userId: ownerFilter(req.user, 'insuranceClaim', 'update'),
+      });
+      const selected = records.filter(record => billingRecordIds.includes(record.id));
+      
+      const inputs = await loadClaimExportInputs(selected);
+      const batch = buildClaimBatch(inputs);
+      
+      // Ids the caller asked for but cannot see are reported rather than silently dropped
+      for (const id of billingRecordIds) {
+        if (!selected.some(record => record.id === id)) {
+          batch.skipped.push({ billingRecordId: id, reasons: ['Billing record not found'] });
+        }
+      }
+      
+      if (markSubmitted) {
+        for (const input of inputs) {
+          const claim = input.claim;
+          if (!claim || !batch.exported.includes(input.record.id) || !canTransitionClaim(claim.status, 'submitted')) continue;
+          
+          const updated = await storage.updateInsuranceClaim(claim.id, claimTransitionFields('submitted'));
+          const billingUpdate = billingUpdateForClaim(input.record, updated);
+          if (billingUpdate) {
+            await storage.updateBillingRecord(input.record.id, billingUpdate);
+          }
+        }
+      }
+      
+      res.json(batch);
+    } catch (error) {
+      console.error('Export claims error:', error);
+      res.status(400).json({ message: 'Failed to export claims' });
+    }
+  });
+
+  app.put('/api/claims/:id', authenticateToken, authorize('update', 'insuranceClaim', 'id'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing: InsuranceClaim = req.resource;
+      const record = await storage.getBillingRecord(existing.billingRecordId);
+      if (!record) {
+        return res.status(404).json({ message: 'Billing record not found' });
+      }
+      
+      const { status, denialReason, paidAmount, diagnosisCodes } = claimUpdateSchema.parse(req.body);
+      const claimData: Partial<InsertInsuranceClaim> = {};
+      
+      if (diagnosisCodes) {
+        if (!isClaimEditable(existing.status)) {
+          return res.status(400).json({ message: `Diagnosis codes cannot be changed on a ${existing.status} claim` });
+        }
+        claimData.diagnosisCodes = diagnosisCodes.map(code => code.toUpperCase());
+      }
+      
+      if (status && status !== existing.status) {
+        if (!canTransitionClaim(existing.status, status)) {
+          return res.status(400).json({ message: `Cannot change claim status from ${existing.status} to ${status}` });
+        }
+        Object.assign(claimData, claimTransitionFields(status));
+        if (status === 'denied') claimData.denialReason = denialReason;
+        if (status === 'paid') claimData.paidAmount = paidAmount || existing.billedAmount;
+      }
+      
+      const claim = await storage.updateInsuranceClaim(id, claimData);
       
-      // Associate the patient with the logged-in doctor
-      patientData.userId = req.user.id;
+      const billingUpdate = billingUpdateForClaim(record, claim);
+      if (billingUpdate) {
+        await storage.updateBillingRecord(record.id, billingUpdate);
+      }
       
-      const patient = await storage.createPatient(patientData);
-      res.status(201).json(patient);
+      res.json(claim);
     } catch (error) {
-      console.error('Create patient error:', error);
-      res.status(400).json({ message: 'Failed to create patient' });
+      console.error('Update claim error:', error);
+      res.status(400).json({ message: 'Failed to update insurance claim' });
     }
   });
 
-  app.put('/api/patients/:id', authenticateToken, async (req: any, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      
-      // If user is not an admin, ensure they can only update their own patients
-      if (req.user.role !== 'admin') {
-        const existingPatient = await storage.getPatient(id);
-        if (!existingPatient || existingPatient.userId !== req.user.id) {
-          return res.status(403).json({ message: 'You can only update your own patients' });
-        }
+  // Remittance advice (835) import - matched payments settle charges, the rest waits in the reconciliation queue
+  app.post(
+    '/api/remittances/import',
+    authenticateToken,
+    authorize('create', 'remittanceClaim'),
+    express.text({ type: ['text/plain', 'application/edi-x12', 'application/octet-stream'], limit: '5mb' }),
+    async (req: any, res) => {
+      let remittances: ParsedRemittance[];
+      try {
+        remittances = parse835(typeof req.body === 'string' ? req.body : '');
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid 835 file' });
       }
       
-      const patientData = req.body;
-      const patient = await storage.updatePatient(id, patientData);
-      res.json(patient);
+      try {
+        const fileName = req.query.fileName ? String(req.query.fileName) : null;
+        let matched = 0;
+        const unmatched: { claimNumber: string; reason: string }[] = [];
+        
+        // All or nothing: a line that fails part-way must not leave the file half applied
+        await storage.transaction(async () => {
+          for (const remittance of remittances) {
+            const advice = await storage.createRemittanceAdvice({
+              userId: req.user.id,
+              fileName,
+              payerName: remittance.payerName,
+              traceNumber: remittance.traceNumber,
+              paymentAmount: remittance.paymentAmount,
+              paymentDate: remittance.paymentDate,
+            });
+            
+            for (const parsed of remittance.claims) {
+              let claim = await storage.getInsuranceClaimByNumber(parsed.claimNumber);
+              const record = claim ? await storage.getBillingRecord(claim.billingRecordId) : undefined;
+              // Claims of other practices are treated as unknown rather than revealed
+              if (claim && !(await can(req.user, 'read', 'insuranceClaim', claim))) claim = undefined;
+              
+              const reason = unmatchedReason(parsed, claim, record);
+              const matchedRecord = reason ? undefined : record;
+              const remittanceClaim = await storage.createRemittanceClaim({
+                remittanceId: advice.id,
+                claimNumber: parsed.claimNumber,
+                payerClaimNumber: parsed.payerClaimNumber,
+                statusCode: parsed.statusCode,
+                chargedAmount: parsed.chargedAmount,
+                paidAmount: parsed.paidAmount,
+                patientResponsibility: parsed.patientResponsibility,
+                adjustments: parsed.adjustments,
+                billingRecordId: matchedRecord?.id ?? null,
+                matchStatus: matchedRecord ? 'matched' : 'unmatched',
+                unmatchedReason: reason,
+              });
+              
+              if (matchedRecord) {
+                await applyRemittanceClaim(remittanceClaim, matchedRecord, remittance.paymentDate);
+                matched++;
+              } else if (reason) {
+                unmatched.push({ claimNumber: parsed.claimNumber, reason });
+              }
+            }
+          }
+        });
+        
+        res.status(201).json({ remittances: remittances.length, matched, unmatched });
+      } catch (error) {
+        console.error('Import remittance error:', error);
+        res.status(500).json({ message: 'Failed to import remittance' });
+      }
+    }
+  );
+
+  app.get('/api/remittances/queue', authenticateToken, authorize('read', 'remittanceClaim'), async (req: any, res) => {
+    try {
+      const queue = await storage.getRemittanceClaims({
+        userId: ownerFilter(req.user, 'remittanceClaim'),
+        matchStatus: 'unmatched',
+      });
+      res.json(queue);
     } catch (error) {
-      console.error('Update patient error:', error);
-      res.status(400).json({ message: 'Failed to update patient' });
+      console.error('Get reconciliation queue error:', error);
+      res.status(500).json({ message: 'Failed to fetch reconciliation queue' });
     }
   });
 
-  app.delete('/api/patients/:id', authenticateToken, async (req: any, res) => {
+  app.put('/api/remittances/claims/:id', authenticateToken, authorize('update', 'remittanceClaim', 'id'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
+      const remittanceClaim: RemittanceClaim = req.resource;
+      const advice = await storage.getRemittanceAdvice(remittanceClaim.remittanceId);
+      if (remittanceClaim.matchStatus !== 'unmatched') {
+        return res.status(400).json({ message: 'This remittance line is already reconciled' });
+      }
       
-      // If user is not an admin, ensure they can only delete their own patients
-      if (req.user.role !== 'admin') {
-        const existingPatient = await storage.getPatient(id);
-        if (!existingPatient || existingPatient.userId !== req.user.id) {
-          return res.status(403).json({ message: 'You can only delete your own patients' });
-        }
+      const { billingRecordId, dismiss } = remittanceResolutionSchema.parse(req.body);
+      const resolution = { resolvedBy: req.user.id, resolvedAt: new Date() };
+      
+      if (dismiss) {
+        const updated = await storage.updateRemittanceClaim(id, { ...resolution, matchStatus: 'dismissed' });
+        return res.json(updated);
       }
       
-      await storage.deletePatient(id);
-      res.status(204).send();
-    } catch (error) {
-      console.error('Delete patient error:', error);
-      res.status(400).json({ message: 'Failed to delete patient' });
-    }
-  });
-
-  // Service routes
-  app.get('/api/services', authenticateToken, async (req: any, res) => {
-    try {
-      let services;
+      const record = await storage.getBillingRecord(billingRecordId!);
+      if (!record) {
+        return res.status(404).json({ message: 'Billing record not found' });
+      }
+      if (!(await can(req.user, 'update', 'billingRecord', record))) {
+        return res.status(403).json({ message: 'You can only reconcile charges of your own patients' });
+      }
       
-      // If user is a doctor, only return their services
-      // If user is admin, return all services
-      if (req.user.role === 'doctor') {
-        console.log('Fetching services for doctor with ID:', req.user.id);
-        services = await storage.getServicesByUserId(req.user.id);
-        console.log(`Found ${services.length} services for doctor ID ${req.user.id}`);
-      } else {
-        services = await storage.getAllServices();
+      const claim = await storage.getInsuranceClaimByBillingRecord(record.id);
+      const blocker = claim ? claimStatusBlocker(claim, remittanceClaim.statusCode) : null;
+      if (blocker) {
+        return res.status(409).json({ message: blocker });
       }
       
-      res.json(services);
+      const updated = await storage.transaction(async () => {
+        await applyRemittanceClaim(remittanceClaim, record, advice?.paymentDate || null);
+        return await storage.updateRemittanceClaim(id, {
+          ...resolution,
+          billingRecordId: record.id,
+          matchStatus: 'matched',
+        });
+      });
+      res.json(updated);
     } catch (error) {
-      console.error('Get services error:', error);
-      res.status(500).json({ message: 'Failed to fetch services' });
+      console.error('Reconcile remittance error:', error);
+      res.status(400).json({ message: 'Failed to reconcile remittance' });
     }
   });
 
-  app.post('/api/services', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
+  // Receptionists - front-desk accounts tied to a doctor's practice
+  app.get('/api/receptionists', authenticateToken, authorize('read', 'receptionist'), async (req: any, res) => {
     try {
-      // Add the current user's ID to the service data
-      const serviceData = insertServiceSchema.parse({
-        ...req.body,
-        userId: req.user.id // Add the current user's ID
-      });
-      
-      console.log('Creating service with user ID:', req.user.id);
-      const service = await storage.createService(serviceData);
-      res.status(201).json(service);
+      const receptionists = await storage.getReceptionists(ownerFilter(req.user, 'receptionist'));
+      res.json(receptionists.map(({ password, ...receptionist }) => receptionist));
     } catch (error) {
-      console.error('Create service error:', error);
-      res.status(400).json({ message: 'Failed to create service' });
+      console.error('Get receptionists error:', error);
+      res.status(500).json({ message: 'Failed to fetch receptionists' });
     }
   });
 
-  app.put('/api/services/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req, res) => {
+  app.post('/api/receptionists', authenticateToken, authorize('create', 'receptionist'), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const serviceData = req.body;
-      const service = await storage.updateService(id, serviceData);
-      res.json(service);
+      const { practiceOwnerId, ...invite } = receptionistInviteSchema.parse(req.body);
+      
+      // Doctors invite to their own practice; admins must say which practice
+      const ownerId = scopeFor(req.user, 'create', 'receptionist') === 'own' ? practiceOf(req.user) : practiceOwnerId;
+      const owner = ownerId ? await storage.getUser(ownerId) : undefined;
+      if (!owner || owner.role !== 'doctor') {
+        return res.status(400).json({ message: 'Receptionists must belong to a doctor\'s practice' });
+      }
+      if (await storage.getUserByEmail(invite.email)) {
+        return res.status(409).json({ message: 'A user with this email already exists' });
+      }
+      
+      const { password, ...receptionist } = await storage.createUser({
+        ...invite,
+        username: invite.email,
+        role: 'receptionist',
+        practiceOwnerId: owner.id,
+      });
+      sendVerificationEmail({ password, ...receptionist }, appOrigin(req)).catch(error => console.error('Send verification email error:', error));
+      res.status(201).json(receptionist);
     } catch (error) {
-      console.error('Update service error:', error);
-      res.status(400).json({ message: 'Failed to update service' });
+      console.error('Create receptionist error:', error);
+      res.status(400).json({ message: 'Failed to create receptionist' });
     }
   });
 
-  app.delete('/api/services/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req, res) => {
+  // Deactivated receptionists can no longer sign in
+  app.delete('/api/receptionists/:id', authenticateToken, authorize('delete', 'receptionist', 'id'), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.deleteService(id);
+      await storage.updateUser(parseInt(req.params.id), { isActive: false });
       res.status(204).send();
     } catch (error) {
-      console.error('Delete service error:', error);
-      res.status(400).json({ message: 'Failed to delete service' });
+      console.error('Delete receptionist error:', error);
+      res.status(400).json({ message: 'Failed to delete receptionist' });
     }
   });
 
-  // Appointment routes
-  app.get('/api/appointments', authenticateToken, async (req, res) => {
+  // Staff accounts - a doctor invites a staff member to sign in to their own schedule
+  app.post('/api/staff/:id/invite', authenticateToken, authorize('update', 'staff', 'id'), async (req: any, res) => {
     try {
-      const { startDate, endDate, staffId, patientId } = req.query;
+      const staffMember: Staff = req.resource;
+      if (staffMember.isActive === false) {
+        return res.status(400).json({ message: 'Inactive staff members cannot be invited' });
+      }
+      if (await storage.getUserByStaffId(staffMember.id)) {
+        return res.status(409).json({ message: 'This staff member already has an account' });
+      }
+      if (await storage.getUserByEmail(staffMember.email)) {
+        return res.status(409).json({ message: 'A user with this email already exists' });
+      }
       
-      let appointments;
-      if (startDate && endDate) {
-        appointments = await storage.getAppointmentsByDateRange(new Date(startDate as string), new Date(endDate as string));
-      } else if (staffId) {
-        appointments = await storage.getAppointmentsByStaff(parseInt(staffId as string));
-      } else if (patientId) {
-        appointments = await storage.getAppointmentsByPatient(parseInt(patientId as string));
-      } else {
-        appointments = await storage.getAllAppointments();
+      const { token, tokenHash, expiresAt } = createInviteToken();
+      await storage.createStaffInvite({ staffId: staffMember.id, tokenHash, expiresAt });
+      const url = inviteUrl(appOrigin(req), token);
+      
+      // The link is returned as well, so the doctor can pass it on if the email doesn't arrive
+      let emailed = true;
+      try {
+        const doctor = staffMember.userId ? await storage.getUser(staffMember.userId) : undefined;
+        await sendMail(staffInviteEmail(staffMember.email, practiceNameFor(doctor), url));
+      } catch (error) {
+        console.error('Send staff invite error:', error);
+        emailed = false;
       }
       
-      res.json(appointments);
+      res.status(201).json({ email: staffMember.email, inviteUrl: url, expiresAt, emailed });
     } catch (error) {
-      console.error('Get appointments error:', error);
-      res.status(500).json({ message: 'Failed to fetch appointments' });
+      console.error('Create staff invite error:', error);
+      res.status(400).json({ message: 'Failed to create invite' });
     }
   });
 
-  app.post('/api/appointments', authenticateToken, async (req, res) => {
+  // Public: who an invite link is for, so the accept page can greet them
+  app.get('/api/staff-invites/:token', async (req, res) => {
     try {
-      const appointmentData = insertAppointmentSchema.parse(req.body);
-      
-      // Check for conflicts
-      const hasConflict = await storage.checkAppointmentConflicts(
-        appointmentData.staffId,
-        appointmentData.patientId,
-        appointmentData.startTime,
-        appointmentData.endTime
-      );
-      
-      if (hasConflict) {
-        return res.status(409).json({ message: 'Appointment conflicts with existing booking' });
+      const found = await findUsableInvite(req.params.token);
+      if (!found) {
+        return res.status(404).json({ message: 'This invite is invalid or has expired' });
       }
       
-      const appointment = await storage.createAppointment(appointmentData);
-      res.status(201).json(appointment);
+      const { firstName, lastName, email } = found.staffMember;
+      res.json({ firstName, lastName, email });
     } catch (error) {
-      console.error('Create appointment error:', error);
-      res.status(400).json({ message: 'Failed to create appointment' });
+      console.error('Get staff invite error:', error);
+      res.status(500).json({ message: 'Failed to fetch invite' });
     }
   });
 
-  app.put('/api/appointments/:id', authenticateToken, async (req, res) => {
+  // Public: accepting creates the staff login and signs it in
+  app.post('/api/staff-invites/:token/accept', async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const appointmentData = req.body;
+      const { password } = staffInviteAcceptSchema.parse(req.body);
+      const found = await findUsableInvite(req.params.token);
+      if (!found) {
+        return res.status(404).json({ message: 'This invite is invalid or has expired' });
+      }
       
-      // Check for conflicts if time is being changed
-      if (appointmentData.startTime || appointmentData.endTime || appointmentData.staffId || appointmentData.patientId) {
-        const existing = await storage.getAppointment(id);
-        if (existing) {
-          const hasConflict = await storage.checkAppointmentConflicts(
-            appointmentData.staffId || existing.staffId,
-            appointmentData.patientId || existing.patientId,
-            appointmentData.startTime || existing.startTime,
-            appointmentData.endTime || existing.endTime,
-            id
-          );
-          
-          if (hasConflict) {
-            return res.status(409).json({ message: 'Appointment conflicts with existing booking' });
-          }
-        }
+      const { invite, staffMember } = found;
+      if (await storage.getUserByStaffId(staffMember.id) || await storage.getUserByEmail(staffMember.email)) {
+        return res.status(409).json({ message: 'An account already exists for this staff member' });
       }
       
-      const appointment = await storage.updateAppointment(id, appointmentData);
-      res.json(appointment);
+      const user = await storage.createUser({
+        username: staffMember.email,
+        email: staffMember.email,
+        password,
+        firstName: staffMember.firstName,
+        lastName: staffMember.lastName,
+        role: 'staff',
+        practiceOwnerId: staffMember.userId,
+        staffId: staffMember.id,
+        // The invite link reached this address
+        emailVerifiedAt: new Date(),
+      });
+      await storage.acceptStaffInvite(invite.id);
+      
+      res.status(201).json(await issueSession(user, req.get('user-agent')));
     } catch (error) {
-      console.error('Update appointment error:', error);
-      res.status(400).json({ message: 'Failed to update appointment' });
+      console.error('Accept staff invite error:', error);
+      res.status(400).json({ message: 'Failed to accept invite' });
     }
   });
 
-  app.delete('/api/appointments/:id', authenticateToken, async (req, res) => {
+  // My schedule - a staff member's own appointments with the patient and service names filled in
+  app.get('/api/schedule', authenticateToken, authorize('read', 'appointment'), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.deleteAppointment(id);
-      res.status(204).send();
+      if (!req.user.staffId) {
+        return res.status(404).json({ message: 'No staff profile is linked to this account' });
+      }
+      
+      const period = parseDateRange(req.query.startDate, req.query.endDate);
+      if (!period) {
+        return res.status(400).json({ message: 'startDate and endDate must be dates (YYYY-MM-DD) or timestamps' });
+      }
+      const appointments = await storage.getAppointments({ staffId: req.user.staffId, ...period });
+      
+      const patientIds = Array.from(new Set(appointments.map(appointment => appointment.patientId)));
+      const serviceIds = Array.from(new Set(appointments.map(appointment => appointment.serviceId)));
+      const [patientList, serviceList] = await Promise.all([
+        Promise.all(patientIds.map(id => storage.getPatient(id))),
+        Promise.all(serviceIds.map(id => storage.getService(id))),
+      ]);
+      const patientsById = new Map(patientList.filter((patient): patient is Patient => !!patient).map(patient => [patient.id, patient]));
+      const servicesById = new Map(serviceList.filter((service): service is Service => !!service).map(service => [service.id, service]));
+      
+      res.json(appointments.map(appointment => {
+        const patient = patientsById.get(appointment.patientId);
+        const service = servicesById.get(appointment.serviceId);
+        return {
+          ...appointment,
+          patient: patient && { id: patient.id, firstName: patient.firstName, lastName: patient.lastName, phone: patient.phone },
+          service: service && { id: service.id, name: service.name, duration: service.duration },
+        };
+      }));
     } catch (error) {
-      console.error('Delete appointment error:', error);
-      res.status(400).json({ message: 'Failed to delete appointment' });
+      console.error('Get schedule error:', error);
+      res.status(500).json({ message: 'Failed to fetch schedule' });
     }
   });
 
-  // Service categories
-  app.get('/api/service-categories', authenticateToken, async (req, res) => {
+  // Time off - staff request it for themselves and their doctor approves or rejects it
+  app.get('/api/time-off', authenticateToken, authorize('read', 'timeOff'), async (req: any, res) => {
     try {
-      const categories = await storage.getAllServiceCategories();
-      res.json(categories);
+      const requests = await storage.getTimeOffRequests({
+        userId: ownerFilter(req.user, 'timeOff'),
+        staffId: assigneeFilter(req.user, 'timeOff'),
+        status: req.query.status as string | undefined,
+      });
+      
+      res.json(requests);
     } catch (error) {
-      console.error('Get service categories error:', error);
-      res.status(500).json({ message: 'Failed to fetch service categories' });
+      console.error('Get time off error:', error);
+      res.status(500).json({ message: 'Failed to fetch time off' });
     }
   });
 
-  // Reports
-  app.get('/api/reports/dashboard', authenticateToken, async (req, res) => {
+  app.post('/api/time-off', authenticateToken, authorize('create', 'timeOff'), async (req: any, res) => {
     try {
-      const today = new Date();
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59);
+      const { staffId, ...request } = timeOffRequestSchema.parse(req.body);
       
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay());
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
+      // Staff can only ask; time off a doctor enters for their staff is approved as entered
+      if (scopeFor(req.user, 'create', 'timeOff') === 'self') {
+        const exclusion = await storage.createStaffExclusion({ ...request, staffId: req.user.staffId, status: 'pending' });
+        return res.status(201).json(exclusion);
+      }
       
-      const todayAppointments = await storage.getAppointmentsByDateRange(startOfDay, endOfDay);
-      const weekAppointments = await storage.getAppointmentsByDateRange(startOfWeek, endOfWeek);
-      const allPatients = await storage.getAllPatients();
+      const staffMember = staffId ? await storage.getStaff(staffId) : undefined;
+      if (!staffMember || !(await can(req.user, 'update', 'staff', staffMember))) {
+        return res.status(403).json({ message: 'You can only add time off for your own staff' });
+      }
       
-      // Calculate revenue (simplified)
-      const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-      const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      const billingRecords = await storage.getBillingRecords({ startDate: startOfMonth, endDate: endOfMonth });
-      const monthlyRevenue = billingRecords.reduce((sum, record) => sum + parseFloat(record.amount), 0);
+      const exclusion = await storage.createStaffExclusion({ ...request, staffId: staffMember.id, status: 'approved' });
+      res.status(201).json(exclusion);
+    } catch (error) {
+      console.error('Create time off error:', error);
+      res.status(400).json({ message: 'Failed to create time off request' });
+    }
+  });
+
+  app.put('/api/time-off/:id', authenticateToken, authorize('update', 'timeOff', 'id'), async (req: any, res) => {
+    try {
+      const { status } = timeOffReviewSchema.parse(req.body);
       
-      res.json({
-        todayAppointments: todayAppointments.length,
-        weekAppointments: weekAppointments.length,
-        activePatients: allPatients.length,
-        monthlyRevenue: monthlyRevenue.toFixed(2)
-      });
+      const exclusion = await storage.updateStaffExclusion(parseInt(req.params.id), { status });
+      res.json(exclusion);
     } catch (error) {
-      console.error('Get dashboard stats error:', error);
-      res.status(500).json({ message: 'Failed to fetch dashboard statistics' });
+      console.error('Update time off error:', error);
+      res.status(400).json({ message: 'Failed to update time off request' });
     }
   });
 
-  // Staff availability
-  app.get('/api/staff/:id/availability', authenticateToken, async (req, res) => {
+  // Staff availability - bookable start times for a service on a given day
+  app.get('/api/staff/:id/availability', authenticateToken, authorize('read', 'staff', 'id'), async (req: any, res) => {
     try {
       const staffId = parseInt(req.params.id);
-      const { date } = req.query;
+      const { date, serviceId, patientId } = req.query;
       
-      const staff = await storage.getStaff(staffId);
-      if (!staff) {
-        return res.status(404).json({ message: 'Staff member not found' });
+      if (!date || !serviceId) {
+        return res.status(400).json({ message: 'date and serviceId are required' });
       }
       
-      // Get exclusions for the date
-      const exclusions = await storage.getStaffExclusions(staffId);
+      const day = parseLocalDate(date as string);
+      if (!day) {
+        return res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      }
       
-      // Get existing appointments for the date
-      const startDate = new Date(date as string);
-      const endDate = new Date(startDate);
-      endDate.setDate(startDate.getDate() + 1);
+      const staff: Staff = req.resource;
+      const service = await storage.getService(parseInt(serviceId as string));
+      if (!service) {
+        return res.status(404).json({ message: 'Service not found' });
+      }
       
-      const existingAppointments = await storage.getAppointmentsByDateRange(startDate, endDate);
-      const staffAppointments = existingAppointments.filter(apt => apt.staffId === staffId);
+      const slots = await loadBookableSlots(staff, service, day, patientId ? parseInt(patientId as string) : undefined);
       
       res.json({
-        availability: staff.availability,
-        exclusions,
-        existingAppointments: staffAppointments
+        date,
+        staffId,
+        serviceId: service.id,
+        duration: service.duration,
+        slots
       });
     } catch (error) {
       console.error('Get staff availability error:', error);
@@ -504,8 +2526,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit trail - every change to clinical and billing data; admins search all practices, doctors their own
+  app.get('/api/audit-logs', authenticateToken, authorize('read', 'auditLog'), async (req: any, res) => {
+    try {
+      const { entityType, entityId, actorId, action, startDate, endDate, search, limit, offset } = req.query;
+      const period = parseDateRange(startDate, endDate);
+      if (!period) {
+        return res.status(400).json({ message: 'startDate and endDate must be dates (YYYY-MM-DD) or timestamps' });
+      }
+      
+      const entries = await storage.getAuditLogs({
+        tenantId: ownerFilter(req.user, 'auditLog'),
+        entityType: AUDIT_ENTITIES.includes(entityType as AuditEntity) ? entityType as string : undefined,
+        entityId: entityId ? parseInt(entityId as string) : undefined,
+        actorId: actorId ? parseInt(actorId as string) : undefined,
+        action: action ? action as string : undefined,
+        ...period,
+        search: search ? search as string : undefined,
+        limit: Math.min(parseInt(limit as string) || 50, 200),
+        offset: parseInt(offset as string) || 0,
+      });
+      
+      res.json(entries);
+    } catch (error) {
+      console.error('Get audit logs error:', error);
+      res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+  });
+
+  // Change history of one record, for anyone who can see the record; fields their role can't see stay hidden
+  const historyRoutes: [string, AuditEntity & Resource][] = [
+    ['patients', 'patient'],
+    ['appointments', 'appointment'],
+    ['staff', 'staff'],
+    ['services', 'service'],
+    ['billing', 'billingRecord'],
+    ['claims', 'insuranceClaim'],
+  ];
+  for (const [path, entityType] of historyRoutes) {
+    app.get(`/api/${path}/:id/history`, authenticateToken, authorize('read', entityType, 'id'), async (req: any, res) => {
+      try {
+        const entries = await storage.getAuditLogs({ entityType, entityId: req.resource.id, limit: 200 });
+        res.json(entries.map(entry => ({ ...entry, changes: redact(req.user, entityType, entry.changes) })));
+      } catch (error) {
+        console.error('Get record history error:', error);
+        res.status(500).json({ message: 'Failed to fetch history' });
+      }
+    });
+  }
+
   // Subscription routes
-  app.post('/api/subscription/create', authenticateToken, requireRole(['doctor']), async (req: any, res) => {
+  app.post('/api/subscription/create', authenticateToken, authorize('create', 'subscription'), async (req: any, res) => {
     try {
       const { planId } = req.body;
       const userId = req.user.id;
@@ -533,7 +2604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/subscription/status', authenticateToken, requireRole(['doctor']), async (req: any, res) => {
+  app.get('/api/subscription/status', authenticateToken, authorize('read', 'subscription'), async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.id);
       if (!user) {
@@ -553,136 +2624,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Service routes
-  app.get('/api/services', authenticateToken, async (req: any, res) => {
-    try {
-      let servicesList;
-      
-      if (req.user.role === 'admin') {
-        // Admin can see all services
-        servicesList = await storage.getAllServices();
-      } else if (req.user.role === 'doctor') {
-        // Doctor can only see their own services
-        servicesList = await storage.getServicesByUserId(req.user.id);
-      } else {
-        return res.status(403).json({ message: 'Insufficient permissions' });
-      }
-      
-      res.json(servicesList);
-    } catch (error) {
-      console.error('Get services error:', error);
-      res.status(500).json({ message: 'Failed to fetch services' });
-    }
-  });
-
-  app.get('/api/services/:id', authenticateToken, async (req: any, res) => {
-    try {
-      const serviceId = parseInt(req.params.id);
-      const service = await storage.getService(serviceId);
-      
-      if (!service) {
-        return res.status(404).json({ message: 'Service not found' });
-      }
-      
-      // Check if user has permission to access this service
-      if (req.user.role !== 'admin' && service.userId !== req.user.id) {
-        return res.status(403).json({ message: 'Insufficient permissions' });
-      }
-      
-      res.json(service);
-    } catch (error) {
-      console.error('Get service error:', error);
-      res.status(500).json({ message: 'Failed to fetch service' });
-    }
-  });
-
-  app.post('/api/services', authenticateToken, async (req: any, res) => {
-    try {
-      // Check if user is admin or doctor
-      // if (req.user.role !== 'admin' && req.user.role !== 'doctor') {
-      //   return res.status(403).json({ message: 'Insufficient permissions' });
-      // }
-      console.log('User ID from token:', req.user.id);
-      console.log('User role:', req.user.role);
-      // Add the user ID to the service data
-      const serviceData = {
-        ...req.body,
-        userId: req.user.id
-      };
-      
-      console.log('Service data before validation:', serviceData);
-      
-      const validatedData = insertServiceSchema.parse(serviceData);
-      
-      console.log('Validated service data:', validatedData);
-      
-      const service = await storage.createService(validatedData);
-      console.log('Created service:', service);
-      
-      res.status(201).json(service);
-    } catch (error) {
-      console.error('Create service error:', error);
-      res.status(400).json({ message: 'Failed to create service' });
-    }
-  });
-
-  app.put('/api/services/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
-    try {
-      const serviceId = parseInt(req.params.id);
-      const service = await storage.getService(serviceId);
-      
-      if (!service) {
-        return res.status(404).json({ message: 'Service not found' });
-      }
-      
-      // Check if user has permission to update this service
-      if (req.user.role !== 'admin' && service.userId !== req.user.id) {
-        return res.status(403).json({ message: 'Insufficient permissions' });
-      }
-      
-      const serviceData = req.body;
-      const updatedService = await storage.updateService(serviceId, serviceData);
-      res.json(updatedService);
-    } catch (error) {
-      console.error('Update service error:', error);
-      res.status(400).json({ message: 'Failed to update service' });
-    }
-  });
-
-  app.delete('/api/services/:id', authenticateToken, requireRole(['admin', 'doctor']), async (req: any, res) => {
-    try {
-      const serviceId = parseInt(req.params.id);
-      const service = await storage.getService(serviceId);
-      
-      if (!service) {
-        return res.status(404).json({ message: 'Service not found' });
-      }
-      
-      // Check if user has permission to delete this service
-      if (req.user.role !== 'admin' && service.userId !== req.user.id) {
-        return res.status(403).json({ message: 'Insufficient permissions' });
-      }
-      
-      await storage.deleteService(serviceId);
-      res.status(204).send();
-    } catch (error) {
-      console.error('Delete service error:', error);
-      res.status(400).json({ message: 'Failed to delete service' });
-    }
-  });
-
-  // Service categories routes
-  app.get('/api/service-categories', authenticateToken, async (req, res) => {
-    try {
-      const categories = await storage.getAllServiceCategories();
-      res.json(categories);
-    } catch (error) {
-      console.error('Get service categories error:', error);
-      res.status(500).json({ message: 'Failed to fetch service categories' });
-    }
-  });
-
-  app.post('/api/service-categories', authenticateToken, requireRole(['admin', 'doctor']), async (req, res) => {
+  app.post('/api/service-categories', authenticateToken, authorize('create', 'serviceCategory'), async (req, res) => {
     try {
       const categoryData = req.body;
       const category = await storage.createServiceCategory(categoryData);
@@ -694,23 +2636,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  app.get('/api/admin/doctors', authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.get('/api/admin/doctors', authenticateToken, authorize('read', 'doctorAccount'), async (req, res) => {
     try {
       const doctors = await storage.getAllDoctors();
-      res.json(doctors);
+      res.json(doctors.map(accountSummary));
     } catch (error) {
       console.error('Get doctors error:', error);
       res.status(500).json({ message: 'Failed to fetch doctors' });
     }
   });
 
-  app.post('/api/admin/doctors', authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.post('/api/admin/doctors', authenticateToken, authorize('create', 'doctorAccount'), async (req, res) => {
     try {
       const doctorData = {
         ...req.body,
         role: 'doctor'
       };
       const doctor = await storage.createUser(doctorData);
+      sendVerificationEmail(doctor, appOrigin(req)).catch(error => console.error('Send verification email error:', error));
       res.status(201).json(doctor);
     } catch (error) {
       console.error('Create doctor error:', error);
@@ -718,12 +2661,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/admin/doctors/:id/subscription', authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.patch('/api/admin/doctors/:id/subscription', authenticateToken, authorize('update', 'doctorAccount'), async (req, res) => {
     try {
       const doctorId = parseInt(req.params.id);
-      const { status } = req.body;
+      const { status } = subscriptionUpdateSchema.parse(req.body);
+      const existing = await storage.getUser(doctorId);
+      if (!existing || existing.role !== 'doctor') {
+        return res.status(404).json({ message: 'Doctor not found' });
+      }
       
-      const updateData: any = { subscriptionStatus: status };
+      const updateData: Partial<InsertUser> = { subscriptionStatus: status };
       
       if (status === 'active') {
         updateData.subscriptionStartDate = new Date();
@@ -734,14 +2681,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const doctor = await storage.updateUser(doctorId, updateData);
-      res.json(doctor);
+      res.json(accountSummary(doctor));
     } catch (error) {
       console.error('Update doctor subscription error:', error);
       res.status(400).json({ message: 'Failed to update subscription' });
     }
   });
 
-  app.get('/api/admin/stats', authenticateToken, requireRole(['admin']), async (req, res) => {
+  // For a doctor who lost their phone and backup codes; they enroll again at their next sign-in if it is required
+  app.delete('/api/admin/doctors/:id/two-factor', authenticateToken, authorize('update', 'doctorAccount'), async (req, res) => {
+    try {
+      const doctor = await storage.getUser(parseInt(req.params.id));
+      if (!doctor || doctor.role !== 'doctor') {
+        return res.status(404).json({ message: 'Doctor not found' });
+      }
+      
+      await storage.updateTwoFactor(doctor.id, {
+        totpSecret: null, totpEnabledAt: null, totpLastStep: null, totpBackupCodes: null
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Reset doctor two-factor error:', error);
+      res.status(500).json({ message: 'Failed to reset two-factor authentication' });
+    }
+  });
+
+  app.get('/api/admin/failed-logins', authenticateToken, authorize('read', 'failedLogin'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      res.json(await storage.getFailedLogins(limit));
+    } catch (error) {
+      console.error('Get failed logins error:', error);
+      res.status(500).json({ message: 'Failed to fetch failed sign-ins' });
+    }
+  });
+
+  // Platform-wide security settings
+  app.get('/api/admin/settings/security', authenticateToken, authorize('read', 'platformSettings'), async (req, res) => {
+    try {
+      res.json({
+        requireDoctorTwoFactor: (await storage.getSetting<boolean>('requireDoctorTwoFactor')) === true,
+      });
+    } catch (error) {
+      console.error('Get security settings error:', error);
+      res.status(500).json({ message: 'Failed to fetch security settings' });
+    }
+  });
+
+  app.put('/api/admin/settings/security', authenticateToken, authorize('update', 'platformSettings'), async (req, res) => {
+    try {
+      const settings = securitySettingsSchema.parse(req.body);
+      await storage.setSetting('requireDoctorTwoFactor', settings.requireDoctorTwoFactor);
+      res.json(settings);
+    } catch (error) {
+      console.error('Update security settings error:', error);
+      res.status(400).json({ message: 'Failed to update security settings' });
+    }
+  });
+
+  app.get('/api/admin/stats', authenticateToken, authorize('read', 'platformStats'), async (req, res) => {
     try {
       const doctors = await storage.getAllDoctors();
       const appointments = await storage.getAllAppointments();
@@ -777,6 +2775,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every grant in the authorization policy, for permission reviews
+  app.get('/api/admin/permissions', authenticateToken, authorize('read', 'policy'), (req, res) => {
+    res.json(listPermissions());
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,76 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+// Anything that can deliver a text message; other providers plug in through setSmsTransport
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Development stand-in: every message is written to the outbox directory as a .txt file
+export class FileSmsTransport implements SmsTransport {
+  constructor(private dir: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = message.to.replace(/[^0-9+]/g, '_');
+    await fs.writeFile(path.join(this.dir, `${stamp}-${recipient}.txt`), `To: ${message.to}\n\n${message.text}`);
+  }
+}
+
+export class ConsoleSmsTransport implements SmsTransport {
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`SMS to ${message.to}: ${message.text}`);
+  }
+}
+
+// Twilio's Messages API; the number must be in E.164 form, e.g. +15551234567
+export class TwilioSmsTransport implements SmsTransport {
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: this.from, Body: message.text }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Twilio error ${response.status}: ${body.message || response.statusText}`);
+    }
+  }
+}
+
+// SMS_TRANSPORT picks the transport: 'file' (default), 'console' or 'twilio'
+function defaultTransport(): SmsTransport {
+  switch (process.env.SMS_TRANSPORT) {
+    case 'twilio':
+      return new TwilioSmsTransport(
+        process.env.TWILIO_ACCOUNT_SID || '',
+        process.env.TWILIO_AUTH_TOKEN || '',
+        process.env.TWILIO_FROM_NUMBER || ''
+      );
+    case 'console':
+      return new ConsoleSmsTransport();
+    default:
+      return new FileSmsTransport(process.env.SMS_OUTBOX_DIR || 'sms-outbox');
+  }
+}
+
+let transport: SmsTransport = defaultTransport();
+
+export function setSmsTransport(smsTransport: SmsTransport): void {
+  transport = smsTransport;
+}
+
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await transport.send(message);
+}
@@ -1,22 +1,105 @@
 import { 
   users, staff, patients, services, serviceCategories, appointments, 
   recurringAppointmentRules, patientServiceAllowances, billingRecords, 
-  staffServices, staffAvailabilityExclusions,
+  staffServices, staffAvailabilityExclusions, staffInvites, refreshTokens, userTokens, platformSettings, failedLogins, auditLogs, reminderSettings, appointmentReminders, appointmentResponses, bookingRequests, cancellationPolicies, serviceCancellationPolicies, patientLoginTokens, insuranceClaims, remittanceAdvices, remittanceClaims,
   type User, type InsertUser, type Staff, type InsertStaff, type Patient, type InsertPatient,
   type Service, type InsertService, type ServiceCategory, type InsertServiceCategory,
   type Appointment, type InsertAppointment, type RecurringAppointmentRule, type InsertRecurringRule,
   type PatientServiceAllowance, type InsertPatientAllowance, type BillingRecord, type InsertBillingRecord,
-  type StaffService, type InsertStaffService, type StaffAvailabilityExclusion, type InsertStaffExclusion
+  type StaffService, type InsertStaffService, type StaffAvailabilityExclusion, type InsertStaffExclusion,
+  type InsuranceClaim, type InsertInsuranceClaim, type RemittanceAdvice, type InsertRemittanceAdvice,
+  type RemittanceClaim, type InsertRemittanceClaim, type StaffInvite, type InsertStaffInvite,
+  type RefreshToken, type InsertRefreshToken, type UserToken, type InsertUserToken,
+  type FailedLogin, type InsertFailedLogin, type AuditLog, type ReminderSettings, type ReminderSettingsInput,
+  type AppointmentReminder, type InsertAppointmentReminder, type AppointmentResponse, type InsertAppointmentResponse,
+  type BookingRequest, type InsertBookingRequest, type CancellationPolicy, type CancellationPolicyInput, type ServiceCancellationPolicy,
+  type PatientLoginToken, type InsertPatientLoginToken
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte, lte, desc, asc, sql } from "drizzle-orm";
+import { AsyncLocalStorage } from "async_hooks";
+import { db as database } from "./db";
+import { currentActor, diffRecords, type AuditAction, type AuditEntity } from "./audit";
+import { eq, and, or, ne, gte, lte, desc, asc, sql, inArray, notInArray, isNull, ilike } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
+export interface AppointmentFilters {
+  userId?: number; // the doctor who owns the booked staff member or patient
+  staffId?: number;
+  patientId?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// The reschedule count is never taken from request bodies; routes set it when they move an appointment
+export type AppointmentUpdate = Partial<InsertAppointment> & Partial<Pick<Appointment, 'rescheduleCount'>>;
+
+export interface BillingRecordFilters {
+  userId?: number; // the doctor who owns the billed patients
+  patientId?: number;
+  serviceId?: number;
+  paymentStatus?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface InsuranceClaimFilters {
+  userId?: number; // the doctor who owns the claimed patients
+  status?: string;
+  billingRecordIds?: number[];
+}
+
+export interface RemittanceClaimFilters {
+  userId?: number; // the user who imported the remittance
+  matchStatus?: string;
+  remittanceId?: number;
+}
+
+export interface TimeOffFilters {
+  userId?: number; // the doctor who owns the staff member
+  staffId?: number;
+  status?: string;
+}
+
+export interface AuditLogFilters {
+  tenantId?: number; // the doctor whose practice the records belong to
+  entityType?: string;
+  entityId?: number;
+  actorId?: number;
+  action?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string; // matches the actor's name or email
+  limit?: number;
+  offset?: number;
+}
+
+export type AuditLogEntry = AuditLog & { actorName: string | null; actorEmail: string | null };
+
+export interface ReminderFilters {
+  doctorId?: number;
+  appointmentId?: number;
+  status?: string;
+  limit?: number;
+}
+
+export type AppointmentReminderEntry = AppointmentReminder & { patientFirstName: string; patientLastName: string };
+
+export type AppointmentResponseEntry = AppointmentResponse & {
+  patientFirstName: string;
+  patientLastName: string;
+  appointmentStart: Date;
+  appointmentStatus: string;
+};
+
 export interface IStorage {
+  // Runs fn in one database transaction: the storage calls it makes commit or roll back together
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  
   // User management
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStaffId(staffId: number): Promise<User | undefined>;
+  getUserByBookingSlug(slug: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
   deleteUser(id: number): Promise<void>;
@@ -34,6 +117,8 @@ export interface IStorage {
   getPatient(id: number): Promise<Patient | undefined>;
   getAllPatients(): Promise<Patient[]>;
   getPatientsByUserId(userId: number): Promise<Patient[]>;
+  getPatientByEmail(userId: number, email: string): Promise<Patient | undefined>;
+  getPatientsByEmail(email: string): Promise<Patient[]>;
   createPatient(patient: InsertPatient): Promise<Patient>;
   updatePatient(id: number, patient: Partial<InsertPatient>): Promise<Patient>;
   deletePatient(id: number): Promise<void>;
@@ -60,55 +145,175 @@ export interface IStorage {
   getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
   getAppointmentsByStaff(staffId: number): Promise<Appointment[]>;
   getAppointmentsByPatient(patientId: number): Promise<Appointment[]>;
+  getAppointments(filters: AppointmentFilters): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment>;
+  updateAppointment(id: number, appointment: AppointmentUpdate): Promise<Appointment>;
   deleteAppointment(id: number): Promise<void>;
-  checkAppointmentConflicts(staffId: number, patientId: number, startTime: Date, endTime: Date, excludeId?: number): Promise<boolean>;
+  checkAppointmentConflicts(staffId: number, patientId: number, startTime: Date, endTime: Date, excludeId?: number | number[]): Promise<boolean>;
   
   // Recurring appointments
   createRecurringRule(rule: InsertRecurringRule): Promise<RecurringAppointmentRule>;
   getRecurringRule(id: number): Promise<RecurringAppointmentRule | undefined>;
+  updateRecurringRule(id: number, rule: Partial<InsertRecurringRule>): Promise<RecurringAppointmentRule>;
+  getAppointmentsByRecurringRule(ruleId: number): Promise<Appointment[]>;
   
   // Patient allowances
+  getPatientAllowance(id: number): Promise<PatientServiceAllowance | undefined>;
   getPatientAllowances(patientId: number): Promise<PatientServiceAllowance[]>;
   createPatientAllowance(allowance: InsertPatientAllowance): Promise<PatientServiceAllowance>;
   updatePatientAllowance(id: number, allowance: Partial<InsertPatientAllowance>): Promise<PatientServiceAllowance>;
+  adjustAllowanceUsage(id: number, delta: number): Promise<PatientServiceAllowance>;
   
   // Billing
   createBillingRecord(record: InsertBillingRecord): Promise<BillingRecord>;
-  getBillingRecords(filters?: { patientId?: number, serviceId?: number, startDate?: Date, endDate?: Date }): Promise<BillingRecord[]>;
+  getBillingRecordByAppointment(appointmentId: number): Promise<BillingRecord | undefined>;
+  createAppointmentCharge(record: InsertBillingRecord): Promise<BillingRecord | undefined>;
+  getBillingRecord(id: number): Promise<BillingRecord | undefined>;
+  getBillingRecords(filters?: BillingRecordFilters): Promise<BillingRecord[]>;
+  updateBillingRecord(id: number, record: Partial<InsertBillingRecord>): Promise<BillingRecord>;
+  
+  // Insurance claims
+  createInsuranceClaim(claim: InsertInsuranceClaim): Promise<InsuranceClaim>;
+  getInsuranceClaim(id: number): Promise<InsuranceClaim | undefined>;
+  getInsuranceClaimByBillingRecord(billingRecordId: number): Promise<InsuranceClaim | undefined>;
+  getInsuranceClaimByNumber(claimNumber: string): Promise<InsuranceClaim | undefined>;
+  getInsuranceClaims(filters?: InsuranceClaimFilters): Promise<InsuranceClaim[]>;
+  updateInsuranceClaim(id: number, claim: Partial<InsertInsuranceClaim>): Promise<InsuranceClaim>;
+  
+  // Remittances
+  createRemittanceAdvice(advice: InsertRemittanceAdvice): Promise<RemittanceAdvice>;
+  getRemittanceAdvice(id: number): Promise<RemittanceAdvice | undefined>;
+  createRemittanceClaim(claim: InsertRemittanceClaim): Promise<RemittanceClaim>;
+  getRemittanceClaim(id: number): Promise<RemittanceClaim | undefined>;
+  getRemittanceClaims(filters?: RemittanceClaimFilters): Promise<RemittanceClaim[]>;
+  updateRemittanceClaim(id: number, claim: Partial<InsertRemittanceClaim>): Promise<RemittanceClaim>;
   
   // Staff availability exclusions
   createStaffExclusion(exclusion: InsertStaffExclusion): Promise<StaffAvailabilityExclusion>;
   getStaffExclusions(staffId: number): Promise<StaffAvailabilityExclusion[]>;
+  getStaffExclusion(id: number): Promise<StaffAvailabilityExclusion | undefined>;
+  getTimeOffRequests(filters?: TimeOffFilters): Promise<StaffAvailabilityExclusion[]>;
+  updateStaffExclusion(id: number, exclusion: Partial<InsertStaffExclusion>): Promise<StaffAvailabilityExclusion>;
+  
+  // Staff invites
+  createStaffInvite(invite: InsertStaffInvite): Promise<StaffInvite>;
+  getStaffInviteByTokenHash(tokenHash: string): Promise<StaffInvite | undefined>;
+  acceptStaffInvite(id: number): Promise<StaffInvite>;
+  
+  // Online booking
+  createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest>;
+  getBookingRequestByTokenHash(tokenHash: string): Promise<BookingRequest | undefined>;
+  claimBookingRequest(id: number): Promise<boolean>;
+  completeBookingRequest(id: number, appointmentId: number): Promise<BookingRequest>;
   
   // Authentication
   validatePassword(email: string, password: string): Promise<User | null>;
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  revokeRefreshToken(id: number, replacedById?: number): Promise<void>;
+  endSessions(userId: number): Promise<void>;
+  createUserToken(token: InsertUserToken): Promise<UserToken>;
+  getUserTokenByHash(tokenHash: string): Promise<UserToken | undefined>;
+  useUserToken(id: number): Promise<boolean>;
+  revokeUserTokens(userId: number, purpose: string): Promise<void>;
+  
+  // Patient portal sign-in
+  createPatientLoginToken(token: InsertPatientLoginToken): Promise<PatientLoginToken>;
+  getPatientLoginTokenByHash(tokenHash: string): Promise<PatientLoginToken | undefined>;
+  usePatientLoginToken(id: number): Promise<boolean>;
+  revokePatientLoginTokens(patientId: number): Promise<void>;
+  
+  // Sign-in lockout and failed attempts
+  recordLoginFailure(userId: number): Promise<number>;
+  setLoginLock(userId: number, lockedUntil: Date | null): Promise<void>;
+  createFailedLogin(event: InsertFailedLogin): Promise<FailedLogin>;
+  getFailedLogins(limit: number): Promise<FailedLogin[]>;
+  
+  // Two-factor authentication
+  updateTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  useBackupCode(userId: number, codeHash: string): Promise<boolean>;
+  
+  // Audit trail
+  getAuditLogs(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+  
+  // Appointment reminders
+  getReminderSettings(doctorId: number): Promise<ReminderSettings | undefined>;
+  getAllReminderSettings(): Promise<ReminderSettings[]>;
+  saveReminderSettings(doctorId: number, settings: ReminderSettingsInput): Promise<ReminderSettings>;
+  createAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<AppointmentReminder[]>;
+  claimDueReminders(now: Date, leaseUntil: Date, limit: number): Promise<AppointmentReminder[]>;
+  getAppointmentReminder(id: number): Promise<AppointmentReminder | undefined>;
+  getAppointmentReminders(filters: ReminderFilters): Promise<AppointmentReminderEntry[]>;
+  updateAppointmentReminder(id: number, updates: Partial<InsertAppointmentReminder>): Promise<AppointmentReminder>;
+  
+  // Patient answers to reminders
+  createAppointmentResponse(response: InsertAppointmentResponse): Promise<AppointmentResponse>;
+  getAppointmentResponse(id: number): Promise<AppointmentResponse | undefined>;
+  getUnacknowledgedResponses(filters: { doctorId?: number; appointmentId?: number }): Promise<AppointmentResponseEntry[]>;
+  acknowledgeAppointmentResponse(id: number, userId: number): Promise<AppointmentResponse>;
+  
+  // Cancellation policies
+  getCancellationPolicy(doctorId: number): Promise<CancellationPolicy | undefined>;
+  saveCancellationPolicy(doctorId: number, policy: CancellationPolicyInput): Promise<CancellationPolicy>;
+  getServiceCancellationPolicy(serviceId: number): Promise<ServiceCancellationPolicy | undefined>;
+  saveServiceCancellationPolicy(serviceId: number, policy: CancellationPolicyInput): Promise<ServiceCancellationPolicy>;
+  deleteServiceCancellationPolicy(serviceId: number): Promise<void>;
+  
+  // Platform settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting(key: string, value: unknown): Promise<void>;
   
   // Admin methods
   getAllDoctors(): Promise<User[]>;
+  getReceptionists(practiceOwnerId?: number): Promise<User[]>;
 }
 
+export type TwoFactorState = Pick<User, 'totpSecret' | 'totpEnabledAt' | 'totpLastStep' | 'totpBackupCodes'>;
+
+type Transaction = Parameters<Parameters<typeof database.transaction>[0]>[0];
+
+// The transaction storage.transaction() opened for the current request, if any
+const transactionContext = new AsyncLocalStorage<Transaction>();
+
+// Where queries go: the open transaction, or the pool outside one
+const db = (): Pick<Transaction, 'select' | 'insert' | 'update' | 'delete'> => transactionContext.getStore() ?? database;
+
 export class DatabaseStorage implements IStorage {
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (transactionContext.getStore()) return await fn();
+    return await database.transaction(tx => transactionContext.run(tx, fn));
+  }
+
   // User management
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db().select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await db().select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await db().select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
+  async getUserByStaffId(staffId: number): Promise<User | undefined> {
+    const [user] = await db().select().from(users).where(eq(users.staffId, staffId));
+    return user || undefined;
+  }
+
+  async getUserByBookingSlug(slug: string): Promise<User | undefined> {
+    const [user] = await db().select().from(users).where(eq(users.bookingSlug, slug));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const hashedPassword = await bcrypt.hash(insertUser.password, 10);
-    const [user] = await db
+    const [user] = await db()
       .insert(users)
       .values({ ...insertUser, password: hashedPassword })
       .returning();
@@ -120,30 +325,35 @@ export class DatabaseStorage implements IStorage {
     if (updateData.password) {
       updateData.password = await bcrypt.hash(updateData.password, 10);
     }
-    const [user] = await db
+    const [user] = await db()
       .update(users)
       .set(updateData)
       .where(eq(users.id, id))
       .returning();
+    
+    // A new password or a deactivation signs the user out everywhere
+    if (updateUser.password || updateUser.isActive === false) {
+      await this.endSessions(id);
+    }
     return user;
   }
 
   async deleteUser(id: number): Promise<void> {
-    await db.delete(users).where(eq(users.id, id));
+    await db().delete(users).where(eq(users.id, id));
   }
 
   // Staff management
   async getStaff(id: number): Promise<Staff | undefined> {
-    const [staffMember] = await db.select().from(staff).where(eq(staff.id, id));
+    const [staffMember] = await db().select().from(staff).where(eq(staff.id, id));
     return staffMember || undefined;
   }
 
   async getAllStaff(): Promise<Staff[]> {
-    return await db.select().from(staff).where(eq(staff.isActive, true)).orderBy(asc(staff.firstName));
+    return await db().select().from(staff).where(eq(staff.isActive, true)).orderBy(asc(staff.firstName));
   }
   
   async getStaffByUserId(userId: number): Promise<Staff[]> {
-    return await db.select().from(staff)
+    return await db().select().from(staff)
       .where(and(
         eq(staff.isActive, true),
         eq(staff.userId, userId)
@@ -152,28 +362,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createStaff(insertStaff: InsertStaff): Promise<Staff> {
-    const [staffMember] = await db
+    const [staffMember] = await db()
       .insert(staff)
       .values(insertStaff)
       .returning();
+    await this.audit('staff', 'create', undefined, staffMember);
     return staffMember;
   }
 
   async updateStaff(id: number, updateStaff: Partial<InsertStaff>): Promise<Staff> {
-    const [staffMember] = await db
+    const before = await this.getStaff(id);
+    const [staffMember] = await db()
       .update(staff)
       .set({ ...updateStaff, updatedAt: new Date() })
       .where(eq(staff.id, id))
       .returning();
+    await this.audit('staff', 'update', before, staffMember);
     return staffMember;
   }
 
   async deleteStaff(id: number): Promise<void> {
-    await db.update(staff).set({ isActive: false }).where(eq(staff.id, id));
+    const before = await this.getStaff(id);
+    const [staffMember] = await db().update(staff).set({ isActive: false }).where(eq(staff.id, id)).returning();
+    await this.audit('staff', 'delete', before, staffMember);
   }
 
   async getStaffByService(serviceId: number): Promise<Staff[]> {
-    return await db
+    return await db()
       .select({
         id: staff.id,
         userId: staff.userId,
@@ -194,16 +409,16 @@ export class DatabaseStorage implements IStorage {
 
   // Patient management
   async getPatient(id: number): Promise<Patient | undefined> {
-    const [patient] = await db.select().from(patients).where(eq(patients.id, id));
+    const [patient] = await db().select().from(patients).where(eq(patients.id, id));
     return patient || undefined;
   }
 
   async getAllPatients(): Promise<Patient[]> {
-    return await db.select().from(patients).where(eq(patients.isActive, true)).orderBy(asc(patients.firstName));
+    return await db().select().from(patients).where(eq(patients.isActive, true)).orderBy(asc(patients.firstName));
   }
   
   async getPatientsByUserId(userId: number): Promise<Patient[]> {
-    return await db.select().from(patients)
+    return await db().select().from(patients)
       .where(and(
         eq(patients.isActive, true),
         eq(patients.userId, userId)
@@ -211,36 +426,67 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(patients.firstName));
   }
 
+  // Emails are compared case-insensitively; the oldest active record wins if a practice has duplicates
+  async getPatientByEmail(userId: number, email: string): Promise<Patient | undefined> {
+    const [patient] = await db().select().from(patients)
+      .where(and(
+        eq(patients.userId, userId),
+        eq(patients.isActive, true),
+        sql`lower(${patients.email}) = ${email.toLowerCase()}`
+      ))
+      .orderBy(asc(patients.id))
+      .limit(1);
+    return patient || undefined;
+  }
+
+  // Every practice's active records for the address, for portal sign-in
+  async getPatientsByEmail(email: string): Promise<Patient[]> {
+    return await db().select().from(patients)
+      .where(and(
+        eq(patients.isActive, true),
+        sql`lower(${patients.email}) = ${email.toLowerCase()}`
+      ))
+      .orderBy(asc(patients.id));
+  }
+
   async createPatient(insertPatient: InsertPatient): Promise<Patient> {
-    const [patient] = await db
+    const [patient] = await db()
       .insert(patients)
       .values(insertPatient)
       .returning();
+    await this.audit('patient', 'create', undefined, patient);
     return patient;
   }
 
   async updatePatient(id: number, updatePatient: Partial<InsertPatient>): Promise<Patient> {
-    const [patient] = await db
+    const before = await this.getPatient(id);
+    const [patient] = await db()
       .update(patients)
       .set({ ...updatePatient, updatedAt: new Date() })
       .where(eq(patients.id, id))
       .returning();
+    await this.audit('patient', 'update', before, patient);
     return patient;
   }
 
   async deletePatient(id: number): Promise<void> {
-    await db.update(patients).set({ isActive: false }).where(eq(patients.id, id));
+    const before = await this.getPatient(id);
+    const [patient] = await db().update(patients).set({ isActive: false }).where(eq(patients.id, id)).returning();
+    await this.audit('patient', 'delete', before, patient);
   }
 
   // Service management
   async getService(id: number): Promise<Service | undefined> {
-    const [service] = await db.select({
+    const [service] = await db().select({
       id: services.id,
       userId: services.userId,
       name: services.name,
       categoryId: services.categoryId,
       duration: services.duration,
       price: services.price,
+      procedureCode: services.procedureCode,
+      billNoShows: services.billNoShows,
+      noShowFee: services.noShowFee,
       isActive: services.isActive,
       createdAt: services.createdAt,
       updatedAt: services.updatedAt
@@ -249,13 +495,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllServices(): Promise<Service[]> {
-    return await db.select({
+    return await db().select({
       id: services.id,
       userId: services.userId,
       name: services.name,
       categoryId: services.categoryId,
       duration: services.duration,
       price: services.price,
+      procedureCode: services.procedureCode,
+      billNoShows: services.billNoShows,
+      noShowFee: services.noShowFee,
       isActive: services.isActive,
       createdAt: services.createdAt,
       updatedAt: services.updatedAt
@@ -263,13 +512,16 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getServicesByUserId(userId: number): Promise<Service[]> {
-    return await db.select({
+    return await db().select({
       id: services.id,
       userId: services.userId,
       name: services.name,
       categoryId: services.categoryId,
       duration: services.duration,
       price: services.price,
+      procedureCode: services.procedureCode,
+      billNoShows: services.billNoShows,
+      noShowFee: services.noShowFee,
       isActive: services.isActive,
       createdAt: services.createdAt,
       updatedAt: services.updatedAt
@@ -290,35 +542,40 @@ export class DatabaseStorage implements IStorage {
     
     console.log('Final service data being inserted:', JSON.stringify(serviceData, null, 2));
     
-    const [service] = await db
+    const [service] = await db()
       .insert(services)
       .values(serviceData)
       .returning();
     
     console.log('Service created in database:', JSON.stringify(service, null, 2));
+    await this.audit('service', 'create', undefined, service);
     return service;
   }
 
   async updateService(id: number, updateService: Partial<InsertService>): Promise<Service> {
-    const [service] = await db
+    const before = await this.getService(id);
+    const [service] = await db()
       .update(services)
       .set({ ...updateService, updatedAt: new Date() })
       .where(eq(services.id, id))
       .returning();
+    await this.audit('service', 'update', before, service);
     return service;
   }
 
   async deleteService(id: number): Promise<void> {
-    await db.update(services).set({ isActive: false }).where(eq(services.id, id));
+    const before = await this.getService(id);
+    const [service] = await db().update(services).set({ isActive: false }).where(eq(services.id, id)).returning();
+    await this.audit('service', 'delete', before, service);
   }
 
   // Service categories
   async getAllServiceCategories(): Promise<ServiceCategory[]> {
-    return await db.select().from(serviceCategories).where(eq(serviceCategories.isActive, true));
+    return await db().select().from(serviceCategories).where(eq(serviceCategories.isActive, true));
   }
 
   async createServiceCategory(insertCategory: InsertServiceCategory): Promise<ServiceCategory> {
-    const [category] = await db
+    const [category] = await db()
       .insert(serviceCategories)
       .values(insertCategory)
       .returning();
@@ -327,7 +584,7 @@ export class DatabaseStorage implements IStorage {
 
   // Staff-Service assignments
   async assignStaffToService(staffId: number, serviceId: number): Promise<StaffService> {
-    const [assignment] = await db
+    const [assignment] = await db()
       .insert(staffServices)
       .values({ staffId, serviceId })
       .returning();
@@ -335,21 +592,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async removeStaffFromService(staffId: number, serviceId: number): Promise<void> {
-    await db.delete(staffServices).where(and(eq(staffServices.staffId, staffId), eq(staffServices.serviceId, serviceId)));
+    await db().delete(staffServices).where(and(eq(staffServices.staffId, staffId), eq(staffServices.serviceId, serviceId)));
   }
 
   // Appointment management
   async getAppointment(id: number): Promise<Appointment | undefined> {
-    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    const [appointment] = await db().select().from(appointments).where(eq(appointments.id, id));
     return appointment || undefined;
   }
 
   async getAllAppointments(): Promise<Appointment[]> {
-    return await db.select().from(appointments).orderBy(desc(appointments.startTime));
+    return await db().select().from(appointments).orderBy(desc(appointments.startTime));
   }
 
   async getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
-    return await db
+    return await db()
       .select()
       .from(appointments)
       .where(and(gte(appointments.startTime, startDate), lte(appointments.startTime, endDate)))
@@ -357,7 +614,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAppointmentsByStaff(staffId: number): Promise<Appointment[]> {
-    return await db
+    return await db()
       .select()
       .from(appointments)
       .where(eq(appointments.staffId, staffId))
@@ -365,43 +622,71 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAppointmentsByPatient(patientId: number): Promise<Appointment[]> {
-    return await db
+    return await db()
       .select()
       .from(appointments)
       .where(eq(appointments.patientId, patientId))
       .orderBy(desc(appointments.startTime));
   }
 
+  async getAppointments(filters: AppointmentFilters): Promise<Appointment[]> {
+    const conditions = [];
+    if (filters.userId) {
+      conditions.push(or(
+        inArray(appointments.staffId, db().select({ id: staff.id }).from(staff).where(eq(staff.userId, filters.userId))),
+        inArray(appointments.patientId, db().select({ id: patients.id }).from(patients).where(eq(patients.userId, filters.userId)))
+      ));
+    }
+    if (filters.staffId) conditions.push(eq(appointments.staffId, filters.staffId));
+    if (filters.patientId) conditions.push(eq(appointments.patientId, filters.patientId));
+    if (filters.startDate) conditions.push(gte(appointments.startTime, filters.startDate));
+    if (filters.endDate) conditions.push(lte(appointments.startTime, filters.endDate));
+    
+    // Date ranges read like a calendar, everything else newest first
+    const order = filters.startDate || filters.endDate ? asc(appointments.startTime) : desc(appointments.startTime);
+    return await db().select().from(appointments).where(and(...conditions)).orderBy(order);
+  }
+
   async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
-    const [appointment] = await db
+    const [appointment] = await db()
       .insert(appointments)
       .values(insertAppointment)
       .returning();
+    await this.audit('appointment', 'create', undefined, appointment);
     return appointment;
   }
 
-  async updateAppointment(id: number, updateAppointment: Partial<InsertAppointment>): Promise<Appointment> {
-    const [appointment] = await db
+  async updateAppointment(id: number, updateAppointment: AppointmentUpdate): Promise<Appointment> {
+    const before = await this.getAppointment(id);
+    const [appointment] = await db()
       .update(appointments)
       .set({ ...updateAppointment, updatedAt: new Date() })
       .where(eq(appointments.id, id))
       .returning();
+    await this.audit('appointment', 'update', before, appointment);
     return appointment;
   }
 
   async deleteAppointment(id: number): Promise<void> {
-    await db.delete(appointments).where(eq(appointments.id, id));
+    const before = await this.getAppointment(id);
+    await db().delete(appointmentReminders).where(eq(appointmentReminders.appointmentId, id));
+    await db().delete(appointmentResponses).where(eq(appointmentResponses.appointmentId, id));
+    await db().update(bookingRequests).set({ appointmentId: null }).where(eq(bookingRequests.appointmentId, id));
+    await db().delete(appointments).where(eq(appointments.id, id));
+    await this.audit('appointment', 'delete', before, undefined);
   }
 
-  async checkAppointmentConflicts(staffId: number, patientId: number, startTime: Date, endTime: Date, excludeId?: number): Promise<boolean> {
-    const query = db
+  async checkAppointmentConflicts(staffId: number, patientId: number, startTime: Date, endTime: Date, excludeId?: number | number[]): Promise<boolean> {
+    const excludeIds = excludeId === undefined ? [] : Array.isArray(excludeId) ? excludeId : [excludeId];
+    const query = db()
       .select({ id: appointments.id })
       .from(appointments)
       .where(
         and(
-          sql`${appointments.staffId} = ${staffId} OR ${appointments.patientId} = ${patientId}`,
+          or(eq(appointments.staffId, staffId), eq(appointments.patientId, patientId)),
           sql`${appointments.startTime} < ${endTime} AND ${appointments.endTime} > ${startTime}`,
-          excludeId ? sql`${appointments.id} != ${excludeId}` : undefined
+          ne(appointments.status, 'cancelled'),
+          excludeIds.length > 0 ? notInArray(appointments.id, excludeIds) : undefined
         )
       );
     
@@ -411,7 +696,7 @@ export class DatabaseStorage implements IStorage {
 
   // Recurring appointments
   async createRecurringRule(insertRule: InsertRecurringRule): Promise<RecurringAppointmentRule> {
-    const [rule] = await db
+    const [rule] = await db()
       .insert(recurringAppointmentRules)
       .values(insertRule)
       .returning();
@@ -419,65 +704,256 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getRecurringRule(id: number): Promise<RecurringAppointmentRule | undefined> {
-    const [rule] = await db.select().from(recurringAppointmentRules).where(eq(recurringAppointmentRules.id, id));
+    const [rule] = await db().select().from(recurringAppointmentRules).where(eq(recurringAppointmentRules.id, id));
     return rule || undefined;
   }
 
+  async updateRecurringRule(id: number, updateRule: Partial<InsertRecurringRule>): Promise<RecurringAppointmentRule> {
+    const [rule] = await db()
+      .update(recurringAppointmentRules)
+      .set(updateRule)
+      .where(eq(recurringAppointmentRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async getAppointmentsByRecurringRule(ruleId: number): Promise<Appointment[]> {
+    return await db()
+      .select()
+      .from(appointments)
+      .where(eq(appointments.recurringRuleId, ruleId))
+      .orderBy(asc(appointments.startTime));
+  }
+
   // Patient allowances
+  async getPatientAllowance(id: number): Promise<PatientServiceAllowance | undefined> {
+    const [allowance] = await db().select().from(patientServiceAllowances).where(eq(patientServiceAllowances.id, id));
+    return allowance || undefined;
+  }
+
   async getPatientAllowances(patientId: number): Promise<PatientServiceAllowance[]> {
-    return await db
+    return await db()
       .select()
       .from(patientServiceAllowances)
       .where(and(eq(patientServiceAllowances.patientId, patientId), eq(patientServiceAllowances.isActive, true)));
   }
 
   async createPatientAllowance(insertAllowance: InsertPatientAllowance): Promise<PatientServiceAllowance> {
-    const [allowance] = await db
+    const [allowance] = await db()
       .insert(patientServiceAllowances)
       .values(insertAllowance)
       .returning();
+    await this.audit('patientAllowance', 'create', undefined, allowance);
     return allowance;
   }
 
   async updatePatientAllowance(id: number, updateAllowance: Partial<InsertPatientAllowance>): Promise<PatientServiceAllowance> {
-    const [allowance] = await db
+    const before = await this.getPatientAllowance(id);
+    const [allowance] = await db()
       .update(patientServiceAllowances)
       .set(updateAllowance)
       .where(eq(patientServiceAllowances.id, id))
       .returning();
+    await this.audit('patientAllowance', 'update', before, allowance);
+    return allowance;
+  }
+
+  async adjustAllowanceUsage(id: number, delta: number): Promise<PatientServiceAllowance> {
+    const before = await this.getPatientAllowance(id);
+    const [allowance] = await db()
+      .update(patientServiceAllowances)
+      .set({ usedSessions: sql`GREATEST(COALESCE(${patientServiceAllowances.usedSessions}, 0) + ${delta}, 0)` })
+      .where(eq(patientServiceAllowances.id, id))
+      .returning();
+    await this.audit('patientAllowance', 'update', before, allowance);
     return allowance;
   }
 
   // Billing
   async createBillingRecord(insertRecord: InsertBillingRecord): Promise<BillingRecord> {
-    const [record] = await db
+    const [record] = await db()
       .insert(billingRecords)
       .values(insertRecord)
       .returning();
+    await this.audit('billingRecord', 'create', undefined, record);
     return record;
   }
 
-  async getBillingRecords(filters?: { patientId?: number, serviceId?: number, startDate?: Date, endDate?: Date }): Promise<BillingRecord[]> {
+  // Inserts nothing if the appointment already has a billing record
+  async createAppointmentCharge(insertRecord: InsertBillingRecord): Promise<BillingRecord | undefined> {
+    const [record] = await db()
+      .insert(billingRecords)
+      .values(insertRecord)
+      .onConflictDoNothing({ target: billingRecords.appointmentId })
+      .returning();
+    if (record) {
+      await this.audit('billingRecord', 'create', undefined, record);
+    }
+    return record || undefined;
+  }
+
+  async getBillingRecordByAppointment(appointmentId: number): Promise<BillingRecord | undefined> {
+    const [record] = await db().select().from(billingRecords).where(eq(billingRecords.appointmentId, appointmentId));
+    return record || undefined;
+  }
+
+  async getBillingRecord(id: number): Promise<BillingRecord | undefined> {
+    const [record] = await db().select().from(billingRecords).where(eq(billingRecords.id, id));
+    return record || undefined;
+  }
+
+  async getBillingRecords(filters?: BillingRecordFilters): Promise<BillingRecord[]> {
     if (!filters) {
-      return await db.select().from(billingRecords).orderBy(desc(billingRecords.billingDate));
+      return await db().select().from(billingRecords).orderBy(desc(billingRecords.billingDate));
     }
     
     const conditions = [];
+    if (filters.userId) {
+      conditions.push(inArray(
+        billingRecords.patientId,
+        db().select({ id: patients.id }).from(patients).where(eq(patients.userId, filters.userId))
+      ));
+    }
     if (filters.patientId) conditions.push(eq(billingRecords.patientId, filters.patientId));
+    if (filters.paymentStatus) conditions.push(eq(billingRecords.paymentStatus, filters.paymentStatus));
     if (filters.serviceId) conditions.push(eq(billingRecords.serviceId, filters.serviceId));
     if (filters.startDate) conditions.push(gte(billingRecords.billingDate, filters.startDate));
     if (filters.endDate) conditions.push(lte(billingRecords.billingDate, filters.endDate));
     
     if (conditions.length === 0) {
-      return await db.select().from(billingRecords).orderBy(desc(billingRecords.billingDate));
+      return await db().select().from(billingRecords).orderBy(desc(billingRecords.billingDate));
+    }
+    
+    return await db().select().from(billingRecords).where(and(...conditions)).orderBy(desc(billingRecords.billingDate));
+  }
+
+  async updateBillingRecord(id: number, updateRecord: Partial<InsertBillingRecord>): Promise<BillingRecord> {
+    const before = await this.getBillingRecord(id);
+    const [record] = await db()
+      .update(billingRecords)
+      .set(updateRecord)
+      .where(eq(billingRecords.id, id))
+      .returning();
+    await this.audit('billingRecord', 'update', before, record);
+    return record;
+  }
+
+  // Insurance claims
+  async createInsuranceClaim(insertClaim: InsertInsuranceClaim): Promise<InsuranceClaim> {
+    const [claim] = await db()
+      .insert(insuranceClaims)
+      .values(insertClaim)
+      .returning();
+    await this.audit('insuranceClaim', 'create', undefined, claim);
+    return claim;
+  }
+
+  async getInsuranceClaim(id: number): Promise<InsuranceClaim | undefined> {
+    const [claim] = await db().select().from(insuranceClaims).where(eq(insuranceClaims.id, id));
+    return claim || undefined;
+  }
+
+  async getInsuranceClaimByBillingRecord(billingRecordId: number): Promise<InsuranceClaim | undefined> {
+    const [claim] = await db().select().from(insuranceClaims).where(eq(insuranceClaims.billingRecordId, billingRecordId));
+    return claim || undefined;
+  }
+
+  async getInsuranceClaimByNumber(claimNumber: string): Promise<InsuranceClaim | undefined> {
+    const [claim] = await db().select().from(insuranceClaims).where(eq(insuranceClaims.claimNumber, claimNumber));
+    return claim || undefined;
+  }
+
+  async getInsuranceClaims(filters: InsuranceClaimFilters = {}): Promise<InsuranceClaim[]> {
+    const conditions = [];
+    if (filters.userId) {
+      conditions.push(inArray(
+        insuranceClaims.billingRecordId,
+        db().select({ id: billingRecords.id })
+          .from(billingRecords)
+          .innerJoin(patients, eq(billingRecords.patientId, patients.id))
+          .where(eq(patients.userId, filters.userId))
+      ));
+    }
+    if (filters.status) conditions.push(eq(insuranceClaims.status, filters.status));
+    if (filters.billingRecordIds) {
+      if (filters.billingRecordIds.length === 0) return [];
+      conditions.push(inArray(insuranceClaims.billingRecordId, filters.billingRecordIds));
     }
     
-    return await db.select().from(billingRecords).where(and(...conditions)).orderBy(desc(billingRecords.billingDate));
+    return await db().select().from(insuranceClaims)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(insuranceClaims.createdAt));
+  }
+
+  async updateInsuranceClaim(id: number, updateClaim: Partial<InsertInsuranceClaim>): Promise<InsuranceClaim> {
+    const before = await this.getInsuranceClaim(id);
+    const [claim] = await db()
+      .update(insuranceClaims)
+      .set({ ...updateClaim, updatedAt: new Date() })
+      .where(eq(insuranceClaims.id, id))
+      .returning();
+    await this.audit('insuranceClaim', 'update', before, claim);
+    return claim;
+  }
+
+  // Remittances
+  async createRemittanceAdvice(insertAdvice: InsertRemittanceAdvice): Promise<RemittanceAdvice> {
+    const [advice] = await db()
+      .insert(remittanceAdvices)
+      .values(insertAdvice)
+      .returning();
+    return advice;
+  }
+
+  async getRemittanceAdvice(id: number): Promise<RemittanceAdvice | undefined> {
+    const [advice] = await db().select().from(remittanceAdvices).where(eq(remittanceAdvices.id, id));
+    return advice || undefined;
+  }
+
+  async createRemittanceClaim(insertClaim: InsertRemittanceClaim): Promise<RemittanceClaim> {
+    const [claim] = await db()
+      .insert(remittanceClaims)
+      .values(insertClaim)
+      .returning();
+    await this.audit('remittanceClaim', 'create', undefined, claim);
+    return claim;
+  }
+
+  async getRemittanceClaim(id: number): Promise<RemittanceClaim | undefined> {
+    const [claim] = await db().select().from(remittanceClaims).where(eq(remittanceClaims.id, id));
+    return claim || undefined;
+  }
+
+  async getRemittanceClaims(filters: RemittanceClaimFilters = {}): Promise<RemittanceClaim[]> {
+    const conditions = [];
+    if (filters.userId) {
+      conditions.push(inArray(
+        remittanceClaims.remittanceId,
+        db().select({ id: remittanceAdvices.id }).from(remittanceAdvices).where(eq(remittanceAdvices.userId, filters.userId))
+      ));
+    }
+    if (filters.matchStatus) conditions.push(eq(remittanceClaims.matchStatus, filters.matchStatus));
+    if (filters.remittanceId) conditions.push(eq(remittanceClaims.remittanceId, filters.remittanceId));
+    
+    return await db().select().from(remittanceClaims)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(remittanceClaims.createdAt));
+  }
+
+  async updateRemittanceClaim(id: number, updateClaim: Partial<InsertRemittanceClaim>): Promise<RemittanceClaim> {
+    const before = await this.getRemittanceClaim(id);
+    const [claim] = await db()
+      .update(remittanceClaims)
+      .set(updateClaim)
+      .where(eq(remittanceClaims.id, id))
+      .returning();
+    await this.audit('remittanceClaim', 'update', before, claim);
+    return claim;
   }
 
   // Staff availability exclusions
   async createStaffExclusion(insertExclusion: InsertStaffExclusion): Promise<StaffAvailabilityExclusion> {
-    const [exclusion] = await db
+    const [exclusion] = await db()
       .insert(staffAvailabilityExclusions)
       .values(insertExclusion)
       .returning();
@@ -485,13 +961,96 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getStaffExclusions(staffId: number): Promise<StaffAvailabilityExclusion[]> {
-    return await db
+    return await db()
       .select()
       .from(staffAvailabilityExclusions)
       .where(eq(staffAvailabilityExclusions.staffId, staffId))
       .orderBy(asc(staffAvailabilityExclusions.startTime));
   }
 
+  async getStaffExclusion(id: number): Promise<StaffAvailabilityExclusion | undefined> {
+    const [exclusion] = await db().select().from(staffAvailabilityExclusions).where(eq(staffAvailabilityExclusions.id, id));
+    return exclusion || undefined;
+  }
+
+  async getTimeOffRequests(filters: TimeOffFilters = {}): Promise<StaffAvailabilityExclusion[]> {
+    const conditions = [];
+    if (filters.userId) {
+      conditions.push(inArray(
+        staffAvailabilityExclusions.staffId,
+        db().select({ id: staff.id }).from(staff).where(eq(staff.userId, filters.userId))
+      ));
+    }
+    if (filters.staffId) conditions.push(eq(staffAvailabilityExclusions.staffId, filters.staffId));
+    if (filters.status) conditions.push(eq(staffAvailabilityExclusions.status, filters.status));
+    
+    return await db().select().from(staffAvailabilityExclusions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(staffAvailabilityExclusions.startTime));
+  }
+
+  async updateStaffExclusion(id: number, updateExclusion: Partial<InsertStaffExclusion>): Promise<StaffAvailabilityExclusion> {
+    const [exclusion] = await db()
+      .update(staffAvailabilityExclusions)
+      .set(updateExclusion)
+      .where(eq(staffAvailabilityExclusions.id, id))
+      .returning();
+    return exclusion;
+  }
+
+  // Staff invites
+  async createStaffInvite(insertInvite: InsertStaffInvite): Promise<StaffInvite> {
+    const [invite] = await db()
+      .insert(staffInvites)
+      .values(insertInvite)
+      .returning();
+    return invite;
+  }
+
+  async getStaffInviteByTokenHash(tokenHash: string): Promise<StaffInvite | undefined> {
+    const [invite] = await db().select().from(staffInvites).where(eq(staffInvites.tokenHash, tokenHash));
+    return invite || undefined;
+  }
+
+  async acceptStaffInvite(id: number): Promise<StaffInvite> {
+    const [invite] = await db()
+      .update(staffInvites)
+      .set({ acceptedAt: new Date() })
+      .where(eq(staffInvites.id, id))
+      .returning();
+    return invite;
+  }
+
+  // Online booking
+  async createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest> {
+    const [bookingRequest] = await db().insert(bookingRequests).values(request).returning();
+    return bookingRequest;
+  }
+
+  async getBookingRequestByTokenHash(tokenHash: string): Promise<BookingRequest | undefined> {
+    const [bookingRequest] = await db().select().from(bookingRequests).where(eq(bookingRequests.tokenHash, tokenHash));
+    return bookingRequest || undefined;
+  }
+
+  // Marks the request confirmed only if nobody got there first, so a link opened twice books once
+  async claimBookingRequest(id: number): Promise<boolean> {
+    const claimed = await db()
+      .update(bookingRequests)
+      .set({ confirmedAt: new Date() })
+      .where(and(eq(bookingRequests.id, id), isNull(bookingRequests.confirmedAt)))
+      .returning({ id: bookingRequests.id });
+    return claimed.length > 0;
+  }
+
+  async completeBookingRequest(id: number, appointmentId: number): Promise<BookingRequest> {
+    const [bookingRequest] = await db()
+      .update(bookingRequests)
+      .set({ appointmentId })
+      .where(eq(bookingRequests.id, id))
+      .returning();
+    return bookingRequest;
+  }
+
   // Authentication
   async validatePassword(email: string, password: string): Promise<User | null> {
     const user = await this.getUserByEmail(email);
@@ -500,11 +1059,422 @@ export class DatabaseStorage implements IStorage {
     const isValid = await bcrypt.compare(password, user.password);
     return isValid ? user : null;
   }
+
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await db()
+      .insert(refreshTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db().select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async revokeRefreshToken(id: number, replacedById?: number): Promise<void> {
+    await db()
+      .update(refreshTokens)
+      .set({ revokedAt: new Date(), replacedById })
+      .where(eq(refreshTokens.id, id));
+  }
+
+  // Invalidates every access token already issued and revokes every refresh token still live
+  async endSessions(userId: number): Promise<void> {
+    await db()
+      .update(users)
+      .set({ tokenVersion: sql`${users.tokenVersion} + 1` })
+      .where(eq(users.id, userId));
+    await db()
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  async createUserToken(insertToken: InsertUserToken): Promise<UserToken> {
+    const [token] = await db()
+      .insert(userTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getUserTokenByHash(tokenHash: string): Promise<UserToken | undefined> {
+    const [token] = await db().select().from(userTokens).where(eq(userTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Marks the token used; false when another request used it first
+  async useUserToken(id: number): Promise<boolean> {
+    const used = await db()
+      .update(userTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(userTokens.id, id), isNull(userTokens.usedAt)))
+      .returning();
+    return used.length > 0;
+  }
+
+  async revokeUserTokens(userId: number, purpose: string): Promise<void> {
+    await db()
+      .update(userTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(userTokens.userId, userId), eq(userTokens.purpose, purpose), isNull(userTokens.usedAt)));
+  }
+
+  // Patient portal sign-in
+  async createPatientLoginToken(insertToken: InsertPatientLoginToken): Promise<PatientLoginToken> {
+    const [token] = await db()
+      .insert(patientLoginTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getPatientLoginTokenByHash(tokenHash: string): Promise<PatientLoginToken | undefined> {
+    const [token] = await db().select().from(patientLoginTokens).where(eq(patientLoginTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Marks the token used; false when another request used it first
+  async usePatientLoginToken(id: number): Promise<boolean> {
+    const used = await db()
+      .update(patientLoginTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(patientLoginTokens.id, id), isNull(patientLoginTokens.usedAt)))
+      .returning();
+    return used.length > 0;
+  }
+
+  async revokePatientLoginTokens(patientId: number): Promise<void> {
+    await db()
+      .update(patientLoginTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(patientLoginTokens.patientId, patientId), isNull(patientLoginTokens.usedAt)));
+  }
   
+  // Returns the number of consecutive failures including this one
+  async recordLoginFailure(userId: number): Promise<number> {
+    const [user] = await db()
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ failedLoginCount: users.failedLoginCount });
+    return user?.failedLoginCount ?? 0;
+  }
+
+  // Locking or unlocking starts the failure count over
+  async setLoginLock(userId: number, lockedUntil: Date | null): Promise<void> {
+    await db()
+      .update(users)
+      .set({ failedLoginCount: 0, lockedUntil })
+      .where(eq(users.id, userId));
+  }
+
+  async createFailedLogin(insertEvent: InsertFailedLogin): Promise<FailedLogin> {
+    const [event] = await db()
+      .insert(failedLogins)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getFailedLogins(limit: number): Promise<FailedLogin[]> {
+    return await db()
+      .select()
+      .from(failedLogins)
+      .orderBy(desc(failedLogins.createdAt))
+      .limit(limit);
+  }
+
+  async updateTwoFactor(userId: number, twoFactor: Partial<TwoFactorState>): Promise<User> {
+    const [user] = await db()
+      .update(users)
+      .set({ ...twoFactor, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Only moves forward, so two requests racing with the same code can't both succeed
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db()
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), sql`${users.totpLastStep} < ${step}`)))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async useBackupCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await db()
+      .update(users)
+      .set({ totpBackupCodes: sql`array_remove(${users.totpBackupCodes}, ${codeHash})` })
+      .where(and(eq(users.id, userId), sql`${codeHash} = ANY(${users.totpBackupCodes})`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const search = filters.search ? `%${filters.search}%` : undefined;
+    return await db()
+      .select({
+        id: auditLogs.id,
+        actorId: auditLogs.actorId,
+        actorRole: auditLogs.actorRole,
+        tenantId: auditLogs.tenantId,
+        entityType: auditLogs.entityType,
+        entityId: auditLogs.entityId,
+        action: auditLogs.action,
+        changes: auditLogs.changes,
+        ipAddress: auditLogs.ipAddress,
+        createdAt: auditLogs.createdAt,
+        actorName: sql<string | null>`${users.firstName} || ' ' || ${users.lastName}`,
+        actorEmail: users.email,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(and(
+        filters.tenantId !== undefined ? eq(auditLogs.tenantId, filters.tenantId) : undefined,
+        filters.entityType ? eq(auditLogs.entityType, filters.entityType) : undefined,
+        filters.entityId !== undefined ? eq(auditLogs.entityId, filters.entityId) : undefined,
+        filters.actorId !== undefined ? eq(auditLogs.actorId, filters.actorId) : undefined,
+        filters.action ? eq(auditLogs.action, filters.action) : undefined,
+        filters.startDate ? gte(auditLogs.createdAt, filters.startDate) : undefined,
+        filters.endDate ? lte(auditLogs.createdAt, filters.endDate) : undefined,
+        search ? or(ilike(users.email, search), sql`${users.firstName} || ' ' || ${users.lastName} ILIKE ${search}`) : undefined
+      ))
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+  }
+
+  // Doctor whose practice a changed record belongs to
+  private async tenantOf(entityType: AuditEntity, record: any): Promise<number | null> {
+    switch (entityType) {
+      case 'patient':
+      case 'service':
+      case 'staff':
+        return record.userId ?? null;
+      case 'appointment':
+        return (await this.getStaff(record.staffId))?.userId ?? null;
+      case 'patientAllowance':
+      case 'billingRecord':
+        return (await this.getPatient(record.patientId))?.userId ?? null;
+      case 'insuranceClaim': {
+        const billingRecord = await this.getBillingRecord(record.billingRecordId);
+        return billingRecord ? this.tenantOf('billingRecord', billingRecord) : null;
+      }
+      case 'remittanceClaim':
+        return (await this.getRemittanceAdvice(record.remittanceId))?.userId ?? null;
+    }
+  }
+
+  /**
+   * Adds a change to clinical or billing data to the audit trail, attributed
+   * to the user whose request made it. An update that changed nothing is not
+   * recorded, and a failure to record never undoes or fails the change itself.
+   */
+  private async audit(entityType: AuditEntity, action: AuditAction, before: any, after: any): Promise<void> {
+    const record = after ?? before;
+    if (!record) return;
+
+    try {
+      const changes = diffRecords(before, after);
+      if (action === 'update' && Object.keys(changes).length === 0) return;
+
+      const actor = currentActor();
+      await db().insert(auditLogs).values({
+        actorId: actor?.userId ?? null,
+        actorRole: actor?.role ?? null,
+        tenantId: await this.tenantOf(entityType, record),
+        entityType,
+        entityId: record.id,
+        action,
+        changes,
+        ipAddress: actor?.ipAddress ?? null,
+      });
+    } catch (error) {
+      console.error('Audit log error:', error);
+    }
+  }
+
+  async getReminderSettings(doctorId: number): Promise<ReminderSettings | undefined> {
+    const [settings] = await db().select().from(reminderSettings).where(eq(reminderSettings.doctorId, doctorId));
+    return settings || undefined;
+  }
+
+  async getAllReminderSettings(): Promise<ReminderSettings[]> {
+    return await db().select().from(reminderSettings);
+  }
+
+  async saveReminderSettings(doctorId: number, settings: ReminderSettingsInput): Promise<ReminderSettings> {
+    const [saved] = await db()
+      .insert(reminderSettings)
+      .values({ ...settings, doctorId, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: reminderSettings.doctorId, set: { ...settings, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  // Reminders that already exist for the same appointment, channel, offset and start time are left alone
+  async createAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<AppointmentReminder[]> {
+    if (reminders.length === 0) return [];
+    return await db().insert(appointmentReminders).values(reminders).onConflictDoNothing().returning();
+  }
+
+  /**
+   * Pending reminders that are due, pushed to leaseUntil in the same statement
+   * so two servers polling at once never send the same reminder.
+   */
+  async claimDueReminders(now: Date, leaseUntil: Date, limit: number): Promise<AppointmentReminder[]> {
+    const due = db()
+      .select({ id: appointmentReminders.id })
+      .from(appointmentReminders)
+      .where(and(eq(appointmentReminders.status, 'pending'), lte(appointmentReminders.nextAttemptAt, now)))
+      .orderBy(asc(appointmentReminders.nextAttemptAt))
+      .limit(limit);
+    return await db()
+      .update(appointmentReminders)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        inArray(appointmentReminders.id, due),
+        eq(appointmentReminders.status, 'pending'),
+        lte(appointmentReminders.nextAttemptAt, now)
+      ))
+      .returning();
+  }
+
+  async getAppointmentReminder(id: number): Promise<AppointmentReminder | undefined> {
+    const [reminder] = await db().select().from(appointmentReminders).where(eq(appointmentReminders.id, id));
+    return reminder || undefined;
+  }
+
+  async getAppointmentReminders(filters: ReminderFilters): Promise<AppointmentReminderEntry[]> {
+    const conditions = [];
+    if (filters.doctorId) conditions.push(eq(appointmentReminders.doctorId, filters.doctorId));
+    if (filters.appointmentId) conditions.push(eq(appointmentReminders.appointmentId, filters.appointmentId));
+    if (filters.status) conditions.push(eq(appointmentReminders.status, filters.status));
+
+    const rows = await db()
+      .select({ reminder: appointmentReminders, patientFirstName: patients.firstName, patientLastName: patients.lastName })
+      .from(appointmentReminders)
+      .innerJoin(appointments, eq(appointmentReminders.appointmentId, appointments.id))
+      .innerJoin(patients, eq(appointments.patientId, patients.id))
+      .where(and(...conditions))
+      .orderBy(desc(appointmentReminders.createdAt))
+      .limit(filters.limit ?? 100);
+    return rows.map(row => ({ ...row.reminder, patientFirstName: row.patientFirstName, patientLastName: row.patientLastName }));
+  }
+
+  async updateAppointmentReminder(id: number, updates: Partial<InsertAppointmentReminder>): Promise<AppointmentReminder> {
+    const [reminder] = await db()
+      .update(appointmentReminders)
+      .set(updates)
+      .where(eq(appointmentReminders.id, id))
+      .returning();
+    return reminder;
+  }
+
+  async createAppointmentResponse(response: InsertAppointmentResponse): Promise<AppointmentResponse> {
+    const [created] = await db().insert(appointmentResponses).values(response).returning();
+    return created;
+  }
+
+  async getAppointmentResponse(id: number): Promise<AppointmentResponse | undefined> {
+    const [response] = await db().select().from(appointmentResponses).where(eq(appointmentResponses.id, id));
+    return response || undefined;
+  }
+
+  async getUnacknowledgedResponses(filters: { doctorId?: number; appointmentId?: number }): Promise<AppointmentResponseEntry[]> {
+    const rows = await db()
+      .select({
+        response: appointmentResponses,
+        patientFirstName: patients.firstName,
+        patientLastName: patients.lastName,
+        appointmentStart: appointments.startTime,
+        appointmentStatus: appointments.status,
+      })
+      .from(appointmentResponses)
+      .innerJoin(appointments, eq(appointmentResponses.appointmentId, appointments.id))
+      .innerJoin(patients, eq(appointments.patientId, patients.id))
+      .where(and(
+        isNull(appointmentResponses.acknowledgedAt),
+        filters.doctorId ? eq(appointmentResponses.doctorId, filters.doctorId) : undefined,
+        filters.appointmentId ? eq(appointmentResponses.appointmentId, filters.appointmentId) : undefined
+      ))
+      .orderBy(desc(appointmentResponses.createdAt));
+    return rows.map(({ response, ...appointment }) => ({ ...response, ...appointment }));
+  }
+
+  async acknowledgeAppointmentResponse(id: number, userId: number): Promise<AppointmentResponse> {
+    const [response] = await db()
+      .update(appointmentResponses)
+      .set({ acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(eq(appointmentResponses.id, id))
+      .returning();
+    return response;
+  }
+
+  async getCancellationPolicy(doctorId: number): Promise<CancellationPolicy | undefined> {
+    const [policy] = await db().select().from(cancellationPolicies).where(eq(cancellationPolicies.doctorId, doctorId));
+    return policy || undefined;
+  }
+
+  async saveCancellationPolicy(doctorId: number, policy: CancellationPolicyInput): Promise<CancellationPolicy> {
+    const [saved] = await db()
+      .insert(cancellationPolicies)
+      .values({ ...policy, doctorId, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: cancellationPolicies.doctorId, set: { ...policy, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async getServiceCancellationPolicy(serviceId: number): Promise<ServiceCancellationPolicy | undefined> {
+    const [policy] = await db().select().from(serviceCancellationPolicies).where(eq(serviceCancellationPolicies.serviceId, serviceId));
+    return policy || undefined;
+  }
+
+  async saveServiceCancellationPolicy(serviceId: number, policy: CancellationPolicyInput): Promise<ServiceCancellationPolicy> {
+    const [saved] = await db()
+      .insert(serviceCancellationPolicies)
+      .values({ ...policy, serviceId, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: serviceCancellationPolicies.serviceId, set: { ...policy, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async deleteServiceCancellationPolicy(serviceId: number): Promise<void> {
+    await db().delete(serviceCancellationPolicies).where(eq(serviceCancellationPolicies.serviceId, serviceId));
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await db().select().from(platformSettings).where(eq(platformSettings.key, key));
+    return setting ? setting.value as T : undefined;
+  }
+
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await db()
+      .insert(platformSettings)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: platformSettings.key, set: { value, updatedAt: new Date() } });
+  }
+
   async getAllDoctors(): Promise<User[]> {
-    const doctors = await db.select().from(users).where(eq(users.role, 'doctor'));
+    const doctors = await db().select().from(users).where(eq(users.role, 'doctor'));
     return doctors;
   }
+
+  async getReceptionists(practiceOwnerId?: number): Promise<User[]> {
+    return await db()
+      .select()
+      .from(users)
+      .where(and(
+        eq(users.role, 'receptionist'),
+        practiceOwnerId ? eq(users.practiceOwnerId, practiceOwnerId) : undefined
+      ))
+      .orderBy(asc(users.lastName));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+
+// The user's remaining backup code hashes, used up the way the users table does it
+const { storage, backupCodes } = vi.hoisted(() => {
+  const backupCodes: string[] = [];
+  return {
+    backupCodes,
+    storage: {
+      recordTotpStep: vi.fn(async () => true),
+      useBackupCode: vi.fn(async (_userId: number, codeHash: string) => {
+        const index = backupCodes.indexOf(codeHash);
+        if (index === -1) return false;
+        backupCodes.splice(index, 1);
+        return true;
+      }),
+    },
+  };
+});
+
+vi.mock("./storage", () => ({ storage }));
+
+const { generateBackupCodes, hashBackupCode, verifyTotp } = await import("./totp");
+const { verifySecondFactor } = await import("./auth");
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890", in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+// RFC 6238 test vector: at 1111111109 seconds the code is 07081804, of which an authenticator shows the last six digits
+const VECTOR_TIME = 1111111109 * 1000;
+const VECTOR_CODE = '081804';
+const VECTOR_STEP = Math.floor(1111111109 / 30);
+
+describe('verifyTotp', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(VECTOR_TIME);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the current code and returns its time step', () => {
+    expect(verifyTotp(SECRET, VECTOR_CODE)).toBe(VECTOR_STEP);
+  });
+
+  it('allows one step of clock drift either way, and no more', () => {
+    vi.setSystemTime(VECTOR_TIME + 30 * 1000);
+    expect(verifyTotp(SECRET, VECTOR_CODE)).toBe(VECTOR_STEP);
+
+    vi.setSystemTime(VECTOR_TIME - 30 * 1000);
+    expect(verifyTotp(SECRET, VECTOR_CODE)).toBe(VECTOR_STEP);
+
+    vi.setSystemTime(VECTOR_TIME + 60 * 1000);
+    expect(verifyTotp(SECRET, VECTOR_CODE)).toBeNull();
+  });
+
+  it('refuses a wrong or malformed code', () => {
+    expect(verifyTotp(SECRET, '000000')).toBeNull();
+    expect(verifyTotp(SECRET, '08180')).toBeNull();
+    expect(verifyTotp(SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('refuses a code from a step that was already used', () => {
+    expect(verifyTotp(SECRET, VECTOR_CODE, VECTOR_STEP)).toBeNull();
+    expect(verifyTotp(SECRET, VECTOR_CODE, VECTOR_STEP - 1)).toBe(VECTOR_STEP);
+  });
+});
+
+describe('backup codes', () => {
+  it('generates ten distinct codes and stores only their hashes', () => {
+    const { codes, hashes } = generateBackupCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes.every(code => /^[0-9a-f]{5}-[0-9a-f]{5}$/.test(code))).toBe(true);
+    expect(hashes).toEqual(codes.map(hashBackupCode));
+    expect(hashes).not.toContain(codes[0]);
+  });
+
+  it('hashes a code the same however it is typed', () => {
+    expect(hashBackupCode(' AB12C 3de45 ')).toBe(hashBackupCode('ab12c-3de45'));
+  });
+});
+
+describe('verifySecondFactor', () => {
+  const user = { id: 1, totpSecret: SECRET, totpLastStep: null } as User;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(VECTOR_TIME);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the step of an authenticator code so it cannot be used again', async () => {
+    expect(await verifySecondFactor(user, VECTOR_CODE)).toBe(true);
+    expect(storage.recordTotpStep).toHaveBeenCalledWith(1, VECTOR_STEP);
+    expect(storage.useBackupCode).not.toHaveBeenCalled();
+  });
+
+  it('uses up a backup code', async () => {
+    const { codes, hashes } = generateBackupCodes();
+    backupCodes.splice(0, backupCodes.length, ...hashes);
+
+    expect(await verifySecondFactor(user, codes[3].toUpperCase())).toBe(true);
+    expect(backupCodes).toHaveLength(9);
+    expect(await verifySecondFactor(user, codes[3])).toBe(false);
+  });
+
+  it('refuses every code while two-factor is not set up', async () => {
+    expect(await verifySecondFactor({ ...user, totpSecret: null }, VECTOR_CODE)).toBe(false);
+    expect(storage.useBackupCode).not.toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,38 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Users table (Admin and Doctor roles)
+// Users table (Admin, Doctor, Receptionist and Staff roles)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
+  emailVerifiedAt: timestamp("email_verified_at"),
   password: text("password").notNull(),
-  role: text("role").notNull(), // 'admin' or 'doctor'
+  role: text("role").notNull(), // 'admin', 'doctor', 'receptionist' or 'staff'
+  practiceOwnerId: integer("practice_owner_id").references((): AnyPgColumn => users.id), // Receptionists and staff: the doctor whose practice they work for
+  staffId: integer("staff_id").references((): AnyPgColumn => staff.id), // Staff: the staff profile whose schedule they sign in to
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
+  practiceName: text("practice_name"), // Shown on invoices and statements; falls back to the doctor's name
+  // Billing provider details sent on insurance claims
+  npi: text("npi"),
+  taxId: text("tax_id"),
+  practiceAddress: text("practice_address"), // "street, city, ST 12345"
+  bookingSlug: text("booking_slug").unique(), // Public booking page at /book/<slug>; online booking is off while unset
   isActive: boolean("is_active").default(true),
+  tokenVersion: integer("token_version").notNull().default(0), // Bumped to kill every access token issued before a password change, deactivation or sign-out everywhere
+  // Two-factor authentication; the secret is set during enrollment and only counts once totpEnabledAt is set
+  totpSecret: text("totp_secret"), // base32
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"), // Time step of the last accepted code, so a code can't be used twice
+  totpBackupCodes: text("totp_backup_codes").array(), // sha256 of the unused backup codes
+  // Sign-in lockout
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // Consecutive failures since the last successful sign-in
+  lockedUntil: timestamp("locked_until"),
   // Subscription fields
-  subscriptionStatus: text("subscription_status").default("inactive"), // 'active', 'inactive', 'cancelled'
+  subscriptionStatus: text("subscription_status").default("inactive"), // 'active', 'trial', 'inactive', 'cancelled'
   subscriptionStartDate: timestamp("subscription_start_date"),
   subscriptionEndDate: timestamp("subscription_end_date"),
   stripeCustomerId: text("stripe_customer_id"),
@@ -52,7 +70,7 @@ export const patients = pgTable("patients", {
   phone: text("phone"),
   dateOfBirth: timestamp("date_of_birth"),
   address: text("address"),
-  insuranceInfo: jsonb("insurance_info"),
+  insuranceInfo: jsonb("insurance_info").$type<InsuranceInfo>(), // validated by insuranceInfoSchema
   medicalHistory: text("medical_history"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -76,6 +94,9 @@ export const services = pgTable("services", {
   categoryId: integer("category_id").references(() => serviceCategories.id),
   duration: integer("duration").notNull(), // in minutes
   price: decimal("price", { precision: 10, scale: 2 }),
+  procedureCode: text("procedure_code"), // CPT/HCPCS code billed on insurance claims
+  billNoShows: boolean("bill_no_shows").default(false),
+  noShowFee: decimal("no_show_fee", { precision: 10, scale: 2 }),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -97,9 +118,10 @@ export const appointments = pgTable("appointments", {
   serviceId: integer("service_id").references(() => services.id).notNull(),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
-  status: text("status").notNull().default("scheduled"), // 'scheduled', 'completed', 'cancelled', 'no_show'
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'confirmed' (by the patient), 'checked_in', 'completed', 'cancelled', 'no_show'
   notes: text("notes"),
   recurringRuleId: integer("recurring_rule_id").references(() => recurringAppointmentRules.id),
+  rescheduleCount: integer("reschedule_count").notNull().default(0), // Times the start time has moved; counted against the cancellation policy's limit
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -133,18 +155,73 @@ export const patientServiceAllowances = pgTable("patient_service_allowances", {
 // Billing records
 export const billingRecords = pgTable("billing_records", {
   id: serial("id").primaryKey(),
-  appointmentId: integer("appointment_id").references(() => appointments.id).notNull(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).notNull().unique(), // one charge per appointment
   patientId: integer("patient_id").references(() => patients.id).notNull(),
   serviceId: integer("service_id").references(() => services.id).notNull(),
+  chargeType: text("charge_type").notNull().default("visit"), // 'visit', 'no_show', 'late_cancellation'
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   billingDate: timestamp("billing_date").notNull(),
   paymentDate: timestamp("payment_date"),
   paymentStatus: text("payment_status").default("pending"), // 'pending', 'paid', 'denied'
-  insuranceClaim: text("insurance_claim"),
+  insurancePaidAmount: decimal("insurance_paid_amount", { precision: 10, scale: 2 }), // what the payer paid, from its remittance
+  patientResponsibility: decimal("patient_responsibility", { precision: 10, scale: 2 }), // what the patient still owes once the payer has settled; null until then
+  insuranceClaim: text("insurance_claim"), // claim number of the linked insurance claim, if any
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Insurance claims - at most one per billing record, carrying a snapshot of the patient's coverage when filed
+export const insuranceClaims = pgTable("insurance_claims", {
+  id: serial("id").primaryKey(),
+  billingRecordId: integer("billing_record_id").references(() => billingRecords.id).notNull().unique(),
+  claimNumber: text("claim_number").notNull().unique(),
+  status: text("status").notNull().default("draft"), // 'draft', 'submitted', 'accepted', 'denied', 'paid'
+  payerName: text("payer_name").notNull(),
+  payerId: text("payer_id"),
+  memberId: text("member_id").notNull(),
+  groupNumber: text("group_number"),
+  billedAmount: decimal("billed_amount", { precision: 10, scale: 2 }).notNull(),
+  diagnosisCodes: jsonb("diagnosis_codes").$type<string[]>(), // ICD-10-CM, primary first
+  paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }),
+  denialReason: text("denial_reason"),
+  submittedAt: timestamp("submitted_at"),
+  respondedAt: timestamp("responded_at"), // when the payer accepted or denied the claim
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Remittance advice (X12 835) files imported from payers, one row per payment
+export const remittanceAdvices = pgTable("remittance_advices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // who imported the file
+  fileName: text("file_name"),
+  payerName: text("payer_name"),
+  traceNumber: text("trace_number"), // check or EFT number from TRN02
+  paymentAmount: decimal("payment_amount", { precision: 10, scale: 2 }).notNull(),
+  paymentDate: timestamp("payment_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Claim-level payments from a remittance; unmatched rows form the manual reconciliation queue
+export const remittanceClaims = pgTable("remittance_claims", {
+  id: serial("id").primaryKey(),
+  remittanceId: integer("remittance_id").references(() => remittanceAdvices.id).notNull(),
+  claimNumber: text("claim_number").notNull(), // CLP01, our claim number echoed back
+  payerClaimNumber: text("payer_claim_number"),
+  statusCode: text("status_code").notNull(), // CLP02: 1-3 processed, 4 denied, 22 reversal
+  chargedAmount: decimal("charged_amount", { precision: 10, scale: 2 }).notNull(),
+  paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).notNull(),
+  patientResponsibility: decimal("patient_responsibility", { precision: 10, scale: 2 }),
+  adjustments: jsonb("adjustments").$type<RemittanceAdjustment[]>(),
+  billingRecordId: integer("billing_record_id").references(() => billingRecords.id),
+  matchStatus: text("match_status").notNull().default("unmatched"), // 'matched', 'unmatched', 'dismissed'
+  unmatchedReason: text("unmatched_reason"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Staff availability exclusions (for handling time off, etc.)
 export const staffAvailabilityExclusions = pgTable("staff_availability_exclusions", {
   id: serial("id").primaryKey(),
@@ -152,6 +229,169 @@ export const staffAvailabilityExclusions = pgTable("staff_availability_exclusion
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   reason: text("reason"),
+  status: text("status").notNull().default("approved"), // 'pending', 'approved', 'rejected'; staff requests start pending and only approved time off blocks bookings
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Server-side refresh tokens; each use rotates to a new token and logging out revokes it
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token the client holds
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  replacedById: integer("replaced_by_id"), // The token this one was rotated into; set only by a refresh
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use, time-limited tokens emailed to a user
+export const userTokens = pgTable("user_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").notNull(), // 'password_reset' or 'email_verification'
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use sign-in links for the patient portal, sent to the email address on the patient's record
+export const patientLoginTokens = pgTable("patient_login_tokens", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Field-by-field change of one record; a created record has every `from` null, a hard-deleted one every `to`
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Who changed which clinical or billing record, when and how
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // Null for changes made outside a signed-in request
+  actorRole: text("actor_role"),
+  tenantId: integer("tenant_id").references(() => users.id), // Doctor whose practice the record belongs to
+  entityType: text("entity_type").notNull(), // 'patient', 'patientAllowance', 'appointment', 'staff', 'service', 'billingRecord', 'insuranceClaim' or 'remittanceClaim'
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // 'create', 'update' or 'delete'
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A doctor's appointment reminder setup; practices without a row get the defaults in server/reminders.ts
+export const reminderSettings = pgTable("reminder_settings", {
+  doctorId: integer("doctor_id").references(() => users.id).primaryKey(),
+  enabled: boolean("enabled").notNull().default(true),
+  offsetsMinutes: integer("offsets_minutes").array().notNull(), // How long before the start time each reminder goes out, e.g. 2880 and 120
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  smsEnabled: boolean("sms_enabled").notNull().default(true),
+  // Templates; {{placeholders}} are filled in per appointment when the reminder is sent
+  emailSubject: text("email_subject").notNull(),
+  emailBody: text("email_body").notNull(),
+  smsBody: text("sms_body").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A doctor's cancellation rules; practices without a row get the defaults in server/cancellationPolicy.ts
+export const cancellationPolicies = pgTable("cancellation_policies", {
+  doctorId: integer("doctor_id").references(() => users.id).primaryKey(),
+  noticeHours: integer("notice_hours").notNull(), // Patients can't cancel or move an appointment online once it starts within this many hours
+  maxReschedules: integer("max_reschedules"), // Null for no limit
+  lateCancelFeePercent: integer("late_cancel_fee_percent").notNull().default(0), // Share of the service price charged for a cancellation inside the notice period
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A service with its own cancellation rules; every field replaces the practice's policy for that service
+export const serviceCancellationPolicies = pgTable("service_cancellation_policies", {
+  serviceId: integer("service_id").references(() => services.id).primaryKey(),
+  noticeHours: integer("notice_hours").notNull(),
+  maxReschedules: integer("max_reschedules"),
+  lateCancelFeePercent: integer("late_cancel_fee_percent").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One reminder to one patient over one channel, and how its delivery went
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).notNull(),
+  doctorId: integer("doctor_id").references(() => users.id).notNull(),
+  channel: text("channel").notNull(), // 'email' or 'sms'
+  offsetMinutes: integer("offset_minutes").notNull(),
+  appointmentStart: timestamp("appointment_start").notNull(), // Start time it reminds of; a rescheduled appointment gets new reminders
+  recipient: text("recipient").notNull(), // Email address or phone number at the time it was scheduled
+  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'failed' (out of retries) or 'skipped' (cancelled or moved)
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    reminderIdx: unique().on(table.appointmentId, table.channel, table.offsetMinutes, table.appointmentStart),
+  };
+});
+
+// A booking made on a practice's public page, held until the patient confirms it from the emailed link
+export const bookingRequests = pgTable("booking_requests", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").references(() => users.id).notNull(),
+  serviceId: integer("service_id").references(() => services.id).notNull(),
+  staffId: integer("staff_id").references(() => staff.id).notNull(),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  firstName: text("first_name").notNull(),
+  lastName: text("last_name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token in the emailed link
+  expiresAt: timestamp("expires_at").notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+  appointmentId: integer("appointment_id").references(() => appointments.id), // Set once confirmed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What a patient answered through the link in a reminder, until someone at the practice has seen it
+export const appointmentResponses = pgTable("appointment_responses", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).notNull(),
+  doctorId: integer("doctor_id").references(() => users.id).notNull(),
+  response: text("response").notNull(), // 'confirm', 'cancel' or 'reschedule'
+  note: text("note"), // From the patient, e.g. times that would suit them better
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Failed sign-in attempts, kept for security review
+export const failedLogins = pgTable("failed_logins", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(), // As typed, so attempts on unknown accounts show up too
+  userId: integer("user_id").references(() => users.id),
+  reason: text("reason").notNull(), // 'unknown_email', 'wrong_password', 'wrong_code', 'inactive' or 'locked'
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Platform-wide settings admins can change, e.g. 'requireDoctorTwoFactor'
+export const platformSettings = pgTable("platform_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Invites that let a staff member create a login for their staff profile
+export const staffInvites = pgTable("staff_invites", {
+  id: serial("id").primaryKey(),
+  staffId: integer("staff_id").references(() => staff.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token in the invite link; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -165,6 +405,7 @@ export const staffRelations = relations(staff, ({ one, many }) => ({
   appointments: many(appointments),
   staffServices: many(staffServices),
   availabilityExclusions: many(staffAvailabilityExclusions),
+  invites: many(staffInvites),
 }));
 
 export const patientsRelations = relations(patients, ({ many }) => ({
@@ -211,24 +452,276 @@ export const billingRecordsRelations = relations(billingRecords, ({ one }) => ({
   appointment: one(appointments, { fields: [billingRecords.appointmentId], references: [appointments.id] }),
   patient: one(patients, { fields: [billingRecords.patientId], references: [patients.id] }),
   service: one(services, { fields: [billingRecords.serviceId], references: [services.id] }),
+  claim: one(insuranceClaims, { fields: [billingRecords.id], references: [insuranceClaims.billingRecordId] }),
+}));
+
+export const insuranceClaimsRelations = relations(insuranceClaims, ({ one }) => ({
+  billingRecord: one(billingRecords, { fields: [insuranceClaims.billingRecordId], references: [billingRecords.id] }),
+}));
+
+export const remittanceAdvicesRelations = relations(remittanceAdvices, ({ many }) => ({
+  claims: many(remittanceClaims),
+}));
+
+export const remittanceClaimsRelations = relations(remittanceClaims, ({ one }) => ({
+  remittance: one(remittanceAdvices, { fields: [remittanceClaims.remittanceId], references: [remittanceAdvices.id] }),
+  billingRecord: one(billingRecords, { fields: [remittanceClaims.billingRecordId], references: [billingRecords.id] }),
 }));
 
 export const staffAvailabilityExclusionsRelations = relations(staffAvailabilityExclusions, ({ one }) => ({
   staff: one(staff, { fields: [staffAvailabilityExclusions.staffId], references: [staff.id] }),
 }));
 
+export const staffInvitesRelations = relations(staffInvites, ({ one }) => ({
+  staff: one(staff, { fields: [staffInvites.staffId], references: [staff.id] }),
+}));
+
+// Structured insurance coverage stored in patients.insuranceInfo
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const POLICY_HOLDER_RELATIONSHIPS = ["self", "spouse", "child", "other"] as const;
+
+export const insuranceInfoSchema = z.object({
+  payerName: z.string().min(1, "Payer name is required"),
+  payerId: z.string().optional(), // clearinghouse payer ID, required before a claim can be exported
+  memberId: z.string().min(1, "Member ID is required"),
+  groupNumber: z.string().optional(),
+  policyHolder: z.object({
+    firstName: z.string().min(1, "Policy holder first name is required"),
+    lastName: z.string().min(1, "Policy holder last name is required"),
+    relationship: z.enum(POLICY_HOLDER_RELATIONSHIPS),
+    dateOfBirth: isoDateSchema.optional(),
+  }),
+  coverageStart: isoDateSchema,
+  coverageEnd: isoDateSchema.optional(),
+}).refine(info => !info.coverageEnd || info.coverageEnd >= info.coverageStart, {
+  message: "Coverage end must be on or after coverage start",
+  path: ["coverageEnd"],
+});
+
+// ICD-10-CM code, with or without the dot after the category
+export const diagnosisCodeSchema = z.string().regex(/^[A-TV-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/i, "Invalid ICD-10 code");
+
+// A CAS adjustment: group (CO, PR, OA, PI, CR), CARC reason code and amount
+export const remittanceAdjustmentSchema = z.object({
+  group: z.string(),
+  reason: z.string(),
+  amount: z.string(),
+});
+
+// Billing provider details a doctor maintains for claim export
+export const practiceDetailsSchema = z.object({
+  practiceName: z.string().nullable().optional(),
+  npi: z.string().regex(/^\d{10}$/, "NPI must be 10 digits").nullable().optional(),
+  taxId: z.string().regex(/^\d{2}-?\d{7}$/, "Tax ID must be 9 digits").nullable().optional(),
+  practiceAddress: z.string().nullable().optional(),
+});
+
+// Front-desk account a doctor (or an admin, naming the practice) creates for a receptionist
+export const receptionistInviteSchema = z.object({
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  email: z.string().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  practiceOwnerId: z.number().int().optional(),
+});
+
+// Self-service sign-up creates a doctor account; the subscription is started separately
+export const registerSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  email: z.string().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  practiceName: z.string().optional(),
+});
+
+// Password a staff member picks when accepting their invite
+export const staffInviteAcceptSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Time off: staff request it for themselves, doctors may enter it for any of their staff
+export const timeOffRequestSchema = z.object({
+  staffId: z.number().int().optional(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  reason: z.string().optional(),
+}).refine(request => request.endTime > request.startTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Two-factor: a code from the authenticator app, or a backup code where noted
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+// Second login step: the challenge from the password step plus a code or backup code
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(1),
+});
+
+// Lowercase letters, digits and inner dashes, e.g. "smith-physio"
+export const bookingSettingsSchema = z.object({
+  bookingSlug: z.string().trim().toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/, "Use 3-50 lowercase letters, numbers and dashes")
+    .nullable(),
+});
+
+// What a patient fills in on a practice's public booking page
+export const publicBookingSchema = z.object({
+  serviceId: z.number().int(),
+  staffId: z.number().int(),
+  startTime: z.coerce.date(),
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().min(1).max(100),
+  email: z.string().trim().toLowerCase().email(),
+  phone: z.string().trim().max(30).optional(),
+});
+
+// Patient portal: signing in by email link, and what a signed-in patient may change
+export const portalLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+export const portalSessionSchema = z.object({
+  token: z.string().min(1),
+});
+
+// A field left out stays as it is; null or an empty string clears it
+export const portalContactSchema = z.object({
+  phone: z.string().trim().max(30).nullable().optional(),
+  address: z.string().trim().max(500).nullable().optional(),
+});
+
+export const portalRescheduleSchema = z.object({
+  startTime: z.coerce.date(),
+});
+
+// A patient's answer from the link in a reminder; only a reschedule request carries a note
+export const appointmentLinkResponseSchema = z.object({
+  response: z.enum(["confirm", "cancel", "reschedule"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Up to five reminders, from 5 minutes to 14 days ahead
+export const reminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  offsetsMinutes: z.array(z.number().int().min(5).max(20160)).min(1).max(5),
+  emailEnabled: z.boolean(),
+  smsEnabled: z.boolean(),
+  emailSubject: z.string().trim().min(1).max(200),
+  emailBody: z.string().trim().min(1).max(5000),
+  smsBody: z.string().trim().min(1).max(480),
+});
+
+export const cancellationPolicySchema = z.object({
+  noticeHours: z.number().int().min(0).max(24 * 30),
+  maxReschedules: z.number().int().min(0).max(50).nullable(),
+  lateCancelFeePercent: z.number().int().min(0).max(100),
+});
+
+export const SUBSCRIPTION_STATUSES = ["active", "trial", "inactive", "cancelled"] as const;
+
+// An admin setting a doctor's subscription by hand
+export const subscriptionUpdateSchema = z.object({
+  status: z.enum(SUBSCRIPTION_STATUSES),
+});
+
+export const securitySettingsSchema = z.object({
+  requireDoctorTwoFactor: z.boolean(),
+});
+
+// Refresh, logout: the client hands back the refresh token it was issued
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const timeOffReviewSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+});
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true, tokenVersion: true, totpSecret: true, totpEnabledAt: true, totpLastStep: true, totpBackupCodes: true,
+  failedLoginCount: true, lockedUntil: true, createdAt: true, updatedAt: true,
+});
 export const insertStaffSchema = createInsertSchema(staff).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertPatientSchema = createInsertSchema(patients).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPatientSchema = createInsertSchema(patients, {
+  insuranceInfo: insuranceInfoSchema.nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertServiceCategorySchema = createInsertSchema(serviceCategories).omit({ id: true, createdAt: true });
 export const insertServiceSchema = createInsertSchema(services).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertStaffServiceSchema = createInsertSchema(staffServices).omit({ id: true, createdAt: true });
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertRecurringRuleSchema = createInsertSchema(recurringAppointmentRules).omit({ id: true, createdAt: true });
-export const insertPatientAllowanceSchema = createInsertSchema(patientServiceAllowances).omit({ id: true, createdAt: true });
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+}).omit({ id: true, createdAt: true, updatedAt: true, rescheduleCount: true });
+export const insertRecurringRuleSchema = createInsertSchema(recurringAppointmentRules, {
+  frequency: z.enum(["weekly", "monthly"]),
+  interval: z.number().int().min(1).max(52).optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(), // 0 = Sunday, as Date.getDay()
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertPatientAllowanceSchema = createInsertSchema(patientServiceAllowances, {
+  allowedSessions: z.number().int().min(0),
+  usedSessions: z.number().int().min(0).optional(),
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+}).omit({ id: true, createdAt: true });
 export const insertBillingRecordSchema = createInsertSchema(billingRecords).omit({ id: true, createdAt: true });
+export const insertInsuranceClaimSchema = createInsertSchema(insuranceClaims, {
+  diagnosisCodes: z.array(diagnosisCodeSchema).max(12).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRemittanceAdviceSchema = createInsertSchema(remittanceAdvices).omit({ id: true, createdAt: true });
+export const insertRemittanceClaimSchema = createInsertSchema(remittanceClaims, {
+  adjustments: z.array(remittanceAdjustmentSchema).nullable().optional(),
+}).omit({ id: true, createdAt: true });
 export const insertStaffExclusionSchema = createInsertSchema(staffAvailabilityExclusions).omit({ id: true, createdAt: true });
+export const insertStaffInviteSchema = createInsertSchema(staffInvites).omit({ id: true, createdAt: true });
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({ id: true, createdAt: true });
+export const insertUserTokenSchema = createInsertSchema(userTokens).omit({ id: true, createdAt: true });
+export const insertFailedLoginSchema = createInsertSchema(failedLogins).omit({ id: true, createdAt: true });
+export const insertAppointmentReminderSchema = createInsertSchema(appointmentReminders).omit({ id: true, createdAt: true });
+export const insertAppointmentResponseSchema = createInsertSchema(appointmentResponses).omit({ id: true, createdAt: true });
+export const insertBookingRequestSchema = createInsertSchema(bookingRequests).omit({ id: true, createdAt: true });
+export const insertPatientLoginTokenSchema = createInsertSchema(patientLoginTokens).omit({ id: true, createdAt: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs, {
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+}).omit({ id: true, createdAt: true });
+
+// Weekly staff schedule stored in staff.availability, keyed by lowercase weekday
+export const availabilityWindowSchema = z.object({
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm"),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm"),
+});
+
+export const weeklyAvailabilitySchema = z.object({
+  sunday: z.array(availabilityWindowSchema).optional(),
+  monday: z.array(availabilityWindowSchema).optional(),
+  tuesday: z.array(availabilityWindowSchema).optional(),
+  wednesday: z.array(availabilityWindowSchema).optional(),
+  thursday: z.array(availabilityWindowSchema).optional(),
+  friday: z.array(availabilityWindowSchema).optional(),
+  saturday: z.array(availabilityWindowSchema).optional(),
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -251,5 +744,39 @@ export type PatientServiceAllowance = typeof patientServiceAllowances.$inferSele
 export type InsertPatientAllowance = z.infer<typeof insertPatientAllowanceSchema>;
 export type BillingRecord = typeof billingRecords.$inferSelect;
 export type InsertBillingRecord = z.infer<typeof insertBillingRecordSchema>;
+export type InsuranceClaim = typeof insuranceClaims.$inferSelect;
+export type InsertInsuranceClaim = z.infer<typeof insertInsuranceClaimSchema>;
+export type InsuranceInfo = z.infer<typeof insuranceInfoSchema>;
+export type RemittanceAdvice = typeof remittanceAdvices.$inferSelect;
+export type InsertRemittanceAdvice = z.infer<typeof insertRemittanceAdviceSchema>;
+export type RemittanceClaim = typeof remittanceClaims.$inferSelect;
+export type InsertRemittanceClaim = z.infer<typeof insertRemittanceClaimSchema>;
+export type RemittanceAdjustment = z.infer<typeof remittanceAdjustmentSchema>;
 export type StaffAvailabilityExclusion = typeof staffAvailabilityExclusions.$inferSelect;
 export type InsertStaffExclusion = z.infer<typeof insertStaffExclusionSchema>;
+export type StaffInvite = typeof staffInvites.$inferSelect;
+export type InsertStaffInvite = z.infer<typeof insertStaffInviteSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+export type UserToken = typeof userTokens.$inferSelect;
+export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
+export type PlatformSetting = typeof platformSettings.$inferSelect;
+export type FailedLogin = typeof failedLogins.$inferSelect;
+export type InsertFailedLogin = z.infer<typeof insertFailedLoginSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type ReminderSettings = typeof reminderSettings.$inferSelect;
+export type ReminderSettingsInput = z.infer<typeof reminderSettingsSchema>;
+export type CancellationPolicy = typeof cancellationPolicies.$inferSelect;
+export type CancellationPolicyInput = z.infer<typeof cancellationPolicySchema>;
+export type ServiceCancellationPolicy = typeof serviceCancellationPolicies.$inferSelect;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type InsertAppointmentReminder = z.infer<typeof insertAppointmentReminderSchema>;
+export type AppointmentResponse = typeof appointmentResponses.$inferSelect;
+export type InsertAppointmentResponse = z.infer<typeof insertAppointmentResponseSchema>;
+export type BookingRequest = typeof bookingRequests.$inferSelect;
+export type InsertBookingRequest = z.infer<typeof insertBookingRequestSchema>;
+export type PatientLoginToken = typeof patientLoginTokens.$inferSelect;
+export type InsertPatientLoginToken = z.infer<typeof insertPatientLoginTokenSchema>;
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>;
+export type WeeklyAvailability = z.infer<typeof weeklyAvailabilitySchema>;